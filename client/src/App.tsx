@@ -17,6 +17,7 @@ import QADashboard from "@/pages/qa-dashboard";
 import { GroupViewPage } from "@/pages/group-view";
 import { PutAsideManagerPage } from "@/pages/put-aside-manager";
 import Archives from "@/pages/archives";
+import WorkerAnalyticsPage from "@/pages/worker-analytics";
 import Settings from "@/pages/settings";
 import NotFound from "@/pages/not-found";
 
@@ -34,6 +35,7 @@ function Router() {
       <Route path="/group/:jobId/:groupName" component={GroupViewPage} />
       <Route path="/put-aside-manager" component={PutAsideManagerPage} />
       <Route path="/archives" component={Archives} />
+      <Route path="/worker-analytics" component={WorkerAnalyticsPage} />
       <Route path="/settings" component={Settings} />
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,83 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { CHECK_SESSION_HANDOVER_IDLE_MS, type ActiveCheckSession } from "@shared/schema";
+
+interface ActiveChecksPanelProps {
+  jobId: string;
+  onOpenCheck: (boxNumber: number) => void;
+}
+
+export function ActiveChecksPanel({ jobId, onOpenCheck }: ActiveChecksPanelProps) {
+  // Invalidated by check_session_update WebSocket messages; polling keeps idle times fresh
+  const { data, isLoading } = useQuery<{ activeChecks: ActiveCheckSession[] }>({
+    queryKey: [`/api/jobs/${jobId}/active-checks`],
+    enabled: !!jobId,
+    refetchInterval: 30000,
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-gray-500">Loading checks...</div>;
+  }
+
+  const activeChecks = data?.activeChecks || [];
+  if (activeChecks.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        No boxes are being checked
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="active-checks">
+      {activeChecks.map((check) => {
+        const isIdle = Date.now() - new Date(check.lastActivityTime).getTime() >= CHECK_SESSION_HANDOVER_IDLE_MS;
+        const percentage = check.totalItemsExpected > 0
+          ? Math.min(100, Math.round((check.totalItemsScanned / check.totalItemsExpected) * 100))
+          : 0;
+
+        return (
+          <div
+            key={check.sessionId}
+            className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 border rounded-lg bg-gray-50"
+            data-testid={`active-check-${check.boxNumber}`}
+          >
+            <div className="min-w-[12rem]">
+              <p className="font-medium text-gray-900">Box {check.boxNumber} · {check.customerName || 'Unassigned'}</p>
+              <p className="text-xs text-gray-500">
+                {check.checkerName}
+                {check.handedOverFromName && ` (taken over from ${check.handedOverFromName})`}
+              </p>
+            </div>
+
+            <div className="flex-1 md:mx-6">
+              <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                <span>{check.totalItemsScanned} of {check.totalItemsExpected} items scanned</span>
+                <span>Last activity {new Date(check.lastActivityTime).toLocaleTimeString()}</span>
+              </div>
+              <Progress value={percentage} className="h-2" />
+            </div>
+
+            <div className="flex items-center gap-2 md:justify-end">
+              {isIdle && (
+                <Badge variant="outline" className="text-xs border-amber-300 text-amber-700">
+                  Idle
+                </Badge>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onOpenCheck(check.boxNumber)}
+                data-testid={`button-open-check-${check.boxNumber}`}
+              >
+                Open
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,18 +1,53 @@
 import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Camera, CameraOff } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Camera, CameraOff, Flashlight, FlashlightOff } from "lucide-react";
+import {
+  captureScanRegion,
+  createBarcodeDecoder,
+  DEFAULT_BARCODE_SYMBOLOGIES,
+  SCAN_REGION_PRESETS,
+  type BarcodeDecoder,
+  type BarcodeSymbology,
+  type ScanRegionPreset,
+} from "@/lib/barcode-decoder";
+
+// Time between decode attempts - fast enough to feel instant without pinning a phone CPU
+const SCAN_INTERVAL_MS = 150;
 
 interface BarcodeScannerProps {
-  onScan: (barcode: string) => void;
+  onScan?: (barcode: string) => void;
   enabled?: boolean;
+  symbologies?: BarcodeSymbology[];
+  scanRegion?: ScanRegionPreset;
+  debounceMs?: number; // A code held in view is only read again once it has been out of view this long
 }
 
-export function BarcodeScanner({ onScan, enabled = true }: BarcodeScannerProps) {
+export function BarcodeScanner({
+  onScan,
+  enabled = true,
+  symbologies = DEFAULT_BARCODE_SYMBOLOGIES,
+  scanRegion = "wide",
+  debounceMs = 1000,
+}: BarcodeScannerProps) {
   const [isScanning, setIsScanning] = useState(false);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [regionPreset, setRegionPreset] = useState<ScanRegionPreset>(scanRegion);
+  const [lastRead, setLastRead] = useState<string | null>(null);
+  const [engine, setEngine] = useState<BarcodeDecoder["engine"] | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  // The scan loop outlives renders, so it reads the latest callback and settings through refs
+  const onScanRef = useRef(onScan);
+  const regionRef = useRef(regionPreset);
+  const lastSeenRef = useRef<{ code: string; at: number } | null>(null);
+  onScanRef.current = onScan;
+  regionRef.current = regionPreset;
 
   useEffect(() => {
     return () => {
@@ -23,6 +58,50 @@ export function BarcodeScanner({ onScan, enabled = true }: BarcodeScannerProps)
     };
   }, []);
 
+  // Continuous decode loop while the camera is running
+  useEffect(() => {
+    if (!isScanning) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const canvas = canvasRef.current || (canvasRef.current = document.createElement("canvas"));
+
+    const scanFrame = async (decoder: BarcodeDecoder) => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+
+      if (captureScanRegion(video, canvas, SCAN_REGION_PRESETS[regionRef.current].region)) {
+        const code = (await decoder.decode(canvas))?.trim();
+        if (cancelled) return;
+
+        if (code) {
+          const now = Date.now();
+          const lastSeen = lastSeenRef.current;
+          const isRepeat = lastSeen?.code === code && now - lastSeen.at < debounceMs;
+          lastSeenRef.current = { code, at: now };
+
+          if (!isRepeat) {
+            setLastRead(code);
+            onScanRef.current?.(code);
+          }
+        }
+      }
+
+      timer = setTimeout(() => scanFrame(decoder), SCAN_INTERVAL_MS);
+    };
+
+    createBarcodeDecoder(symbologies).then((decoder) => {
+      if (cancelled) return;
+      setEngine(decoder.engine);
+      scanFrame(decoder);
+    });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [isScanning, symbologies, debounceMs]);
+
   const startCamera = async () => {
     try {
       const constraints = {
@@ -35,12 +114,18 @@ export function BarcodeScanner({ onScan, enabled = true }: BarcodeScannerProps)
 
       const stream = await navigator.mediaDevices.getUserMedia(constraints);
       streamRef.current = stream;
-      
+
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         videoRef.current.play();
       }
-      
+
+      // Torch is only exposed on some mobile cameras
+      const [track] = stream.getVideoTracks();
+      const capabilities = track?.getCapabilities?.() as (MediaTrackCapabilities & { torch?: boolean }) | undefined;
+      setTorchSupported(!!capabilities?.torch);
+      setTorchOn(false);
+
       setIsScanning(true);
       setHasPermission(true);
     } catch (error) {
@@ -55,12 +140,15 @@ export function BarcodeScanner({ onScan, enabled = true }: BarcodeScannerProps)
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
-    
+
     if (videoRef.current) {
       videoRef.current.srcObject = null;
     }
-    
+
     setIsScanning(false);
+    setTorchOn(false);
+    setLastRead(null);
+    lastSeenRef.current = null;
   };
 
   const toggleCamera = () => {
@@ -71,100 +159,102 @@ export function BarcodeScanner({ onScan, enabled = true }: BarcodeScannerProps)
     }
   };
 
-  // Mock barcode detection - in production, integrate with a barcode scanning library
-  const simulateScan = () => {
-    const mockBarcodes = [
-      "1152689",
-      "1153606", 
-      "1153708",
-      "1154024",
-      "1154088",
-      "1154128",
-      "1154256",
-      "1154378",
-      "1154525"
-    ];
-    
-    const randomBarcode = mockBarcodes[Math.floor(Math.random() * mockBarcodes.length)];
-    onScan(randomBarcode);
+  const toggleTorch = async () => {
+    const [track] = streamRef.current?.getVideoTracks() || [];
+    if (!track) return;
+    try {
+      await track.applyConstraints({ advanced: [{ torch: !torchOn } as MediaTrackConstraintSet] });
+      setTorchOn(!torchOn);
+    } catch (error) {
+      console.error("Error toggling torch:", error);
+      setTorchSupported(false);
+    }
   };
 
   if (!enabled) {
     return null;
   }
 
-  // Only show the card when camera is actively scanning
-  if (!isScanning) {
-    return (
-      <div className="hidden">
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={toggleCamera}
-          data-testid="button-toggle-camera"
-        >
-          {isScanning ? (
-            <>
-              <CameraOff className="mr-2 h-4 w-4" />
-              Stop Camera
-            </>
-          ) : (
-            <>
-              <Camera className="mr-2 h-4 w-4" />
-              Start Camera
-            </>
-          )}
-        </Button>
-      </div>
-    );
-  }
+  const region = SCAN_REGION_PRESETS[regionPreset].region;
 
+  // The card stays mounted while hidden so the video element exists when the stream attaches
   return (
-    <Card className="bg-gray-50" data-testid="barcode-scanner">
+    <Card className={isScanning || hasPermission === false ? "bg-gray-50" : "hidden"} data-testid="barcode-scanner">
       <CardContent className="p-4">
-        <div className="flex items-center justify-between mb-4">
-          <h3 className="font-medium text-gray-900">Camera Scanner</h3>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={toggleCamera}
-            data-testid="button-toggle-camera"
-          >
-            <CameraOff className="mr-2 h-4 w-4" />
-            Stop Camera
-          </Button>
-        </div>
-
         {hasPermission === false && (
-          <div className="text-center py-4 text-red-600">
+          <div className="text-center py-4 text-red-600" data-testid="camera-permission-denied">
             Camera permission denied. Please enable camera access and try again.
           </div>
         )}
 
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h3 className="font-medium text-gray-900">Camera Scanner</h3>
+          <div className="flex items-center gap-2">
+            <Select value={regionPreset} onValueChange={(value) => setRegionPreset(value as ScanRegionPreset)}>
+              <SelectTrigger className="h-8 w-44" data-testid="select-scan-region">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SCAN_REGION_PRESETS) as ScanRegionPreset[]).map((preset) => (
+                  <SelectItem key={preset} value={preset}>{SCAN_REGION_PRESETS[preset].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {torchSupported && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={toggleTorch}
+                data-testid="button-toggle-torch"
+              >
+                {torchOn ? <FlashlightOff className="h-4 w-4" /> : <Flashlight className="h-4 w-4" />}
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={toggleCamera}
+              data-testid="button-toggle-camera"
+            >
+              {isScanning ? (
+                <>
+                  <CameraOff className="mr-2 h-4 w-4" />
+                  Stop Camera
+                </>
+              ) : (
+                <>
+                  <Camera className="mr-2 h-4 w-4" />
+                  Start Camera
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+
         <div className="relative">
           <video
             ref={videoRef}
-            className="w-full h-48 bg-black rounded-lg object-cover"
+            className="w-full h-auto bg-black rounded-lg"
             playsInline
             muted
             data-testid="camera-video"
           />
+          {/* Only the area inside this frame is decoded */}
           <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-            <div className="border-2 border-white w-48 h-32 rounded-lg opacity-50"></div>
-          </div>
-          
-          {/* Mock scan button for demonstration */}
-          <div className="absolute bottom-2 left-1/2 transform -translate-x-1/2">
-            <Button
-              size="sm"
-              onClick={simulateScan}
-              className="bg-white text-gray-900 hover:bg-gray-100"
-              data-testid="button-mock-scan"
-            >
-              Simulate Scan
-            </Button>
+            <div
+              className="border-2 border-white rounded-lg opacity-70"
+              style={{ width: `${region.width * 100}%`, height: `${region.height * 100}%` }}
+              data-testid="scan-region"
+            />
           </div>
         </div>
+
+        <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+          <span data-testid="camera-last-read">
+            {lastRead ? <>Last read: <span className="font-mono text-gray-900">{lastRead}</span></> : "Point the camera at a barcode"}
+          </span>
+          {engine && <span>{engine === "native" ? "Native decoder" : "ZXing decoder"}</span>}
+        </div>
       </CardContent>
     </Card>
   );
@@ -10,7 +10,8 @@ import { useAuth } from '@/hooks/use-auth';
 import { useUserPreferences } from '@/hooks/use-user-preferences';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
-import type { BoxRequirement as SchemaBoxRequirement } from '@shared/schema';
+import { ExportMenu, getLabelPrintOptions, getSpreadsheetExportOptions, type ExportOption } from '@/components/export-menu';
+import type { BoxHistory, BoxRequirement as SchemaBoxRequirement } from '@shared/schema';
 
 interface BoxDetailsModalProps {
   isOpen: boolean;
@@ -46,6 +47,12 @@ interface Worker {
   isActive: boolean;
 }
 
+// Customer who was in the box when it was emptied or transferred
+function getHistoryCustomerName(entry: BoxHistory): string {
+  const snapshot = entry.boxSnapshot as { items?: SchemaBoxRequirement[] } | null;
+  return snapshot?.items?.[0]?.customerName || 'Unknown';
+}
+
 export function BoxDetailsModal({
   isOpen,
   onClose,
@@ -80,6 +87,14 @@ export function BoxDetailsModal({
     enabled: isOpen && boxNumber !== null && !!jobId
   });
 
+  const canPrint = user?.role === 'manager' || user?.role === 'supervisor';
+
+  // Earlier empties/transfers of this box - their packing slips can be reprinted
+  const { data: boxHistoryResponse } = useQuery<{ history: BoxHistory[] }>({
+    queryKey: [`/api/jobs/${jobId}/boxes/${boxNumber}/history`],
+    enabled: isOpen && boxNumber !== null && !!jobId && canPrint
+  });
+
   // Empty Box mutation - MUST be called before early return
   const emptyBoxMutation = useMutation({
     mutationFn: async () => {
@@ -96,6 +111,7 @@ export function BoxDetailsModal({
       // Invalidate queries to refresh data
       queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/box-requirements`] });
       queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/progress`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/boxes/${boxNumber}/history`] });
       
       // Delay modal close to allow WebSocket events to process
       setIsClosingDelayed(true);
@@ -133,6 +149,7 @@ export function BoxDetailsModal({
       // Invalidate queries to refresh data
       queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/box-requirements`] });
       queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/progress`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/boxes/${boxNumber}/history`] });
       
       // Delay modal close to allow WebSocket events to process
       setIsClosingDelayed(true);
@@ -314,6 +331,28 @@ export function BoxDetailsModal({
             View detailed information about box contents, progress, and workers for {customerName}
           </DialogDescription>
         </DialogHeader>
+
+        {boxNumber !== null && canPrint && (
+          <div className="flex justify-end gap-2">
+            <ExportMenu
+              label="Print"
+              options={[
+                ...getLabelPrintOptions(`/api/jobs/${jobId}/boxes/${boxNumber}/label`),
+                { label: "Packing slip", url: `/api/jobs/${jobId}/customers/${encodeURIComponent(customerName)}/packing-slip` },
+                ...(boxHistoryResponse?.history || []).map((entry): ExportOption => ({
+                  label: `Packing slip - ${getHistoryCustomerName(entry)} (${entry.action} ${entry.timestamp ? new Date(entry.timestamp).toLocaleString() : ''})`,
+                  url: `/api/jobs/${jobId}/box-history/${entry.id}/packing-slip`,
+                })),
+              ]}
+              testId="button-print-box"
+            />
+            <ExportMenu
+              label="Packing List"
+              options={getSpreadsheetExportOptions(`/api/jobs/${jobId}/boxes/${boxNumber}/export`)}
+              testId="button-export-packing-list"
+            />
+          </div>
+        )}
         
         {/* Box Summary with Box Number in top-right */}
         <Card data-testid="box-summary-card">
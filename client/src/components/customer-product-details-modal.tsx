@@ -5,6 +5,7 @@ import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
 import { CheckCircle, XCircle, Package, User } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { ExportMenu, getSpreadsheetExportOptions } from '@/components/export-menu';
 
 interface CustomerProductDetailsModalProps {
   isOpen: boolean;
@@ -202,7 +203,16 @@ export function CustomerProductDetailsModal({
           </Card>
 
           {/* Footer */}
-          <div className="flex justify-end pt-4 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex justify-end gap-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <ExportMenu
+              label="Export Fulfilment"
+              size="default"
+              options={[
+                ...getSpreadsheetExportOptions(`/api/jobs/${jobId}/customers/${encodeURIComponent(customerName)}/export`),
+                { label: "Packing slip (PDF)", url: `/api/jobs/${jobId}/customers/${encodeURIComponent(customerName)}/packing-slip` },
+              ]}
+              testId="button-export-customer"
+            />
             <Button onClick={onClose} data-testid="button-close-customer-products">
               Close
             </Button>
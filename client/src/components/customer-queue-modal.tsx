@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
   Dialog,
   DialogContent,
@@ -9,7 +9,19 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
-import { Loader2, Users, Package, Tag } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Users, Package, Tag, GripVertical, Pin, Star, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import {
+  CUSTOMER_QUEUE_POLICIES,
+  CUSTOMER_QUEUE_POLICY_LABELS,
+  type CustomerQueue,
+  type CustomerQueueFlags,
+  type CustomerQueuePolicy,
+  type CustomerQueueUpdate,
+  type QueuedCustomer,
+} from '@shared/schema';
 import { CustomerProductDetailsModal } from './customer-product-details-modal';
 
 interface CustomerQueueModalProps {
@@ -19,26 +31,69 @@ interface CustomerQueueModalProps {
   jobName?: string;
 }
 
-interface UnallocatedCustomer {
-  customerName: string;
-  totalItems: number;
-  productCount: number;
-  groupName: string | null;
-}
-
 export function CustomerQueueModal({ isOpen, onClose, jobId, jobName }: CustomerQueueModalProps) {
-  const [selectedCustomer, setSelectedCustomer] = useState<UnallocatedCustomer | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedCustomer, setSelectedCustomer] = useState<QueuedCustomer | null>(null);
   const [isProductDetailsOpen, setIsProductDetailsOpen] = useState(false);
-  
-  const { data: customersData, isLoading, error } = useQuery({
-    queryKey: ['/api/jobs', jobId, 'unallocated-customers'],
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const queueQueryKey = ['/api/jobs', jobId, 'unallocated-customers'];
+  const { data: queue, isLoading, error } = useQuery<CustomerQueue>({
+    queryKey: queueQueryKey,
     enabled: isOpen && !!jobId,
     refetchInterval: 30000, // Refresh every 30 seconds when open
   });
 
-  const customers = (customersData as any)?.customers || [];
+  const customers = queue?.customers || [];
+
+  // Both endpoints answer with the reordered queue
+  const handleQueueSaved = (updatedQueue: CustomerQueue) => {
+    queryClient.setQueryData(queueQueryKey, updatedQueue);
+  };
+
+  const handleQueueError = (error: unknown) => {
+    toast({
+      title: "Queue not updated",
+      description: parseApiError(error).message || "Failed to update the customer queue",
+      variant: "destructive",
+    });
+    queryClient.invalidateQueries({ queryKey: queueQueryKey });
+  };
+
+  const updateQueueMutation = useMutation({
+    mutationFn: async (update: CustomerQueueUpdate) => {
+      const response = await apiRequest('PUT', `/api/jobs/${jobId}/customer-queue`, update);
+      return response.json() as Promise<CustomerQueue>;
+    },
+    onSuccess: handleQueueSaved,
+    onError: handleQueueError,
+  });
+
+  const flagsMutation = useMutation({
+    mutationFn: async ({ customerName, flags }: { customerName: string; flags: CustomerQueueFlags }) => {
+      const response = await apiRequest('PATCH', `/api/jobs/${jobId}/customer-queue/${encodeURIComponent(customerName)}`, flags);
+      return response.json() as Promise<CustomerQueue>;
+    },
+    onSuccess: handleQueueSaved,
+    onError: handleQueueError,
+  });
+
+  const isSaving = updateQueueMutation.isPending || flagsMutation.isPending;
 
-  const handleItemsClick = (customer: UnallocatedCustomer) => {
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex !== null && dragIndex !== targetIndex) {
+      const order = customers.map(customer => customer.customerName);
+      const [moved] = order.splice(dragIndex, 1);
+      order.splice(targetIndex, 0, moved);
+      updateQueueMutation.mutate({ order });
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleItemsClick = (customer: QueuedCustomer) => {
     setSelectedCustomer(customer);
     setIsProductDetailsOpen(true);
   };
@@ -74,6 +129,46 @@ export function CustomerQueueModal({ isOpen, onClose, jobId, jobName }: Customer
             </Badge>
           </div>
 
+          {/* Queue order: policy, manual drag order and pins */}
+          {queue && (
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Next box goes to:</span>
+                <Select
+                  value={queue.policy}
+                  onValueChange={(policy) => updateQueueMutation.mutate({ policy: policy as CustomerQueuePolicy })}
+                  disabled={isSaving}
+                >
+                  <SelectTrigger className="w-56" data-testid="select-queue-policy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CUSTOMER_QUEUE_POLICIES.map((policy) => (
+                      <SelectItem key={policy} value={policy}>
+                        {CUSTOMER_QUEUE_POLICY_LABELS[policy]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {queue.hasManualOrder && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateQueueMutation.mutate({ order: null })}
+                  disabled={isSaving}
+                  data-testid="button-reset-queue-order"
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Reset manual order
+                </Button>
+              )}
+              <p className="w-full text-xs text-gray-500 dark:text-gray-400">
+                Drag customers to reorder the queue. Pinned customers always go first.
+              </p>
+            </div>
+          )}
+
           {/* Loading State */}
           {isLoading && (
             <div className="flex items-center justify-center py-8">
@@ -107,13 +202,35 @@ export function CustomerQueueModal({ isOpen, onClose, jobId, jobName }: Customer
           {/* Customers List */}
           {!isLoading && !error && customers.length > 0 && (
             <div className="space-y-3">
-              {customers.map((customer: UnallocatedCustomer, index: number) => (
-                <Card key={`${customer.customerName}-${index}`} className="border-gray-200 dark:border-gray-700">
+              {customers.map((customer, index) => (
+                <Card
+                  key={`${customer.customerName}-${index}`}
+                  className={`border-gray-200 dark:border-gray-700 ${dropIndex === index && dragIndex !== index ? 'border-blue-500 dark:border-blue-400' : ''} ${dragIndex === index ? 'opacity-50' : ''}`}
+                  draggable={!isSaving}
+                  onDragStart={() => setDragIndex(index)}
+                  onDragOver={(event) => {
+                    event.preventDefault();
+                    setDropIndex(index);
+                  }}
+                  onDrop={(event) => {
+                    event.preventDefault();
+                    handleDrop(index);
+                  }}
+                  onDragEnd={() => {
+                    setDragIndex(null);
+                    setDropIndex(null);
+                  }}
+                  data-testid={`queue-customer-${customer.customerName}`}
+                >
                   <CardContent className="p-4">
                     <div className="flex items-center justify-between">
+                      <GripVertical className="h-5 w-5 mr-2 text-gray-400 cursor-grab" />
+                      <Badge variant="secondary" className="mr-3">#{customer.position}</Badge>
                       <div className="flex-1">
-                        <h4 className="font-medium text-gray-900 dark:text-gray-100 mb-1">
+                        <h4 className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100 mb-1">
                           {customer.customerName}
+                          {customer.isPinned && <Badge className="bg-blue-600">Pinned</Badge>}
+                          {customer.isPriority && <Badge className="bg-amber-500">Priority</Badge>}
                         </h4>
                         <div className="flex items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
                           <div className="flex items-center gap-1">
@@ -137,6 +254,26 @@ export function CustomerQueueModal({ isOpen, onClose, jobId, jobName }: Customer
                       </div>
                       
                       <div className="flex items-center gap-2">
+                        <Button
+                          variant={customer.isPinned ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => flagsMutation.mutate({ customerName: customer.customerName, flags: { isPinned: !customer.isPinned } })}
+                          disabled={isSaving}
+                          title={customer.isPinned ? "Unpin" : "Pin to the front of the queue"}
+                          data-testid={`button-pin-${customer.customerName}`}
+                        >
+                          <Pin className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant={customer.isPriority ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => flagsMutation.mutate({ customerName: customer.customerName, flags: { isPriority: !customer.isPriority } })}
+                          disabled={isSaving}
+                          title={customer.isPriority ? "Remove priority" : "Mark as priority customer"}
+                          data-testid={`button-priority-${customer.customerName}`}
+                        >
+                          <Star className="h-4 w-4" />
+                        </Button>
                         <Button 
                           variant="outline" 
                           size="sm"
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { parseApiError } from "@/lib/queryClient";
+import { downloadExport } from "@/lib/export-download";
+
+export interface ExportOption {
+  label: string;
+  url: string;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+  label?: string;
+  size?: "sm" | "default";
+  testId?: string;
+}
+
+export function ExportMenu({ options, label = "Export", size = "sm", testId = "export-menu" }: ExportMenuProps) {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (option: ExportOption) => {
+    setIsExporting(true);
+    try {
+      const filename = await downloadExport(option.url);
+      toast({
+        title: "Export downloaded",
+        description: filename,
+      });
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: parseApiError(error).message || "Failed to export. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} disabled={isExporting} data-testid={testId}>
+          <Download className="mr-1 h-4 w-4" />
+          {isExporting ? "Exporting..." : label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {options.map((option) => (
+          <DropdownMenuItem key={option.url} onSelect={() => handleExport(option)} data-testid={`${testId}-${option.label.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`}>
+            {option.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+// Excel and CSV variants of the same export
+export function getSpreadsheetExportOptions(url: string): ExportOption[] {
+  return [
+    { label: "Excel (.xlsx)", url: `${url}?format=xlsx` },
+    { label: "CSV", url: `${url}?format=csv` },
+  ];
+}
+
+// 4x6" thermal and A4 sheet variants of a box label PDF
+export function getLabelPrintOptions(url: string, label = "Box label"): ExportOption[] {
+  return [
+    { label: `${label} (4x6 thermal)`, url: `${url}?layout=thermal` },
+    { label: `${label} (A4 sheet)`, url: `${url}?layout=sheet` },
+  ];
+}
@@ -0,0 +1,336 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  REQUIRED_IMPORT_FIELDS,
+  type ImportColumnMapping,
+  type ImportField,
+  type ImportProfile,
+} from "@shared/schema";
+
+// Radix Select items cannot use an empty value
+const NOT_MAPPED = "__not_mapped__";
+const NO_PROFILE = "__no_profile__";
+
+export interface ImportSettings {
+  importProfileId: string | null;
+  columnMapping: ImportColumnMapping;
+  sheetName: string | null;
+  saveProfileName: string;
+  saveProfileCustomer: string;
+  isComplete: boolean; // Every required field is mapped to a column in the file
+}
+
+interface ImportInspection {
+  format: 'csv' | 'tsv' | 'xlsx';
+  headers: string[];
+  sampleRows: Record<string, string>[];
+  rowCount: number;
+  delimiter: string | null;
+  encoding: string | null;
+  sheetName: string | null;
+  sheetNames: string[];
+  suggestedMapping: ImportColumnMapping;
+  matchingProfile: ImportProfile | null;
+}
+
+interface ImportMappingOptions {
+  jobTypeId?: string;
+  requiredFields?: ImportField[]; // Job amendments only need barcode, customer and quantity
+  onChange?: () => void; // Any change to the file or its settings - callers drop previews made with the old ones
+}
+
+export type ImportMapping = ReturnType<typeof useImportMapping>;
+
+function describeDelimiter(delimiter: string | null): string {
+  if (delimiter === '\t') return 'tab';
+  if (delimiter === ',') return 'comma';
+  if (delimiter === ';') return 'semicolon';
+  if (delimiter === '|') return 'pipe';
+  return delimiter || '';
+}
+
+// Keep only the parts of a mapping that point at columns this file actually has
+function fitMappingToHeaders(mapping: ImportColumnMapping, headers: string[]): ImportColumnMapping {
+  const fitted: ImportColumnMapping = {};
+  IMPORT_FIELDS.forEach((field) => {
+    const column = mapping[field];
+    if (column && headers.includes(column)) {
+      fitted[field] = column;
+    }
+  });
+  return fitted;
+}
+
+/**
+ * The file being imported and how its columns map to job fields. The file input's change
+ * handler calls selectFile, which reads the file straight away; settings is what gets
+ * submitted with it.
+ */
+export function useImportMapping({ jobTypeId, requiredFields = REQUIRED_IMPORT_FIELDS, onChange }: ImportMappingOptions = {}) {
+  const [file, setFile] = useState<File | null>(null);
+  const [inspection, setInspection] = useState<ImportInspection | null>(null);
+  const [sheetName, setSheetName] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [saveProfileName, setSaveProfileName] = useState("");
+  const [saveProfileCustomer, setSaveProfileCustomer] = useState("");
+  const fileRef = useRef<File | null>(null);
+
+  const inspectMutation = useMutation({
+    mutationFn: async ({ file, sheetName }: { file: File; sheetName: string | null }): Promise<ImportInspection> => {
+      const formData = new FormData();
+      formData.append("csv", file);
+      if (jobTypeId) formData.append("jobTypeId", jobTypeId);
+      if (sheetName) formData.append("sheetName", sheetName);
+      const response = await apiRequest("POST", "/api/import/inspect", formData);
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      if (variables.file !== fileRef.current) return; // Another file was picked while this one was read
+      setInspection(data);
+      setSheetName(data.sheetName);
+
+      // A saved profile that fits this file is applied straight away - the upload is then one click
+      if (data.matchingProfile) {
+        setProfileId(data.matchingProfile.id);
+        setMapping(fitMappingToHeaders(data.matchingProfile.columnMapping as ImportColumnMapping, data.headers));
+      } else {
+        setProfileId(null);
+        setMapping(data.suggestedMapping);
+      }
+      onChange?.();
+    },
+  });
+
+  // A different file (or none) starts over
+  const selectFile = (nextFile: File | null) => {
+    fileRef.current = nextFile;
+    setFile(nextFile);
+    setInspection(null);
+    setSheetName(null);
+    setMapping({});
+    setProfileId(null);
+    if (nextFile) {
+      inspectMutation.mutate({ file: nextFile, sheetName: null });
+    } else {
+      inspectMutation.reset();
+    }
+    onChange?.();
+  };
+
+  const selectSheet = (nextSheetName: string) => {
+    if (file) inspectMutation.mutate({ file, sheetName: nextSheetName });
+  };
+
+  const headers = inspection?.headers || [];
+  const isComplete = !!inspection && requiredFields.every((field) => {
+    const column = mapping[field];
+    return !!column && headers.includes(column);
+  });
+
+  const selectProfile = (profile: ImportProfile | null) => {
+    setProfileId(profile?.id || null);
+    setMapping(profile ? fitMappingToHeaders(profile.columnMapping as ImportColumnMapping, headers) : inspection?.suggestedMapping || {});
+    if (profile && inspection?.format === 'xlsx' && profile.sheetName && profile.sheetName !== sheetName && inspection.sheetNames.includes(profile.sheetName)) {
+      selectSheet(profile.sheetName);
+    }
+    onChange?.();
+  };
+
+  const mapField = (field: ImportField, column: string | null) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (column === null) {
+        delete next[field];
+      } else {
+        next[field] = column;
+      }
+      return next;
+    });
+    onChange?.();
+  };
+
+  const settings: ImportSettings = {
+    importProfileId: profileId,
+    columnMapping: mapping,
+    sheetName,
+    saveProfileName,
+    saveProfileCustomer,
+    isComplete,
+  };
+
+  return {
+    file,
+    inspection,
+    isInspecting: inspectMutation.isPending,
+    inspectError: inspectMutation.error,
+    requiredFields,
+    settings,
+    selectFile,
+    selectSheet,
+    selectProfile,
+    mapField,
+    setSaveProfileName: (name: string) => {
+      setSaveProfileName(name);
+      onChange?.();
+    },
+    setSaveProfileCustomer: (customer: string) => {
+      setSaveProfileCustomer(customer);
+      onChange?.();
+    },
+  };
+}
+
+interface ImportColumnMapperProps {
+  importMapping: ImportMapping;
+  allowSaveProfile?: boolean;
+}
+
+export function ImportColumnMapper({ importMapping, allowSaveProfile = true }: ImportColumnMapperProps) {
+  const { file, inspection, requiredFields, settings } = importMapping;
+  const { columnMapping: mapping, importProfileId: profileId, sheetName, saveProfileName, saveProfileCustomer } = settings;
+
+  const { data: profilesData } = useQuery<{ profiles: ImportProfile[] }>({
+    queryKey: ["/api/import-profiles"],
+  });
+  const profiles = profilesData?.profiles || [];
+  const headers = inspection?.headers || [];
+
+  const handleProfileChange = (value: string) => {
+    if (value === NO_PROFILE) {
+      importMapping.selectProfile(null);
+      return;
+    }
+    const profile = profiles.find((candidate) => candidate.id === value);
+    if (profile) importMapping.selectProfile(profile);
+  };
+
+  const handleFieldChange = (field: ImportField, column: string) => {
+    importMapping.mapField(field, column === NOT_MAPPED ? null : column);
+  };
+
+  if (!file) return null;
+
+  if (importMapping.isInspecting && !inspection) {
+    return <div className="text-sm text-gray-500">Reading {file.name}...</div>;
+  }
+
+  if (importMapping.inspectError && !inspection) {
+    return (
+      <div className="text-sm text-red-600" data-testid="import-inspect-error">
+        {importMapping.inspectError.message || "Could not read this file"}
+      </div>
+    );
+  }
+
+  if (!inspection) return null;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4" data-testid="import-column-mapper">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        <Badge variant="secondary">{inspection.format.toUpperCase()}</Badge>
+        <span>{inspection.rowCount} rows</span>
+        {inspection.delimiter && <span>· {describeDelimiter(inspection.delimiter)} separated</span>}
+        {inspection.encoding && <span>· {inspection.encoding}</span>}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Import Profile</Label>
+          <Select value={profileId || NO_PROFILE} onValueChange={handleProfileChange}>
+            <SelectTrigger className="mt-1" data-testid="select-import-profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PROFILE}>Auto-detect columns</SelectItem>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}{profile.customerLabel ? ` (${profile.customerLabel})` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {inspection.format === 'xlsx' && inspection.sheetNames.length > 1 && (
+          <div>
+            <Label>Sheet</Label>
+            <Select value={sheetName || undefined} onValueChange={importMapping.selectSheet}>
+              <SelectTrigger className="mt-1" data-testid="select-import-sheet">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {inspection.sheetNames.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+        {IMPORT_FIELDS.map((field) => {
+          const isRequired = requiredFields.includes(field);
+          const column = mapping[field];
+          const sample = column ? inspection.sampleRows[0]?.[column] : undefined;
+
+          return (
+            <div key={field}>
+              <Label className={isRequired && !column ? "text-red-600" : undefined}>
+                {IMPORT_FIELD_LABELS[field]}{isRequired ? " *" : ""}
+              </Label>
+              <Select value={column || NOT_MAPPED} onValueChange={(value) => handleFieldChange(field, value)}>
+                <SelectTrigger className="mt-1" data-testid={`select-map-${field}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                  {headers.map((header) => (
+                    <SelectItem key={header} value={header}>{header}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {sample !== undefined && (
+                <p className="text-xs text-gray-500 mt-1 truncate" title={sample}>e.g. {sample || "(blank)"}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {allowSaveProfile && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label>Save mapping as profile (optional)</Label>
+            <Input
+              className="mt-1"
+              value={saveProfileName}
+              onChange={(e) => importMapping.setSaveProfileName(e.target.value)}
+              placeholder="e.g. Acme weekly orders"
+              data-testid="input-save-profile-name"
+            />
+          </div>
+          <div>
+            <Label>Customer (optional)</Label>
+            <Input
+              className="mt-1"
+              value={saveProfileCustomer}
+              onChange={(e) => importMapping.setSaveProfileCustomer(e.target.value)}
+              placeholder="Who sends files in this layout"
+              disabled={!saveProfileName.trim()}
+              data-testid="input-save-profile-customer"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
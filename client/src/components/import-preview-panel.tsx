@@ -0,0 +1,144 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, CheckCircle, XCircle } from "lucide-react";
+import { IMPORT_FIELD_LABELS, type ImportIssue, type ImportPreview } from "@shared/schema";
+
+interface ImportPreviewPanelProps {
+  preview: ImportPreview;
+  isCreating: boolean;
+  onCreate: () => void;
+  onCancel: () => void;
+}
+
+function Stat({ label, value }: { label: string; value: number | string }) {
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded p-2 text-center">
+      <p className="text-lg font-semibold text-gray-900">{value}</p>
+      <p className="text-xs text-gray-500">{label}</p>
+    </div>
+  );
+}
+
+export function ImportPreviewPanel({ preview, isCreating, onCreate, onCancel }: ImportPreviewPanelProps) {
+  const { totals, boxes } = preview;
+  // Errors first so the blocking problems are at the top of the table
+  const issues: ImportIssue[] = [...preview.errors, ...preview.warnings];
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4" data-testid="import-preview">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {preview.valid ? (
+            <CheckCircle className="h-5 w-5 text-green-600" />
+          ) : (
+            <XCircle className="h-5 w-5 text-red-600" />
+          )}
+          <h4 className="font-medium text-gray-900">
+            {preview.valid ? "Ready to create job" : "Fix these errors before creating the job"}
+          </h4>
+        </div>
+        <div className="flex gap-2">
+          {preview.errors.length > 0 && <Badge variant="destructive">{preview.errors.length} errors</Badge>}
+          {preview.warnings.length > 0 && <Badge variant="secondary">{preview.warnings.length} warnings</Badge>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <Stat label="Rows" value={totals.validRows === totals.rows ? totals.rows : `${totals.validRows}/${totals.rows}`} />
+        <Stat label="Total Qty" value={totals.totalQty} />
+        <Stat label="Customers" value={totals.customers} />
+        <Stat label="Barcodes" value={totals.barcodes} />
+        <Stat label="Groups" value={totals.groups} />
+        <Stat label="Box Requirements" value={totals.boxRequirements} />
+        <Stat label="Projected Boxes" value={boxes.boxLimit ? `${boxes.projectedBoxCount} (limit ${boxes.boxLimit})` : boxes.projectedBoxCount} />
+        <Stat label="Unallocated Customers" value={boxes.unallocatedCustomers.length} />
+      </div>
+
+      {boxes.unallocatedCustomers.length > 0 && (
+        <div className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded p-2" data-testid="import-preview-unallocated">
+          <span className="font-medium">Waiting for a box: </span>
+          {boxes.unallocatedCustomers.join(", ")}
+        </div>
+      )}
+
+      {preview.duplicates.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium text-gray-900 mb-1">Rows that will be merged</h5>
+          <div className="max-h-48 overflow-auto border rounded">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Barcode</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Rows</TableHead>
+                  <TableHead className="text-right">Merged Qty</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.duplicates.map((duplicate) => (
+                  <TableRow key={`${duplicate.barCode}-${duplicate.customerName}`}>
+                    <TableCell className="font-mono">{duplicate.barCode}</TableCell>
+                    <TableCell>{duplicate.customerName}</TableCell>
+                    <TableCell>{duplicate.rows.join(", ")}</TableCell>
+                    <TableCell className="text-right">{duplicate.totalQty}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium text-gray-900 mb-1">Errors and warnings</h5>
+          <div className="max-h-64 overflow-auto border rounded">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Row</TableHead>
+                  <TableHead className="w-28">Field</TableHead>
+                  <TableHead>Problem</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {issues.map((issue, index) => (
+                  <TableRow key={index} data-testid={`import-issue-${index}`}>
+                    <TableCell>{issue.row ?? "-"}</TableCell>
+                    <TableCell>{issue.field ? IMPORT_FIELD_LABELS[issue.field] : "-"}</TableCell>
+                    <TableCell>
+                      <div className="flex items-start gap-2">
+                        {issue.severity === "error" ? (
+                          <XCircle className="h-4 w-4 text-red-600 mt-0.5 shrink-0" />
+                        ) : (
+                          <AlertTriangle className="h-4 w-4 text-amber-500 mt-0.5 shrink-0" />
+                        )}
+                        <span>{issue.message}</span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          onClick={onCreate}
+          disabled={!preview.valid || isCreating}
+          className="bg-primary text-primary-foreground hover:bg-primary/90"
+          data-testid="button-create-job"
+        >
+          {isCreating ? "Creating..." : "Create Job"}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isCreating} data-testid="button-cancel-preview">
+          Back to edit
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, CloudUpload, FilePen, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ImportColumnMapper, useImportMapping, type ImportSettings } from "@/components/import-column-mapper";
+import {
+  REQUIRED_AMENDMENT_FIELDS,
+  type AmendmentExcessAction,
+  type JobAmendmentChange,
+  type JobAmendmentPreview,
+} from "@shared/schema";
+
+interface JobAmendModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  jobId: string;
+  jobName?: string;
+  jobTypeId?: string | null;
+}
+
+const CHANGE_LABELS: Record<JobAmendmentChange["type"], string> = {
+  add_line: "Add",
+  change_qty: "Change",
+  remove_line: "Remove",
+};
+
+const EXCESS_ACTION_LABELS: Record<AmendmentExcessAction, string> = {
+  put_aside: "Put Aside - reallocate when another box needs them",
+  extra_item: "Extra Items - not needed by any customer",
+};
+
+function buildAmendFormData(file: File, settings: ImportSettings, excessAction: AmendmentExcessAction, preview: boolean): FormData {
+  const formData = new FormData();
+  formData.append("csv", file);
+  formData.append("columnMapping", JSON.stringify(settings.columnMapping));
+  if (settings.importProfileId) {
+    formData.append("importProfileId", settings.importProfileId);
+  }
+  if (settings.sheetName) {
+    formData.append("sheetName", settings.sheetName);
+  }
+  formData.append("excessAction", excessAction);
+  if (preview) {
+    formData.append("preview", "true");
+  }
+  return formData;
+}
+
+export function JobAmendModal({ isOpen, onClose, jobId, jobName, jobTypeId }: JobAmendModalProps) {
+  const { toast } = useToast();
+  const [excessAction, setExcessAction] = useState<AmendmentExcessAction>("put_aside");
+  const [preview, setPreview] = useState<JobAmendmentPreview | null>(null);
+  const importMapping = useImportMapping({
+    jobTypeId: jobTypeId || undefined,
+    requiredFields: REQUIRED_AMENDMENT_FIELDS,
+    onChange: () => setPreview(null),
+  });
+  const { file, settings: importSettings } = importMapping;
+
+  const handleClose = () => {
+    importMapping.selectFile(null);
+    onClose();
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (): Promise<{ preview: JobAmendmentPreview }> => {
+      const response = await apiRequest("POST", `/api/jobs/${jobId}/amend`, buildAmendFormData(file!, importSettings, excessAction, true));
+      return response.json();
+    },
+    onSuccess: (data) => setPreview(data.preview),
+    onError: (error: Error) => {
+      toast({ title: "Preview Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const amendMutation = useMutation({
+    mutationFn: async (): Promise<{ preview: JobAmendmentPreview }> => {
+      const response = await apiRequest("POST", `/api/jobs/${jobId}/amend`, buildAmendFormData(file!, importSettings, excessAction, false));
+      return response.json();
+    },
+    onSuccess: (data) => {
+      const { totals } = data.preview;
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      toast({
+        title: "Job amended",
+        description: `${totals.addedLines} added, ${totals.changedLines} changed, ${totals.removedLines} removed - ${totals.totalProductsAfter} items in total`,
+      });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      // Scans made since the preview can change the outcome - make the manager preview again
+      toast({ title: "Amendment Failed", description: error.message, variant: "destructive" });
+      setPreview(null);
+    },
+  });
+
+  const canPreview = !!file && importSettings.isComplete && !previewMutation.isPending;
+  const issues = preview ? [...preview.errors, ...preview.warnings] : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FilePen className="h-5 w-5" />
+            Amend Job{jobName ? `: ${jobName}` : ""}
+          </DialogTitle>
+          <DialogDescription>
+            Upload the changed lines only. Each row sets the new Qty for a barcode and customer - use 0 to remove a line.
+            Lines not in the file are left as they are, and scanning progress is kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt,.xlsx,.xls"
+            className="hidden"
+            id="amend-upload"
+            data-testid="input-amend-file"
+            onChange={(e) => importMapping.selectFile(e.target.files?.[0] || null)}
+          />
+          <Button type="button" variant="outline" onClick={() => document.getElementById("amend-upload")?.click()} data-testid="button-select-amend-file">
+            <CloudUpload className="mr-2 h-4 w-4" />
+            {file ? file.name : "Select File"}
+          </Button>
+
+          {file && (
+            <ImportColumnMapper importMapping={importMapping} allowSaveProfile={false} />
+          )}
+
+          <div className="max-w-md">
+            <Label>Items already scanned beyond a new quantity</Label>
+            <Select
+              value={excessAction}
+              onValueChange={(value) => setExcessAction(value as AmendmentExcessAction)}
+            >
+              <SelectTrigger className="mt-1" data-testid="select-excess-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EXCESS_ACTION_LABELS) as AmendmentExcessAction[]).map((action) => (
+                  <SelectItem key={action} value={action}>{EXCESS_ACTION_LABELS[action]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {preview && (
+            <div className="border border-gray-200 rounded-lg p-4 space-y-4" data-testid="amend-preview">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">{preview.totals.addedLines} added</Badge>
+                <Badge variant="secondary">{preview.totals.changedLines} changed</Badge>
+                <Badge variant="secondary">{preview.totals.removedLines} removed</Badge>
+                <Badge variant="outline">{preview.totals.unchangedLines} unchanged</Badge>
+                {preview.totals.addedCustomers > 0 && <Badge variant="outline">{preview.totals.addedCustomers} new customers</Badge>}
+                {preview.totals.excessQty > 0 && <Badge variant="destructive">{preview.totals.excessQty} items to take out of boxes</Badge>}
+                <span className="text-gray-600">
+                  Items: {preview.totals.totalProductsBefore} → {preview.totals.totalProductsAfter} ·
+                  Customers: {preview.totals.customersBefore} → {preview.totals.customersAfter}
+                </span>
+              </div>
+
+              {preview.changes.length > 0 && (
+                <div className="max-h-64 overflow-auto border rounded">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Change</TableHead>
+                        <TableHead>Box</TableHead>
+                        <TableHead>Customer</TableHead>
+                        <TableHead>Barcode</TableHead>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-right">Qty</TableHead>
+                        <TableHead className="text-right">Scanned</TableHead>
+                        <TableHead className="text-right">Take Out</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.changes.map((change) => (
+                        <TableRow
+                          key={`${change.barCode}-${change.customerName}`}
+                          className={change.excessQty > 0 ? "bg-red-50" : undefined}
+                        >
+                          <TableCell>
+                            {CHANGE_LABELS[change.type]}
+                            {change.isNewCustomer && <Badge variant="outline" className="ml-1 text-xs">new customer</Badge>}
+                          </TableCell>
+                          <TableCell>{change.boxNumber ?? "Unallocated"}</TableCell>
+                          <TableCell>{change.customerName}</TableCell>
+                          <TableCell className="font-mono">{change.barCode}</TableCell>
+                          <TableCell>{change.productName}</TableCell>
+                          <TableCell className="text-right">{change.oldQty} → {change.newQty}</TableCell>
+                          <TableCell className="text-right">{change.scannedQty}</TableCell>
+                          <TableCell className="text-right font-medium text-red-700">{change.excessQty || ""}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {issues.length > 0 && (
+                <div className="max-h-48 overflow-auto border rounded">
+                  <Table>
+                    <TableBody>
+                      {issues.map((issue, index) => (
+                        <TableRow key={index}>
+                          <TableCell className="w-20">{issue.row ?? "-"}</TableCell>
+                          <TableCell>
+                            <div className="flex items-start gap-2">
+                              {issue.severity === "error" ? (
+                                <XCircle className="h-4 w-4 text-red-600 mt-0.5 shrink-0" />
+                              ) : (
+                                <AlertTriangle className="h-4 w-4 text-amber-500 mt-0.5 shrink-0" />
+                              )}
+                              <span>{issue.message}</span>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button
+              onClick={() => amendMutation.mutate()}
+              disabled={!preview.valid || preview.changes.length === 0 || amendMutation.isPending}
+              data-testid="button-apply-amendment"
+            >
+              {amendMutation.isPending ? "Applying..." : "Apply Changes"}
+            </Button>
+          ) : (
+            <Button onClick={() => previewMutation.mutate()} disabled={!canPreview} data-testid="button-preview-amendment">
+              {previewMutation.isPending ? "Checking file..." : "Preview Changes"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,7 +5,7 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
-import { Camera, CameraOff, Package, Undo, Settings, RefreshCw, Target, Clock, TrendingUp, LogOut } from "lucide-react";
+import { Camera, CameraOff, Package, Undo, Settings, RefreshCw, Target, Clock, TrendingUp, LogOut, CloudOff } from "lucide-react";
 import { useUserPreferences } from "@/hooks/use-user-preferences";
 
 interface MobileScannerInterfaceProps {
@@ -29,10 +29,16 @@ interface MobileScannerInterfaceProps {
     scanTime?: string;
   } | null;
   onScan: (barcode: string) => void;
+  pendingDrop?: { boxNumber: number | null; productName: string; customerName: string | null } | null; // Waiting for the box label scan
+  onCancelPendingDrop?: () => void;
+  putAsidePullQty?: number; // Put aside items reserved for reassigned boxes
+  isPullingPutAside?: boolean;
+  onTogglePutAsidePull?: () => void;
   onUndo?: () => void;
   onSwitchSession?: () => void;
   isUndoAvailable?: boolean;
   isConnected?: boolean;
+  pendingScans?: number; // Offline scans waiting to be replayed
   scanError?: string | null;
   scanResult?: {
     boxNumber: number | null;
@@ -67,10 +73,16 @@ export function MobileScannerInterface({
   scanStats,
   lastScanEvent,
   onScan,
+  pendingDrop = null,
+  onCancelPendingDrop,
+  putAsidePullQty = 0,
+  isPullingPutAside = false,
+  onTogglePutAsidePull,
   onUndo,
   onSwitchSession,
   isUndoAvailable = false,
   isConnected = true,
+  pendingScans = 0,
   scanError = null,
   scanResult = null,
   undoDisplay = null,
@@ -200,6 +212,12 @@ export function MobileScannerInterface({
             >
               <Settings className="w-4 h-4" />
             </Button>
+            {pendingScans > 0 && (
+              <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100" data-testid="badge-pending-scans">
+                <CloudOff className="w-3 h-3 mr-1" />
+                {pendingScans} pending
+              </Badge>
+            )}
             <div className="bg-primary-100 text-primary-800 px-2 py-1 rounded text-sm font-medium">
               {userStaffId}
             </div>
@@ -242,7 +260,7 @@ export function MobileScannerInterface({
             type="text"
             value={barcodeInput}
             onChange={(e) => setBarcodeInput(e.target.value)}
-            placeholder={isPaused ? "Scanning is paused..." : "Scan barcode here..."}
+            placeholder={isPaused ? "Scanning is paused..." : pendingDrop ? `Scan the label on Box ${pendingDrop.boxNumber}...` : isPullingPutAside ? "Scan a put aside item..." : "Scan barcode here..."}
             className={`text-lg h-12 border-2 ${
               isPaused ? 'border-yellow-400 opacity-50' : 'border-green-400'
             }`}
@@ -254,6 +272,21 @@ export function MobileScannerInterface({
             data-testid="input-barcode-mobile"
           />
         </form>
+        {putAsidePullQty > 0 && (
+          <div className="mt-2 flex items-center justify-between rounded bg-purple-50 px-3 py-2" data-testid="put-aside-pull-mobile">
+            <span className="text-sm font-medium text-purple-800">
+              {isPullingPutAside ? "Pulling from put aside" : `${putAsidePullQty} put aside item${putAsidePullQty === 1 ? "" : "s"} to pull`}
+            </span>
+            <Button
+              size="sm"
+              variant={isPullingPutAside ? "default" : "outline"}
+              onClick={onTogglePutAsidePull}
+              data-testid="button-toggle-put-aside-pull-mobile"
+            >
+              {isPullingPutAside ? "Done" : "Pull"}
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Main content area - Large box number display */}
@@ -273,6 +306,18 @@ export function MobileScannerInterface({
               </p>
             </div>
           </div>
+        ) : pendingDrop ? (
+          <div className="text-center" data-testid="pending-drop-mobile">
+            <div className="text-lg font-medium text-amber-700 mb-2">Put in box, then scan its label</div>
+            <div className="text-[120px] font-bold leading-none text-amber-500" data-testid="pending-drop-box">
+              {pendingDrop.boxNumber}
+            </div>
+            <div className="text-2xl font-semibold text-gray-900 mt-4">{pendingDrop.customerName}</div>
+            <div className="text-lg text-gray-600 mb-6">{pendingDrop.productName}</div>
+            <Button variant="outline" onClick={onCancelPendingDrop} data-testid="button-cancel-drop-mobile">
+              Cancel
+            </Button>
+          </div>
         ) : (
           <>
         {/* Very large box number display */}
@@ -0,0 +1,84 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RotateCcw, Trash2 } from "lucide-react";
+import type { DeletedJob } from "@shared/schema";
+
+export function RecentlyDeletedJobs() {
+  const { toast } = useToast();
+
+  const { data } = useQuery<{ jobs: DeletedJob[]; retentionDays: number }>({
+    queryKey: ["/api/jobs/deleted"],
+  });
+
+  const restoreJobMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const response = await apiRequest("POST", `/api/jobs/${jobId}/restore`);
+      return response.json();
+    },
+    onSuccess: (result: { job: DeletedJob }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/deleted"] });
+      toast({
+        title: "Job restored",
+        description: `${result.job.name} is back with all its history.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to restore job",
+        description: error.message || "Unable to restore the job",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletedJobs = data?.jobs || [];
+  if (deletedJobs.length === 0) return null;
+
+  return (
+    <Card data-testid="recently-deleted-jobs">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trash2 className="h-5 w-5" />
+          Recently Deleted
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Removed jobs can be restored for {data?.retentionDays} days, then they and their history are deleted permanently.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {deletedJobs.map((job) => (
+            <div
+              key={job.id}
+              className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 border rounded-lg bg-gray-50"
+              data-testid={`deleted-job-${job.id}`}
+            >
+              <div>
+                <p className="font-medium text-gray-900">{job.name}</p>
+                <p className="text-xs text-gray-500">
+                  Deleted {job.deletedAt ? new Date(job.deletedAt).toLocaleString() : ''}
+                  {job.deletedByName && ` by ${job.deletedByName}`}
+                  {job.purgeAfter && ` · Permanently deleted after ${new Date(job.purgeAfter).toLocaleDateString()}`}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => restoreJobMutation.mutate(job.id)}
+                disabled={restoreJobMutation.isPending}
+                data-testid={`button-restore-${job.id}`}
+              >
+                <RotateCcw className="mr-1 h-4 w-4" />
+                Restore
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { MapPin } from "lucide-react";
+import { ALLOCATION_STRATEGY_LABELS, type AllocationStrategy } from "../../../lib/worker-allocation";
+import type { WorkerPosition } from "@shared/schema";
+
+interface WorkerPositionsPanelProps {
+  jobId: string;
+}
+
+function formatZone(position: WorkerPosition): string {
+  if (position.zoneStartBox === null || position.zoneEndBox === null) {
+    return "Whole job";
+  }
+  return `Box ${position.zoneStartBox} → ${position.zoneEndBox}`;
+}
+
+export function WorkerPositionsPanel({ jobId }: WorkerPositionsPanelProps) {
+  // Invalidated by scan/undo WebSocket messages; polling is a fallback only
+  const { data, isLoading } = useQuery<{ strategy: AllocationStrategy; positions: WorkerPosition[] }>({
+    queryKey: ["/api/jobs", jobId, "worker-positions"],
+    enabled: !!jobId,
+    refetchInterval: 30000,
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-gray-500">Loading worker positions...</div>;
+  }
+
+  const positions = data?.positions || [];
+  if (positions.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        No assigned workers found
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="worker-positions">
+      {data?.strategy && (
+        <p className="text-sm text-gray-600">
+          Strategy: <span className="font-medium">{ALLOCATION_STRATEGY_LABELS[data.strategy]}</span>
+        </p>
+      )}
+
+      {positions.map((position) => {
+        const zoneDone = position.zoneBoxCount - position.openBoxesInZone;
+        const zonePercentage = position.zoneBoxCount > 0 ? Math.round((zoneDone / position.zoneBoxCount) * 100) : 0;
+
+        return (
+          <div
+            key={position.userId}
+            className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 border rounded-lg bg-gray-50"
+            data-testid={`worker-position-${position.userId}`}
+          >
+            <div className="flex items-center space-x-3 min-w-[12rem]">
+              <div
+                className="w-3 h-3 rounded-full border border-gray-300"
+                style={{ backgroundColor: position.assignedColor || '#6B7280' }}
+              />
+              <div>
+                <p className="font-medium text-gray-900">{position.name}</p>
+                <p className="text-xs text-gray-500">{position.staffId}</p>
+              </div>
+              <Badge variant="outline" className="text-xs">
+                {position.allocationLabel}
+              </Badge>
+            </div>
+
+            <div className="flex-1 md:mx-6">
+              <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                <span>{formatZone(position)}</span>
+                <span>{position.openBoxesInZone} of {position.zoneBoxCount} boxes still open</span>
+              </div>
+              <Progress value={zonePercentage} className="h-2" />
+            </div>
+
+            <div className="flex items-center text-sm text-gray-700 min-w-[10rem] md:justify-end">
+              <MapPin className="h-4 w-4 mr-1 text-gray-400" />
+              {position.currentBoxNumber !== null ? (
+                <span data-testid={`worker-current-box-${position.userId}`}>
+                  Box {position.currentBoxNumber}
+                  {position.sequencePosition !== null && (
+                    <span className="text-xs text-gray-500"> ({position.sequencePosition}/{position.zoneBoxCount})</span>
+                  )}
+                </span>
+              ) : (
+                <span className="text-gray-500">Not started</span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
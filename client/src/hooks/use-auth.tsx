@@ -1,6 +1,14 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import {
+  apiRequest,
+  storeAuthTokens,
+  clearAuthTokens,
+  getAuthToken,
+  ensureFreshAuthToken,
+  AUTH_EXPIRED_EVENT,
+  type AuthTokens,
+} from "@/lib/queryClient";
 
 interface User {
   id: string;
@@ -11,7 +19,7 @@ interface User {
 
 interface AuthContextType {
   user: User | null;
-  login: (token: string, user: User) => void;
+  login: (tokens: AuthTokens, user: User) => void;
   logout: () => void;
   isLoading: boolean;
 }
@@ -26,7 +34,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   // Check for existing session on app load
   const { data: userData, isLoading } = useQuery({
     queryKey: ["/api/auth/me"],
-    enabled: !!localStorage.getItem("token") && !isInitialized,
+    enabled: !!getAuthToken() && !isInitialized,
     retry: false,
     queryFn: async () => {
       const response = await apiRequest("GET", "/api/auth/me");
@@ -43,15 +51,32 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, [userData, isLoading]);
 
-  const login = (token: string, user: User) => {
+  // Refresh token rejected (expired, revoked or account deactivated) - drop back to login
+  useEffect(() => {
+    const handleExpired = () => setUser(null);
+    window.addEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  const login = (tokens: AuthTokens, user: User) => {
     setIsLoggingIn(true);
-    localStorage.setItem("token", token);
+    storeAuthTokens(tokens);
     setUser(user);
     setIsLoggingIn(false);
   };
 
   const logout = () => {
-    localStorage.removeItem("token");
+    // Revoke the session server-side too; local tokens are dropped regardless of the outcome
+    void ensureFreshAuthToken().then((token) => {
+      clearAuthTokens();
+      if (!token) return;
+      return fetch("/api/auth/logout", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    }).catch((error) => {
+      console.error("[Auth] Logout request failed:", error);
+    });
     setUser(null);
   };
 
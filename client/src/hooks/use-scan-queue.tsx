@@ -0,0 +1,187 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import {
+  createClientScanId,
+  enqueueScan,
+  getQueuedScans,
+  isConnectivityError,
+  removeQueuedScans,
+  type StoredScan,
+} from "@/lib/scan-queue";
+import type { ScanReplayResponse, ScanReplayResult } from "@shared/schema";
+
+// Matches the server's per-request limit on /api/scan-events/replay
+const REPLAY_BATCH_SIZE = 100;
+// How often to retry while scans are waiting - navigator.onLine can't see a dead access point
+const REPLAY_RETRY_MS = 15 * 1000;
+
+export interface CapturedScan {
+  scan: StoredScan;
+  sendNow: boolean; // False when earlier scans are still queued - this one waits its turn
+}
+
+/**
+ * Offline scan queue for one worker on one job. Every scan is written to IndexedDB
+ * before it is sent; scans that can't reach the server are replayed in capture
+ * order once connectivity returns.
+ */
+export function useScanQueue(
+  jobId: string | undefined,
+  userId: string | undefined,
+  onReplayed?: (results: ScanReplayResult[]) => void,
+) {
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  // Scans currently being sent live - queued for durability but not pending replay
+  const inFlightRef = useRef(new Set<string>());
+  const pendingCountRef = useRef(0);
+  const replayingRef = useRef(false);
+  const onReplayedRef = useRef(onReplayed);
+  onReplayedRef.current = onReplayed;
+
+  const refreshPendingCount = useCallback(async () => {
+    if (!jobId || !userId) return;
+    try {
+      const scans = await getQueuedScans(jobId, userId);
+      const count = scans.filter((scan) => !inFlightRef.current.has(scan.clientScanId)).length;
+      pendingCountRef.current = count;
+      setPendingCount(count);
+    } catch (error) {
+      console.warn("[ScanQueue] Could not read queued scans:", error);
+    }
+  }, [jobId, userId]);
+
+  const replay = useCallback(async () => {
+    if (!jobId || !userId || replayingRef.current || !navigator.onLine) return;
+
+    const scans = (await getQueuedScans(jobId, userId).catch(() => [] as StoredScan[]))
+      .filter((scan) => !inFlightRef.current.has(scan.clientScanId));
+    if (scans.length === 0) return;
+
+    replayingRef.current = true;
+    setIsReplaying(true);
+    const results: ScanReplayResult[] = [];
+
+    try {
+      for (let start = 0; start < scans.length; start += REPLAY_BATCH_SIZE) {
+        const batch = scans.slice(start, start + REPLAY_BATCH_SIZE);
+        const response = await apiRequest("POST", "/api/scan-events/replay", {
+          jobId,
+          scans: batch.map(({ clientScanId, barCode, capturedAt }) => ({ clientScanId, barCode, capturedAt })),
+        });
+        const data: ScanReplayResponse = await response.json();
+
+        await removeQueuedScans(data.results.map((result) => result.clientScanId));
+        results.push(...data.results);
+
+        if (data.failed) {
+          // The rest stay queued in order and are retried on the next pass
+          setReplayError(data.failed.message);
+          break;
+        }
+      }
+      if (results.length > 0) {
+        setReplayError(null);
+      }
+      setIsOnline(true);
+    } catch (error) {
+      if (isConnectivityError(error)) {
+        setIsOnline(false);
+      } else {
+        // Paused or locked job, lost assignment, ... - the scans stay queued and the reason is shown
+        setReplayError(parseApiError(error).message || "Failed to sync offline scans");
+      }
+      console.warn("[ScanQueue] Replay stopped - will retry:", error);
+    } finally {
+      replayingRef.current = false;
+      setIsReplaying(false);
+      await refreshPendingCount();
+      if (results.length > 0) {
+        onReplayedRef.current?.(results);
+      }
+    }
+  }, [jobId, userId, refreshPendingCount]);
+
+  /**
+   * Write a scan to the queue. The caller sends it live when sendNow is true and
+   * reports back with markSent / markUnsent; otherwise it is replayed in turn.
+   */
+  const captureScan = useCallback(async (barCode: string): Promise<CapturedScan> => {
+    const scan: StoredScan = {
+      clientScanId: createClientScanId(),
+      barCode,
+      capturedAt: new Date().toISOString(),
+      jobId: jobId!,
+      userId: userId!,
+    };
+    const sendNow = navigator.onLine && pendingCountRef.current === 0 && !replayingRef.current;
+
+    try {
+      await enqueueScan(scan);
+    } catch (error) {
+      // No IndexedDB (private browsing, storage full) - fall back to sending straight away
+      console.warn("[ScanQueue] Could not queue scan, sending directly:", error);
+      return { scan, sendNow: true };
+    }
+
+    if (sendNow) {
+      inFlightRef.current.add(scan.clientScanId);
+    } else {
+      await refreshPendingCount();
+      replay();
+    }
+    return { scan, sendNow };
+  }, [jobId, userId, refreshPendingCount, replay]);
+
+  // The server applied the scan (or rejected it outright) - nothing left to replay
+  const markSent = useCallback(async (clientScanId: string) => {
+    inFlightRef.current.delete(clientScanId);
+    await removeQueuedScans([clientScanId]).catch((error) => console.warn("[ScanQueue] Could not remove scan:", error));
+    await refreshPendingCount();
+  }, [refreshPendingCount]);
+
+  // The server couldn't be reached - the scan stays queued for replay
+  const markUnsent = useCallback(async (clientScanId: string) => {
+    inFlightRef.current.delete(clientScanId);
+    setIsOnline(false);
+    await refreshPendingCount();
+  }, [refreshPendingCount]);
+
+  // Pick up scans left over from a previous visit and replay when the network comes back
+  useEffect(() => {
+    refreshPendingCount().then(replay);
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      replay();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [refreshPendingCount, replay]);
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const timer = setInterval(replay, REPLAY_RETRY_MS);
+    return () => clearInterval(timer);
+  }, [pendingCount, replay]);
+
+  return {
+    pendingCount,
+    isOnline,
+    isReplaying,
+    replayError,
+    captureScan,
+    markSent,
+    markUnsent,
+    replay,
+  };
+}
@@ -1,6 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from "react";
 import { useAuth } from "./use-auth";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, ensureFreshAuthToken, refreshAuthToken } from "@/lib/queryClient";
 
 interface WSMessage {
   type: string;
@@ -14,6 +14,8 @@ export function useWebSocket(jobId?: string, onWorkerBoxUpdate?: (boxNumber: num
   const [isConnected, setIsConnected] = useState(false);
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
+  // Additional jobs watched on this socket (e.g. a supervisor following several floors)
+  const extraJobIdsRef = useRef<Set<string>>(new Set());
 
   const connect = useCallback(() => {
     if (!user || wsRef.current?.readyState === WebSocket.OPEN) return;
@@ -67,21 +69,22 @@ export function useWebSocket(jobId?: string, onWorkerBoxUpdate?: (boxNumber: num
 
       wsRef.current = new WebSocket(wsUrl);
 
-      wsRef.current.onopen = () => {
+      wsRef.current.onopen = async () => {
         console.log(`[WebSocket] Connection established successfully`);
         setIsConnected(true);
 
-        // Authenticate with the WebSocket server
-        if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-          const authMessage = {
+        // Authenticate with the WebSocket server using the signed access token
+        const token = await ensureFreshAuthToken();
+        if (token && wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
+          console.log(`[WebSocket] Sending authentication for user ${user.id}${jobId ? ` on job ${jobId}` : ''}`);
+          wsRef.current.send(JSON.stringify({
             type: "authenticate",
             data: {
-              userId: user.id,
+              token,
               jobId,
+              jobIds: Array.from(extraJobIdsRef.current),
             },
-          };
-          console.log(`[WebSocket] Sending authentication:`, authMessage);
-          wsRef.current.send(JSON.stringify(authMessage));
+          }));
         }
       };
 
@@ -99,6 +102,16 @@ export function useWebSocket(jobId?: string, onWorkerBoxUpdate?: (boxNumber: num
         console.log(`[WebSocket] Connection closed. Code: ${event.code}, Reason: ${event.reason}, Clean: ${event.wasClean}`);
         setIsConnected(false);
 
+        // 4001 = server rejected the access token; reconnect only once it has been refreshed
+        if (event.code === 4001) {
+          void refreshAuthToken().then((refreshed) => {
+            if (refreshed) {
+              reconnectTimeoutRef.current = setTimeout(() => void connect(), 1000);
+            }
+          });
+          return;
+        }
+
         // Only attempt to reconnect if it wasn't a manual close (code 1000)
         if (event.code !== 1000 && user) {
           const delay = Math.min(3000 * Math.pow(1.5, 0), 30000); // Exponential backoff with max 30s
@@ -142,6 +155,28 @@ export function useWebSocket(jobId?: string, onWorkerBoxUpdate?: (boxNumber: num
         console.log("[WebSocket] Authentication confirmed:", message.data);
         break;
 
+      case "subscribed":
+      case "unsubscribed":
+        // Acknowledgements only - nothing to refresh
+        break;
+
+      case "subscription_rejected":
+        console.warn(`[WebSocket] Subscription to job ${message.data.jobId} rejected: ${message.data.code}`);
+        extraJobIdsRef.current.delete(message.data.jobId as string);
+        break;
+
+      case "subscription_revoked":
+        // Worker was unassigned from the job - refresh their assignment list
+        console.warn(`[WebSocket] Subscription to job ${message.data.jobId} revoked: ${message.data.code}`);
+        extraJobIdsRef.current.delete(message.data.jobId as string);
+        queryClient.invalidateQueries({ queryKey: ["/api/users/me/assignments"] });
+        break;
+
+      case "authentication_failed":
+        // Server closes the socket with 4001 right after this; onclose handles the refresh
+        console.warn("[WebSocket] Authentication rejected:", message.data);
+        break;
+
       case "scan_update":
         // Handle optimized delta format
         console.log("[WebSocket] Scan update received:", message.data);
@@ -296,6 +331,9 @@ export function useWebSocket(jobId?: string, onWorkerBoxUpdate?: (boxNumber: num
         
         // Invalidate non-scanned report for all scan events to update button count in real-time
         queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'non-scanned-report'] });
+
+        // Worker positions move with every allocated scan
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId, "worker-positions"] });
         break;
 
       case "scan_event":
@@ -336,7 +374,8 @@ export function useWebSocket(jobId?: string, onWorkerBoxUpdate?: (boxNumber: num
         console.log("[WebSocket] Undo event received:", message.data);
 
         // Call the worker's handleUndoSuccess function if it exists (for worker scanner UI)
-        if (typeof window !== 'undefined' && (window as any).handleUndoSuccess) {
+        // Only the worker who undid should see the undo display, not everyone on the job
+        if (typeof window !== 'undefined' && (window as any).handleUndoSuccess && message.data.userId === user?.id) {
           (window as any).handleUndoSuccess(message.data);
         }
 
@@ -406,6 +445,64 @@ export function useWebSocket(jobId?: string, onWorkerBoxUpdate?: (boxNumber: num
         }
         break;
 
+      case "check_session_update":
+        // A check was started, resumed, taken over, finished or cancelled - who is checking what changed
+        console.log("[WebSocket] Check session update:", message.data);
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/active-checks`] });
+        queryClient.invalidateQueries({ queryKey: ["/api/check-sessions"] });
+        break;
+
+      case "scans_replayed":
+        // A worker's offline scans were applied in one batch - refetch instead of patching box by box
+        console.log("[WebSocket] Offline scans replayed:", message.data);
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId] });
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId, "progress"] });
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/box-requirements`] });
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId, "worker-positions"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId, "worker-performance", message.data?.userId] });
+        if (Number(message.data?.putAside) > 0) {
+          queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/put-aside/count`] });
+          queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/put-aside`] });
+          queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'non-scanned-report'] });
+        }
+        if (Number(message.data?.extraItems) > 0) {
+          queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId, "extra-items"] });
+        }
+        break;
+
+      case "job_amended":
+        // Lines were added, re-quantified or removed - every view of this job's requirements is stale
+        console.log("[WebSocket] Job amended:", message.data);
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId] });
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId, "progress"] });
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/box-requirements`] });
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId, "worker-positions"] });
+        queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'non-scanned-report'] });
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/put-aside/count`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/put-aside`] });
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId, "extra-items"] });
+        break;
+
+      case "put_aside_pick_list":
+        // Put aside stock was reserved for a reassigned box - it now needs pulling off the shelf
+        console.log("[WebSocket] Put Aside pick list:", message.data);
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/put-aside/pick-list`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/put-aside`] });
+        break;
+
+      case "put_aside_allocated":
+        // A put aside item was credited to a box - from the Put Aside Manager or pulled by a worker
+        console.log("[WebSocket] Put Aside item allocated:", message.data);
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/put-aside/pick-list`] });
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId] });
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId, "progress"] });
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/box-requirements`] });
+        queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'non-scanned-report'] });
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/put-aside/count`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/put-aside`] });
+        break;
+
       case "job_locked":
         // Job has been locked by a manager
         console.log("[WebSocket] Job locked notification received:", message.data);
@@ -511,6 +608,20 @@ export function useWebSocket(jobId?: string, onWorkerBoxUpdate?: (boxNumber: num
     }
   };
 
+  const subscribe = (targetJobId: string) => {
+    extraJobIdsRef.current.add(targetJobId);
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: "subscribe", data: { jobId: targetJobId } }));
+    }
+  };
+
+  const unsubscribe = (targetJobId: string) => {
+    extraJobIdsRef.current.delete(targetJobId);
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: "unsubscribe", data: { jobId: targetJobId } }));
+    }
+  };
+
   const disconnect = () => {
     console.log(`[WebSocket] Manual disconnection requested`);
 
@@ -541,6 +652,8 @@ export function useWebSocket(jobId?: string, onWorkerBoxUpdate?: (boxNumber: num
   return {
     isConnected,
     sendMessage,
+    subscribe,
+    unsubscribe,
     disconnect,
   };
 }
\ No newline at end of file
@@ -0,0 +1,136 @@
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HTMLCanvasElementLuminanceSource,
+  HybridBinarizer,
+  MultiFormatReader,
+} from "@zxing/library";
+
+/**
+ * Camera barcode decoding. Uses the browser's native BarcodeDetector where it
+ * exists (Chrome / Android) and falls back to ZXing in JavaScript everywhere
+ * else (iOS Safari, Firefox, desktop).
+ */
+
+export type BarcodeSymbology = 'ean_13' | 'upc_a' | 'code_128' | 'code_39' | 'itf' | 'qr_code';
+
+export const DEFAULT_BARCODE_SYMBOLOGIES: BarcodeSymbology[] = ['ean_13', 'upc_a', 'code_128', 'code_39', 'itf', 'qr_code'];
+
+// Part of the video frame to decode, as fractions of its width and height, centred
+export interface ScanRegion {
+  width: number;
+  height: number;
+}
+
+export const SCAN_REGION_PRESETS = {
+  wide: { label: 'Wide (1D barcodes)', region: { width: 0.8, height: 0.4 } },
+  square: { label: 'Square (QR codes)', region: { width: 0.6, height: 0.6 } },
+  full: { label: 'Full frame', region: { width: 1, height: 1 } },
+} satisfies Record<string, { label: string; region: ScanRegion }>;
+
+export type ScanRegionPreset = keyof typeof SCAN_REGION_PRESETS;
+
+export const DEFAULT_SCAN_REGION: ScanRegion = SCAN_REGION_PRESETS.wide.region;
+
+export interface BarcodeDecoder {
+  engine: 'native' | 'zxing';
+  decode(canvas: HTMLCanvasElement): Promise<string | null>;
+}
+
+const ZXING_FORMATS: Record<BarcodeSymbology, BarcodeFormat> = {
+  ean_13: BarcodeFormat.EAN_13,
+  upc_a: BarcodeFormat.UPC_A,
+  code_128: BarcodeFormat.CODE_128,
+  code_39: BarcodeFormat.CODE_39,
+  itf: BarcodeFormat.ITF,
+  qr_code: BarcodeFormat.QR_CODE,
+};
+
+// Shape Detection API - not yet in TypeScript's DOM typings
+interface NativeBarcodeDetector {
+  detect(source: CanvasImageSource): Promise<Array<{ rawValue: string; format: string }>>;
+}
+interface NativeBarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): NativeBarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+async function createNativeDecoder(symbologies: BarcodeSymbology[]): Promise<BarcodeDecoder | null> {
+  const Detector = (window as unknown as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector) return null;
+
+  try {
+    const supported = await Detector.getSupportedFormats();
+    // Only go native when it covers every requested symbology, otherwise some codes would silently never read
+    if (!symbologies.every(symbology => supported.includes(symbology))) return null;
+
+    const detector = new Detector({ formats: symbologies });
+    return {
+      engine: 'native',
+      decode: async (canvas) => {
+        try {
+          const [barcode] = await detector.detect(canvas);
+          return barcode?.rawValue || null;
+        } catch {
+          // A frame that isn't ready or can't be read - treat as no barcode so the scan loop keeps going
+          return null;
+        }
+      },
+    };
+  } catch (error) {
+    console.warn('[BarcodeDecoder] Native BarcodeDetector unavailable, using ZXing:', error);
+    return null;
+  }
+}
+
+function createZxingDecoder(symbologies: BarcodeSymbology[]): BarcodeDecoder {
+  const hints = new Map<DecodeHintType, unknown>();
+  hints.set(DecodeHintType.POSSIBLE_FORMATS, symbologies.map(symbology => ZXING_FORMATS[symbology]));
+  hints.set(DecodeHintType.TRY_HARDER, true);
+
+  const reader = new MultiFormatReader();
+  reader.setHints(hints);
+
+  return {
+    engine: 'zxing',
+    decode: async (canvas) => {
+      try {
+        const bitmap = new BinaryBitmap(new HybridBinarizer(new HTMLCanvasElementLuminanceSource(canvas)));
+        return reader.decodeWithState(bitmap).getText();
+      } catch {
+        // NotFoundException / checksum failures: nothing readable in this frame
+        return null;
+      } finally {
+        reader.reset();
+      }
+    },
+  };
+}
+
+export async function createBarcodeDecoder(symbologies: BarcodeSymbology[] = DEFAULT_BARCODE_SYMBOLOGIES): Promise<BarcodeDecoder> {
+  return (await createNativeDecoder(symbologies)) || createZxingDecoder(symbologies);
+}
+
+/**
+ * Copy the scan region of the current video frame onto the canvas, returning false until the video has frames
+ */
+export function captureScanRegion(video: HTMLVideoElement, canvas: HTMLCanvasElement, region: ScanRegion): boolean {
+  const { videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) return false;
+
+  const width = Math.round(videoWidth * region.width);
+  const height = Math.round(videoHeight * region.height);
+  const x = Math.round((videoWidth - width) / 2);
+  const y = Math.round((videoHeight - height) / 2);
+
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return false;
+
+  context.drawImage(video, x, y, width, height, 0, 0, width, height);
+  return true;
+}
@@ -0,0 +1,27 @@
+import { authFetch } from "@/lib/queryClient";
+
+/**
+ * Download a server-generated export (XLSX / CSV). Uses the filename the server
+ * sends so every export is named the same way wherever it's started from.
+ */
+export async function downloadExport(url: string): Promise<string> {
+  const response = await authFetch(url);
+  if (!response.ok) {
+    const text = (await response.text()) || response.statusText;
+    throw new Error(`${response.status}: ${text}`);
+  }
+
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || "export";
+
+  const blobUrl = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = blobUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(blobUrl);
+
+  return filename;
+}
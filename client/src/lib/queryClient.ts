@@ -1,5 +1,114 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+const TOKEN_KEY = "token";
+const REFRESH_TOKEN_KEY = "refreshToken";
+const TOKEN_EXPIRES_AT_KEY = "tokenExpiresAt";
+
+// Refresh a little before the access token actually lapses
+const REFRESH_MARGIN_MS = 30 * 1000;
+
+// Fired when the session can no longer be refreshed and the user must log in again
+export const AUTH_EXPIRED_EVENT = "auth:expired";
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresAt: string;
+}
+
+export function getAuthToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function storeAuthTokens(tokens: AuthTokens) {
+  localStorage.setItem(TOKEN_KEY, tokens.token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+  localStorage.setItem(TOKEN_EXPIRES_AT_KEY, tokens.expiresAt);
+}
+
+export function clearAuthTokens() {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(TOKEN_EXPIRES_AT_KEY);
+}
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+async function performRefresh(): Promise<boolean> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return false;
+
+  try {
+    const res = await fetch("/api/auth/refresh", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+      credentials: "include",
+    });
+
+    if (!res.ok) {
+      // Another tab may have rotated the shared refresh token first
+      if (localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken) {
+        return true;
+      }
+      if (res.status === 401) {
+        clearAuthTokens();
+        window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+      }
+      return false;
+    }
+
+    storeAuthTokens(await res.json());
+    return true;
+  } catch (error) {
+    console.error("[Auth] Token refresh failed:", error);
+    return false;
+  }
+}
+
+/**
+ * Exchanges the refresh token for a new access token. Concurrent callers
+ * share one request so a burst of 401s only rotates the token once.
+ */
+export function refreshAuthToken(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = performRefresh().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+export async function ensureFreshAuthToken(): Promise<string | null> {
+  const expiresAt = localStorage.getItem(TOKEN_EXPIRES_AT_KEY);
+  if (expiresAt && new Date(expiresAt).getTime() - Date.now() < REFRESH_MARGIN_MS) {
+    await refreshAuthToken();
+  }
+  return getAuthToken();
+}
+
+/**
+ * fetch() with the Bearer token attached. Refreshes an expiring token up front
+ * and retries once after a 401 so workers aren't bounced to the login page.
+ */
+export async function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers);
+    if (token) {
+      headers.set("Authorization", `Bearer ${token}`);
+    }
+    return fetch(url, { ...init, headers, credentials: "include" });
+  };
+
+  const res = await send(await ensureFreshAuthToken());
+  // A 401 from login means bad credentials, not an expired token
+  const canRetry = url !== "/api/auth/login" && !!localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (res.status === 401 && canRetry && await refreshAuthToken()) {
+    return send(getAuthToken());
+  }
+  return res;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -7,12 +116,36 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+export interface ApiError {
+  status: number | null;
+  message: string;
+  code?: string; // Typed reason some endpoints return, e.g. JOB_PAUSED
+}
+
+/**
+ * Splits an apiRequest error ("409: {json body}") into status, message and code
+ */
+export function parseApiError(error: unknown): ApiError {
+  const raw = error instanceof Error ? error.message : String(error);
+  const match = raw.match(/^(\d{3}): ([\s\S]*)$/);
+  if (!match) {
+    return { status: null, message: raw };
+  }
+
+  try {
+    const body = JSON.parse(match[2]);
+    return { status: Number(match[1]), message: body.message || match[2], code: body.code };
+  } catch {
+    // Not a JSON body - show the raw text
+    return { status: Number(match[1]), message: match[2] };
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const token = localStorage.getItem("token");
   const headers: Record<string, string> = {};
   
   // Auto-detect FormData and handle appropriately
@@ -22,16 +155,11 @@ export async function apiRequest(
     headers["Content-Type"] = "application/json";
   }
   // For FormData, don't set Content-Type - browser will set it with boundary
-  
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
 
-  const res = await fetch(url, {
+  const res = await authFetch(url, {
     method,
     headers,
     body: data ? (isFormData ? data : JSON.stringify(data)) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
@@ -44,17 +172,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const token = localStorage.getItem("token");
-    const headers: Record<string, string> = {};
-    
-    if (token) {
-      headers["Authorization"] = `Bearer ${token}`;
-    }
-
-    const res = await fetch(queryKey.join("/") as string, {
-      headers,
-      credentials: "include",
-    });
+    const res = await authFetch(queryKey.join("/") as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
@@ -0,0 +1,93 @@
+import type { QueuedScan } from "@shared/schema";
+
+/**
+ * Durable store for worker scans that have not reached the server yet, kept in
+ * IndexedDB so they survive Wi-Fi drops, tab reloads and browser restarts.
+ * Scans are replayed in the order they were captured.
+ */
+
+const DB_NAME = "barcode-packaging";
+const DB_VERSION = 1;
+const STORE_NAME = "pendingScans";
+
+export interface StoredScan extends QueuedScan {
+  id?: number; // Auto-increment key - keeps capture order
+  jobId: string;
+  userId: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id", autoIncrement: true });
+        store.createIndex("clientScanId", "clientScanId", { unique: true });
+        store.createIndex("jobUser", ["jobId", "userId"]);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Let the next call try again (e.g. after the user allows storage)
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function enqueueScan(scan: StoredScan): Promise<void> {
+  await withStore("readwrite", (store) => store.add(scan));
+}
+
+export async function getQueuedScans(jobId: string, userId: string): Promise<StoredScan[]> {
+  const scans = await withStore<StoredScan[]>("readonly", (store) =>
+    store.index("jobUser").getAll(IDBKeyRange.only([jobId, userId]))
+  );
+  return (scans || []).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+export async function removeQueuedScans(clientScanIds: string[]): Promise<void> {
+  if (clientScanIds.length === 0) return;
+  await withStore("readwrite", (store) => {
+    const index = store.index("clientScanId");
+    clientScanIds.forEach((clientScanId) => {
+      const request = index.getKey(clientScanId);
+      request.onsuccess = () => {
+        if (request.result !== undefined) {
+          store.delete(request.result);
+        }
+      };
+    });
+  });
+}
+
+export function createClientScanId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  // Older browsers / non-secure origins
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * True when a request failed because the server couldn't be reached rather than
+ * because it rejected the scan - those scans stay queued for replay.
+ */
+export function isConnectivityError(error: unknown): boolean {
+  if (error instanceof TypeError) return true; // fetch() network failure
+  return error instanceof Error && /^(502|503|504):/.test(error.message); // Proxy up, server unreachable
+}
@@ -7,11 +7,24 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { BarcodeScanner } from "@/components/barcode-scanner";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { ArrowLeft, CheckCircle, XCircle, AlertTriangle, Search, Scan, Package } from "lucide-react";
-import type { BoxRequirement } from "@shared/schema";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { ArrowLeft, CheckCircle, XCircle, AlertTriangle, Search, Scan, Package, Camera, Lock } from "lucide-react";
+import {
+  CHECK_SESSION_HEARTBEAT_MS,
+  CHECK_SESSION_HANDOVER_IDLE_MS,
+  type ActiveCheckSession,
+  type BoxRequirement,
+  type CheckEvent,
+  type CheckReconciliation,
+  type CheckResolutionDecision,
+  type CheckSession,
+  type CheckSessionStart,
+  type CheckWrongItemFinding,
+  type CheckWrongItemResolution,
+} from "@shared/schema";
 
 interface CheckCountProgress {
   [barCode: string]: {
@@ -26,15 +39,27 @@ interface CheckCountProgress {
   };
 }
 
-interface CheckCountSession {
-  id: string;
-  jobId: string;
-  boxNumber: number | null;
-  userId: string;
-  status: string;
-  startTime: string;
-  totalItemsExpected: number;
-  totalItemsScanned: number;
+function describeWrongItemHome(finding: CheckWrongItemFinding): string {
+  if (finding.expectedBoxNumber !== null) {
+    return `belongs in Box ${finding.expectedBoxNumber} (${finding.expectedCustomerName})`;
+  }
+  if (finding.expectedCustomerName) {
+    return `belongs to ${finding.expectedCustomerName}, who is waiting for a box`;
+  }
+  return "is not part of this job";
+}
+
+function describeWrongItemResolution(finding: CheckWrongItemFinding): string {
+  switch (finding.resolution) {
+    case 'move_to_box':
+      return `moved to Box ${finding.resolvedBoxNumber}`;
+    case 'extra_item':
+      return "recorded as an extra item";
+    case 'put_aside':
+      return "put aside";
+    default:
+      return "not resolved yet";
+  }
 }
 
 export default function CheckCountPage() {
@@ -46,12 +71,16 @@ export default function CheckCountPage() {
   
   const [barCodeInput, setBarCodeInput] = useState("");
   const [checkProgress, setCheckProgress] = useState<CheckCountProgress>({});
-  const [currentSession, setCurrentSession] = useState<CheckCountSession | null>(null);
+  const [currentSession, setCurrentSession] = useState<CheckSession | null>(null);
   const [isSessionActive, setIsSessionActive] = useState(false);
   const [showDiscrepancyDialog, setShowDiscrepancyDialog] = useState(false);
-  const [discrepancyData, setDiscrepancyData] = useState<any>(null);
+  const [reconciliation, setReconciliation] = useState<CheckReconciliation | null>(null);
+  const [wrongItems, setWrongItems] = useState<CheckWrongItemFinding[]>([]);
+  const [activeWrongItem, setActiveWrongItem] = useState<CheckWrongItemFinding | null>(null);
+  const [moveTargetBox, setMoveTargetBox] = useState("");
   
   const inputRef = useRef<HTMLInputElement>(null);
+  const hasAutoResumed = useRef(false);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -86,43 +115,99 @@ export default function CheckCountPage() {
 
   const customerName = boxRequirements.length > 0 ? boxRequirements[0].customerName : `Box ${boxNumber}`;
 
-  // Initialize check progress when box requirements are loaded
+  // Open checks on this job - an open check on this box is resumed (ours) or offered for takeover
+  const { data: activeChecksData } = useQuery<{ activeChecks: ActiveCheckSession[] }>({
+    queryKey: [`/api/jobs/${jobId}/active-checks`],
+    enabled: !!jobId && !!user && !isSessionActive,
+    refetchInterval: 15000,
+  });
+
+  const boxActiveCheck = activeChecksData?.activeChecks.find(check => check.boxNumber === parseInt(boxNumber!)) || null;
+  const isLockedByOther = !!boxActiveCheck && boxActiveCheck.userId !== user?.id;
+  const canTakeOver = !!boxActiveCheck && (
+    user?.role === 'manager' || user?.role === 'supervisor'
+    || Date.now() - new Date(boxActiveCheck.lastActivityTime).getTime() >= CHECK_SESSION_HANDOVER_IDLE_MS
+  );
+
+  // Card states follow the server's classification of the recorded check scans
+  const applyReconciliation = useCallback((result: CheckReconciliation) => {
+    setWrongItems(result.wrongItems);
+    setCheckProgress(prev => {
+      const updated = { ...prev };
+      result.lines.forEach(line => {
+        updated[line.barCode] = {
+          ...updated[line.barCode],
+          expectedQty: line.requiredQty,
+          originalScannedQty: line.originalQty,
+          checkScannedQty: line.checkQty,
+          discrepancyType: line.outcome,
+          isComplete: line.checkQty >= line.originalQty,
+          requiredQty: line.requiredQty,
+          barCode: line.barCode,
+          productName: line.productName
+        };
+      });
+      return updated;
+    });
+  }, []);
+
+  // Taken over by another checker, or cancelled after going quiet - stop scanning into it
+  const handleSessionLost = useCallback((message: string) => {
+    setIsSessionActive(false);
+    setCurrentSession(null);
+    setReconciliation(null);
+    setShowDiscrepancyDialog(false);
+    queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/active-checks`] });
+    toast({
+      title: "Check closed",
+      description: message,
+      variant: "destructive",
+    });
+  }, [jobId, queryClient, toast]);
+
+  const isSessionLostError = (code?: string) => code === 'CHECK_SESSION_NOT_OWNER' || code === 'CHECK_SESSION_CLOSED';
+
+  // Initialize check progress when box requirements are loaded - counts from a resumed check are kept
   useEffect(() => {
     if (boxRequirements.length > 0) {
-      const initialProgress: CheckCountProgress = {};
-      boxRequirements.forEach(req => {
-        initialProgress[req.barCode] = {
-          expectedQty: req.requiredQty,
-          originalScannedQty: req.scannedQty || 0,
-          checkScannedQty: 0,
-          discrepancyType: 'match',
-          isComplete: false,
-          requiredQty: req.requiredQty, // Add required quantity for allocation logic
-          barCode: req.barCode,
-          productName: req.productName
-        };
+      setCheckProgress(prev => {
+        const initialProgress: CheckCountProgress = {};
+        boxRequirements.forEach(req => {
+          initialProgress[req.barCode] = {
+            expectedQty: req.requiredQty,
+            originalScannedQty: req.scannedQty || 0,
+            checkScannedQty: prev[req.barCode]?.checkScannedQty || 0,
+            discrepancyType: prev[req.barCode]?.discrepancyType || 'match',
+            isComplete: prev[req.barCode]?.isComplete || false,
+            requiredQty: req.requiredQty, // Add required quantity for allocation logic
+            barCode: req.barCode,
+            productName: req.productName
+          };
+        });
+        return initialProgress;
       });
-      setCheckProgress(initialProgress);
     }
   }, [boxRequirements]);
 
-  // Create check session mutation
+  // Start, resume or take over the check session - a resumed check's progress comes back from the server
   const createSessionMutation = useMutation({
-    mutationFn: async () => {
-      const totalExpected = boxRequirements.reduce((sum, req) => sum + (req.scannedQty || 0), 0);
+    mutationFn: async (options: { takeOver?: boolean } = {}) => {
       const response = await apiRequest("POST", "/api/check-sessions", {
         jobId: jobId!,
         boxNumber: parseInt(boxNumber!),
-        totalItemsExpected: totalExpected
+        takeOver: options.takeOver
       });
-      return response.json();
+      return response.json() as Promise<Extract<CheckSessionStart, { session: unknown }>>;
     },
-    onSuccess: (data: any) => {
+    onSuccess: (data) => {
       setCurrentSession(data.session);
       setIsSessionActive(true);
+      applyReconciliation(data.reconciliation);
       toast({
-        title: "Check session started",
-        description: `Started verification for ${customerName}`,
+        title: data.outcome === 'resumed' ? "Check resumed" : data.outcome === 'handed_over' ? "Check taken over" : "Check session started",
+        description: data.outcome === 'started'
+          ? `Started verification for ${customerName}`
+          : `${data.reconciliation.totalCheckScans} items already scanned for ${customerName}`,
       });
       // Focus input after session starts
       setTimeout(() => {
@@ -132,29 +217,68 @@ export default function CheckCountPage() {
       }, 100);
     },
     onError: (error: any) => {
+      const apiError = parseApiError(error);
+      if (apiError.code === 'CHECK_BOX_LOCKED') {
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/active-checks`] });
+      }
       toast({
         title: "Failed to start check session",
-        description: error.message || "Unable to start verification",
+        description: apiError.message || "Unable to start verification",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Our own open check on this box (e.g. after a reload or on another device) picks up where it left off
+  useEffect(() => {
+    if (hasAutoResumed.current || isSessionActive || !boxActiveCheck || boxActiveCheck.userId !== user?.id) return;
+    hasAutoResumed.current = true;
+    createSessionMutation.mutate({});
+  }, [boxActiveCheck, isSessionActive, user?.id]);
+
+  // Keep the check open while this page is - a quiet device lets others take over, then the check is cancelled
+  useEffect(() => {
+    if (!isSessionActive || !currentSession) return;
+    const interval = setInterval(async () => {
+      try {
+        await apiRequest("POST", `/api/check-sessions/${currentSession.id}/heartbeat`);
+      } catch (error) {
+        const apiError = parseApiError(error);
+        if (isSessionLostError(apiError.code)) {
+          handleSessionLost(apiError.message);
+        }
+      }
+    }, CHECK_SESSION_HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [isSessionActive, currentSession?.id, handleSessionLost]);
+
+  const cancelSessionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/check-sessions/${currentSession!.id}`, { status: 'cancelled' });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Check cancelled",
+        description: `Box ${boxNumber} is free for another check`,
+      });
+      handleGoBack();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to cancel check",
+        description: parseApiError(error).message || "Unable to cancel the check",
         variant: "destructive",
       });
     },
   });
 
-  // Complete session mutation
+  // Complete session mutation - accepts or rejects the reconciliation version that was shown
   const completeSessionMutation = useMutation({
-    mutationFn: async (data: { applyCorrections?: boolean; corrections?: any[]; extraItems?: any[] } = {}) => {
+    mutationFn: async (data: { decision: CheckResolutionDecision; version: string }) => {
       if (!currentSession) return;
-      
-      const discrepancies = Object.values(checkProgress).filter(
-        p => p.discrepancyType !== 'match'
-      ).length;
-      
-      const response = await apiRequest("POST", `/api/check-sessions/${currentSession.id}/complete`, {
-        discrepanciesFound: discrepancies,
-        applyCorrections: data.applyCorrections || false,
-        corrections: data.corrections || [],
-        extraItems: data.extraItems || []
-      });
+
+      const response = await apiRequest("POST", `/api/check-sessions/${currentSession.id}/complete`, data);
       return response.json();
     },
     onSuccess: () => {
@@ -165,9 +289,51 @@ export default function CheckCountPage() {
       handleGoBack();
     },
     onError: (error: any) => {
+      const apiError = parseApiError(error);
+      if (isSessionLostError(apiError.code)) {
+        handleSessionLost(apiError.message);
+        return;
+      }
+      if (apiError.code === 'RECONCILIATION_STALE') {
+        // The box or the check changed meanwhile - show the server's updated comparison
+        toast({
+          title: "Box changed",
+          description: apiError.message,
+          variant: "destructive",
+        });
+        reconciliationMutation.mutate();
+        return;
+      }
       toast({
         title: "Failed to complete session",
-        description: error.message || "Unable to finish verification",
+        description: apiError.message || "Unable to finish verification",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The server rebuilds the comparison from the recorded check scans
+  const reconciliationMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("GET", `/api/check-sessions/${currentSession!.id}/reconciliation`);
+      const data = await response.json();
+      return data.reconciliation as CheckReconciliation;
+    },
+    onSuccess: (result) => {
+      setReconciliation(result);
+      applyReconciliation(result);
+
+      if (result.discrepancies > 0) {
+        setShowDiscrepancyDialog(true);
+      } else {
+        // No discrepancies - complete normally
+        completeSessionMutation.mutate({ decision: 'accept', version: result.version });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to compare box",
+        description: parseApiError(error).message || "Unable to compare the check with the box",
         variant: "destructive",
       });
     },
@@ -175,57 +341,111 @@ export default function CheckCountPage() {
 
   // Record check event mutation
   const recordEventMutation = useMutation({
-    mutationFn: async (eventData: { barCode: string; productName: string; scannedQty: number; expectedQty: number }) => {
+    mutationFn: async (eventData: { barCode: string }) => {
       if (!currentSession) return;
-      
+
+      // The server counts the unit and compares it with the packed quantity
       const response = await apiRequest("POST", "/api/check-events", {
         checkSessionId: currentSession.id,
-        barCode: eventData.barCode,
-        productName: eventData.productName,
-        scannedQty: eventData.scannedQty,
-        expectedQty: eventData.expectedQty,
-        discrepancyType: eventData.scannedQty === eventData.expectedQty ? 'match' : 
-                        eventData.scannedQty > eventData.expectedQty ? 'excess' : 'shortage',
-        eventType: 'scan'
+        barCode: eventData.barCode
       });
-      return response.json();
+      return response.json() as Promise<{ checkEvent: CheckEvent; finding: CheckWrongItemFinding | null }>;
     },
-    onSuccess: (data, variables) => {
-      // Update the check progress state after successful scan
+    onSuccess: (data) => {
+      if (!data) return;
+      const { checkEvent, finding } = data;
+
+      setCurrentSession(prev => prev ? {
+        ...prev,
+        totalItemsScanned: (prev.totalItemsScanned || 0) + 1
+      } : null);
+
+      // Doesn't belong in this box - recorded as a finding for the checker to resolve
+      if (finding) {
+        setWrongItems(prev => [...prev, finding]);
+        openWrongItem(finding);
+        toast({
+          title: "Wrong item",
+          description: `${finding.productName || finding.barCode} ${describeWrongItemHome(finding)}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Update the check progress state from the recorded event
       setCheckProgress(prev => {
         const updated = { ...prev };
-        if (updated[variables.barCode]) {
-          updated[variables.barCode] = {
-            ...updated[variables.barCode],
-            checkScannedQty: updated[variables.barCode].checkScannedQty + 1,
-            discrepancyType: variables.scannedQty === variables.expectedQty ? 'match' : 
-                           variables.scannedQty > variables.expectedQty ? 'excess' : 'shortage',
-            isComplete: updated[variables.barCode].checkScannedQty + 1 >= variables.expectedQty
+        if (updated[checkEvent.barCode]) {
+          updated[checkEvent.barCode] = {
+            ...updated[checkEvent.barCode],
+            originalScannedQty: checkEvent.expectedQty,
+            checkScannedQty: checkEvent.scannedQty,
+            discrepancyType: checkEvent.discrepancyType as 'match' | 'shortage' | 'excess',
+            isComplete: checkEvent.scannedQty >= checkEvent.expectedQty
           };
         }
         return updated;
       });
       
-      // Update session scan count
-      setCurrentSession(prev => prev ? {
-        ...prev,
-        totalItemsScanned: prev.totalItemsScanned + 1
-      } : null);
-      
       toast({
         title: "Item scanned",
-        description: `${variables.productName} recorded successfully`,
+        description: `${checkEvent.productName} recorded successfully`,
       });
     },
     onError: (error: any) => {
+      const apiError = parseApiError(error);
+      if (isSessionLostError(apiError.code)) {
+        handleSessionLost(apiError.message);
+        return;
+      }
       toast({
         title: "Scan failed",
-        description: error.message || "Failed to record scan",
+        description: apiError.message || "Failed to record scan",
         variant: "destructive",
       });
     },
   });
 
+  const resolveWrongItemMutation = useMutation({
+    mutationFn: async (data: { finding: CheckWrongItemFinding; resolution: CheckWrongItemResolution; targetBoxNumber?: number }) => {
+      const response = await apiRequest("POST", `/api/check-events/${data.finding.checkEventId}/resolve`, {
+        resolution: data.resolution,
+        targetBoxNumber: data.targetBoxNumber
+      });
+      return response.json() as Promise<{ finding: CheckWrongItemFinding }>;
+    },
+    onSuccess: ({ finding }) => {
+      setWrongItems(prev => prev.map(item => item.checkEventId === finding.checkEventId ? finding : item));
+      setActiveWrongItem(null);
+      toast({
+        title: "Wrong item resolved",
+        description: `${finding.productName || finding.barCode}: ${describeWrongItemResolution(finding)}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to resolve wrong item",
+        description: parseApiError(error).message || "Unable to resolve the item",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openWrongItem = (finding: CheckWrongItemFinding) => {
+    setMoveTargetBox(finding.expectedBoxNumber !== null ? String(finding.expectedBoxNumber) : "");
+    setActiveWrongItem(finding);
+  };
+
+  const handleResolveWrongItem = (resolution: CheckWrongItemResolution) => {
+    if (!activeWrongItem) return;
+    const targetBoxNumber = parseInt(moveTargetBox);
+    resolveWrongItemMutation.mutate({
+      finding: activeWrongItem,
+      resolution,
+      targetBoxNumber: resolution === 'move_to_box' && !isNaN(targetBoxNumber) ? targetBoxNumber : undefined
+    });
+  };
+
   const handleStartSession = () => {
     if (boxRequirements.length === 0) {
       toast({
@@ -235,7 +455,7 @@ export default function CheckCountPage() {
       });
       return;
     }
-    createSessionMutation.mutate();
+    createSessionMutation.mutate({});
   };
 
   const handleGoBack = () => {
@@ -247,171 +467,39 @@ export default function CheckCountPage() {
     }
   };
 
-  const handleBarCodeScan = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!barCodeInput.trim() || !isSessionActive) return;
+  // Shared by the keyboard/HID form and the camera scanner
+  const processBarCode = (barCode: string) => {
+    if (!barCode || !isSessionActive) return;
 
-    const barCode = barCodeInput.trim();
-    
-    // Find matching box requirement
-    const requirement = boxRequirements.find(req => req.barCode === barCode);
-    if (!requirement) {
-      toast({
-        title: "Unknown barcode",
-        description: `Barcode ${barCode} not found in this box`,
-        variant: "destructive",
-      });
-      setBarCodeInput("");
-      return;
-    }
 
-    // Get current progress for this barcode
-    const currentProgress = checkProgress[barCode] || {
-      expectedQty: requirement.requiredQty,
-      originalScannedQty: requirement.scannedQty || 0,
-      checkScannedQty: 0,
-      discrepancyType: 'match' as const,
-      isComplete: false
-    };
-
-    const newCheckScanned = currentProgress.checkScannedQty + 1;
-
-    // Record the event (state update will happen in onSuccess)
-    recordEventMutation.mutate({
-      barCode,
-      productName: requirement.productName,
-      scannedQty: newCheckScanned,
-      expectedQty: currentProgress.originalScannedQty
-    });
+    // Record the event (state update will happen in onSuccess) - barcodes this box doesn't need come back as wrong items
+    recordEventMutation.mutate({ barCode });
 
     setBarCodeInput("");
     inputRef.current?.focus();
   };
 
+  const handleBarCodeScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    processBarCode(barCodeInput.trim());
+  };
+
   const handleScanComplete = () => {
-    // Apply new allocation logic to categorize discrepancies
-    const updatedProgress = { ...checkProgress };
-    Object.values(updatedProgress).forEach(p => {
-      if (p.checkScannedQty !== p.originalScannedQty) {
-        if (p.checkScannedQty > p.originalScannedQty) {
-          // Found more items than originally scanned
-          if (p.checkScannedQty <= p.requiredQty) {
-            // Items found are within required limit - these will be allocated to box
-            p.discrepancyType = 'recovered'; // New category for items that will go to box
-          } else {
-            // Items beyond required limit - true excess that will become extras
-            p.discrepancyType = 'excess';
-          }
-        } else {
-          // Found fewer items than originally scanned
-          p.discrepancyType = 'shortage';
-        }
-      }
-    });
-    setCheckProgress(updatedProgress);
-    
-    const scannedDiscrepancies = Object.values(updatedProgress).filter(p => p.discrepancyType !== 'match');
-    
-    // Check for zero-scan scenario: if no scans occurred but products were previously scanned
-    const totalCheckScans = Object.values(updatedProgress).reduce((sum, p) => sum + p.checkScannedQty, 0);
-    const hasZeroScans = totalCheckScans === 0;
-    
-    // Create discrepancies for products that were previously scanned but not found during CheckCount
-    let zeroScanDiscrepancies: any[] = [];
-    if (hasZeroScans) {
-      boxRequirements.forEach(requirement => {
-        if ((requirement.scannedQty || 0) > 0) {
-          // Product was previously scanned but not found during CheckCount = discrepancy
-          zeroScanDiscrepancies.push({
-            barCode: requirement.barCode,
-            productName: requirement.productName,
-            expectedQty: requirement.scannedQty, // What was previously scanned
-            originalScannedQty: requirement.scannedQty,
-            checkScannedQty: 0, // Nothing found during CheckCount
-            discrepancyType: 'shortage' as const,
-            isComplete: false,
-            requiredQty: requirement.requiredQty
-          });
-        }
-      });
-    }
-    
-    const allDiscrepancies = [...scannedDiscrepancies, ...zeroScanDiscrepancies];
-    
-    if (allDiscrepancies.length > 0) {
-      // Update checkProgress to include zero-scan discrepancies for dialog display
-      if (zeroScanDiscrepancies.length > 0) {
-        const updatedProgress = { ...checkProgress };
-        zeroScanDiscrepancies.forEach(disc => {
-          updatedProgress[disc.barCode] = disc;
-        });
-        setCheckProgress(updatedProgress);
-      }
-      
-      setDiscrepancyData(allDiscrepancies);
-      setShowDiscrepancyDialog(true);
-    } else {
-      // No discrepancies - complete normally
-      completeSessionMutation.mutate({
-        applyCorrections: false,
-        corrections: [],
-        extraItems: []
-      });
-    }
+    reconciliationMutation.mutate();
   };
 
   const handleKeepOriginal = () => {
+    if (!reconciliation) return;
     setShowDiscrepancyDialog(false);
-    // Complete without applying corrections - creates check result with rejected status
-    completeSessionMutation.mutate({ 
-      applyCorrections: false,
-      corrections: [],
-      extraItems: []
-    });
+    // Complete without applying corrections - discrepancies are recorded as rejected
+    completeSessionMutation.mutate({ decision: 'reject', version: reconciliation.version });
   };
 
   const handleApplyCorrections = () => {
+    if (!reconciliation) return;
     setShowDiscrepancyDialog(false);
-    
-    // Prepare correction data and extra items with new allocation logic
-    const corrections: any[] = [];
-    const extraItems: any[] = [];
-    
-    boxRequirements.forEach(requirement => {
-      const progress = checkProgress[requirement.barCode];
-      if (progress && progress.discrepancyType !== 'match') {
-        // Calculate allocation with new logic:
-        // - Items up to required_qty go to the box
-        // - Only items beyond required_qty become extras
-        const maxBoxAllocation = Math.min(progress.checkScannedQty, requirement.requiredQty);
-        const extraCount = Math.max(0, progress.checkScannedQty - requirement.requiredQty);
-        
-        // Create correction record with allocated quantity (capped at required_qty)
-        corrections.push({
-          sessionId: currentSession?.id,
-          boxRequirementId: requirement.id,
-          barCode: requirement.barCode,
-          originalQty: progress.originalScannedQty,
-          checkQty: progress.checkScannedQty,
-          correctedQty: maxBoxAllocation, // Allocate up to required_qty to box
-          requiredQty: requirement.requiredQty, // Include for backend logic
-        });
-        
-        // Only items beyond required_qty become extras
-        for (let i = 0; i < extraCount; i++) {
-          extraItems.push({
-            barCode: requirement.barCode,
-            productName: requirement.productName
-          });
-        }
-      }
-    });
-    
-    completeSessionMutation.mutate({ 
-      applyCorrections: true, 
-      corrections, 
-      extraItems 
-    });
+    // Recovered units go to the box up to the required quantity; the server records the rest as extras
+    completeSessionMutation.mutate({ decision: 'accept', version: reconciliation.version });
   };
 
   if (isLoading) {
@@ -450,13 +538,24 @@ export default function CheckCountPage() {
           </div>
           
           {isSessionActive && (
-            <Button 
-              onClick={handleScanComplete}
-              variant="outline"
-              data-testid="button-scan-complete"
-            >
-              Scan Complete
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                onClick={() => cancelSessionMutation.mutate()}
+                disabled={cancelSessionMutation.isPending || completeSessionMutation.isPending}
+                data-testid="button-cancel-check"
+              >
+                Cancel Check
+              </Button>
+              <Button 
+                onClick={handleScanComplete}
+                variant="outline"
+                disabled={reconciliationMutation.isPending || completeSessionMutation.isPending}
+                data-testid="button-scan-complete"
+              >
+                {reconciliationMutation.isPending ? "Comparing..." : "Scan Complete"}
+              </Button>
+            </div>
           )}
         </div>
         
@@ -467,7 +566,7 @@ export default function CheckCountPage() {
               <Scan className="h-5 w-5 text-gray-500" />
               <span className="text-sm font-medium text-gray-700">Barcode Scanner</span>
             </div>
-            <form onSubmit={handleBarCodeScan}>
+            <form onSubmit={handleBarCodeScan} className="flex gap-2">
               <Input
                 ref={inputRef}
                 type="text"
@@ -477,7 +576,22 @@ export default function CheckCountPage() {
                 className="w-full text-center text-lg"
                 data-testid="input-barcode"
               />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  // Toggles the BarcodeScanner camera below
+                  const scannerElement = document.querySelector('[data-testid="button-toggle-camera"]') as HTMLButtonElement;
+                  scannerElement?.click();
+                }}
+                data-testid="button-start-camera-inline"
+              >
+                <Camera className="h-4 w-4" />
+              </Button>
             </form>
+            <div className="mt-2">
+              <BarcodeScanner onScan={processBarCode} />
+            </div>
           </div>
         )}
       </div>
@@ -491,25 +605,77 @@ export default function CheckCountPage() {
                 <CardTitle>Start Box Verification</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-center py-8">
-                  <Package className="h-16 w-16 text-gray-400 mx-auto mb-4" />
-                  <h3 className="text-lg font-medium mb-2">Ready to verify {customerName}</h3>
-                  <p className="text-gray-600 mb-6">
-                    This will start a quality check session for {boxRequirements.length} items
-                  </p>
-                  <Button 
-                    onClick={handleStartSession}
-                    disabled={createSessionMutation.isPending || boxRequirements.length === 0}
-                    data-testid="button-start-check"
-                  >
-                    {createSessionMutation.isPending ? "Starting..." : "Start Check Session"}
-                  </Button>
-                </div>
+                {isLockedByOther && boxActiveCheck ? (
+                  <div className="text-center py-8" data-testid="check-locked">
+                    <Lock className="h-16 w-16 text-amber-500 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium mb-2">Being checked by {boxActiveCheck.checkerName}</h3>
+                    <p className="text-gray-600 mb-6">
+                      {boxActiveCheck.totalItemsScanned} items scanned · last activity {new Date(boxActiveCheck.lastActivityTime).toLocaleTimeString()}
+                    </p>
+                    {canTakeOver ? (
+                      <Button
+                        onClick={() => createSessionMutation.mutate({ takeOver: true })}
+                        disabled={createSessionMutation.isPending}
+                        data-testid="button-take-over-check"
+                      >
+                        {createSessionMutation.isPending ? "Taking over..." : "Take Over Check"}
+                      </Button>
+                    ) : (
+                      <p className="text-sm text-gray-500">
+                        You can take this check over once {boxActiveCheck.checkerName}'s device has been idle for {CHECK_SESSION_HANDOVER_IDLE_MS / 60000} minutes.
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="text-center py-8">
+                    <Package className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium mb-2">Ready to verify {customerName}</h3>
+                    <p className="text-gray-600 mb-6">
+                      This will start a quality check session for {boxRequirements.length} items
+                    </p>
+                    <Button 
+                      onClick={handleStartSession}
+                      disabled={createSessionMutation.isPending || boxRequirements.length === 0}
+                      data-testid="button-start-check"
+                    >
+                      {createSessionMutation.isPending ? "Starting..." : "Start Check Session"}
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
         ) : (
           <div className="max-w-6xl mx-auto">
+            {/* Wrong items found in this box */}
+            {wrongItems.length > 0 && (
+              <Card className="mb-4 border-red-200" data-testid="wrong-items">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base text-red-700">Wrong Items ({wrongItems.length})</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {wrongItems.map((finding) => (
+                    <div key={finding.checkEventId} className="flex items-center justify-between p-2 bg-red-50 rounded-lg">
+                      <div>
+                        <div className="text-sm font-medium">{finding.productName || finding.barCode}</div>
+                        <div className="text-xs text-gray-600">
+                          {finding.barCode} {describeWrongItemHome(finding)}
+                          {finding.attributedWorkerName && ` · last packed by ${finding.attributedWorkerName}`}
+                        </div>
+                      </div>
+                      {finding.resolution ? (
+                        <Badge variant="secondary">{describeWrongItemResolution(finding)}</Badge>
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => openWrongItem(finding)} data-testid={`button-resolve-${finding.checkEventId}`}>
+                          Resolve
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Products Grid - Same as Box Modal */}
             <div className="grid gap-4">
               {boxRequirements.map((requirement) => {
@@ -650,49 +816,57 @@ export default function CheckCountPage() {
           </DialogHeader>
           
           <div className="space-y-4">
-            {discrepancyData && discrepancyData.map((item: any, index: number) => {
-              const allocation = Math.min(item.checkScannedQty, item.requiredQty || 0);
-              const extraCount = Math.max(0, item.checkScannedQty - (item.requiredQty || 0));
-              
-              return (
-                <div key={index} className="p-3 bg-gray-50 rounded-lg">
-                  <div className="text-sm font-medium">{item.productName}</div>
-                  <div className="text-sm text-gray-600">
-                    Original: {item.originalScannedQty}, Found: {item.checkScannedQty}
-                    <span className={`ml-2 font-medium ${
-                      item.discrepancyType === 'recovered' ? 'text-blue-600' :
-                      item.discrepancyType === 'excess' ? 'text-orange-600' : 'text-red-600'
-                    }`}>
-                      ({item.discrepancyType === 'recovered' ? 'Recovered' :
-                        item.discrepancyType === 'excess' ? '+' + (item.checkScannedQty - item.originalScannedQty) :
-                        item.checkScannedQty - item.originalScannedQty})
-                    </span>
+            {reconciliation?.lines.filter(line => line.outcome !== 'match').map((line) => (
+              <div key={line.boxRequirementId} className="p-3 bg-gray-50 rounded-lg">
+                <div className="text-sm font-medium">{line.productName}</div>
+                <div className="text-sm text-gray-600">
+                  Original: {line.originalQty}, Found: {line.checkQty}
+                  <span className={`ml-2 font-medium ${
+                    line.outcome === 'recovered' ? 'text-blue-600' :
+                    line.outcome === 'excess' ? 'text-orange-600' : 'text-red-600'
+                  }`}>
+                    ({line.outcome === 'recovered' ? 'Recovered' :
+                      line.outcome === 'excess' ? '+' + (line.checkQty - line.originalQty) :
+                      line.checkQty - line.originalQty})
+                  </span>
+                </div>
+                {line.outcome === 'recovered' && (
+                  <div className="text-xs text-blue-600 mt-1">
+                    → {line.correctedQty} items will be allocated to box
                   </div>
-                  {item.discrepancyType === 'recovered' && (
-                    <div className="text-xs text-blue-600 mt-1">
-                      → {allocation} items will be allocated to box
-                    </div>
-                  )}
-                  {item.discrepancyType === 'excess' && extraCount > 0 && (
-                    <div className="text-xs text-orange-600 mt-1">
-                      → {allocation} items to box, {extraCount} items to extras
-                    </div>
-                  )}
+                )}
+                {line.outcome === 'excess' && line.extraQty > 0 && (
+                  <div className="text-xs text-orange-600 mt-1">
+                    → {line.correctedQty} items to box, {line.extraQty} items to extras
+                  </div>
+                )}
+              </div>
+            ))}
+            {reconciliation?.wrongItems.map((finding) => (
+              <div key={finding.checkEventId} className="p-3 bg-red-50 rounded-lg">
+                <div className="text-sm font-medium">{finding.productName || finding.barCode}</div>
+                <div className="text-sm text-red-600">
+                  Wrong item - {describeWrongItemHome(finding)}
                 </div>
-              );
-            })}
+                <div className="text-xs text-gray-600 mt-1">
+                  → {describeWrongItemResolution(finding)}
+                </div>
+              </div>
+            ))}
           </div>
           
           <div className="flex space-x-2 pt-4">
             <Button 
               variant="outline" 
               onClick={handleKeepOriginal}
+              disabled={completeSessionMutation.isPending}
               className="flex-1"
             >
               Keep Original
             </Button>
             <Button 
               onClick={handleApplyCorrections}
+              disabled={completeSessionMutation.isPending}
               className="flex-1"
             >
               Apply Corrections
@@ -700,6 +874,68 @@ export default function CheckCountPage() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Wrong Item Dialog */}
+      <Dialog open={!!activeWrongItem} onOpenChange={(open) => !open && setActiveWrongItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Wrong Item</DialogTitle>
+            <DialogDescription>
+              {activeWrongItem && `${activeWrongItem.productName || activeWrongItem.barCode} ${describeWrongItemHome(activeWrongItem)}.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {activeWrongItem && (
+            <div className="space-y-4">
+              <div className="p-3 bg-gray-50 rounded-lg text-sm text-gray-600">
+                <div>Barcode: {activeWrongItem.barCode}</div>
+                <div>Last packed into Box {boxNumber} by: {activeWrongItem.attributedWorkerName || 'Unknown'}</div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="Box number"
+                  value={moveTargetBox}
+                  onChange={(e) => setMoveTargetBox(e.target.value)}
+                  className="w-32"
+                  data-testid="input-move-target-box"
+                />
+                <Button
+                  onClick={() => handleResolveWrongItem('move_to_box')}
+                  disabled={resolveWrongItemMutation.isPending || !moveTargetBox}
+                  className="flex-1"
+                  data-testid="button-move-to-box"
+                >
+                  Move to Box {moveTargetBox}
+                </Button>
+              </div>
+
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => handleResolveWrongItem('extra_item')}
+                  disabled={resolveWrongItemMutation.isPending}
+                  className="flex-1"
+                  data-testid="button-wrong-item-extra"
+                >
+                  Convert to Extra
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleResolveWrongItem('put_aside')}
+                  disabled={resolveWrongItemMutation.isPending}
+                  className="flex-1"
+                  data-testid="button-wrong-item-put-aside"
+                >
+                  Put Aside
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
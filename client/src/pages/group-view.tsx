@@ -9,7 +9,6 @@ import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   ArrowLeft, 
-  Download, 
   Search, 
   Package, 
   Users, 
@@ -20,8 +19,8 @@ import {
   Filter
 } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
-import { useToast } from '@/hooks/use-toast';
 import { useUserPreferences } from '@/hooks/use-user-preferences';
+import { ExportMenu, getSpreadsheetExportOptions } from '@/components/export-menu';
 
 interface GroupCustomer {
   customerName: string;
@@ -49,7 +48,6 @@ export function GroupViewPage() {
   const [activeTab, setActiveTab] = useState('overview');
   
   const { user } = useAuth();
-  const { toast } = useToast();
   const { preferences } = useUserPreferences();
 
   // Fetch group customers
@@ -120,47 +118,6 @@ export function GroupViewPage() {
     groupSummary.completionRate = Math.round((groupSummary.totalScanned / groupSummary.totalQty) * 100);
   }
 
-  // Handle Excel export
-  const handleExcelExport = async () => {
-    try {
-      const response = await fetch(`/api/jobs/${jobId}/groups/${encodeURIComponent(groupName)}/export`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-        }
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to export group data');
-      }
-
-      const data = await response.json();
-      
-      // Create and trigger download
-      const blob = new Blob([JSON.stringify(data.exportData, null, 2)], { 
-        type: 'application/json' 
-      });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${groupName}_export_${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-
-      toast({
-        title: "Export Successful",
-        description: `Group "${groupName}" data has been exported successfully.`
-      });
-    } catch (error) {
-      toast({
-        title: "Export Failed",
-        description: "Failed to export group data. Please try again.",
-        variant: "destructive"
-      });
-    }
-  };
-
   const handleBackToJob = () => {
     navigate(`/manager/jobs/${jobId}`);
   };
@@ -230,14 +187,11 @@ export function GroupViewPage() {
               </select>
             )}
 
-            <Button
-              onClick={handleExcelExport}
-              className="flex items-center gap-2"
-              data-testid="export-button"
-            >
-              <Download className="h-4 w-4" />
-              Export Excel
-            </Button>
+            <ExportMenu
+              options={getSpreadsheetExportOptions(`/api/jobs/${jobId}/groups/${encodeURIComponent(groupName)}/export`)}
+              size="default"
+              testId="export-button"
+            />
           </div>
         </div>
 
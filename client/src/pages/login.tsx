@@ -53,7 +53,7 @@ export default function Login() {
       return response.json();
     },
     onSuccess: (data) => {
-      login(data.token, data.user);
+      login(data, data.user);
       toast({
         title: "Login successful",
         description: `Welcome back, ${data.user.name}!`,
@@ -18,13 +18,28 @@ import { useAuth } from "@/hooks/use-auth";
 import { useErrorContext } from "@/lib/error-context";
 import { ErrorDialog } from "@/components/ui/error-dialog";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Package, Settings, LogOut, CloudUpload, Eye, Users, Download, Plus, ChevronDown, UserPlus, Palette, Trash2, Archive, Box } from "lucide-react";
+import { apiRequest, authFetch, queryClient } from "@/lib/queryClient";
+import { Package, Settings, LogOut, CloudUpload, Eye, Users, Plus, ChevronDown, UserPlus, Palette, Trash2, Archive, Box, FilePen, BarChart3 } from "lucide-react";
 import { ExtraItemsModal } from "@/components/extra-items-modal";
 import { QASummaryPanel } from "@/components/qa-summary-panel";
+import { RecentlyDeletedJobs } from "@/components/recently-deleted-jobs";
 import { CustomerProgressModal } from "@/components/customer-progress-modal";
+import { ImportColumnMapper, useImportMapping, type ImportSettings } from "@/components/import-column-mapper";
+import { ImportPreviewPanel } from "@/components/import-preview-panel";
+import { JobAmendModal } from "@/components/job-amend-modal";
+import { ExportMenu, getLabelPrintOptions } from "@/components/export-menu";
+import type { ImportPreview } from "@shared/schema";
 import { z } from "zod";
-import { assignWorkerPattern, getDefaultWorkerColors, type WorkerAllocationPattern } from "../../../lib/worker-allocation";
+import {
+  assignWorkerPattern,
+  describeWorkerAllocation,
+  getNextWorkerIndex,
+  getWorkerColor,
+  isAllocationStrategy,
+  DEFAULT_ALLOCATION_STRATEGY,
+  type AllocationStrategy,
+  type WorkerAllocationPattern,
+} from "../../../lib/worker-allocation";
 
 const uploadFormSchema = z.object({
   name: z.string().min(1, "Job name is required"),
@@ -39,6 +54,32 @@ const uploadFormSchema = z.object({
 });
 
 type UploadForm = z.infer<typeof uploadFormSchema>;
+type JobUploadRequest = UploadForm & { file: File; importSettings: ImportSettings };
+
+function buildJobFormData(data: JobUploadRequest, preview: boolean): FormData {
+  const formData = new FormData();
+  formData.append("csv", data.file);
+  formData.append("name", data.name);
+  formData.append("jobTypeId", data.jobTypeId);
+  formData.append("description", data.description || "");
+  if (data.boxLimit && data.boxLimit.trim()) {
+    formData.append("boxLimit", data.boxLimit.trim());
+  }
+  formData.append("columnMapping", JSON.stringify(data.importSettings.columnMapping));
+  if (data.importSettings.importProfileId) {
+    formData.append("importProfileId", data.importSettings.importProfileId);
+  }
+  if (data.importSettings.sheetName) {
+    formData.append("sheetName", data.importSettings.sheetName);
+  }
+  if (preview) {
+    formData.append("preview", "true");
+  } else if (data.importSettings.saveProfileName.trim()) {
+    formData.append("saveProfileName", data.importSettings.saveProfileName.trim());
+    formData.append("saveProfileCustomer", data.importSettings.saveProfileCustomer.trim());
+  }
+  return formData;
+}
 
 // Component for Extra Items, Put Aside, and Boxes Complete buttons
 function ExtraItemsAndBoxesButtons({
@@ -219,13 +260,15 @@ function PutAsideModal({
   onClose: () => void;
   jobId: string | null;
 }) {
+  const [, setLocation] = useLocation();
   const { data: putAsideData, isLoading } = useQuery({
     queryKey: [`/api/jobs/${jobId}/put-aside`],
     enabled: !!jobId && isOpen,
     // REMOVED: refetchInterval polling - WebSocket provides real-time updates
   });
 
-  const putAsideItems = (putAsideData as any)?.items || [];
+  const putAsideItems = (putAsideData as any)?.groups || [];
+  const pickList = (putAsideData as any)?.pickList || [];
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
@@ -236,16 +279,32 @@ function PutAsideModal({
             Put Aside Items ({putAsideItems.length})
           </DialogTitle>
           <DialogDescription>
-            Items waiting for automatic allocation when workers scan matching barcodes
+            Items waiting for a box - reassigning a box to a customer who needs them puts them on its pull list
           </DialogDescription>
         </DialogHeader>
 
         <div className="overflow-y-auto max-h-[60vh] space-y-3">
+          {pickList.length > 0 && (
+            <Card className="border-l-4 border-l-purple-500" data-testid="put-aside-pick-list">
+              <CardContent className="p-4 space-y-1">
+                <div className="text-sm font-medium text-purple-800">To pull into reassigned boxes</div>
+                {pickList.map((line: any) => (
+                  <div key={`${line.boxNumber}-${line.barCode}`} className="flex items-center justify-between text-sm">
+                    <span>
+                      <span className="font-bold">Box {line.boxNumber}</span> - {line.productName || line.barCode}
+                      {line.customerName ? ` for ${line.customerName}` : ""}
+                    </span>
+                    <Badge variant="secondary" className="bg-purple-100 text-purple-800">Qty: {line.qty}</Badge>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
           {isLoading ? (
             <div className="flex items-center justify-center p-8">
               <div className="text-gray-500">Loading put aside items...</div>
             </div>
-          ) : putAsideItems.length === 0 ? (
+          ) : putAsideItems.length === 0 && pickList.length === 0 ? (
             <div className="flex items-center justify-center p-8">
               <div className="text-gray-500">No put aside items found</div>
             </div>
@@ -272,6 +331,9 @@ function PutAsideModal({
         </div>
 
         <DialogFooter>
+          <Button variant="outline" onClick={() => setLocation('/put-aside-manager')} data-testid="button-open-put-aside-manager">
+            Allocate Items
+          </Button>
           <Button onClick={onClose}>Close</Button>
         </DialogFooter>
       </DialogContent>
@@ -289,7 +351,8 @@ export default function ManagerDashboard() {
     customersCount: number;
     job: any;
   } | null>(null);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  // Dry-run result and the exact request it was made for - "Create Job" submits that request
+  const [importPreview, setImportPreview] = useState<{ request: JobUploadRequest; preview: ImportPreview } | null>(null);
   const [errorDialogOpen, setErrorDialogOpen] = useState(false);
   const [currentError, setCurrentError] = useState<any>(null);
   const [assignDialogOpen, setAssignDialogOpen] = useState(false);
@@ -300,11 +363,12 @@ export default function ManagerDashboard() {
   const [putAsideJobId, setPutAsideJobId] = useState<string | null>(null);
   const [isCustomerProgressModalOpen, setIsCustomerProgressModalOpen] = useState(false);
   const [customerProgressJobId, setCustomerProgressJobId] = useState<string | null>(null);
+  const [amendJobId, setAmendJobId] = useState<string | null>(null);
 
   // Assignment form state
   const [assignForm, setAssignForm] = useState({
     userId: "",
-    assignedColor: "#3B82F6", // Default blue
+    assignedColor: getWorkerColor(0), // Default blue - replaced with the next worker's colour when the dialog opens
   });
 
   const form = useForm<UploadForm>({
@@ -316,6 +380,11 @@ export default function ManagerDashboard() {
       boxLimit: "",
     },
   });
+  const importMapping = useImportMapping({
+    jobTypeId: form.watch("jobTypeId"),
+    onChange: () => setImportPreview(null),
+  });
+  const { file: selectedFile, settings: importSettings } = importMapping;
 
   // Fetch jobs with WebSocket real-time updates - no polling needed
   const { data: jobsData, isLoading: jobsLoading } = useQuery({
@@ -331,11 +400,8 @@ export default function ManagerDashboard() {
   const { data: workersData } = useQuery({
     queryKey: ["/api/users", { role: "worker" }],
     queryFn: async () => {
-      const response = await fetch("/api/users?role=worker", {
-        headers: { 
-          "Authorization": `Bearer ${user?.id}`,
-          "Content-Type": "application/json"
-        }
+      const response = await authFetch("/api/users?role=worker", {
+        headers: { "Content-Type": "application/json" }
       });
       if (!response.ok) throw new Error("Failed to fetch workers");
       return response.json();
@@ -356,19 +422,30 @@ export default function ManagerDashboard() {
     // REMOVED: refetchInterval polling - WebSocket provides real-time updates
   });
 
-  // Upload CSV mutation
-  const uploadMutation = useMutation({
-    mutationFn: async (data: UploadForm & { file: File }) => {
-      const formData = new FormData();
-      formData.append("csv", data.file);
-      formData.append("name", data.name);
-      formData.append("jobTypeId", data.jobTypeId);
-      formData.append("description", data.description || "");
-      if (data.boxLimit && data.boxLimit.trim()) {
-        formData.append("boxLimit", data.boxLimit.trim());
-      }
+  // Dry-run the import: full validation report, nothing is created
+  const previewMutation = useMutation({
+    mutationFn: async (data: JobUploadRequest): Promise<{ preview: ImportPreview }> => {
+      const response = await apiRequest("POST", "/api/jobs", buildJobFormData(data, true));
+      return response.json();
+    },
+    onSuccess: (data, request) => {
+      setImportPreview({ request, preview: data.preview });
+    },
+    onError: (error: any) => {
+      console.error('Import preview error:', error);
+      setCurrentError(error);
+      toast({
+        title: "Preview Failed",
+        description: formatError(error, "Please check your file and column mapping"),
+        variant: "destructive",
+      });
+    },
+  });
 
-      const response = await apiRequest("POST", "/api/jobs", formData);
+  // Upload job file mutation
+  const uploadMutation = useMutation({
+    mutationFn: async (data: JobUploadRequest) => {
+      const response = await apiRequest("POST", "/api/jobs", buildJobFormData(data, false));
 
       if (!response.ok) {
         const error = await response.json();
@@ -384,19 +461,21 @@ export default function ManagerDashboard() {
         job: data.job
       });
       form.reset();
-      setSelectedFile(null); // Clear selected file on success
+      importMapping.selectFile(null); // Clear selected file on success
+      setImportPreview(null);
       queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/import-profiles"] });
 
       // Show warning if box limit is less than 80% of customers
       if (data.warning) {
         toast({
-          title: "CSV uploaded with warning",
+          title: "File uploaded with warning",
           description: data.warning,
           variant: "destructive",
         });
       } else {
         toast({
-          title: "CSV uploaded successfully",
+          title: "File uploaded successfully",
           description: `${data.productsCount} products loaded for ${data.customersCount} customers`,
         });
       }
@@ -449,28 +528,17 @@ export default function ManagerDashboard() {
   // Multi-Worker Assignment mutation with automatic pattern assignment
   const assignWorkerMutation = useMutation({
     mutationFn: async (data: { jobId: string; userId: string; assignedColor: string }) => {
-      // Get current job assignments to determine worker count and pattern
-      const jobsResponse = await apiRequest("GET", "/api/jobs");
-      const jobsData = await jobsResponse.json();
-      const currentJob = jobsData.jobs?.find((job: any) => job.id === data.jobId);
-      const currentAssignments = currentJob?.assignments || [];
-
-      // Automatically assign allocation pattern based on assignment order (chronological)
-      const workerIndex = currentAssignments.length;
-      const allocationPattern = assignWorkerPattern(workerIndex);
-
+      // The server picks the worker index (lowest free slot) and the matching allocation pattern
       const response = await apiRequest("POST", `/api/jobs/${data.jobId}/assign`, {
         userId: data.userId,
         assignedColor: data.assignedColor,
-        allocationPattern,
-        workerIndex,
       });
       return response.json();
     },
     onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
       setAssignDialogOpen(false);
-      setAssignForm({ userId: "", assignedColor: "#3B82F6" });
+      setAssignForm({ userId: "", assignedColor: getWorkerColor(0) });
       toast({
         title: "Worker assigned successfully",
         description: `Worker assigned with ${data.assignment?.allocationPattern || 'ascending'} box allocation pattern`,
@@ -549,9 +617,10 @@ export default function ManagerDashboard() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/deleted"] });
       toast({
         title: "Job removed successfully",
-        description: "The job and all its data have been deleted.",
+        description: "The job has been moved to Recently Deleted, where it can be restored.",
       });
     },
     onError: (error: any) => {
@@ -565,7 +634,7 @@ export default function ManagerDashboard() {
 
   // Handle job removal
   const handleRemoveJob = (jobId: string) => {
-    if (confirm("Are you sure you want to remove this job? This action cannot be undone.")) {
+    if (confirm("Are you sure you want to remove this job? It can be restored from Recently Deleted until it is permanently deleted.")) {
       removeJobMutation.mutate(jobId);
     }
   };
@@ -599,6 +668,17 @@ export default function ManagerDashboard() {
     }
   };
 
+  // Allocation strategy comes from the job's type; jobs without one use the original worker patterns
+  const getJobAllocationStrategy = (job: any): AllocationStrategy => {
+    const jobType = (jobTypesData as any)?.jobTypes?.find((type: any) => type.id === job.jobTypeId);
+    return isAllocationStrategy(jobType?.allocationStrategy) ? jobType.allocationStrategy : DEFAULT_ALLOCATION_STRATEGY;
+  };
+
+  const getNextWorkerColor = (job: any): string => {
+    const usedIndexes = (job.assignments || []).map((assignment: any) => assignment.workerIndex ?? 0);
+    return getWorkerColor(getNextWorkerIndex(usedIndexes));
+  };
+
   // Handle assignment form submission
   const handleAssignWorker = () => {
     if (!selectedJobId || !assignForm.userId) {
@@ -621,17 +701,18 @@ export default function ManagerDashboard() {
     if (!selectedFile) {
       toast({
         title: "No file selected",
-        description: "Please select a CSV file to upload",
+        description: "Please select a CSV, TSV or Excel file to upload",
         variant: "destructive",
       });
       return;
     }
 
     // Basic file validation
-    if (!selectedFile.name.toLowerCase().endsWith('.csv')) {
+    const allowedExtensions = ['.csv', '.tsv', '.txt', '.xlsx', '.xls'];
+    if (!allowedExtensions.some(extension => selectedFile.name.toLowerCase().endsWith(extension))) {
       toast({
         title: "Invalid file format",
-        description: "Please select a .csv file",
+        description: "Please select a .csv, .tsv or .xlsx file",
         variant: "destructive",
       });
       return;
@@ -640,23 +721,45 @@ export default function ManagerDashboard() {
     if (selectedFile.size > 10 * 1024 * 1024) { // 10MB limit
       toast({
         title: "File too large",
-        description: "CSV file must be smaller than 10MB",
+        description: "File must be smaller than 10MB",
         variant: "destructive",
       });
       return;
     }
 
-    toast({
-      title: "Uploading CSV...",
-      description: "Validating and processing your file",
-    });
+    if (!importSettings.isComplete) {
+      toast({
+        title: "Columns not mapped",
+        description: "Map a column to every required field before previewing the import",
+        variant: "destructive",
+      });
+      return;
+    }
 
-    uploadMutation.mutate({
+    previewMutation.mutate({
       ...data,
       file: selectedFile,
+      importSettings,
     });
   };
 
+  const handleCreateJob = () => {
+    if (!importPreview?.preview.valid) return;
+
+    toast({
+      title: "Uploading file...",
+      description: "Creating the job from your file",
+    });
+
+    uploadMutation.mutate(importPreview.request);
+  };
+
+  // Any edit to the form invalidates the preview - it must match what gets created
+  useEffect(() => {
+    const subscription = form.watch(() => setImportPreview(null));
+    return () => subscription.unsubscribe();
+  }, [form]);
+
   const handleLogout = () => {
     logout();
     setLocation("/login");
@@ -693,6 +796,14 @@ export default function ManagerDashboard() {
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setLocation("/worker-analytics")}
+                data-testid="button-worker-analytics"
+              >
+                <BarChart3 className="h-4 w-4" />
+              </Button>
               <Button
                 variant="ghost"
                 size="sm"
@@ -851,14 +962,11 @@ export default function ManagerDashboard() {
                       <div className="space-y-4">
                         <input
                           type="file"
-                          accept=".csv"
+                          accept=".csv,.tsv,.txt,.xlsx,.xls"
                           className="hidden"
                           id="csv-upload"
                           data-testid="input-csv-file"
-                          onChange={(e) => {
-                            const file = e.target.files?.[0];
-                            setSelectedFile(file || null);
-                          }}
+                          onChange={(e) => importMapping.selectFile(e.target.files?.[0] || null)}
                         />
                         <div className="flex items-center gap-1">
                           <Button
@@ -885,13 +993,13 @@ export default function ManagerDashboard() {
                           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                             <CollapsibleTrigger className="w-full">
                               <div className="flex items-center justify-between">
-                                <h4 className="font-medium text-blue-900">CSV Format Requirements</h4>
+                                <h4 className="font-medium text-blue-900">File Format Requirements</h4>
                                 <ChevronDown className="h-4 w-4 text-blue-600 transition-transform duration-200 data-[state=open]:rotate-180" />
                               </div>
                             </CollapsibleTrigger>
 
                             <CollapsibleContent className="mt-2">
-                              <p className="text-blue-800 text-sm mb-3">Your CSV file must contain these exact column headers:</p>
+                              <p className="text-blue-800 text-sm mb-3">Upload a CSV, TSV or Excel (.xlsx) file. These column headers are recognised automatically:</p>
                               <div className="bg-white border border-blue-200 rounded text-xs p-2 font-mono mb-3">
                                 BarCode,Product Name,Qty,CustomName,Group
                               </div>
@@ -902,22 +1010,34 @@ export default function ManagerDashboard() {
                                 <p><strong>CustomName:</strong> Customer destination name (required)</p>
                                 <p><strong>Group:</strong> Product grouping (optional)</p>
                               </div>
+                              <p className="text-blue-800 text-sm mt-3">Other layouts can be mapped column by column once the file is selected, and saved as a profile for next time.</p>
                             </CollapsibleContent>
                           </div>
                         </Collapsible>
                       </div>
                     </div>
 
+                    {selectedFile && (
+                      <ImportColumnMapper importMapping={importMapping} />
+                    )}
 
-
-                    <Button
-                      type="submit"
-                      disabled={uploadMutation.isPending}
-                      className="bg-primary text-primary-foreground hover:bg-primary/90"
-                      data-testid="button-upload"
-                    >
-                      {uploadMutation.isPending ? "Uploading..." : "Create Job"}
-                    </Button>
+                    {importPreview ? (
+                      <ImportPreviewPanel
+                        preview={importPreview.preview}
+                        isCreating={uploadMutation.isPending}
+                        onCreate={handleCreateJob}
+                        onCancel={() => setImportPreview(null)}
+                      />
+                    ) : (
+                      <Button
+                        type="submit"
+                        disabled={previewMutation.isPending}
+                        className="bg-primary text-primary-foreground hover:bg-primary/90"
+                        data-testid="button-upload"
+                      >
+                        {previewMutation.isPending ? "Checking file..." : "Preview Import"}
+                      </Button>
+                    )}
                   </form>
                 </Form>
               </CardContent>
@@ -1053,16 +1173,19 @@ export default function ManagerDashboard() {
                       {/* Assigned Workers Display with Allocation Patterns */}
                       {job.assignments && job.assignments.length > 0 && (
                         <div className="mb-4 mr-24">
-                          <p className="text-sm text-gray-600 mb-2">Assigned Workers ({job.assignments.length}/4):</p>
+                          <p className="text-sm text-gray-600 mb-2">Assigned Workers ({job.assignments.length}):</p>
                           <div className="flex flex-wrap gap-2">
-                            {job.assignments.map((assignment: any, index: number) => {
-                              const pattern = assignWorkerPattern(index);
-                              const patternLabels = {
-                                'ascending': '↗ Asc',
-                                'descending': '↙ Desc',
-                                'middle_up': '↑ Mid+',
-                                'middle_down': '↓ Mid-'
-                              };
+                            {job.assignments.map((assignment: any) => {
+                              // Slot mirrors the server: rank by workerIndex among the active assignments
+                              const workerSlot = [...job.assignments]
+                                .sort((a: any, b: any) => (a.workerIndex ?? 0) - (b.workerIndex ?? 0))
+                                .findIndex((other: any) => other.id === assignment.id);
+                              const allocationLabel = describeWorkerAllocation(
+                                getJobAllocationStrategy(job),
+                                workerSlot,
+                                job.assignments.length,
+                                assignment.allocationPattern as WorkerAllocationPattern
+                              );
 
                               return (
                                 <div key={assignment.id} className="flex items-center space-x-2 bg-gray-50 rounded-full px-3 py-1 group">
@@ -1075,7 +1198,7 @@ export default function ManagerDashboard() {
                                     {assignment.assignee.name}
                                   </span>
                                   <span className="text-xs text-gray-500 bg-white px-1 rounded">
-                                    {patternLabels[pattern as keyof typeof patternLabels]}
+                                    {allocationLabel}
                                   </span>
                                   <button
                                     onClick={() => handleUnassignWorker(job.id, assignment.assignee.id)}
@@ -1089,11 +1212,6 @@ export default function ManagerDashboard() {
                               );
                             })}
                           </div>
-                          {job.assignments.length < 4 && (
-                            <p className="text-xs text-gray-500 mt-1">
-                              Can assign {4 - job.assignments.length} more worker(s) for optimal multi-worker coordination
-                            </p>
-                          )}
                         </div>
                       )}
 
@@ -1112,6 +1230,7 @@ export default function ManagerDashboard() {
                           size="sm"
                           onClick={() => {
                             setSelectedJobId(job.id);
+                            setAssignForm({ userId: "", assignedColor: getNextWorkerColor(job) });
                             setAssignDialogOpen(true);
                           }}
                           data-testid={`button-assign-${job.id}`}
@@ -1120,11 +1239,28 @@ export default function ManagerDashboard() {
                           Assign Workers
                         </Button>
 
-                        <Button variant="outline" size="sm" data-testid={`button-export-${job.id}`}>
-                          <Download className="mr-1 h-4 w-4" />
-                          Export
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setAmendJobId(job.id)}
+                          data-testid={`button-amend-${job.id}`}
+                        >
+                          <FilePen className="mr-1 h-4 w-4" />
+                          Amend
                         </Button>
 
+                        <ExportMenu
+                          testId={`button-export-${job.id}`}
+                          options={[
+                            { label: "Job manifest (.xlsx)", url: `/api/jobs/${job.id}/export?format=xlsx` },
+                            { label: "Lines (CSV)", url: `/api/jobs/${job.id}/export?format=csv&sheet=lines` },
+                            { label: "Extra items (CSV)", url: `/api/jobs/${job.id}/export?format=csv&sheet=extras` },
+                            { label: "Put aside (CSV)", url: `/api/jobs/${job.id}/export?format=csv&sheet=put_aside` },
+                            { label: "Check results (CSV)", url: `/api/jobs/${job.id}/export?format=csv&sheet=check_results` },
+                            ...getLabelPrintOptions(`/api/jobs/${job.id}/labels`, "All box labels"),
+                          ]}
+                        />
+
                         {/* Extra Items, Put Aside, and Boxes buttons now inline with other action buttons */}
                         <ExtraItemsAndBoxesButtons jobId={job.id}
                           onExtraItemsClick={() => {
@@ -1155,6 +1291,9 @@ export default function ManagerDashboard() {
           </CardContent>
         </Card>
 
+        {/* Recently Deleted - only shown while removed jobs can still be restored */}
+        <RecentlyDeletedJobs />
+
         {/* QA Summary Panel and Worker Status - Side by Side on Desktop */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* QA Summary Panel */}
@@ -1282,19 +1421,29 @@ export default function ManagerDashboard() {
                   {(() => {
                     const currentJob = (jobsData as any)?.jobs?.find((job: any) => job.id === selectedJobId);
                     const currentAssignments = currentJob?.assignments || [];
-                    const workerIndex = currentAssignments.length;
+                    const workerIndex = getNextWorkerIndex(currentAssignments.map((assignment: any) => assignment.workerIndex ?? 0));
                     const pattern = assignWorkerPattern(workerIndex);
+                    const strategy = currentJob ? getJobAllocationStrategy(currentJob) : DEFAULT_ALLOCATION_STRATEGY;
+                    const workerCount = currentAssignments.length + 1;
 
                     const patternDescriptions = {
-                      'ascending': 'Ascending: Boxes 1, 2, 3, 4... (Worker 1)',
-                      'descending': 'Descending: Boxes 100, 99, 98, 97... (Worker 2)',
-                      'middle_up': 'Middle-Up: Boxes 50, 51, 52, 53... (Worker 3)',
-                      'middle_down': 'Middle-Down: Boxes 49, 48, 47, 46... (Worker 4)'
+                      'ascending': 'Ascending: Boxes 1, 2, 3, 4...',
+                      'descending': 'Descending: Boxes 100, 99, 98, 97...',
+                      'middle_up': 'Middle-Up: Boxes 50, 51, 52, 53...',
+                      'middle_down': 'Middle-Down: Boxes 49, 48, 47, 46...'
+                    };
+
+                    const strategyDescriptions: Record<AllocationStrategy, string> = {
+                      'worker_patterns': `${patternDescriptions[pattern]} (Worker ${workerIndex + 1})`,
+                      'contiguous_zones': `Zone: one of ${workerCount} consecutive runs of boxes, shared evenly`,
+                      'interleaved': `Stripe: one box in every ${workerCount}, interleaved with the other workers`,
+                      'nearest_to_last': 'Nearest: the open box closest to the one they last scanned into',
+                      'least_contended': 'Least busy: the open box furthest from where other workers are scanning'
                     };
 
                     return (
                       <div className="text-sm text-gray-600">
-                        <strong>Pattern:</strong> {patternDescriptions[pattern as keyof typeof patternDescriptions]}
+                        <strong>Pattern:</strong> {strategyDescriptions[strategy]}
                       </div>
                     );
                   })()}
@@ -1348,6 +1497,17 @@ export default function ManagerDashboard() {
         jobId={customerProgressJobId!}
         jobName={(jobsData as any)?.jobs?.find((j: any) => j.id === customerProgressJobId)?.name}
       />
+
+      {/* Amend Job Modal */}
+      {amendJobId && (
+        <JobAmendModal
+          isOpen={!!amendJobId}
+          onClose={() => setAmendJobId(null)}
+          jobId={amendJobId}
+          jobName={(jobsData as any)?.jobs?.find((j: any) => j.id === amendJobId)?.name}
+          jobTypeId={(jobsData as any)?.jobs?.find((j: any) => j.id === amendJobId)?.jobTypeId}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
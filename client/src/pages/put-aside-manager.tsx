@@ -25,27 +25,17 @@ import {
 } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, authFetch, parseApiError } from '@/lib/queryClient';
+import type { PutAsideAllocationSource, PutAsideItemDetail, PutAsideSuggestion } from '@shared/schema';
 
-interface PutAsideItem {
-  id: string;
-  jobId: string;
-  barCode: string;
-  productName: string;
-  customerName: string;
-  originalBoxNumber: number;
-  quantity: number;
-  status: 'pending' | 'reallocated';
-  putAsideBy: string;
-  putAsideAt: string;
-  reallocatedBy?: string;
-  reallocatedAt?: string;
-  reallocatedToBoxNumber?: number;
-  sourceEventId?: string;
-  // Additional fields from join
-  jobName?: string;
-  putAsideWorkerName?: string;
-}
+type PutAsideItem = PutAsideItemDetail;
+
+const ALLOCATION_SOURCE_LABELS: Record<PutAsideAllocationSource, string> = {
+  scan: 'Matching scan',
+  manual: 'Manual',
+  pull: 'Pulled for reassigned box',
+  check: 'Moved during CheckCount',
+};
 
 interface Job {
   id: string;
@@ -77,16 +67,21 @@ export function PutAsideManagerPage() {
     queryKey: [`/api/jobs/${selectedJob}/put-aside`, statusFilter],
     queryFn: () => {
       const url = selectedJob === 'all' 
-        ? `/api/put-aside/all${statusFilter !== 'all' ? `?status=${statusFilter}` : ''}`
-        : `/api/jobs/${selectedJob}/put-aside${statusFilter !== 'all' ? `?status=${statusFilter}` : ''}`;
-      return fetch(url, {
-        headers: { 'Authorization': `Bearer ${localStorage.getItem('auth_token')}` }
-      }).then(res => res.json());
+        ? `/api/put-aside/all?status=${statusFilter}`
+        : `/api/jobs/${selectedJob}/put-aside?status=${statusFilter}`;
+      return authFetch(url).then(res => res.json());
     },
     enabled: !!user && (user.role === 'manager' || user.role === 'supervisor'),
     // REMOVED: refetchInterval polling - WebSocket provides real-time updates
   });
 
+  // Boxes whose customer now needs the selected item
+  const { data: suggestionsData, isLoading: suggestionsLoading } = useQuery({
+    queryKey: [`/api/put-aside/${selectedItem?.id}/suggestions`],
+    enabled: showReallocationDialog && !!selectedItem,
+  });
+  const suggestions: PutAsideSuggestion[] = (suggestionsData as any)?.suggestions || [];
+
   // Reallocate mutation
   const reallocationMutation = useMutation({
     mutationFn: async ({ itemId, targetBoxNumber }: { itemId: string; targetBoxNumber: number }) => {
@@ -94,15 +89,20 @@ export function PutAsideManagerPage() {
         targetBoxNumber
       });
     },
-    onSuccess: () => {
+    onSuccess: async (response) => {
+      const result = await response.json();
       toast({
         title: "Item Reallocated",
-        description: "The put aside item has been successfully reallocated."
+        description: result.message || "The put aside item has been successfully reallocated."
       });
 
       // Refresh data
       refetch();
       queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      if (selectedItem) {
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${selectedItem.jobId}/put-aside/count`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${selectedItem.jobId}/box-requirements`] });
+      }
 
       // Close dialog
       setShowReallocationDialog(false);
@@ -112,7 +112,7 @@ export function PutAsideManagerPage() {
     onError: (error: any) => {
       toast({
         title: "Reallocation Failed",
-        description: error.message || "Failed to reallocate the item. Please try again.",
+        description: parseApiError(error).message || "Failed to reallocate the item. Please try again.",
         variant: "destructive"
       });
     }
@@ -138,8 +138,8 @@ export function PutAsideManagerPage() {
 
   // Filter items based on search term
   const filteredItems = putAsideItems.filter(item =>
-    item.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    item.productName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    item.customerName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    item.productName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     item.barCode.includes(searchTerm) ||
     item.putAsideWorkerName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     item.jobName?.toLowerCase().includes(searchTerm.toLowerCase())
@@ -159,7 +159,7 @@ export function PutAsideManagerPage() {
     total: putAsideItems.length,
     pending: (itemsByStatus.pending || []).length,
     reallocated: (itemsByStatus.reallocated || []).length,
-    pendingValue: putAsideItems.filter(item => item.status === 'pending').reduce((sum, item) => sum + item.quantity, 0)
+    pendingProducts: new Set(putAsideItems.filter(item => item.status === 'pending').map(item => item.barCode)).size
   };
 
   const handleReallocation = (item: PutAsideItem) => {
@@ -168,6 +168,9 @@ export function PutAsideManagerPage() {
     setShowReallocationDialog(true);
   };
 
+  const getAllocationSourceLabel = (source: PutAsideAllocationSource | null) =>
+    source ? ALLOCATION_SOURCE_LABELS[source] || source : 'Unknown';
+
   const confirmReallocation = () => {
     if (!selectedItem || !reallocationBoxNumber) {
       toast({
@@ -296,9 +299,9 @@ export function PutAsideManagerPage() {
             <CardContent className="pt-6">
               <div className="text-center">
                 <div className="text-2xl font-bold text-purple-600">
-                  {stats.pendingValue}
+                  {stats.pendingProducts}
                 </div>
-                <div className="text-sm text-gray-600 dark:text-gray-400">Pending Qty</div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">Pending Products</div>
               </div>
             </CardContent>
           </Card>
@@ -428,17 +431,19 @@ export function PutAsideManagerPage() {
                           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                             <div>
                               <span className="font-medium text-gray-700 dark:text-gray-300">Customer:</span>
-                              <p className="text-gray-600 dark:text-gray-400">{item.customerName}</p>
+                              <p className="text-gray-600 dark:text-gray-400">{item.customerName || 'Not allocated yet'}</p>
                             </div>
 
                             <div>
-                              <span className="font-medium text-gray-700 dark:text-gray-300">Original Box:</span>
-                              <p className="text-gray-600 dark:text-gray-400">{item.originalBoxNumber}</p>
+                              <span className="font-medium text-gray-700 dark:text-gray-300">Box:</span>
+                              <p className="text-gray-600 dark:text-gray-400">{item.reallocatedToBoxNumber ?? '-'}</p>
                             </div>
 
                             <div>
-                              <span className="font-medium text-gray-700 dark:text-gray-300">Quantity:</span>
-                              <p className="text-gray-600 dark:text-gray-400">{item.quantity}</p>
+                              <span className="font-medium text-gray-700 dark:text-gray-300">Allocated By:</span>
+                              <p className="text-gray-600 dark:text-gray-400">
+                                {item.status === 'reallocated' ? getAllocationSourceLabel(item.allocationSource) : '-'}
+                              </p>
                             </div>
 
                             <div>
@@ -454,16 +459,24 @@ export function PutAsideManagerPage() {
                             </div>
                             <div className="flex items-center gap-1">
                               <Clock className="h-3 w-3" />
-                              {new Date(item.putAsideAt).toLocaleString()}
+                              {item.putAsideAt ? new Date(item.putAsideAt).toLocaleString() : '-'}
                             </div>
                           </div>
 
+                          {item.status === 'pending' && item.reservedForBox !== null && (
+                            <div className="bg-purple-50 border border-purple-200 p-2 rounded text-sm">
+                              <strong>On the pull list for Box {item.reservedForBox}</strong>
+                              <span className="text-purple-600 ml-2">waiting for a worker to scan it off the shelf</span>
+                            </div>
+                          )}
+
                           {item.status === 'reallocated' && item.reallocatedToBoxNumber && (
                             <div className="bg-green-50 border border-green-200 p-2 rounded text-sm">
                               <strong>Reallocated to Box {item.reallocatedToBoxNumber}</strong>
                               {item.reallocatedAt && (
                                 <span className="text-green-600 ml-2">
                                   on {new Date(item.reallocatedAt).toLocaleString()}
+                                  {item.reallocatedByName && ` by ${item.reallocatedByName}`}
                                 </span>
                               )}
                             </div>
@@ -502,7 +515,7 @@ export function PutAsideManagerPage() {
           <DialogHeader>
             <DialogTitle>Reallocate Put Aside Item</DialogTitle>
             <DialogDescription>
-              Assign this item to a specific box number for continued processing.
+              Credit this item to a box whose customer still needs it.
             </DialogDescription>
           </DialogHeader>
 
@@ -511,10 +524,45 @@ export function PutAsideManagerPage() {
               <div className="bg-gray-50 dark:bg-gray-800 p-3 rounded">
                 <h4 className="font-medium">{selectedItem.productName}</h4>
                 <p className="text-sm text-gray-600 dark:text-gray-400">
-                  Customer: {selectedItem.customerName} | Qty: {selectedItem.quantity}
+                  {selectedItem.barCode} | Put aside by {selectedItem.putAsideWorkerName || 'Unknown'}
                 </p>
               </div>
 
+              <div>
+                <label className="text-sm font-medium block mb-2">
+                  Boxes That Need This Item
+                </label>
+                {suggestionsLoading ? (
+                  <p className="text-sm text-gray-500">Finding boxes...</p>
+                ) : suggestions.length === 0 ? (
+                  <p className="text-sm text-gray-500" data-testid="no-suggestions">
+                    No box currently needs this item - it will be allocated when its customer gets a box
+                  </p>
+                ) : (
+                  <div className="space-y-2 max-h-48 overflow-y-auto">
+                    {suggestions.map(suggestion => (
+                      <button
+                        key={suggestion.boxNumber}
+                        type="button"
+                        onClick={() => setReallocationBoxNumber(String(suggestion.boxNumber))}
+                        className={`w-full flex items-center justify-between rounded border p-2 text-left text-sm ${
+                          reallocationBoxNumber === String(suggestion.boxNumber)
+                            ? 'border-primary bg-primary/10'
+                            : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                        }`}
+                        data-testid={`suggestion-box-${suggestion.boxNumber}`}
+                      >
+                        <span>
+                          <strong>Box {suggestion.boxNumber}</strong> - {suggestion.customerName}
+                          {suggestion.groupName && <span className="text-gray-500"> ({suggestion.groupName})</span>}
+                        </span>
+                        <Badge variant="secondary">Needs {suggestion.remainingQty}</Badge>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               <div>
                 <label className="text-sm font-medium block mb-2">
                   Target Box Number
@@ -528,7 +576,7 @@ export function PutAsideManagerPage() {
                   data-testid="target-box-input"
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  The item will be allocated to this box and become available for scanning
+                  The box's requirement for this barcode is credited with one item
                 </p>
               </div>
 
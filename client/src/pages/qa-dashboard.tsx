@@ -17,8 +17,11 @@ import {
   BarChart3,
   Target,
   Shield,
-  Activity
+  Activity,
+  ListChecks,
+  ClipboardCheck
 } from "lucide-react";
+import { QA_SAMPLE_REASON_LABELS, type QaCheckQueue } from "@shared/schema";
 
 interface QADashboardData {
   summary: {
@@ -53,6 +56,12 @@ interface QADashboardData {
       totalSessions: number;
       totalDiscrepancies: number;
     }>;
+    checkQueue: {
+      totalQueued: number;
+      checkedCount: number;
+      pendingCount: number;
+      progress: number;
+    };
   }>;
 }
 
@@ -113,6 +122,13 @@ export default function QADashboard() {
     refetchInterval: 30000,
   });
 
+  // Fetch the job's QA check queue alongside its report
+  const { data: checkQueueData } = useQuery<{ queue: QaCheckQueue }>({
+    queryKey: [`/api/jobs/${selectedJobId}/qa-check-queue`],
+    enabled: !!selectedJobId,
+    refetchInterval: 30000,
+  });
+
   // Helper functions for color coding
   const getAccuracyColor = (accuracy: number) => {
     if (accuracy >= 95) return "text-green-600";
@@ -251,7 +267,11 @@ export default function QADashboard() {
 
         {/* Main Content */}
         {selectedJobId && jobQAData ? (
-          <JobSpecificQAView jobData={jobQAData} />
+          <JobSpecificQAView
+            jobData={jobQAData}
+            checkQueue={checkQueueData?.queue}
+            onCheckBox={(boxNumber) => setLocation(`/check-count/${selectedJobId}/${boxNumber}`)}
+          />
         ) : (
           <AllJobsQAView qaSummary={qaSummary} onJobSelect={(jobId) => setLocation(`/qa-dashboard/${jobId}`)} />
         )}
@@ -332,7 +352,7 @@ function AllJobsQAView({
                   </div>
                 </div>
 
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
                   <div>
                     <span className="text-gray-500">Verification Rate:</span>
                     <div className={`font-semibold ${getVerificationColor(job.verificationRate)}`}>
@@ -357,6 +377,13 @@ function AllJobsQAView({
                       {job.topWorkers[0] ? `${job.topWorkers[0].accuracy.toFixed(1)}%` : 'N/A'}
                     </div>
                   </div>
+                  <div>
+                    <span className="text-gray-500">Check Queue:</span>
+                    <div className="font-semibold text-gray-900" data-testid={`text-check-queue-${job.jobId}`}>
+                      {job.checkQueue.checkedCount}/{job.checkQueue.totalQueued} checked
+                    </div>
+                    <Progress value={job.checkQueue.progress} className="h-2 mt-1" />
+                  </div>
                 </div>
               </div>
             ))}
@@ -368,7 +395,15 @@ function AllJobsQAView({
 }
 
 // Component for job-specific detailed QA view
-function JobSpecificQAView({ jobData }: { jobData: JobSpecificQAData }) {
+function JobSpecificQAView({
+  jobData,
+  checkQueue,
+  onCheckBox
+}: {
+  jobData: JobSpecificQAData;
+  checkQueue: QaCheckQueue | undefined;
+  onCheckBox: (boxNumber: number) => void;
+}) {
   if (!jobData?.report) {
     return (
       <Card>
@@ -398,8 +433,9 @@ function JobSpecificQAView({ jobData }: { jobData: JobSpecificQAData }) {
 
   return (
     <Tabs defaultValue="overview" className="space-y-6">
-      <TabsList className="grid w-full grid-cols-4">
+      <TabsList className="grid w-full grid-cols-5">
         <TabsTrigger value="overview">Overview</TabsTrigger>
+        <TabsTrigger value="check-queue" data-testid="tab-check-queue">Check Queue</TabsTrigger>
         <TabsTrigger value="workers">Worker Performance</TabsTrigger>
         <TabsTrigger value="discrepancies">Discrepancy Analysis</TabsTrigger>
         <TabsTrigger value="timeline">Timeline</TabsTrigger>
@@ -461,6 +497,11 @@ function JobSpecificQAView({ jobData }: { jobData: JobSpecificQAData }) {
         </div>
       </TabsContent>
 
+      {/* Check Queue Tab */}
+      <TabsContent value="check-queue" className="space-y-6">
+        <CheckQueueView checkQueue={checkQueue} onCheckBox={onCheckBox} />
+      </TabsContent>
+
       {/* Worker Performance Tab */}
       <TabsContent value="workers" className="space-y-6">
         <Card>
@@ -567,4 +608,134 @@ function JobSpecificQAView({ jobData }: { jobData: JobSpecificQAData }) {
       </TabsContent>
     </Tabs>
   );
-}
\ No newline at end of file
+}
+
+// Component for the job's QA check queue - boxes the sampling rules picked for CheckCount
+function CheckQueueView({
+  checkQueue,
+  onCheckBox
+}: {
+  checkQueue: QaCheckQueue | undefined;
+  onCheckBox: (boxNumber: number) => void;
+}) {
+  if (!checkQueue) {
+    return (
+      <Card>
+        <CardContent className="p-12 text-center">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-gray-200 rounded w-1/3 mx-auto"></div>
+            <div className="h-40 bg-gray-200 rounded"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const atRiskWorkers = checkQueue.workers.filter((worker) => worker.isAtRisk);
+
+  return (
+    <>
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex items-center justify-between mb-3">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Queue Progress</p>
+              <p className="text-2xl font-bold text-blue-600" data-testid="text-check-queue-progress">
+                {checkQueue.checkedCount}/{checkQueue.totalQueued} boxes checked
+              </p>
+              <p className="text-xs text-gray-500">
+                {checkQueue.totalQueued} of {checkQueue.packedBoxes} packed boxes queued
+                {" "}· {checkQueue.config.samplePercent}% sample
+                {checkQueue.config.everyNthBoxPerWorker > 0 && ` · 1 in ${checkQueue.config.everyNthBoxPerWorker} boxes per worker`}
+              </p>
+            </div>
+            <ListChecks className="h-8 w-8 text-blue-600" />
+          </div>
+          <Progress value={checkQueue.progress} className="h-2" />
+        </CardContent>
+      </Card>
+
+      {atRiskWorkers.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-orange-600" />
+              At-Risk Packers
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-600 mb-3">
+              Sampled at {checkQueue.config.riskSamplePercent}% from their last {checkQueue.config.riskLookbackDays} days of discrepancies and undos.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {atRiskWorkers.map((worker) => (
+                <Badge key={worker.userId} variant="outline" className="border-orange-300 text-orange-700" data-testid={`badge-at-risk-${worker.userId}`}>
+                  {worker.name} · {worker.discrepancies} discrepancies · {worker.undoRate.toFixed(1)}% undos
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Boxes to Check
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {checkQueue.items.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-8">
+              No packed boxes have been picked for checking yet.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {checkQueue.items.map((item) => (
+                <div
+                  key={item.boxNumber}
+                  className="flex items-center justify-between border border-gray-200 rounded-lg p-3"
+                  data-testid={`check-queue-item-${item.boxNumber}`}
+                >
+                  <div>
+                    <p className="font-medium">
+                      Box {item.boxNumber} · {item.customerName}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {item.packedByName ? `Packed by ${item.packedByName}` : 'Packer unknown'}
+                      {item.lastCheckedAt && ` · checked ${new Date(item.lastCheckedAt).toLocaleString()}`}
+                      {item.discrepanciesFound ? ` · ${item.discrepanciesFound} discrepancies` : ''}
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {item.reasons.map((reason) => (
+                        <Badge key={reason} variant={reason === 'correction' ? "destructive" : "secondary"} className="text-xs">
+                          {QA_SAMPLE_REASON_LABELS[reason]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  {item.status === 'checked' ? (
+                    <Badge variant="default" className="bg-green-600">
+                      <CheckCircle2 className="h-3 w-3 mr-1" />
+                      Checked
+                    </Badge>
+                  ) : (
+                    <Button
+                      variant={item.status === 'in_progress' ? "secondary" : "outline"}
+                      size="sm"
+                      onClick={() => onCheckBox(item.boxNumber)}
+                      data-testid={`button-check-box-${item.boxNumber}`}
+                    >
+                      {item.status === 'in_progress' ? 'Checking...' : 'Check Box'}
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
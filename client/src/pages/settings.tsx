@@ -20,6 +20,10 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { ArrowLeft, Trash2, Plus, Edit3, Users, Settings as SettingsIcon, Palette, Package, ChevronDown, RotateCcw } from "lucide-react";
 import { z } from "zod";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ALLOCATION_STRATEGIES, ALLOCATION_STRATEGY_LABELS, type AllocationStrategy } from "../../../lib/worker-allocation";
+import { DEFAULT_SCORING_CONFIG, type ScoringConfigOverrides } from "@shared/scoring";
+import { DEFAULT_QA_SAMPLING_CONFIG, type QaSamplingConfigOverrides } from "@shared/qa-sampling";
+import { DELETE_ALL_JOB_DATA_CONFIRMATION } from "@shared/schema";
 
 const AVAILABLE_THEMES = [
   { name: "blue", label: "Blue", colors: ["#3B82F6", "#2563EB", "#1D4ED8"] },
@@ -44,10 +48,36 @@ const jobTypeFormSchema = z.object({
   name: z.string().min(1, "Job type name is required"),
   benchmarkItemsPerHour: z.number().min(1, "Benchmark must be at least 1 item per hour").default(71),
   requireGroupField: z.boolean().default(false),
+  requireBoxConfirmation: z.boolean().default(false),
+  allocationStrategy: z.enum(ALLOCATION_STRATEGIES as [AllocationStrategy, ...AllocationStrategy[]]).default("worker_patterns"),
+  // Scoring overrides - saved as jobTypes.scoringConfig
+  idleGapSeconds: z.number().int().min(1, "Idle gap must be at least 1 second"),
+  accuracyWeight: z.number().min(0).max(1, "Accuracy weight must be between 0 and 1"),
+  errorPenalty: z.number().min(0, "Penalty can't be negative"),
+  undoPenalty: z.number().min(0, "Penalty can't be negative"),
+  // QA sampling overrides - saved as jobTypes.qaSamplingConfig
+  samplePercent: z.number().min(0).max(100, "Rate must be between 0 and 100"),
+  everyNthBoxPerWorker: z.number().int().min(0, "Use 0 to turn this off"),
+  riskSamplePercent: z.number().min(0).max(100, "Rate must be between 0 and 100"),
+  riskLookbackDays: z.number().int().min(1, "Look back at least 1 day").max(366, "Look back at most 366 days"),
+  riskDiscrepancyThreshold: z.number().int().min(0, "Use 0 to turn this off"),
+  riskUndoRatePercent: z.number().min(0).max(100, "Rate must be between 0 and 100"),
+  checkCorrectedBoxes: z.boolean(),
 });
 
 type UserFormData = z.infer<typeof userFormSchema>;
 type JobTypeFormData = z.infer<typeof jobTypeFormSchema>;
+type JobTypePayload = Omit<JobTypeFormData, keyof typeof SCORING_FORM_DEFAULTS | keyof typeof DEFAULT_QA_SAMPLING_CONFIG> & {
+  scoringConfig: ScoringConfigOverrides;
+  qaSamplingConfig: QaSamplingConfigOverrides;
+};
+
+const SCORING_FORM_DEFAULTS = {
+  idleGapSeconds: DEFAULT_SCORING_CONFIG.idleGapMs / 1000,
+  accuracyWeight: DEFAULT_SCORING_CONFIG.accuracyWeight,
+  errorPenalty: DEFAULT_SCORING_CONFIG.errorPenalty,
+  undoPenalty: DEFAULT_SCORING_CONFIG.undoPenalty,
+};
 
 export default function Settings() {
   const [, setLocation] = useLocation();
@@ -86,6 +116,10 @@ export default function Settings() {
       name: "",
       benchmarkItemsPerHour: 71,
       requireGroupField: false,
+      requireBoxConfirmation: false,
+      allocationStrategy: "worker_patterns",
+      ...SCORING_FORM_DEFAULTS,
+      ...DEFAULT_QA_SAMPLING_CONFIG,
     },
   });
 
@@ -206,6 +240,7 @@ export default function Settings() {
       "• CheckCount QA records\n" +
       "• Worker assignments\n" +
       "• Box requirements\n\n" +
+      "Jobs in Recently Deleted are wiped too and cannot be restored.\n" +
       "User accounts and settings will be preserved.\n\n" +
       "Do you want to continue?"
     );
@@ -215,14 +250,14 @@ export default function Settings() {
     // Second confirmation requiring text input
     const confirmText = window.prompt(
       "⚠️ FINAL CONFIRMATION\n\n" +
-      "Type 'DELETE' (in capital letters) to confirm this destructive action:"
+      `Type '${DELETE_ALL_JOB_DATA_CONFIRMATION}' (in capital letters) to confirm this destructive action:`
     );
 
-    if (confirmText !== "DELETE") {
+    if (confirmText !== DELETE_ALL_JOB_DATA_CONFIRMATION) {
       if (confirmText !== null) { // User didn't cancel
         toast({
           title: "Deletion cancelled",
-          description: "You must type 'DELETE' exactly to confirm.",
+          description: `You must type '${DELETE_ALL_JOB_DATA_CONFIRMATION}' exactly to confirm.`,
           variant: "default",
         });
       }
@@ -230,7 +265,8 @@ export default function Settings() {
     }
 
     try {
-      const response = await apiRequest('DELETE', '/api/jobs/all-data');
+      // The server checks the typed phrase too and records the wipe in the audit log
+      const response = await apiRequest('DELETE', '/api/jobs/all-data', { confirmation: confirmText });
       
       if (!response.ok) {
         const errorData = await response.json();
@@ -295,7 +331,7 @@ export default function Settings() {
 
   // Job Type management mutations
   const createJobTypeMutation = useMutation({
-    mutationFn: async (data: JobTypeFormData) => {
+    mutationFn: async (data: JobTypePayload) => {
       const response = await apiRequest("POST", "/api/job-types", data);
       return response.json();
     },
@@ -318,7 +354,7 @@ export default function Settings() {
   });
 
   const updateJobTypeMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: JobTypeFormData }) => {
+    mutationFn: async ({ id, data }: { id: string; data: JobTypePayload }) => {
       const response = await apiRequest("PUT", `/api/job-types/${id}`, data);
       return response.json();
     },
@@ -362,7 +398,34 @@ export default function Settings() {
     },
   });
 
-  const onSubmitJobType = (data: JobTypeFormData) => {
+  const onSubmitJobType = (formData: JobTypeFormData) => {
+    const {
+      idleGapSeconds, accuracyWeight, errorPenalty, undoPenalty,
+      samplePercent, everyNthBoxPerWorker, riskSamplePercent, riskLookbackDays,
+      riskDiscrepancyThreshold, riskUndoRatePercent, checkCorrectedBoxes,
+      ...jobType
+    } = formData;
+    const data: JobTypePayload = {
+      ...jobType,
+      qaSamplingConfig: {
+        samplePercent,
+        everyNthBoxPerWorker,
+        riskSamplePercent,
+        riskLookbackDays,
+        riskDiscrepancyThreshold,
+        riskUndoRatePercent,
+        checkCorrectedBoxes,
+      },
+      scoringConfig: {
+        // Speed bands aren't editable here - keep whatever the job type already has
+        ...(editingJobType?.scoringConfig?.speedBands ? { speedBands: editingJobType.scoringConfig.speedBands } : {}),
+        idleGapMs: idleGapSeconds * 1000,
+        accuracyWeight,
+        errorPenalty,
+        undoPenalty,
+      },
+    };
+
     if (editingJobType) {
       updateJobTypeMutation.mutate({ id: editingJobType.id, data });
     } else {
@@ -376,6 +439,16 @@ export default function Settings() {
       name: jobTypeToEdit.name,
       benchmarkItemsPerHour: jobTypeToEdit.benchmarkItemsPerHour,
       requireGroupField: jobTypeToEdit.requireGroupField,
+      requireBoxConfirmation: !!jobTypeToEdit.requireBoxConfirmation,
+      allocationStrategy: jobTypeToEdit.allocationStrategy || "worker_patterns",
+      idleGapSeconds: jobTypeToEdit.scoringConfig?.idleGapMs !== undefined
+        ? jobTypeToEdit.scoringConfig.idleGapMs / 1000
+        : SCORING_FORM_DEFAULTS.idleGapSeconds,
+      accuracyWeight: jobTypeToEdit.scoringConfig?.accuracyWeight ?? SCORING_FORM_DEFAULTS.accuracyWeight,
+      errorPenalty: jobTypeToEdit.scoringConfig?.errorPenalty ?? SCORING_FORM_DEFAULTS.errorPenalty,
+      undoPenalty: jobTypeToEdit.scoringConfig?.undoPenalty ?? SCORING_FORM_DEFAULTS.undoPenalty,
+      ...DEFAULT_QA_SAMPLING_CONFIG,
+      ...jobTypeToEdit.qaSamplingConfig,
     });
     setIsJobTypeDialogOpen(true);
   };
@@ -785,7 +858,8 @@ export default function Settings() {
                       <h3 className="font-medium text-red-900 mb-2">Delete All Job Data</h3>
                       <p className="text-sm text-red-700 mb-4">
                         This will permanently delete all jobs, products, scan sessions, and progress data. 
-                        User accounts and settings will be preserved. This action cannot be undone.
+                        Recently deleted jobs are wiped as well. User accounts and settings will be preserved.
+                        This action cannot be undone and is recorded in the audit log.
                       </p>
                       <Button
                         variant="destructive"
@@ -1129,6 +1203,336 @@ export default function Settings() {
                           )}
                         />
 
+                        <FormField
+                          control={jobTypeForm.control}
+                          name="requireBoxConfirmation"
+                          render={({ field }) => (
+                            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                              <div className="space-y-0.5">
+                                <FormLabel className="text-base">Confirm Box Drops</FormLabel>
+                                <div className="text-sm text-muted-foreground">
+                                  Workers scan the box label after each item before it is counted. Offline scanning is disabled for these jobs.
+                                </div>
+                              </div>
+                              <FormControl>
+                                <Switch
+                                  checked={field.value}
+                                  onCheckedChange={field.onChange}
+                                  data-testid="switch-require-box-confirmation"
+                                />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={jobTypeForm.control}
+                          name="allocationStrategy"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Box Allocation Strategy</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger data-testid="select-allocation-strategy">
+                                    <SelectValue placeholder="Select a strategy" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {ALLOCATION_STRATEGIES.map((strategy) => (
+                                    <SelectItem key={strategy} value={strategy}>
+                                      {ALLOCATION_STRATEGY_LABELS[strategy]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <div className="text-sm text-muted-foreground">
+                                How scans choose a box when several workers share a job. Zones and stripes split the boxes evenly across however many workers are assigned.
+                              </div>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <div className="text-sm font-medium pt-2">Performance Scoring</div>
+
+                        <FormField
+                          control={jobTypeForm.control}
+                          name="idleGapSeconds"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Idle Gap (seconds)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  {...field}
+                                  type="number"
+                                  min="0"
+                                  step="1"
+                                  placeholder="30"
+                                  onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                  data-testid="input-idle-gap"
+                                />
+                              </FormControl>
+                              <div className="text-sm text-muted-foreground">
+                                Longer pauses between scans count as breaks, not scanning time
+                              </div>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={jobTypeForm.control}
+                          name="accuracyWeight"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Accuracy Weight</FormLabel>
+                              <FormControl>
+                                <Input
+                                  {...field}
+                                  type="number"
+                                  min="0"
+                                  step="0.1"
+                                  placeholder="1"
+                                  onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                  data-testid="input-accuracy-weight"
+                                />
+                              </FormControl>
+                              <div className="text-sm text-muted-foreground">
+                                0 ignores accuracy, 1 scales the score fully by accuracy
+                              </div>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <div className="grid grid-cols-2 gap-4">
+                          <FormField
+                            control={jobTypeForm.control}
+                            name="errorPenalty"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Error Penalty</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    {...field}
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    placeholder="0"
+                                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                    data-testid="input-error-penalty"
+                                  />
+                                </FormControl>
+                                <div className="text-sm text-muted-foreground">
+                                  Points off per error scan
+                                </div>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={jobTypeForm.control}
+                            name="undoPenalty"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Undo Penalty</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    {...field}
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    placeholder="0.05"
+                                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                    data-testid="input-undo-penalty"
+                                  />
+                                </FormControl>
+                                <div className="text-sm text-muted-foreground">
+                                  Points off per undo
+                                </div>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+
+                        <div className="text-sm font-medium pt-2">QA Sampling</div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                          <FormField
+                            control={jobTypeForm.control}
+                            name="samplePercent"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Sample Rate (%)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    {...field}
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    placeholder="10"
+                                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                    data-testid="input-sample-percent"
+                                  />
+                                </FormControl>
+                                <div className="text-sm text-muted-foreground">
+                                  Share of packed boxes queued for CheckCount
+                                </div>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={jobTypeForm.control}
+                            name="everyNthBoxPerWorker"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Every Nth Box</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    {...field}
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    placeholder="20"
+                                    onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                    data-testid="input-every-nth-box"
+                                  />
+                                </FormControl>
+                                <div className="text-sm text-muted-foreground">
+                                  Per worker - 0 turns this off
+                                </div>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                          <FormField
+                            control={jobTypeForm.control}
+                            name="riskSamplePercent"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>At-Risk Sample Rate (%)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    {...field}
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    placeholder="50"
+                                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                    data-testid="input-risk-sample-percent"
+                                  />
+                                </FormControl>
+                                <div className="text-sm text-muted-foreground">
+                                  Used instead for workers flagged below
+                                </div>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={jobTypeForm.control}
+                            name="riskLookbackDays"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Risk Lookback (days)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    {...field}
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    placeholder="14"
+                                    onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                    data-testid="input-risk-lookback-days"
+                                  />
+                                </FormControl>
+                                <div className="text-sm text-muted-foreground">
+                                  How far back their record counts
+                                </div>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                          <FormField
+                            control={jobTypeForm.control}
+                            name="riskDiscrepancyThreshold"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Discrepancy Threshold</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    {...field}
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    placeholder="1"
+                                    onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                    data-testid="input-risk-discrepancy-threshold"
+                                  />
+                                </FormControl>
+                                <div className="text-sm text-muted-foreground">
+                                  Checked lines with a discrepancy that flag a worker - 0 ignores
+                                </div>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={jobTypeForm.control}
+                            name="riskUndoRatePercent"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Undo Rate Threshold (%)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    {...field}
+                                    type="number"
+                                    min="0"
+                                    step="0.5"
+                                    placeholder="5"
+                                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                    data-testid="input-risk-undo-rate"
+                                  />
+                                </FormControl>
+                                <div className="text-sm text-muted-foreground">
+                                  Undos per 100 scans that flag a worker - 0 ignores
+                                </div>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+
+                        <FormField
+                          control={jobTypeForm.control}
+                          name="checkCorrectedBoxes"
+                          render={({ field }) => (
+                            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                              <div className="space-y-0.5">
+                                <FormLabel className="text-base">Check Corrected Boxes</FormLabel>
+                                <div className="text-sm text-muted-foreground">
+                                  Always queue boxes that were emptied, transferred or given put-aside stock by hand.
+                                </div>
+                              </div>
+                              <FormControl>
+                                <Switch
+                                  checked={field.value}
+                                  onCheckedChange={field.onChange}
+                                  data-testid="switch-check-corrected-boxes"
+                                />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+
                         <div className="flex justify-end space-x-2 pt-4">
                           <Button
                             type="button"
@@ -1192,6 +1596,22 @@ export default function Settings() {
                                 Group Required
                               </Badge>
                             )}
+                            {jobType.requireBoxConfirmation && (
+                              <Badge
+                                variant="outline"
+                                data-testid={`badge-box-confirmation-${jobType.id}`}
+                              >
+                                Box Confirmation
+                              </Badge>
+                            )}
+                            {jobType.allocationStrategy && jobType.allocationStrategy !== "worker_patterns" && (
+                              <Badge
+                                variant="outline"
+                                data-testid={`badge-allocation-strategy-${jobType.id}`}
+                              >
+                                {ALLOCATION_STRATEGY_LABELS[jobType.allocationStrategy as AllocationStrategy] || jobType.allocationStrategy}
+                              </Badge>
+                            )}
                           </div>
                           <p className="text-sm text-gray-600 mt-1">
                             Benchmark: {jobType.benchmarkItemsPerHour} items per hour
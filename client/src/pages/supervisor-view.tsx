@@ -9,6 +9,8 @@ import { useWebSocket } from "@/hooks/use-websocket";
 import { Settings, LogOut, Users, Package, ChevronLeft, FileBarChart } from "lucide-react";
 import { CustomerBoxGrid } from "@/components/customer-box-grid";
 import { PerformanceDashboard } from "@/components/performance-dashboard";
+import { WorkerPositionsPanel } from "@/components/worker-positions-panel";
+import { ActiveChecksPanel } from "@/components/active-checks-panel";
 import { ExtraItemsModal } from "@/components/extra-items-modal";
 import { CustomerQueueModal } from "@/components/customer-queue-modal";
 import { CustomerProgressModal } from "@/components/customer-progress-modal";
@@ -35,7 +37,8 @@ function PutAsideModal({
     refetchInterval: 5000, // 5-second polling for real-time updates
   });
 
-  const putAsideItems = (putAsideData as any)?.items || [];
+  const putAsideItems = (putAsideData as any)?.groups || [];
+  const pickList = (putAsideData as any)?.pickList || [];
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
@@ -51,11 +54,27 @@ function PutAsideModal({
         </DialogHeader>
 
         <div className="overflow-y-auto max-h-[60vh] space-y-3">
+          {pickList.length > 0 && (
+            <Card className="border-l-4 border-l-purple-500" data-testid="put-aside-pick-list">
+              <CardContent className="p-4 space-y-1">
+                <div className="text-sm font-medium text-purple-800">To pull into reassigned boxes</div>
+                {pickList.map((line: any) => (
+                  <div key={`${line.boxNumber}-${line.barCode}`} className="flex items-center justify-between text-sm">
+                    <span>
+                      <span className="font-bold">Box {line.boxNumber}</span> - {line.productName || line.barCode}
+                      {line.customerName ? ` for ${line.customerName}` : ""}
+                    </span>
+                    <Badge variant="secondary" className="bg-purple-100 text-purple-800">Qty: {line.qty}</Badge>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
           {isLoading ? (
             <div className="flex items-center justify-center p-8">
               <div className="text-gray-500">Loading put aside items...</div>
             </div>
-          ) : putAsideItems.length === 0 ? (
+          ) : putAsideItems.length === 0 && pickList.length === 0 ? (
             <div className="flex items-center justify-center p-8">
               <div className="text-gray-500">No put aside items found</div>
             </div>
@@ -555,6 +574,29 @@ export default function SupervisorView() {
           </CardContent>
         </Card>
 
+        {/* Boxes being checked right now */}
+        <Card data-testid="active-checks-card">
+          <CardHeader>
+            <CardTitle>Active Checks</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ActiveChecksPanel
+              jobId={job.id}
+              onOpenCheck={(boxNumber) => setLocation(`/check-count/${job.id}/${boxNumber}`)}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Worker Zones & Positions */}
+        <Card data-testid="worker-positions-card">
+          <CardHeader>
+            <CardTitle>Worker Zones & Positions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <WorkerPositionsPanel jobId={job.id} />
+          </CardContent>
+        </Card>
+
         {/* Worker Performance */}
         <Card data-testid="worker-performance">
           <CardHeader>
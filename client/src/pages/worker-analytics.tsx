@@ -0,0 +1,345 @@
+import { useEffect, useMemo, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { ArrowLeft, BarChart3 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import type { WorkerAnalyticsBucket, WorkerAnalyticsMetrics, WorkerAnalyticsPoint, WorkerAnalyticsReport } from "@shared/schema";
+
+const RANGE_OPTIONS = [
+  { value: "1", label: "Last 24 hours", bucket: "hour" },
+  { value: "7", label: "Last 7 days", bucket: "day" },
+  { value: "14", label: "Last 14 days", bucket: "day" },
+  { value: "30", label: "Last 30 days", bucket: "day" },
+  { value: "90", label: "Last 90 days", bucket: "week" },
+] satisfies Array<{ value: string; label: string; bucket: WorkerAnalyticsBucket }>;
+
+const BUCKET_LABELS: Record<WorkerAnalyticsBucket, string> = {
+  hour: "Hourly",
+  day: "Daily",
+  week: "Weekly",
+};
+
+const speedChartConfig = {
+  scansPerHour: { label: "Scans / hr", color: "var(--chart-1)" },
+} satisfies ChartConfig;
+
+const timeChartConfig = {
+  activeHours: { label: "Active", color: "var(--chart-2)" },
+  idleHours: { label: "Idle", color: "var(--chart-4)" },
+} satisfies ChartConfig;
+
+const qualityChartConfig = {
+  errorRate: { label: "Error rate %", color: "var(--chart-5)" },
+  undoRate: { label: "Undo rate %", color: "var(--chart-3)" },
+  checkAccuracy: { label: "CheckCount accuracy %", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+function formatBucket(bucketStart: string, bucket: WorkerAnalyticsBucket): string {
+  const date = new Date(bucketStart);
+  return bucket === "hour" ? format(date, "EEE HH:mm") : format(date, "d MMM");
+}
+
+function toChartPoint(point: WorkerAnalyticsPoint, bucket: WorkerAnalyticsBucket) {
+  return {
+    label: formatBucket(point.bucketStart, bucket),
+    scansPerHour: point.scansPerHour,
+    activeHours: Math.round((point.activeTime / 3600) * 100) / 100,
+    idleHours: Math.round((point.idleTime / 3600) * 100) / 100,
+    errorRate: point.errorRate,
+    undoRate: point.undoRate,
+    checkAccuracy: point.checkAccuracy, // null gaps the line where nothing was checked
+  };
+}
+
+function MetricTile({ label, value, detail, testId }: { label: string; value: string; detail?: string; testId: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <p className="text-sm text-gray-600">{label}</p>
+        <p className="text-2xl font-bold text-gray-900" data-testid={testId}>{value}</p>
+        {detail && <p className="text-xs text-gray-500 mt-1">{detail}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+function MetricSummary({ metrics }: { metrics: WorkerAnalyticsMetrics }) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+      <MetricTile label="Scans" value={metrics.totalScans.toLocaleString()} detail={`${metrics.extrasCaused} extras`} testId="metric-total-scans" />
+      <MetricTile label="Scans / hr" value={metrics.scansPerHour.toString()} detail="Per active hour" testId="metric-scans-per-hour" />
+      <MetricTile label="Active time" value={formatDuration(metrics.activeTime)} detail={`${formatDuration(metrics.idleTime)} idle`} testId="metric-active-time" />
+      <MetricTile label="Error rate" value={`${metrics.errorRate}%`} detail={`${metrics.errorCount} errors`} testId="metric-error-rate" />
+      <MetricTile label="Undo rate" value={`${metrics.undoRate}%`} detail={`${metrics.undoCount} undos`} testId="metric-undo-rate" />
+      <MetricTile
+        label="CheckCount accuracy"
+        value={metrics.checkAccuracy === null ? "—" : `${metrics.checkAccuracy}%`}
+        detail={`${metrics.accurateLines}/${metrics.checkedLines} lines`}
+        testId="metric-check-accuracy"
+      />
+    </div>
+  );
+}
+
+export default function WorkerAnalyticsPage() {
+  const [, setLocation] = useLocation();
+  const { user, isLoading } = useAuth();
+  const [rangeDays, setRangeDays] = useState("14");
+  const [bucket, setBucket] = useState<WorkerAnalyticsBucket>("day");
+  const [selectedWorkerId, setSelectedWorkerId] = useState("all");
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      setLocation("/login");
+      return;
+    }
+    if (user && user.role !== "manager") {
+      setLocation("/login");
+    }
+  }, [user, isLoading, setLocation]);
+
+  // Range ends now; rounded to the minute so the query key is stable across renders
+  const analyticsUrl = useMemo(() => {
+    const to = new Date();
+    to.setSeconds(0, 0);
+    const from = new Date(to.getTime() - Number(rangeDays) * 24 * 60 * 60 * 1000);
+    const params = new URLSearchParams({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      bucket,
+      timezoneOffset: String(to.getTimezoneOffset()),
+    });
+    return `/api/analytics/workers?${params}`;
+  }, [rangeDays, bucket]);
+
+  const { data, isLoading: reportLoading, error } = useQuery<{ report: WorkerAnalyticsReport }>({
+    queryKey: [analyticsUrl],
+    enabled: user?.role === "manager",
+  });
+
+  const report = data?.report;
+  const selectedWorker = report?.workers.find((worker) => worker.userId === selectedWorkerId);
+  const metrics = selectedWorker?.metrics || report?.totals;
+  const chartData = useMemo(
+    () => (selectedWorker?.trend || report?.trend || []).map((point) => toChartPoint(point, report!.bucket)),
+    [selectedWorker, report]
+  );
+
+  const handleRangeChange = (value: string) => {
+    setRangeDays(value);
+    const option = RANGE_OPTIONS.find((range) => range.value === value);
+    if (option) setBucket(option.bucket);
+  };
+
+  if (isLoading || !user || user.role !== "manager") {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="px-4 py-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center space-x-3">
+              <Button variant="ghost" size="sm" onClick={() => setLocation("/manager")} data-testid="button-back">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div className="bg-primary-100 w-10 h-10 rounded-lg flex items-center justify-center">
+                <BarChart3 className="text-primary-600" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-gray-900">Worker Analytics</h1>
+                <p className="text-sm text-gray-600">Shift performance across all jobs</p>
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={rangeDays} onValueChange={handleRangeChange}>
+                <SelectTrigger className="w-40" data-testid="select-analytics-range">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RANGE_OPTIONS.map((range) => (
+                    <SelectItem key={range.value} value={range.value}>{range.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={bucket} onValueChange={(value) => setBucket(value as WorkerAnalyticsBucket)}>
+                <SelectTrigger className="w-32" data-testid="select-analytics-bucket">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BUCKET_LABELS) as WorkerAnalyticsBucket[]).map((option) => (
+                    <SelectItem key={option} value={option} disabled={option === "hour" && Number(rangeDays) > 14}>
+                      {BUCKET_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={selectedWorkerId} onValueChange={setSelectedWorkerId}>
+                <SelectTrigger className="w-48" data-testid="select-analytics-worker">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All workers</SelectItem>
+                  {report?.workers.map((worker) => (
+                    <SelectItem key={worker.userId} value={worker.userId}>{worker.name} ({worker.staffId})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="p-4 space-y-6">
+        {error && (
+          <div className="text-center py-8 text-red-600" data-testid="analytics-error">
+            Failed to load worker analytics: {(error as Error).message}
+          </div>
+        )}
+
+        {reportLoading && (
+          <div className="text-center py-8 text-gray-500">Loading analytics...</div>
+        )}
+
+        {report && metrics && (
+          <>
+            <MetricSummary metrics={metrics} />
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Scans per hour</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={speedChartConfig} className="h-64 w-full" data-testid="chart-scans-per-hour">
+                    <LineChart data={chartData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line dataKey="scansPerHour" type="monotone" stroke="var(--color-scansPerHour)" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Active vs idle hours</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={timeChartConfig} className="h-64 w-full" data-testid="chart-active-idle">
+                    <BarChart data={chartData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Bar dataKey="activeHours" stackId="time" fill="var(--color-activeHours)" />
+                      <Bar dataKey="idleHours" stackId="time" fill="var(--color-idleHours)" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="text-base">Errors, undos and CheckCount accuracy</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={qualityChartConfig} className="h-64 w-full" data-testid="chart-quality">
+                    <LineChart data={chartData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={40} domain={[0, 100]} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Line dataKey="errorRate" type="monotone" stroke="var(--color-errorRate)" strokeWidth={2} dot={false} />
+                      <Line dataKey="undoRate" type="monotone" stroke="var(--color-undoRate)" strokeWidth={2} dot={false} />
+                      <Line dataKey="checkAccuracy" type="monotone" stroke="var(--color-checkAccuracy)" strokeWidth={2} connectNulls />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  {selectedWorker ? `${selectedWorker.name} by job` : "Workers"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {(selectedWorker ? selectedWorker.jobs.length : report.workers.length) === 0 ? (
+                  <div className="text-center py-8 text-gray-500">No scanning activity in this period</div>
+                ) : (
+                  <Table data-testid="table-worker-analytics">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{selectedWorker ? "Job" : "Worker"}</TableHead>
+                        <TableHead className="text-right">Scans</TableHead>
+                        <TableHead className="text-right">Scans/hr</TableHead>
+                        <TableHead className="text-right">Active</TableHead>
+                        <TableHead className="text-right">Idle</TableHead>
+                        <TableHead className="text-right">Errors</TableHead>
+                        <TableHead className="text-right">Undos</TableHead>
+                        <TableHead className="text-right">Extras</TableHead>
+                        <TableHead className="text-right">Check accuracy</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(selectedWorker
+                        ? selectedWorker.jobs.map((job) => ({ id: job.jobId, label: job.jobName, metrics: job.metrics }))
+                        : report.workers.map((worker) => ({ id: worker.userId, label: `${worker.name} (${worker.staffId})`, metrics: worker.metrics }))
+                      ).map((row) => (
+                        <TableRow
+                          key={row.id}
+                          className={selectedWorker ? undefined : "cursor-pointer"}
+                          onClick={selectedWorker ? undefined : () => setSelectedWorkerId(row.id)}
+                          data-testid={`row-analytics-${row.id}`}
+                        >
+                          <TableCell className="font-medium">{row.label}</TableCell>
+                          <TableCell className="text-right">{row.metrics.totalScans}</TableCell>
+                          <TableCell className="text-right">{row.metrics.scansPerHour}</TableCell>
+                          <TableCell className="text-right">{formatDuration(row.metrics.activeTime)}</TableCell>
+                          <TableCell className="text-right">{formatDuration(row.metrics.idleTime)}</TableCell>
+                          <TableCell className="text-right">{row.metrics.errorCount} ({row.metrics.errorRate}%)</TableCell>
+                          <TableCell className="text-right">{row.metrics.undoCount} ({row.metrics.undoRate}%)</TableCell>
+                          <TableCell className="text-right">{row.metrics.extrasCaused}</TableCell>
+                          <TableCell className="text-right">
+                            {row.metrics.checkAccuracy === null ? "—" : `${row.metrics.checkAccuracy}%`}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -9,13 +9,23 @@ import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { useWebSocket } from "@/hooks/use-websocket";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { calculateScore } from "@/lib/scoring";
-import { Settings, LogOut, Package, Undo, RotateCcw, Save, Check, Camera } from "lucide-react";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import { Settings, LogOut, Package, Undo, RotateCcw, Save, Check, Camera, CloudOff } from "lucide-react";
 import { CustomerBoxGrid } from "@/components/customer-box-grid";
 import { BarcodeScanner } from "@/components/barcode-scanner";
 import { MobileScannerInterface } from "@/components/mobile-scanner-interface";
 import { useUserPreferences } from "@/hooks/use-user-preferences";
+import { useScanQueue } from "@/hooks/use-scan-queue";
+import { createClientScanId, isConnectivityError, type StoredScan } from "@/lib/scan-queue";
+import {
+  JOB_WRITE_REJECTION_MESSAGES,
+  type BoxDropConfirmation,
+  type Job,
+  type JobWriteRejectionCode,
+  type PutAsidePickLine,
+  type PutAsidePullResult,
+  type ScanEvent,
+} from "@shared/schema";
 
 export default function WorkerScanner() {
   const { jobId } = useParams();
@@ -26,6 +36,8 @@ export default function WorkerScanner() {
   const barcodeInputRef = useRef<HTMLInputElement>(null);
   const [activeSession, setActiveSession] = useState<{ id: string; startTime: string } | null>(null);
   const [lastScanEvent, setLastScanEvent] = useState<{
+    id?: string;
+    eventType?: string;
     productName: string;
     barCode: string;
     customerName: string;
@@ -59,6 +71,12 @@ export default function WorkerScanner() {
     timestamp?: string;
   } | null>(null);
 
+  // Item waiting for its box label scan (job types with box confirmation)
+  const [pendingDrop, setPendingDrop] = useState<ScanEvent | null>(null);
+
+  // Scans go to the put aside pull list instead of normal allocation
+  const [isPullingPutAside, setIsPullingPutAside] = useState(false);
+
   // Runtime single box mode state (separate from settings preference)
   const [runtimeSingleBoxMode, setRuntimeSingleBoxMode] = useState(false);
 
@@ -81,7 +99,7 @@ export default function WorkerScanner() {
   });
 
   // Fetch job details
-  const { data: jobData } = useQuery({
+  const { data: jobData } = useQuery<{ job: Job; products: unknown[]; requireBoxConfirmation: boolean }>({
     queryKey: ["/api/jobs", jobId],
     enabled: !!jobId && !!user,
   });
@@ -92,6 +110,44 @@ export default function WorkerScanner() {
     enabled: !!user,
   });
 
+  const requireBoxConfirmation = !!jobData?.requireBoxConfirmation;
+  const currentSessionId: string | undefined = activeSession?.id || (sessionData as any)?.session?.id;
+
+  // A drop left pending before a reload is picked back up
+  const { data: pendingDropData, refetch: refetchPendingDrop } = useQuery<{ pendingDrop: ScanEvent | null }>({
+    queryKey: ["/api/scan-sessions", currentSessionId, "pending-drop"],
+    enabled: requireBoxConfirmation && !!currentSessionId,
+  });
+
+  useEffect(() => {
+    if (pendingDropData) {
+      setPendingDrop(pendingDropData.pendingDrop);
+    }
+  }, [pendingDropData]);
+
+  // Put aside stock reserved for reassigned boxes - WebSocket refreshes it when a box is reassigned
+  const { data: pickListData } = useQuery<{ lines: PutAsidePickLine[] }>({
+    queryKey: [`/api/jobs/${jobId}/put-aside/pick-list`],
+    enabled: !!jobId && user?.role === 'worker',
+  });
+  const pickList = pickListData?.lines || [];
+  const pickListQty = pickList.reduce((sum, line) => sum + line.qty, 0);
+
+  // Tell the worker when more stock needs pulling; leave pull mode once the list is done
+  const previousPickListQty = useRef(0);
+  useEffect(() => {
+    if (pickListQty > previousPickListQty.current) {
+      toast({
+        title: "Put aside items to pull",
+        description: `${pickListQty} item${pickListQty === 1 ? "" : "s"} on the put aside shelf now have a box - tap Pull and scan them`,
+      });
+    }
+    if (pickListQty === 0) {
+      setIsPullingPutAside(false);
+    }
+    previousPickListQty.current = pickListQty;
+  }, [pickListQty]);
+
   // Fetch job-specific worker performance - WebSocket handles real-time updates
   const { data: jobPerformanceData } = useQuery({
     queryKey: ["/api/jobs", jobId, "worker-performance", user?.id],
@@ -102,6 +158,23 @@ export default function WorkerScanner() {
   // Connect to WebSocket 
   const { sendMessage, isConnected } = useWebSocket(jobId);
 
+  // Scans are queued on the device first so a Wi-Fi drop never loses them
+  const scanQueue = useScanQueue(jobId, user?.id, (results) => {
+    const applied = results.filter(result => !result.duplicate);
+    const putAside = applied.filter(result => result.outcome === 'put_aside');
+    const extraItems = applied.filter(result => result.outcome === 'extra_item');
+    const describe = (items: typeof applied) => items.map(item => item.productName || item.barCode).join(", ");
+
+    toast({
+      title: `Synced ${results.length} offline scan${results.length === 1 ? "" : "s"}`,
+      description: [
+        putAside.length > 0 && `${putAside.length} put aside: ${describe(putAside)}`,
+        extraItems.length > 0 && `${extraItems.length} became extra items: ${describe(extraItems)}`,
+      ].filter(Boolean).join(". ") || "All scans were placed in boxes",
+      variant: putAside.length > 0 || extraItems.length > 0 ? "destructive" : undefined,
+    });
+  });
+
   // Auto-focus barcode input
   useEffect(() => {
     if (barcodeInputRef.current) {
@@ -192,22 +265,59 @@ export default function WorkerScanner() {
     },
   });
 
+  // The server closed or never had our session (e.g. the job was locked) - drop it so a new one is started
+  const handleJobWriteRejection = (code: JobWriteRejectionCode) => {
+    if (code === 'SESSION_CLOSED' || code === 'SESSION_NOT_FOUND' || code === 'JOB_LOCKED') {
+      setActiveSession(null);
+      refetchSession();
+    }
+    if (code === 'JOB_PAUSED' || code === 'JOB_LOCKED' || code === 'JOB_ARCHIVED') {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId] });
+    }
+  };
+
   // Scan event mutation
   const scanMutation = useMutation({
-    mutationFn: async (barcode: string) => {
+    mutationFn: async (scan: StoredScan) => {
       if (!activeSession) throw new Error("No active session");
 
       const response = await apiRequest("POST", "/api/scan-events", {
         sessionId: activeSession.id,
-        barCode: barcode,
+        barCode: scan.barCode,
+        clientScanId: scan.clientScanId,
         eventType: "scan",
         jobId,
       });
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data, scan) => {
+      scanQueue.markSent(scan.clientScanId);
+
+      // Box confirmation: nothing is counted until the box label is scanned
+      if (data.allocation?.outcome === 'pending_drop') {
+        setPendingDrop(data.scanEvent);
+        setScanResult(null);
+        setUndoDisplay(null);
+        showScanFeedback(true);
+        if (barcodeInputRef.current) {
+          barcodeInputRef.current.value = "";
+          barcodeInputRef.current.focus();
+        }
+        return;
+      }
+
       setLastScanEvent(data.scanEvent);
 
+      // Another worker filled the slot this scan was heading for - say so rather than failing silently
+      if (data.allocation?.lostSlotRace) {
+        toast({
+          title: "Slot taken by another worker",
+          description: data.allocation.outcome === 'allocated'
+            ? `Item placed in Box ${data.scanEvent.boxNumber} instead`
+            : "No open slot remained for this item",
+        });
+      }
+
       // Clear any previous scan result (extra items only) and undo display since we have a new scan
       setScanResult(null);
       setUndoDisplay(null);
@@ -320,14 +430,183 @@ export default function WorkerScanner() {
         }, 50);
       }
     },
-    onError: (error: Error) => {
+    onError: (error: Error, scan) => {
+      if (isConnectivityError(error) && requireBoxConfirmation) {
+        // Box-confirmation scans aren't queued - the drop can only be confirmed online
+        setScanError("No connection\nBox drops can only be confirmed online - scan the item again once reconnected");
+        setTimeout(() => setScanError(null), 3000);
+        showScanFeedback(false);
+        return;
+      }
+      if (isConnectivityError(error)) {
+        // Kept on the device and replayed when the connection is back
+        scanQueue.markUnsent(scan.clientScanId);
+        return;
+      }
+
+      scanQueue.markSent(scan.clientScanId);
+      const { code, message } = parseApiError(error);
+      if (code === 'DROP_PENDING') {
+        refetchPendingDrop();
+      }
+      if (code && code in JOB_WRITE_REJECTION_MESSAGES) {
+        // Job paused, locked, archived or unassigned - show it like the paused overlay
+        handleJobWriteRejection(code as JobWriteRejectionCode);
+        setScanError(message);
+        setTimeout(() => setScanError(null), 3000);
+        showScanFeedback(false);
+        return;
+      }
+
       toast({
         title: "Scan error",
-        description: error.message,
+        description: message,
+        variant: "destructive",
+      });
+      showScanFeedback(false);
+    },
+  });
+
+  // Box label scanned while an item is pending
+  const confirmDropMutation = useMutation({
+    mutationFn: async (boxLabel: string): Promise<BoxDropConfirmation> => {
+      if (!activeSession || !pendingDrop) throw new Error("No pending drop");
+
+      const response = await apiRequest("POST", `/api/scan-events/${pendingDrop.id}/confirm-drop`, {
+        sessionId: activeSession.id,
+        boxLabel,
+      });
+      return response.json();
+    },
+    onSuccess: (confirmation) => {
+      if (barcodeInputRef.current) {
+        barcodeInputRef.current.value = "";
+        barcodeInputRef.current.focus();
+      }
+
+      if (confirmation.outcome === 'confirmed') {
+        setPendingDrop(null);
+        setLastScanEvent(confirmation.scanEvent as any);
+        setLastScannedBoxNumber(confirmation.scanEvent.boxNumber);
+        showScanFeedback(true);
+        return;
+      }
+
+      if (confirmation.outcome === 'wrong_box') {
+        const scannedBox = confirmation.errorEvent?.boxNumber;
+        setScanError(`Wrong Box\n${scannedBox ? `That is Box ${scannedBox}` : "That label is from another job"} - put the item in Box ${confirmation.expectedBoxNumber}`);
+        setTimeout(() => setScanError(null), 3000);
+        showScanFeedback(false);
+        return;
+      }
+
+      if (confirmation.outcome === 'retargeted') {
+        setPendingDrop(confirmation.scanEvent);
+        toast({
+          title: "Box filled by another worker",
+          description: `Put the item in Box ${confirmation.expectedBoxNumber} instead`,
+        });
+        showScanFeedback(false);
+        return;
+      }
+
+      setPendingDrop(null);
+      toast({
+        title: "Item no longer needed in a box",
+        description: "Scan the item again to put it aside or record it as an extra item",
         variant: "destructive",
       });
       showScanFeedback(false);
     },
+    onError: (error: Error) => {
+      const { code, message } = parseApiError(error);
+      if (code === 'NO_PENDING_DROP') {
+        setPendingDrop(null);
+      } else if (code && code in JOB_WRITE_REJECTION_MESSAGES) {
+        handleJobWriteRejection(code as JobWriteRejectionCode);
+      }
+      setScanError(message);
+      setTimeout(() => setScanError(null), 3000);
+      showScanFeedback(false);
+    },
+  });
+
+  const cancelDropMutation = useMutation({
+    mutationFn: async () => {
+      if (!activeSession || !pendingDrop) throw new Error("No pending drop");
+
+      const response = await apiRequest("POST", `/api/scan-events/${pendingDrop.id}/cancel-drop`, {
+        sessionId: activeSession.id,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setPendingDrop(null);
+      toast({
+        title: "Drop cancelled",
+        description: "The item was not counted",
+      });
+    },
+    onError: (error: Error) => {
+      const { code, message } = parseApiError(error);
+      if (code === 'NO_PENDING_DROP') {
+        setPendingDrop(null);
+        return;
+      }
+      toast({
+        title: "Cannot cancel",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Put aside item scanned off the pull list
+  const pullPutAsideMutation = useMutation({
+    mutationFn: async (barCode: string): Promise<PutAsidePullResult> => {
+      if (!activeSession) throw new Error("No active session");
+
+      const response = await apiRequest("POST", `/api/jobs/${jobId}/put-aside/pull`, {
+        sessionId: activeSession.id,
+        barCode,
+      });
+      return response.json();
+    },
+    onSuccess: (result, barCode) => {
+      if (barcodeInputRef.current) {
+        barcodeInputRef.current.value = "";
+        barcodeInputRef.current.focus();
+      }
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/put-aside/pick-list`] });
+
+      if (result.outcome === 'pulled' && result.allocation) {
+        setScanResult({
+          boxNumber: result.allocation.boxNumber,
+          customerName: result.allocation.customerName,
+          productName: result.allocation.item.productName || barCode,
+          progress: null,
+          timestamp: new Date().toISOString(),
+        });
+        setLastScannedBoxNumber(result.allocation.boxNumber);
+        showScanFeedback(true);
+        return;
+      }
+
+      setScanError(result.outcome === 'not_needed'
+        ? "Not needed any more\nThat box has been filled - leave the item on the put aside shelf"
+        : "Not on the pull list\nScan an item from the list, or tap Done to scan normally");
+      setTimeout(() => setScanError(null), 3000);
+      showScanFeedback(false);
+    },
+    onError: (error: Error) => {
+      const { code, message } = parseApiError(error);
+      if (code && code in JOB_WRITE_REJECTION_MESSAGES) {
+        handleJobWriteRejection(code as JobWriteRejectionCode);
+      }
+      setScanError(message);
+      setTimeout(() => setScanError(null), 3000);
+      showScanFeedback(false);
+    },
   });
 
   // Undo mutation
@@ -335,9 +614,13 @@ export default function WorkerScanner() {
     mutationFn: async (count?: number) => {
       if (!activeSession) throw new Error("No active session");
 
+      // Reference the exact scan being reversed when we know it; otherwise the server picks the latest
+      const undoableLastScan = count === 1 && lastScanEvent?.id &&
+        (lastScanEvent.eventType === 'scan' || lastScanEvent.eventType === 'extra_item');
+
       const response = await apiRequest("POST", "/api/scan-events/undo", {
         sessionId: activeSession.id,
-        count,
+        ...(undoableLastScan ? { scanEventIds: [lastScanEvent!.id] } : { count }),
       });
       return response.json();
     },
@@ -380,6 +663,18 @@ export default function WorkerScanner() {
         (window as any).handleUndoSuccess(data);
       }
     },
+    onError: (error: Error) => {
+      // 409 responses carry the reason (undo window expired, box emptied/checked, job paused, ...)
+      const { code, message } = parseApiError(error);
+      if (code) {
+        handleJobWriteRejection(code as JobWriteRejectionCode);
+      }
+      toast({
+        title: "Cannot undo",
+        description: message,
+        variant: "destructive",
+      });
+    },
   });
 
   // Save session mutation
@@ -454,16 +749,61 @@ export default function WorkerScanner() {
     setScanError(null);
     setScanResult(null);
 
-    // Auto-create session if none exists
-    if (!activeSession) {
+    // Auto-create session if none exists (offline scans get a session when they are replayed)
+    if (!activeSession && scanQueue.isOnline) {
       autoCreateSessionMutation.mutate();
       setScanError("Creating session - ready to start scanning");
       setTimeout(() => setScanError(null), 2000);
       return;
     }
 
+    // Waiting for a box label - this scan confirms (or mis-drops) the pending item
+    if (pendingDrop) {
+      confirmDropMutation.mutate(barcode.trim());
+      return;
+    }
+
+    // Pulling put aside stock - the scanned item is credited to the box it was reserved for
+    if (isPullingPutAside) {
+      if (!activeSession) {
+        setScanError("No connection\nPut aside items can only be pulled online");
+        setTimeout(() => setScanError(null), 3000);
+        return;
+      }
+      pullPutAsideMutation.mutate(barcode.trim());
+      return;
+    }
+
+    // Box-confirmation scans are sent straight away: a queued scan couldn't be confirmed
+    if (requireBoxConfirmation) {
+      if (!activeSession) {
+        setScanError("No connection\nBox drops can only be confirmed online");
+        setTimeout(() => setScanError(null), 3000);
+        return;
+      }
+      scanMutation.mutate({
+        clientScanId: createClientScanId(),
+        barCode: barcode.trim(),
+        capturedAt: new Date().toISOString(),
+        jobId: jobId!,
+        userId: user!.id,
+      });
+      return;
+    }
+
     // Let backend handle all allocation logic - no frontend processing
-    scanMutation.mutate(barcode.trim());
+    scanQueue.captureScan(barcode.trim()).then(({ scan, sendNow }) => {
+      if (sendNow && activeSession) {
+        scanMutation.mutate(scan);
+        return;
+      }
+      if (sendNow) {
+        // No session to send it under yet - the replay opens one
+        scanQueue.markUnsent(scan.clientScanId);
+      }
+      // Saved on the device - the pending indicator tracks it until it is replayed
+      showScanFeedback(true);
+    });
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -787,11 +1127,21 @@ export default function WorkerScanner() {
         }}
         lastScanEvent={lastScanEvent}
         onScan={handleBarcodeSubmit}
+        pendingDrop={pendingDrop ? {
+          boxNumber: pendingDrop.calculatedTargetBox,
+          productName: pendingDrop.productName || pendingDrop.barCode,
+          customerName: pendingDrop.customerName,
+        } : null}
+        onCancelPendingDrop={() => cancelDropMutation.mutate()}
+        putAsidePullQty={pickListQty}
+        isPullingPutAside={isPullingPutAside}
+        onTogglePutAsidePull={() => setIsPullingPutAside(!isPullingPutAside)}
         isPaused={job?.status !== 'completed' && !job?.isActive}
         onUndo={() => undoMutation.mutate(1)}
         onSwitchSession={() => setLocation('/settings')}
         isUndoAvailable={(jobPerformanceData?.performance?.totalScans || 0) > 0}
         isConnected={isConnected}
+        pendingScans={scanQueue.pendingCount}
         scanError={scanError}
         hasMultipleAssignments={(assignmentsData as any)?.assignments && (assignmentsData as any).assignments.length > 1}
         scanResult={scanResult}
@@ -901,6 +1251,93 @@ export default function WorkerScanner() {
       </header>
 
       <div className="p-4 space-y-6">
+        {/* Offline scan queue */}
+        {(scanQueue.pendingCount > 0 || !scanQueue.isOnline) && (
+          <Card className="border-amber-200 bg-amber-50" data-testid="scan-queue-status">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between gap-2 text-amber-800">
+                <div className="flex items-center gap-2">
+                  <CloudOff className="h-4 w-4" />
+                  <span className="text-sm font-medium" data-testid="text-pending-scans">
+                    {scanQueue.pendingCount} scan{scanQueue.pendingCount === 1 ? "" : "s"} pending
+                    {scanQueue.isReplaying ? " - syncing..." : !scanQueue.isOnline ? " - offline, scans are saved on this device" : ""}
+                  </span>
+                </div>
+                {scanQueue.pendingCount > 0 && !scanQueue.isReplaying && (
+                  <Button variant="outline" size="sm" onClick={() => scanQueue.replay()} data-testid="button-sync-scans">
+                    Sync now
+                  </Button>
+                )}
+              </div>
+              {scanQueue.replayError && (
+                <p className="text-xs text-red-600 mt-1">{scanQueue.replayError}</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Pending drop - waiting for the box label scan */}
+        {pendingDrop && (
+          <Card className="border-amber-300 bg-amber-50" data-testid="pending-drop">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="text-sm font-medium text-amber-800">Scan the box label to confirm</div>
+                  <div className="text-3xl font-bold text-amber-900" data-testid="text-pending-drop-box">
+                    Box {pendingDrop.calculatedTargetBox}
+                  </div>
+                  <div className="text-sm text-amber-800">
+                    {pendingDrop.productName || pendingDrop.barCode}
+                    {pendingDrop.customerName ? ` for ${pendingDrop.customerName}` : ""}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => cancelDropMutation.mutate()}
+                  disabled={cancelDropMutation.isPending}
+                  data-testid="button-cancel-drop"
+                >
+                  Cancel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Put aside stock waiting to be pulled into reassigned boxes */}
+        {pickList.length > 0 && (
+          <Card className="border-purple-300 bg-purple-50" data-testid="put-aside-pick-list">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between gap-4 mb-2">
+                <div className="text-sm font-medium text-purple-800">
+                  {isPullingPutAside
+                    ? "Scan each item from the put aside shelf"
+                    : `Pull from put aside (${pickListQty} item${pickListQty === 1 ? "" : "s"})`}
+                </div>
+                <Button
+                  variant={isPullingPutAside ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setIsPullingPutAside(!isPullingPutAside)}
+                  data-testid="button-toggle-put-aside-pull"
+                >
+                  {isPullingPutAside ? "Done" : "Pull"}
+                </Button>
+              </div>
+              <div className="space-y-1">
+                {pickList.map(line => (
+                  <div key={`${line.boxNumber}-${line.barCode}`} className="flex items-center justify-between text-sm text-purple-900">
+                    <span>
+                      <span className="font-bold">Box {line.boxNumber}</span> - {line.productName || line.barCode}
+                      {line.customerName ? ` for ${line.customerName}` : ""}
+                    </span>
+                    <Badge variant="secondary">x{line.qty}</Badge>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Connection Status */}
         {!isConnected && (
           <Card className="border-orange-200 bg-orange-50">
@@ -1003,12 +1440,10 @@ export default function WorkerScanner() {
                     </Button>
                   </div>
 
-                  {/* Camera scanner only on larger screens */}
-                  <div className="hidden lg:block">
-                    <BarcodeScanner 
-                      onScan={job?.status !== 'completed' && !job?.isActive ? undefined : handleBarcodeSubmit} 
-                    />
-                  </div>
+                  {/* Camera scanner - decoded barcodes go through the same path as the HID input */}
+                  <BarcodeScanner 
+                    onScan={job?.status !== 'completed' && !job?.isActive ? undefined : handleBarcodeSubmit} 
+                  />
 
                   <div className="flex flex-wrap gap-2">
                     <Button
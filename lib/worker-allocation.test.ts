@@ -0,0 +1,173 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getDefaultWorkerColors,
+  getNextBoxForWorker,
+  getNextWorkerIndex,
+  getWorkerBoxPartition,
+  getWorkerBoxSequence,
+  getWorkerColor,
+  selectTargetBox,
+  walkWorkerSequence,
+  type AllocationContext,
+  type AllocationRequest,
+} from "./worker-allocation";
+
+// Run with: npx tsx --test lib/worker-allocation.test.ts
+
+const contextFor = (boxes: number[]): AllocationContext => ({
+  totalBoxes: boxes.length,
+  maxBoxNumber: Math.max(...boxes),
+  minBoxNumber: Math.min(...boxes),
+  middleBoxNumber: boxes[Math.floor(boxes.length / 2)],
+});
+
+test('middle_down starts one box below middle_up for an odd number of boxes', () => {
+  const boxes = [1, 2, 3, 4, 5];
+  assert.equal(getNextBoxForWorker('middle_up', boxes, contextFor(boxes)), 3);
+  assert.equal(getNextBoxForWorker('middle_down', boxes, contextFor(boxes)), 2);
+});
+
+test('middle_down starts one box below middle_up for an even number of boxes', () => {
+  const boxes = [1, 2, 3, 4];
+  assert.equal(getNextBoxForWorker('middle_up', boxes, contextFor(boxes)), 3);
+  assert.equal(getNextBoxForWorker('middle_down', boxes, contextFor(boxes)), 2);
+});
+
+test('middle_down matches the start of its box sequence', () => {
+  for (const boxes of [[7], [3, 9], [1, 2, 3, 4, 5, 6, 7], [2, 4, 6, 8, 10, 12]]) {
+    assert.equal(getNextBoxForWorker('middle_down', boxes, contextFor(boxes)), getWorkerBoxSequence('middle_down', boxes)[0]);
+  }
+});
+
+test('middle_down falls back to the only box', () => {
+  assert.equal(getNextBoxForWorker('middle_down', [4], contextFor([4])), 4);
+});
+
+const boxesUpTo = (count: number) => Array.from({ length: count }, (_, index) => index + 1);
+
+const request = (fields: Partial<AllocationRequest> & Pick<AllocationRequest, 'strategy' | 'candidateBoxNumbers'>): AllocationRequest => ({
+  allBoxNumbers: boxesUpTo(10),
+  workerSlot: 0,
+  workerCount: 2,
+  ...fields,
+});
+
+test('contiguous zones are consecutive runs whose sizes differ by at most one', () => {
+  assert.deepEqual(getWorkerBoxPartition('contiguous_zones', boxesUpTo(10), 0, 3), [1, 2, 3, 4]);
+  assert.deepEqual(getWorkerBoxPartition('contiguous_zones', boxesUpTo(10), 1, 3), [5, 6, 7]);
+  assert.deepEqual(getWorkerBoxPartition('contiguous_zones', boxesUpTo(10), 2, 3), [8, 9, 10]);
+});
+
+test('interleaved stripes deal every Nth box to each worker', () => {
+  assert.deepEqual(getWorkerBoxPartition('interleaved', boxesUpTo(10), 0, 3), [1, 4, 7, 10]);
+  assert.deepEqual(getWorkerBoxPartition('interleaved', boxesUpTo(10), 1, 3), [2, 5, 8]);
+  assert.deepEqual(getWorkerBoxPartition('interleaved', boxesUpTo(10), 2, 3), [3, 6, 9]);
+});
+
+test('partitions cover every box exactly once', () => {
+  const boxes = [12, 3, 7, 7, 20, 1, 15];
+  for (const strategy of ['contiguous_zones', 'interleaved'] as const) {
+    for (const workerCount of [1, 2, 3, 5, 9]) {
+      const covered = Array.from({ length: workerCount }, (_, slot) => getWorkerBoxPartition(strategy, boxes, slot, workerCount)).flat();
+      assert.deepEqual(covered.sort((a, b) => a - b), [1, 3, 7, 12, 15, 20]);
+    }
+  }
+});
+
+test('partition slots wrap round the worker count', () => {
+  assert.deepEqual(getWorkerBoxPartition('interleaved', boxesUpTo(6), 3, 2), getWorkerBoxPartition('interleaved', boxesUpTo(6), 1, 2));
+  assert.deepEqual(getWorkerBoxPartition('contiguous_zones', boxesUpTo(6), -1, 3), [5, 6]);
+});
+
+test('walking a sequence carries on from the current box and only wraps once nothing ahead is open', () => {
+  const sequence = [1, 2, 3, 4, 5];
+  assert.equal(walkWorkerSequence(sequence, [2, 4], 3), 4);
+  assert.equal(walkWorkerSequence(sequence, [2, 4], 4), 4);
+  assert.equal(walkWorkerSequence(sequence, [2, 4], 5), 2);
+});
+
+test('walking a sequence starts at its beginning without a current box in it', () => {
+  assert.equal(walkWorkerSequence([5, 4, 3], [3, 4], null), 4);
+  assert.equal(walkWorkerSequence([5, 4, 3], [3, 4], 9), 4);
+  assert.equal(walkWorkerSequence([5, 4, 3], [1, 2], 4), null);
+  assert.equal(walkWorkerSequence([], [1], null), null);
+});
+
+test('a new worker takes the lowest free worker index', () => {
+  assert.equal(getNextWorkerIndex([]), 0);
+  assert.equal(getNextWorkerIndex([1, 2]), 0);
+  assert.equal(getNextWorkerIndex([0, 1, 3]), 2);
+  assert.equal(getNextWorkerIndex([2, 0, 1]), 3);
+});
+
+test('no open box means no target under any strategy', () => {
+  for (const strategy of ['worker_patterns', 'contiguous_zones', 'interleaved', 'nearest_to_last', 'least_contended'] as const) {
+    assert.equal(selectTargetBox(request({ strategy, candidateBoxNumbers: [] })), null);
+  }
+});
+
+test('contiguous zones walk the worker\'s own zone from where they are', () => {
+  // Worker 2 of 2 owns boxes 6-10
+  assert.equal(selectTargetBox(request({ strategy: 'contiguous_zones', candidateBoxNumbers: [2, 7, 9], workerSlot: 1 })), 7);
+  assert.equal(selectTargetBox(request({ strategy: 'contiguous_zones', candidateBoxNumbers: [2, 7, 9], workerSlot: 1, lastBoxNumber: 8 })), 9);
+});
+
+test('contiguous zones fall back to the nearest open box outside the zone', () => {
+  assert.equal(selectTargetBox(request({ strategy: 'contiguous_zones', candidateBoxNumbers: [2, 3], workerSlot: 1, lastBoxNumber: 8 })), 3);
+  assert.equal(selectTargetBox(request({ strategy: 'contiguous_zones', candidateBoxNumbers: [2, 3], workerSlot: 1 })), 3);
+});
+
+test('interleaved stripes walk the worker\'s own stripe, then the nearest box with ties going low', () => {
+  // Worker 2 of 2 owns boxes 2, 4 and 6
+  const stripe = { strategy: 'interleaved' as const, allBoxNumbers: boxesUpTo(6), workerSlot: 1 };
+  assert.equal(selectTargetBox(request({ ...stripe, candidateBoxNumbers: [1, 4, 5, 6] })), 4);
+  assert.equal(selectTargetBox(request({ ...stripe, candidateBoxNumbers: [1, 4, 5, 6], lastBoxNumber: 4 })), 4);
+  assert.equal(selectTargetBox(request({ ...stripe, candidateBoxNumbers: [1, 3] })), 1);
+});
+
+test('nearest to last picks the open box closest to the worker\'s last box', () => {
+  assert.equal(selectTargetBox(request({ strategy: 'nearest_to_last', candidateBoxNumbers: [2, 5, 9], lastBoxNumber: 6 })), 5);
+  assert.equal(selectTargetBox(request({ strategy: 'nearest_to_last', candidateBoxNumbers: [2, 5, 9], lastBoxNumber: 7 })), 5);
+});
+
+test('nearest to last starts each new worker at the front of their own zone', () => {
+  assert.equal(selectTargetBox(request({ strategy: 'nearest_to_last', candidateBoxNumbers: [2, 8], workerSlot: 0 })), 2);
+  assert.equal(selectTargetBox(request({ strategy: 'nearest_to_last', candidateBoxNumbers: [2, 8], workerSlot: 1 })), 8);
+});
+
+test('least contended picks the open box furthest from the nearest other worker', () => {
+  assert.equal(selectTargetBox(request({ strategy: 'least_contended', candidateBoxNumbers: [1, 5, 10], otherWorkerBoxNumbers: [4] })), 10);
+  assert.equal(selectTargetBox(request({ strategy: 'least_contended', candidateBoxNumbers: [1, 5, 10], otherWorkerBoxNumbers: [1, 10] })), 5);
+});
+
+test('least contended breaks ties by staying close to the last box', () => {
+  assert.equal(selectTargetBox(request({ strategy: 'least_contended', candidateBoxNumbers: [2, 8], otherWorkerBoxNumbers: [5], lastBoxNumber: 7 })), 8);
+  assert.equal(selectTargetBox(request({ strategy: 'least_contended', candidateBoxNumbers: [2, 8], otherWorkerBoxNumbers: [5], lastBoxNumber: 3 })), 2);
+});
+
+test('least contended works like nearest to last when nobody else is working', () => {
+  assert.equal(selectTargetBox(request({ strategy: 'least_contended', candidateBoxNumbers: [2, 8], lastBoxNumber: 3 })), 2);
+  assert.equal(selectTargetBox(request({ strategy: 'least_contended', candidateBoxNumbers: [2, 8], workerSlot: 1 })), 8);
+});
+
+test('worker patterns follow the slot\'s pattern sequence, the fifth worker reusing the first', () => {
+  const patterns = { strategy: 'worker_patterns' as const, allBoxNumbers: boxesUpTo(6), candidateBoxNumbers: [2, 5] };
+  assert.equal(selectTargetBox(request({ ...patterns, workerSlot: 1 })), 5);
+  assert.equal(selectTargetBox(request({ ...patterns, workerSlot: 1, lastBoxNumber: 4 })), 2);
+  assert.equal(selectTargetBox(request({ ...patterns, workerSlot: 4 })), 2);
+  assert.equal(selectTargetBox(request({ ...patterns, pattern: 'middle_up' })), 5);
+});
+
+test('the first four worker colours keep the original palette', () => {
+  assert.deepEqual(getDefaultWorkerColors(), ['#3b82f6', '#ef4444', '#10b981', '#f59e0b']);
+});
+
+test('worker colours stay distinct well beyond four workers', () => {
+  const colors = getDefaultWorkerColors(40);
+  assert.equal(new Set(colors).size, colors.length);
+  for (const color of colors) {
+    assert.match(color, /^#[0-9a-f]{6}$/);
+  }
+  assert.equal(getWorkerColor(12), colors[12]);
+});
@@ -1,10 +1,49 @@
 /**
  * Worker Allocation System for Multi-Worker Warehouse Scanning
- * Implements POC-compliant box allocation patterns for up to 4 workers
+ * Implements the POC-compliant box allocation patterns (worker_patterns) plus
+ * strategies that partition boxes among any number of workers. The server's
+ * scan allocation (findNextTargetBox) delegates box selection to selectTargetBox.
  */
 
 export type WorkerAllocationPattern = 'ascending' | 'descending' | 'middle_up' | 'middle_down';
 
+/**
+ * Strategy used to pick a box for a scan, configured per job type
+ * - worker_patterns: the original 4 POC patterns (workers 5+ reuse a pattern)
+ * - contiguous_zones: boxes split into N consecutive zones, one per worker
+ * - interleaved: boxes dealt out in stripes (worker i gets every Nth box)
+ * - nearest_to_last: the open box closest to the worker's last box
+ * - least_contended: the open box furthest from where other workers are
+ */
+export type AllocationStrategy =
+  | 'worker_patterns'
+  | 'contiguous_zones'
+  | 'interleaved'
+  | 'nearest_to_last'
+  | 'least_contended';
+
+export const ALLOCATION_STRATEGIES: AllocationStrategy[] = [
+  'worker_patterns',
+  'contiguous_zones',
+  'interleaved',
+  'nearest_to_last',
+  'least_contended',
+];
+
+export const DEFAULT_ALLOCATION_STRATEGY: AllocationStrategy = 'worker_patterns';
+
+export const ALLOCATION_STRATEGY_LABELS: Record<AllocationStrategy, string> = {
+  worker_patterns: 'Worker patterns (Asc / Desc / Mid+ / Mid-)',
+  contiguous_zones: 'Contiguous zones',
+  interleaved: 'Interleaved stripes',
+  nearest_to_last: 'Nearest to last box',
+  least_contended: 'Least contended',
+};
+
+export function isAllocationStrategy(value: unknown): value is AllocationStrategy {
+  return typeof value === 'string' && (ALLOCATION_STRATEGIES as string[]).includes(value);
+}
+
 export interface WorkerAssignment {
   workerId: string;
   pattern: WorkerAllocationPattern;
@@ -25,6 +64,7 @@ export interface AllocationContext {
  * 2nd Worker: Descending (100, 99, 98, 97...)  
  * 3rd Worker: Middle Up (50, 51, 52, 53...)
  * 4th Worker: Middle Down (49, 48, 47, 46...)
+ * 5th Worker onwards: the cycle repeats
  */
 export function assignWorkerPattern(workerIndex: number): WorkerAllocationPattern {
   switch (workerIndex % 4) {
@@ -36,6 +76,19 @@ export function assignWorkerPattern(workerIndex: number): WorkerAllocationPatter
   }
 }
 
+/**
+ * Lowest worker index not held by an active assignment, so a replacement
+ * worker takes over the slot (and colour) of the one who left
+ */
+export function getNextWorkerIndex(usedIndexes: number[]): number {
+  const used = new Set(usedIndexes);
+  let index = 0;
+  while (used.has(index)) {
+    index++;
+  }
+  return index;
+}
+
 /**
  * Get the next available box number for a worker based on their allocation pattern
  */
@@ -64,24 +117,239 @@ export function getNextBoxForWorker(
       return sortedBoxes[middleIndex] || sortedBoxes[0];
       
     case 'middle_down':
-      // Start from middle-1 and go down: 49, 48, 47, 46...
-      const middleDownIndex = Math.floor(sortedBoxes.length / 2) - 1;
-      return sortedBoxes[Math.max(0, middleDownIndex)];
+      // Start one below middle_up's box and go down: 49, 48, 47, 46... (as getWorkerBoxSequence)
+      return sortedBoxes[Math.floor(sortedBoxes.length / 2) - 1] ?? sortedBoxes[0];
       
     default:
       return sortedBoxes[0];
   }
 }
 
+/**
+ * Everything a strategy needs to know about the worker asking for a box
+ */
+export interface AllocationRequest {
+  strategy: AllocationStrategy;
+  /** Open boxes that can still take this barcode */
+  candidateBoxNumbers: number[];
+  /** Every allocated box in the job - zones and stripes are cut from this */
+  allBoxNumbers: number[];
+  /** This worker's position among the job's active workers (0-based) */
+  workerSlot: number;
+  workerCount: number;
+  pattern?: WorkerAllocationPattern;
+  /** Box this worker is currently at (their persisted position), if any */
+  lastBoxNumber?: number | null;
+  /** Boxes the other active workers are currently at */
+  otherWorkerBoxNumbers?: number[];
+}
+
+/**
+ * Split the job's boxes into the slice owned by a worker
+ * Zones are consecutive runs; stripes take every Nth box
+ */
+export function getWorkerBoxPartition(
+  strategy: 'contiguous_zones' | 'interleaved',
+  allBoxNumbers: number[],
+  workerSlot: number,
+  workerCount: number
+): number[] {
+  const sortedBoxes = Array.from(new Set(allBoxNumbers)).sort((a, b) => a - b);
+  const count = Math.max(1, workerCount);
+  const slot = ((workerSlot % count) + count) % count;
+
+  if (strategy === 'interleaved') {
+    return sortedBoxes.filter((_, index) => index % count === slot);
+  }
+
+  // Spread any remainder over the first zones so sizes differ by at most one
+  const baseSize = Math.floor(sortedBoxes.length / count);
+  const remainder = sortedBoxes.length % count;
+  const start = slot * baseSize + Math.min(slot, remainder);
+  const size = baseSize + (slot < remainder ? 1 : 0);
+  return sortedBoxes.slice(start, start + size);
+}
+
+function closestBox(candidates: number[], target: number): number {
+  return candidates.reduce((best, box) => {
+    const distance = Math.abs(box - target);
+    const bestDistance = Math.abs(best - target);
+    return distance < bestDistance || (distance === bestDistance && box < best) ? box : best;
+  });
+}
+
+// Where a worker with no history starts: spread workers evenly across the box range
+function getStartingBox(allBoxNumbers: number[], workerSlot: number, workerCount: number): number {
+  const zone = getWorkerBoxPartition('contiguous_zones', allBoxNumbers, workerSlot, workerCount);
+  return zone[0] ?? Math.min(...allBoxNumbers);
+}
+
+/**
+ * Next box in a worker's sequence that can take the scan, starting from the
+ * box they are at. Boxes behind them are only revisited once nothing ahead
+ * needs the item, so a worker never jumps back and forth across the floor.
+ */
+export function walkWorkerSequence(
+  sequence: number[],
+  candidateBoxNumbers: number[],
+  currentBoxNumber?: number | null
+): number | null {
+  if (sequence.length === 0) return null;
+
+  const open = new Set(candidateBoxNumbers);
+  const currentIndex = currentBoxNumber != null ? sequence.indexOf(currentBoxNumber) : -1;
+  const start = Math.max(0, currentIndex);
+
+  for (let offset = 0; offset < sequence.length; offset++) {
+    const box = sequence[(start + offset) % sequence.length];
+    if (open.has(box)) {
+      return box;
+    }
+  }
+  return null;
+}
+
+/**
+ * The boxes a worker walks through, in order, under the job's strategy.
+ * Strategies without a fixed route (nearest / least contended) return null.
+ */
+export function getWorkerSequence(
+  strategy: AllocationStrategy,
+  allBoxNumbers: number[],
+  workerSlot: number,
+  workerCount: number,
+  pattern?: WorkerAllocationPattern
+): number[] | null {
+  switch (strategy) {
+    case 'contiguous_zones':
+    case 'interleaved':
+      return getWorkerBoxPartition(strategy, allBoxNumbers, workerSlot, workerCount);
+    case 'worker_patterns':
+      return getWorkerBoxSequence(pattern || assignWorkerPattern(workerSlot), allBoxNumbers);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Pick the box a scan should go to under the job's allocation strategy
+ * Partitioned strategies fall back to the nearest open box outside the worker's
+ * own slice, so nobody is left idle while work remains elsewhere.
+ */
+export function selectTargetBox(request: AllocationRequest): number | null {
+  const candidates = Array.from(new Set(request.candidateBoxNumbers)).sort((a, b) => a - b);
+  if (candidates.length === 0) return null;
+
+  const allBoxes = request.allBoxNumbers.length > 0 ? request.allBoxNumbers : candidates;
+  const workerCount = Math.max(1, request.workerCount);
+
+  switch (request.strategy) {
+    case 'contiguous_zones':
+    case 'interleaved': {
+      // Walk the worker's own slice from where they are now
+      const ownBoxes = getWorkerBoxPartition(request.strategy, allBoxes, request.workerSlot, workerCount);
+      const ownTarget = walkWorkerSequence(ownBoxes, candidates, request.lastBoxNumber);
+      if (ownTarget !== null) {
+        return ownTarget;
+      }
+      const anchor = request.lastBoxNumber ?? ownBoxes[0] ?? getStartingBox(allBoxes, request.workerSlot, workerCount);
+      return closestBox(candidates, anchor);
+    }
+
+    case 'nearest_to_last': {
+      const anchor = request.lastBoxNumber ?? getStartingBox(allBoxes, request.workerSlot, workerCount);
+      return closestBox(candidates, anchor);
+    }
+
+    case 'least_contended': {
+      const others = request.otherWorkerBoxNumbers || [];
+      if (others.length === 0) {
+        const anchor = request.lastBoxNumber ?? getStartingBox(allBoxes, request.workerSlot, workerCount);
+        return closestBox(candidates, anchor);
+      }
+
+      // Maximise the distance to the nearest other worker; break ties by staying close to our last box
+      const anchor = request.lastBoxNumber ?? getStartingBox(allBoxes, request.workerSlot, workerCount);
+      let bestBox = candidates[0];
+      let bestClearance = -1;
+      for (const box of candidates) {
+        const clearance = Math.min(...others.map(other => Math.abs(other - box)));
+        const isCloser = Math.abs(box - anchor) < Math.abs(bestBox - anchor);
+        if (clearance > bestClearance || (clearance === bestClearance && isCloser)) {
+          bestBox = box;
+          bestClearance = clearance;
+        }
+      }
+      return bestBox;
+    }
+
+    case 'worker_patterns':
+    default: {
+      const pattern = request.pattern || assignWorkerPattern(request.workerSlot);
+      const sequenceTarget = walkWorkerSequence(getWorkerBoxSequence(pattern, allBoxes), candidates, request.lastBoxNumber);
+      if (sequenceTarget !== null) {
+        return sequenceTarget;
+      }
+      const context: AllocationContext = {
+        totalBoxes: allBoxes.length,
+        maxBoxNumber: Math.max(...allBoxes),
+        minBoxNumber: Math.min(...allBoxes),
+        middleBoxNumber: Math.floor((Math.max(...allBoxes) + Math.min(...allBoxes)) / 2),
+      };
+      return getNextBoxForWorker(pattern, candidates, context);
+    }
+  }
+}
+
+/**
+ * Short label describing how a worker picks boxes, for dashboards
+ */
+export function describeWorkerAllocation(
+  strategy: AllocationStrategy,
+  workerSlot: number,
+  workerCount: number,
+  pattern?: WorkerAllocationPattern
+): string {
+  switch (strategy) {
+    case 'contiguous_zones':
+      return `Zone ${workerSlot + 1}/${Math.max(1, workerCount)}`;
+    case 'interleaved':
+      return `Stripe ${workerSlot + 1}/${Math.max(1, workerCount)}`;
+    case 'nearest_to_last':
+      return 'Nearest';
+    case 'least_contended':
+      return 'Least busy';
+    case 'worker_patterns':
+    default: {
+      const patternLabels: Record<WorkerAllocationPattern, string> = {
+        ascending: '↗ Asc',
+        descending: '↙ Desc',
+        middle_up: '↑ Mid+',
+        middle_down: '↓ Mid-',
+      };
+      return patternLabels[pattern || assignWorkerPattern(workerSlot)];
+    }
+  }
+}
+
+// A box count means boxes 1..n; a list is the job's actual box numbers
+function toBoxList(boxes: number | number[]): number[] {
+  if (typeof boxes === 'number') {
+    return Array.from({ length: boxes }, (_, i) => i + 1);
+  }
+  return Array.from(new Set(boxes)).sort((a, b) => a - b);
+}
+
 /**
  * Get all boxes that a worker should work on based on their pattern
  * Returns the complete sequence a worker will follow
  */
 export function getWorkerBoxSequence(
   pattern: WorkerAllocationPattern,
-  maxBoxes: number = 100
+  boxes: number | number[] = 100
 ): number[] {
-  const allBoxes = Array.from({ length: maxBoxes }, (_, i) => i + 1);
+  const allBoxes = toBoxList(boxes);
+  const maxBoxes = allBoxes.length;
   
   switch (pattern) {
     case 'ascending':
@@ -116,7 +384,7 @@ export function getWorkerBoxSequence(
 export function getWorkerForBox(
   boxNumber: number,
   workerAssignments: WorkerAssignment[],
-  maxBoxes: number = 100
+  boxes: number | number[] = 100
 ): string | null {
   // Sort workers by their allocation pattern priority
   const sortedWorkers = [...workerAssignments].sort((a, b) => {
@@ -126,7 +394,7 @@ export function getWorkerForBox(
 
   // Find the worker whose pattern should handle this box number
   for (const worker of sortedWorkers) {
-    const sequence = getWorkerBoxSequence(worker.pattern, maxBoxes);
+    const sequence = getWorkerBoxSequence(worker.pattern, boxes);
     const currentIndex = worker.currentBoxIndex || 0;
     
     // Check if this box number is in the worker's upcoming sequence
@@ -147,12 +415,12 @@ export function getNextBoxForWorkerById(
   workerId: string,
   workerAssignments: WorkerAssignment[],
   availableBoxNumbers: number[],
-  maxBoxes: number = 100
+  boxes: number | number[] = 100
 ): number | null {
   const worker = workerAssignments.find(w => w.workerId === workerId);
   if (!worker || availableBoxNumbers.length === 0) return null;
   
-  const sequence = getWorkerBoxSequence(worker.pattern, maxBoxes);
+  const sequence = getWorkerBoxSequence(worker.pattern, boxes);
   const currentIndex = worker.currentBoxIndex || 0;
   
   // Find the next available box in the worker's sequence
@@ -173,12 +441,12 @@ export function canWorkerScanBox(
   workerId: string,
   boxNumber: number,
   workerAssignments: WorkerAssignment[],
-  maxBoxes: number = 100
+  boxes: number | number[] = 100
 ): boolean {
   const worker = workerAssignments.find(w => w.workerId === workerId);
   if (!worker) return false;
   
-  const sequence = getWorkerBoxSequence(worker.pattern, maxBoxes);
+  const sequence = getWorkerBoxSequence(worker.pattern, boxes);
   const currentIndex = worker.currentBoxIndex || 0;
   
   // Check if the box is in the worker's upcoming sequence
@@ -188,30 +456,60 @@ export function canWorkerScanBox(
 
 /**
  * Update worker's current position after they scan into a box
+ * The position stays on that box (it may need more items) until a later scan moves them on
  */
 export function updateWorkerProgress(
   workerId: string,
   scannedBoxNumber: number,
   workerAssignments: WorkerAssignment[],
-  maxBoxes: number = 100
+  boxes: number | number[] = 100
 ): WorkerAssignment[] {
   return workerAssignments.map(worker => {
     if (worker.workerId === workerId) {
-      const sequence = getWorkerBoxSequence(worker.pattern, maxBoxes);
+      const sequence = getWorkerBoxSequence(worker.pattern, boxes);
       const boxIndex = sequence.indexOf(scannedBoxNumber);
       
       return {
         ...worker,
-        currentBoxIndex: boxIndex >= 0 ? boxIndex + 1 : worker.currentBoxIndex
+        currentBoxIndex: boxIndex >= 0 ? boxIndex : worker.currentBoxIndex
       };
     }
     return worker;
   });
 }
 
+const BASE_WORKER_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b']; // blue, red, green, yellow
+
+function hslToHex(hue: number, saturation: number, lightness: number): string {
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const k = (n: number) => (n + hue / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const value = l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+/**
+ * Colour for the worker at a given index. The first four keep the original
+ * palette; later workers step round the hue wheel by the golden angle so
+ * neighbouring indexes never land on similar colours.
+ */
+export function getWorkerColor(workerIndex: number): string {
+  if (workerIndex < BASE_WORKER_COLORS.length) {
+    return BASE_WORKER_COLORS[workerIndex];
+  }
+  const step = workerIndex - BASE_WORKER_COLORS.length;
+  const hue = (277 + step * 137.508) % 360; // start at purple, clear of the base palette
+  const lightness = step % 2 === 0 ? 45 : 58;
+  return hslToHex(hue, 70, lightness);
+}
+
 /**
- * Get worker assignment colors (default colors for up to 4 workers)
+ * Get worker assignment colors - distinct for any number of workers (defaults to 4)
  */
-export function getDefaultWorkerColors(): string[] {
-  return ['#3b82f6', '#ef4444', '#10b981', '#f59e0b']; // blue, red, green, yellow
+export function getDefaultWorkerColors(count: number = BASE_WORKER_COLORS.length): string[] {
+  return Array.from({ length: count }, (_, index) => getWorkerColor(index));
 }
\ No newline at end of file
@@ -0,0 +1,183 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import type { AuthSession, User } from "@shared/schema";
+
+if (!process.env.SESSION_SECRET) {
+  throw new Error(
+    "SESSION_SECRET must be set. Did you forget to add it to the environment secrets?",
+  );
+}
+
+const SESSION_SECRET = process.env.SESSION_SECRET;
+
+// Access tokens are short-lived and verified statelessly; the refresh token keeps a shift-long session alive
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+export type AuthErrorCode =
+  | 'TOKEN_MISSING'
+  | 'TOKEN_INVALID'
+  | 'TOKEN_EXPIRED'
+  | 'SESSION_REVOKED'
+  | 'ACCOUNT_DEACTIVATED';
+
+export type RevocationReason = 'logout' | 'deactivated' | 'pin_changed';
+
+interface AccessTokenPayload {
+  sid: string; // auth session id
+  sub: string; // user id
+  exp: number; // epoch ms
+}
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  expiresAt: string; // access token expiry (ISO)
+  sessionExpiresAt: string;
+}
+
+export type AuthResult =
+  | { user: User; session: AuthSession }
+  | { error: AuthErrorCode };
+
+function sign(encodedPayload: string): string {
+  return createHmac('sha256', SESSION_SECRET).update(encodedPayload).digest('base64url');
+}
+
+export function hashRefreshToken(refreshToken: string): string {
+  return createHash('sha256').update(refreshToken).digest('hex');
+}
+
+function generateRefreshToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function signAccessToken(sessionId: string, userId: string): { token: string; expiresAt: Date } {
+  const expiresAt = new Date(Date.now() + ACCESS_TOKEN_TTL_MS);
+  const payload: AccessTokenPayload = { sid: sessionId, sub: userId, exp: expiresAt.getTime() };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return { token: `${encodedPayload}.${sign(encodedPayload)}`, expiresAt };
+}
+
+/**
+ * Checks signature and expiry only - callers that need revocation checks
+ * should use authenticateAccessToken instead
+ */
+export function verifyAccessToken(token: string): AccessTokenPayload | { error: AuthErrorCode } {
+  const [encodedPayload, signature, ...rest] = token.split('.');
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return { error: 'TOKEN_INVALID' };
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return { error: 'TOKEN_INVALID' };
+  }
+
+  let payload: AccessTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    return { error: 'TOKEN_INVALID' };
+  }
+
+  if (typeof payload.sid !== 'string' || typeof payload.sub !== 'string' || typeof payload.exp !== 'number') {
+    return { error: 'TOKEN_INVALID' };
+  }
+
+  if (payload.exp <= Date.now()) {
+    return { error: 'TOKEN_EXPIRED' };
+  }
+
+  return payload;
+}
+
+function isSessionUsable(session: AuthSession | undefined): session is AuthSession {
+  return !!session && !session.revokedAt && new Date(session.expiresAt).getTime() > Date.now();
+}
+
+/**
+ * Resolves an access token to its user and session, rejecting revoked or
+ * expired sessions and deactivated accounts. Shared by REST and WebSocket auth.
+ */
+export async function authenticateAccessToken(token: string | undefined): Promise<AuthResult> {
+  if (!token) {
+    return { error: 'TOKEN_MISSING' };
+  }
+
+  const payload = verifyAccessToken(token);
+  if ('error' in payload) {
+    return payload;
+  }
+
+  const session = await storage.getAuthSessionById(payload.sid);
+  if (!isSessionUsable(session) || session.userId !== payload.sub) {
+    return { error: 'SESSION_REVOKED' };
+  }
+
+  const user = await storage.getUserById(session.userId);
+  if (!user) {
+    return { error: 'TOKEN_INVALID' };
+  }
+  if (!user.isActive) {
+    return { error: 'ACCOUNT_DEACTIVATED' };
+  }
+
+  return { user, session };
+}
+
+export async function createAuthSession(user: User, userAgent?: string): Promise<IssuedTokens> {
+  const refreshToken = generateRefreshToken();
+  const session = await storage.createAuthSession({
+    userId: user.id,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    userAgent: userAgent || null,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+
+  const access = signAccessToken(session.id, user.id);
+  return {
+    token: access.token,
+    refreshToken,
+    expiresAt: access.expiresAt.toISOString(),
+    sessionExpiresAt: new Date(session.expiresAt).toISOString(),
+  };
+}
+
+/**
+ * Exchanges a refresh token for a new access token, rotating the refresh token.
+ * Rotation is a conditional update, so two tabs racing with the same token
+ * cannot both succeed.
+ */
+export async function refreshAuthSession(refreshToken: string): Promise<(IssuedTokens & { user: User }) | { error: AuthErrorCode }> {
+  const currentHash = hashRefreshToken(refreshToken);
+  const session = await storage.getAuthSessionByRefreshHash(currentHash);
+  if (!isSessionUsable(session)) {
+    return { error: 'SESSION_REVOKED' };
+  }
+
+  const user = await storage.getUserById(session.userId);
+  if (!user) {
+    return { error: 'TOKEN_INVALID' };
+  }
+  if (!user.isActive) {
+    await storage.revokeAuthSession(session.id, 'deactivated');
+    return { error: 'ACCOUNT_DEACTIVATED' };
+  }
+
+  const nextRefreshToken = generateRefreshToken();
+  const rotated = await storage.rotateAuthSessionRefreshToken(session.id, currentHash, hashRefreshToken(nextRefreshToken));
+  if (!rotated) {
+    return { error: 'SESSION_REVOKED' };
+  }
+
+  const access = signAccessToken(rotated.id, user.id);
+  return {
+    token: access.token,
+    refreshToken: nextRefreshToken,
+    expiresAt: access.expiresAt.toISOString(),
+    sessionExpiresAt: new Date(rotated.expiresAt).toISOString(),
+    user,
+  };
+}
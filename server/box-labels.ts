@@ -0,0 +1,270 @@
+import type { Response } from "express";
+import PDFDocument from "pdfkit";
+import bwipjs from "bwip-js/node";
+import { formatBoxLabelCode } from "@shared/box-labels";
+import { toFilenamePart } from "./job-export";
+
+/**
+ * Print-ready PDFs: box labels (one per 4x6" thermal label, or eight per A4 sheet)
+ * and per-customer packing slips. Every label and slip carries the box identifier
+ * barcode from shared/box-labels.ts so a worker can scan the box they drop into.
+ */
+
+export type LabelLayout = 'thermal' | 'sheet';
+export const LABEL_LAYOUTS: LabelLayout[] = ['thermal', 'sheet'];
+
+export type LabelSymbology = 'code128' | 'qr';
+export const LABEL_SYMBOLOGIES: LabelSymbology[] = ['code128', 'qr'];
+
+// One box's current assignment, as read from storage
+export interface BoxLabelData {
+  boxNumber: number;
+  customerName: string;
+  groupName: string | null;
+  itemCount: number; // Required quantity across the box's lines
+}
+
+export interface BoxLabel extends BoxLabelData {
+  jobId: string;
+  jobName: string;
+}
+
+export interface PackingSlipLine {
+  barCode: string;
+  productName: string;
+  requiredQty: number;
+  scannedQty: number;
+}
+
+export type PackingSlipSource =
+  | { type: 'live' }
+  | { type: 'history'; action: string; at: Date | null; targetGroup: string | null };
+
+export interface PackingSlip {
+  jobId: string;
+  jobName: string;
+  customerName: string;
+  groupName: string | null;
+  boxNumber: number | null;
+  lines: PackingSlipLine[];
+  source: PackingSlipSource;
+}
+
+const POINTS_PER_INCH = 72;
+const THERMAL_SIZE: [number, number] = [4 * POINTS_PER_INCH, 6 * POINTS_PER_INCH];
+const SHEET_COLUMNS = 2;
+const SHEET_ROWS = 4;
+const SHEET_MARGIN = 20;
+const LABEL_PADDING = 12;
+const SLIP_MARGIN = 40;
+const SLIP_ROW_HEIGHT = 18;
+
+async function renderBarcode(text: string, symbology: LabelSymbology): Promise<Buffer> {
+  const options: bwipjs.RenderOptions = symbology === 'qr'
+    ? { bcid: 'qrcode', text, scale: 4 }
+    : { bcid: 'code128', text, scale: 3, height: 14 };
+  return bwipjs.toBuffer(options);
+}
+
+function startPdf(res: Response, filename: string, options: PDFKit.PDFDocumentOptions): PDFKit.PDFDocument {
+  const doc = new PDFDocument({ ...options, info: { Title: filename.replace(/\.pdf$/, '') } });
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader('Cache-Control', 'no-store');
+  doc.pipe(res);
+  return doc;
+}
+
+function drawLabel(
+  doc: PDFKit.PDFDocument,
+  label: BoxLabel,
+  barcode: Buffer,
+  symbology: LabelSymbology,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+) {
+  const innerX = x + LABEL_PADDING;
+  const innerWidth = width - LABEL_PADDING * 2;
+  let cursor = y + LABEL_PADDING;
+
+  doc.font('Helvetica').fontSize(Math.max(7, height * 0.025)).fillColor('#555555')
+    .text(label.jobName, innerX, cursor, { width: innerWidth, height: height * 0.04, ellipsis: true, lineBreak: false });
+  cursor += height * 0.05;
+
+  doc.font('Helvetica-Bold').fontSize(height * 0.15).fillColor('#000000')
+    .text(`BOX ${label.boxNumber}`, innerX, cursor, { width: innerWidth, align: 'center', lineBreak: false });
+  cursor += height * 0.17;
+
+  doc.font('Helvetica-Bold').fontSize(height * 0.06)
+    .text(label.customerName, innerX, cursor, { width: innerWidth, height: height * 0.16, align: 'center', ellipsis: true });
+  cursor += height * 0.17;
+
+  doc.font('Helvetica').fontSize(height * 0.035)
+    .text(
+      [label.groupName ? `Group: ${label.groupName}` : null, `${label.itemCount} item${label.itemCount === 1 ? '' : 's'}`].filter(Boolean).join('   |   '),
+      innerX, cursor, { width: innerWidth, align: 'center', lineBreak: false }
+    );
+
+  // Barcode sits at the bottom, human-readable code underneath
+  const code = formatBoxLabelCode(label.jobId, label.boxNumber);
+  const codeTextHeight = height * 0.05;
+  const bottom = y + height - LABEL_PADDING;
+  if (symbology === 'qr') {
+    const side = Math.min(height * 0.3, innerWidth);
+    doc.image(barcode, innerX + (innerWidth - side) / 2, bottom - codeTextHeight - side, { fit: [side, side] });
+  } else {
+    const barcodeHeight = height * 0.22;
+    doc.image(barcode, innerX, bottom - codeTextHeight - barcodeHeight, { fit: [innerWidth, barcodeHeight], align: 'center', valign: 'bottom' });
+  }
+  doc.font('Courier').fontSize(Math.max(8, height * 0.03))
+    .text(code, innerX, bottom - codeTextHeight * 0.8, { width: innerWidth, align: 'center', lineBreak: false });
+}
+
+/**
+ * Stream box labels as a PDF: 'thermal' prints one 4x6" label per page, 'sheet'
+ * lays eight out on A4 with cut lines
+ */
+export async function sendBoxLabelsPdf(
+  res: Response,
+  filename: string,
+  labels: BoxLabel[],
+  options: { layout: LabelLayout; symbology: LabelSymbology },
+): Promise<void> {
+  // Render every barcode before the PDF starts so a failure can still become a JSON error
+  const barcodes = await Promise.all(labels.map((label) =>
+    renderBarcode(formatBoxLabelCode(label.jobId, label.boxNumber), options.symbology)
+  ));
+
+  if (options.layout === 'thermal') {
+    const [width, height] = THERMAL_SIZE;
+    const doc = startPdf(res, filename, { size: THERMAL_SIZE, margin: 0, autoFirstPage: false });
+    labels.forEach((label, index) => {
+      doc.addPage({ size: THERMAL_SIZE, margin: 0 });
+      drawLabel(doc, label, barcodes[index], options.symbology, 0, 0, width, height);
+    });
+    doc.end();
+    return;
+  }
+
+  const doc = startPdf(res, filename, { size: 'A4', margin: 0, autoFirstPage: false });
+  const perPage = SHEET_COLUMNS * SHEET_ROWS;
+  labels.forEach((label, index) => {
+    if (index % perPage === 0) {
+      doc.addPage({ size: 'A4', margin: 0 });
+    }
+    const width = (doc.page.width - SHEET_MARGIN * 2) / SHEET_COLUMNS;
+    const height = (doc.page.height - SHEET_MARGIN * 2) / SHEET_ROWS;
+    const slot = index % perPage;
+    const x = SHEET_MARGIN + (slot % SHEET_COLUMNS) * width;
+    const y = SHEET_MARGIN + Math.floor(slot / SHEET_COLUMNS) * height;
+
+    doc.save().dash(3, { space: 3 }).strokeColor('#999999').rect(x, y, width, height).stroke().restore();
+    drawLabel(doc, label, barcodes[index], options.symbology, x, y, width, height);
+  });
+  doc.end();
+}
+
+function describeSource(source: PackingSlipSource): string {
+  if (source.type === 'live') return 'Current box contents';
+  const when = source.at ? new Date(source.at).toLocaleString('en-GB', { timeZone: 'UTC' }) + ' UTC' : 'unknown time';
+  const action = source.action === 'transferred' && source.targetGroup
+    ? `transferred to ${source.targetGroup}`
+    : source.action;
+  return `Reprint - box ${action} ${when}`;
+}
+
+function drawSlipTableHeader(doc: PDFKit.PDFDocument, y: number, columns: Array<{ title: string; x: number; width: number; align: 'left' | 'right' }>): number {
+  doc.font('Helvetica-Bold').fontSize(10).fillColor('#000000');
+  for (const column of columns) {
+    doc.text(column.title, column.x, y, { width: column.width, align: column.align, lineBreak: false });
+  }
+  const lineY = y + SLIP_ROW_HEIGHT - 4;
+  doc.moveTo(SLIP_MARGIN, lineY).lineTo(doc.page.width - SLIP_MARGIN, lineY).strokeColor('#000000').stroke();
+  return y + SLIP_ROW_HEIGHT;
+}
+
+async function drawPackingSlip(doc: PDFKit.PDFDocument, slip: PackingSlip) {
+  const pageWidth = doc.page.width;
+  const contentWidth = pageWidth - SLIP_MARGIN * 2;
+
+  // Box identifier in the top-right corner
+  if (slip.boxNumber !== null) {
+    const qr = await renderBarcode(formatBoxLabelCode(slip.jobId, slip.boxNumber), 'qr');
+    doc.image(qr, pageWidth - SLIP_MARGIN - 80, SLIP_MARGIN, { fit: [80, 80] });
+    doc.font('Courier').fontSize(8).fillColor('#000000')
+      .text(formatBoxLabelCode(slip.jobId, slip.boxNumber), pageWidth - SLIP_MARGIN - 120, SLIP_MARGIN + 84, { width: 120, align: 'right', lineBreak: false });
+  }
+
+  doc.font('Helvetica-Bold').fontSize(20).fillColor('#000000').text('PACKING SLIP', SLIP_MARGIN, SLIP_MARGIN);
+  doc.moveDown(0.5);
+
+  const details: Array<[string, string]> = [
+    ['Customer', slip.customerName],
+    ['Job', slip.jobName],
+    ...(slip.groupName ? [['Group', slip.groupName] as [string, string]] : []),
+    ['Box', slip.boxNumber !== null ? String(slip.boxNumber) : 'Not allocated'],
+    ['Source', describeSource(slip.source)],
+    ['Printed', `${new Date().toLocaleString('en-GB', { timeZone: 'UTC' })} UTC`],
+  ];
+  for (const [label, value] of details) {
+    doc.font('Helvetica-Bold').fontSize(10).text(`${label}: `, { continued: true }).font('Helvetica').text(value);
+  }
+
+  const columns: Array<{ title: string; x: number; width: number; align: 'left' | 'right' }> = [
+    { title: 'BarCode', x: SLIP_MARGIN, width: 110, align: 'left' },
+    { title: 'Product', x: SLIP_MARGIN + 115, width: contentWidth - 115 - 130, align: 'left' },
+    { title: 'Required', x: SLIP_MARGIN + contentWidth - 125, width: 60, align: 'right' },
+    { title: 'Packed', x: SLIP_MARGIN + contentWidth - 60, width: 60, align: 'right' },
+  ];
+
+  let y = drawSlipTableHeader(doc, Math.max(doc.y + 16, SLIP_MARGIN + 110), columns);
+  const pageBottom = doc.page.height - SLIP_MARGIN - SLIP_ROW_HEIGHT * 3;
+
+  for (const line of slip.lines) {
+    if (y > pageBottom) {
+      doc.addPage();
+      y = drawSlipTableHeader(doc, SLIP_MARGIN, columns);
+    }
+    const short = line.scannedQty < line.requiredQty;
+    doc.font('Helvetica').fontSize(10).fillColor(short ? '#B91C1C' : '#000000');
+    const cells = [line.barCode, line.productName, String(line.requiredQty), String(line.scannedQty)];
+    columns.forEach((column, index) => {
+      doc.text(cells[index], column.x, y, { width: column.width, align: column.align, height: SLIP_ROW_HEIGHT, ellipsis: true, lineBreak: false });
+    });
+    y += SLIP_ROW_HEIGHT;
+  }
+
+  const totalRequired = slip.lines.reduce((sum, line) => sum + line.requiredQty, 0);
+  const totalPacked = slip.lines.reduce((sum, line) => sum + line.scannedQty, 0);
+  doc.moveTo(SLIP_MARGIN, y - 2).lineTo(pageWidth - SLIP_MARGIN, y - 2).strokeColor('#000000').stroke();
+  doc.font('Helvetica-Bold').fontSize(10).fillColor('#000000');
+  doc.text(`${slip.lines.length} line${slip.lines.length === 1 ? '' : 's'}`, columns[0].x, y + 2, { width: columns[0].width, lineBreak: false });
+  doc.text(String(totalRequired), columns[2].x, y + 2, { width: columns[2].width, align: 'right', lineBreak: false });
+  doc.text(String(totalPacked), columns[3].x, y + 2, { width: columns[3].width, align: 'right', lineBreak: false });
+
+  doc.font('Helvetica').fontSize(10)
+    .text('Packed by: ____________________        Checked by: ____________________', SLIP_MARGIN, y + SLIP_ROW_HEIGHT * 2, { lineBreak: false });
+}
+
+// One or more packing slips, each starting on a new A4 page
+export async function sendPackingSlipsPdf(res: Response, filename: string, slips: PackingSlip[]): Promise<void> {
+  const doc = startPdf(res, filename, { size: 'A4', margin: SLIP_MARGIN, autoFirstPage: false });
+  for (const slip of slips) {
+    doc.addPage({ size: 'A4', margin: SLIP_MARGIN });
+    await drawPackingSlip(doc, slip);
+  }
+  doc.end();
+}
+
+// e.g. Box_Labels_Spring_Orders_2025-01-31.pdf, Packing_Slip_Spring_Orders_Acme_Ltd_2025-01-31.pdf
+export function buildPdfFilename(kind: 'labels' | 'packing_slip', jobName: string, scopeName: string | null): string {
+  const parts = [
+    kind === 'labels' ? 'Box_Labels' : 'Packing_Slip',
+    toFilenamePart(jobName),
+    ...(scopeName ? [toFilenamePart(scopeName)] : []),
+    new Date().toISOString().split('T')[0],
+  ];
+  return `${parts.join('_')}.pdf`;
+}
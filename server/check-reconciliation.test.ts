@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { planWrongItemMove, type WrongItemMoveScan } from "./check-reconciliation";
+
+// Run with: npx tsx --test server/check-reconciliation.test.ts
+
+let nextId = 1;
+const scan = (boxNumber: number, fields: Partial<WrongItemMoveScan> = {}): WrongItemMoveScan => ({
+  id: `scan-${nextId++}`,
+  userId: 'packer',
+  barCode: '100',
+  boxNumber,
+  eventType: 'scan',
+  scanTime: new Date(2026, 0, 1, 9, nextId),
+  undoneAt: null,
+  ...fields,
+});
+
+const finding = { barCode: '100', attributedUserId: 'packer' };
+
+test('a mis-drop already credited to its box is only recorded as moved', () => {
+  const misDrop = scan(4);
+  assert.deepEqual(planWrongItemMove(finding, 4, [scan(2), misDrop], new Set()), { action: 'record_only', scanEventId: misDrop.id });
+});
+
+test('a box with legitimately packed units is still credited for an item moved in', () => {
+  // Box 4 needs 3 and holds 1 packed by another worker - the moved item is a second unit
+  const packed = scan(4, { userId: 'other-worker' });
+  assert.deepEqual(planWrongItemMove(finding, 4, [packed], new Set()), { action: 'credit' });
+});
+
+test('a scan an earlier move already matched is not matched again', () => {
+  const misDrop = scan(4);
+  assert.deepEqual(planWrongItemMove(finding, 4, [misDrop], new Set([misDrop.id])), { action: 'credit' });
+});
+
+test('the latest unmatched mis-drop scan is matched first', () => {
+  const earlier = scan(4, { scanTime: new Date(2026, 0, 1, 9, 0) });
+  const later = scan(4, { scanTime: new Date(2026, 0, 1, 10, 0) });
+  assert.deepEqual(planWrongItemMove(finding, 4, [earlier, later], new Set()), { action: 'record_only', scanEventId: later.id });
+  assert.deepEqual(planWrongItemMove(finding, 4, [earlier, later], new Set([later.id])), { action: 'record_only', scanEventId: earlier.id });
+});
+
+test('an item never scanned into its box is credited to it', () => {
+  assert.deepEqual(planWrongItemMove(finding, 4, [scan(2)], new Set()), { action: 'credit' });
+  assert.deepEqual(planWrongItemMove(finding, 4, [], new Set()), { action: 'credit' });
+});
+
+test('an undone scan into the box does not count as credited', () => {
+  assert.deepEqual(planWrongItemMove(finding, 4, [scan(4, { undoneAt: new Date() })], new Set()), { action: 'credit' });
+});
+
+test('only scans of the same barcode count', () => {
+  assert.deepEqual(planWrongItemMove({ ...finding, barCode: '200' }, 4, [scan(4)], new Set()), { action: 'credit' });
+});
+
+test('a finding with no attributed worker is credited', () => {
+  assert.deepEqual(planWrongItemMove({ ...finding, attributedUserId: null }, 4, [scan(4)], new Set()), { action: 'credit' });
+});
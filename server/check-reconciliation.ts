@@ -0,0 +1,122 @@
+import { createHash } from "crypto";
+import type {
+  BoxRequirement,
+  CheckEvent,
+  CheckLineOutcome,
+  CheckReconciliation,
+  CheckReconciliationLine,
+  CheckSession,
+  CheckWrongItemFinding,
+} from "@shared/schema";
+
+/**
+ * CheckCount reconciliation: rebuilds a check session's comparison from its
+ * recorded check events and the box's current requirements. Each recorded
+ * 'scan' event is one unit found. What the checker's browser showed is never
+ * trusted - the supervisor accepts or rejects the proposal built here.
+ * Wrong items ('wrong_item' events) are reported alongside the lines.
+ */
+
+export function classifyCheckLine(originalQty: number, checkQty: number, requiredQty: number): CheckLineOutcome {
+  if (checkQty === originalQty) return 'match';
+  if (checkQty < originalQty) return 'shortage';
+  return checkQty <= requiredQty ? 'recovered' : 'excess';
+}
+
+export function buildCheckReconciliation(
+  session: CheckSession,
+  requirements: BoxRequirement[],
+  events: CheckEvent[],
+  wrongItems: CheckWrongItemFinding[]
+): CheckReconciliation {
+  const checkQtyByBarCode = new Map<string, number>();
+  for (const event of events) {
+    if (event.eventType !== 'scan') continue;
+    checkQtyByBarCode.set(event.barCode, (checkQtyByBarCode.get(event.barCode) || 0) + 1);
+  }
+
+  const lines: CheckReconciliationLine[] = requirements.map(requirement => {
+    const originalQty = requirement.scannedQty || 0;
+    const checkQty = checkQtyByBarCode.get(requirement.barCode) || 0;
+    const outcome = classifyCheckLine(originalQty, checkQty, requirement.requiredQty);
+    return {
+      boxRequirementId: requirement.id,
+      barCode: requirement.barCode,
+      productName: requirement.productName,
+      requiredQty: requirement.requiredQty,
+      originalQty,
+      checkQty,
+      outcome,
+      correctedQty: outcome === 'match' ? originalQty : Math.min(checkQty, requirement.requiredQty),
+      extraQty: outcome === 'match' ? 0 : Math.max(0, checkQty - requirement.requiredQty),
+    };
+  });
+
+  const extraItems = lines
+    .filter(line => line.extraQty > 0)
+    .map(line => ({ barCode: line.barCode, productName: line.productName, qty: line.extraQty }));
+
+  // Any scan or packing change since the proposal was built gives it a new version
+  const version = createHash('sha256')
+    .update(lines.map(line => `${line.boxRequirementId}:${line.requiredQty}:${line.originalQty}:${line.checkQty}`).join('|'))
+    .digest('hex')
+    .slice(0, 16);
+
+  return {
+    sessionId: session.id,
+    jobId: session.jobId,
+    boxNumber: session.boxNumber,
+    version,
+    lines,
+    discrepancies: lines.filter(line => line.outcome !== 'match').length + wrongItems.length,
+    totalCheckScans: events.filter(event => event.eventType === 'scan' || event.eventType === 'wrong_item').length,
+    extraItems,
+    wrongItems,
+  };
+}
+
+export function describeCheckLine(line: CheckReconciliationLine, decision: 'accept' | 'reject'): string {
+  if (decision === 'reject') {
+    return `Original: ${line.originalQty}, Checked: ${line.checkQty}, Status: REJECTED`;
+  }
+  return line.extraQty > 0
+    ? `Original: ${line.originalQty}, Checked: ${line.checkQty}, Allocated to box: ${line.correctedQty}, Excess: ${line.extraQty}`
+    : `Original: ${line.originalQty}, Checked: ${line.checkQty}, Applied: ${line.correctedQty}`;
+}
+
+export type WrongItemMove = { action: 'record_only'; scanEventId: string } | { action: 'credit' };
+
+export interface WrongItemMoveScan {
+  id: string;
+  userId: string;
+  barCode: string;
+  boxNumber: number | null;
+  eventType: string;
+  scanTime: Date | null;
+  undoneAt: Date | null;
+}
+
+// Moving a wrong item into the box it belongs in. Only a mis-drop is recorded without a credit: a scan
+// (not undone) by the worker the finding is attributed to that credited this box and that no earlier
+// move has matched - its credit already counted the unit. Anything else, including the box's own
+// legitimately packed scans, leaves the unit uncounted, so it is credited.
+export function planWrongItemMove(
+  finding: Pick<CheckWrongItemFinding, 'barCode' | 'attributedUserId'>,
+  targetBoxNumber: number,
+  scans: WrongItemMoveScan[],
+  matchedScanEventIds: Set<string>
+): WrongItemMove {
+  if (!finding.attributedUserId) return { action: 'credit' };
+
+  const misDrop = scans
+    .filter(scan =>
+      scan.eventType === 'scan' &&
+      scan.barCode === finding.barCode &&
+      scan.boxNumber === targetBoxNumber &&
+      scan.userId === finding.attributedUserId &&
+      !scan.undoneAt &&
+      !matchedScanEventIds.has(scan.id))
+    .sort((a, b) => (b.scanTime?.getTime() ?? 0) - (a.scanTime?.getTime() ?? 0))[0];
+
+  return misDrop ? { action: 'record_only', scanEventId: misDrop.id } : { action: 'credit' };
+}
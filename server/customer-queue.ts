@@ -0,0 +1,70 @@
+import { CUSTOMER_QUEUE_POLICIES, type CustomerQueuePolicy, type QueuedCustomer } from "@shared/schema";
+
+/**
+ * Reallocation queue ordering: decides which customer without a box gets the
+ * next box freed by an Empty or Transfer. Pinned customers go first, then the
+ * supervisor's manual order, then the job's policy; the original CSV order
+ * breaks any remaining ties so the queue is stable between reallocations.
+ */
+
+export type CustomerQueueCandidate = Omit<QueuedCustomer, 'position'>;
+
+export const DEFAULT_CUSTOMER_QUEUE_POLICY: CustomerQueuePolicy = 'csv_order';
+
+const compareNullableAscending = (a: number | null, b: number | null): number => {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a - b;
+};
+
+export function sortCustomerQueue(customers: CustomerQueueCandidate[], policy: CustomerQueuePolicy): QueuedCustomer[] {
+  // group_first: groups are served in the order their first customer appears in the CSV
+  const groupRank = new Map<string | null, number>();
+  [...customers]
+    .sort((a, b) => compareNullableAscending(a.customerSequence, b.customerSequence))
+    .forEach(customer => {
+      if (!groupRank.has(customer.groupName)) groupRank.set(customer.groupName, groupRank.size);
+    });
+
+  const compareByPolicy = (a: CustomerQueueCandidate, b: CustomerQueueCandidate): number => {
+    switch (policy) {
+      case 'priority':
+        return Number(b.isPriority) - Number(a.isPriority);
+      case 'group_first':
+        return groupRank.get(a.groupName)! - groupRank.get(b.groupName)!;
+      case 'largest_first':
+        return b.totalItems - a.totalItems;
+      case 'smallest_first':
+        return a.totalItems - b.totalItems;
+      default:
+        return 0;
+    }
+  };
+
+  return [...customers]
+    .sort((a, b) =>
+      Number(b.isPinned) - Number(a.isPinned)
+      || compareNullableAscending(a.queuePosition, b.queuePosition)
+      || compareByPolicy(a, b)
+      || compareNullableAscending(a.customerSequence, b.customerSequence)
+      || a.customerName.localeCompare(b.customerName))
+    .map((customer, index) => ({ ...customer, position: index + 1 }));
+}
+
+// Jobs imported before the CSV order was stored: recover it from the job's csvData
+export function getCsvCustomerSequence(csvData: unknown): Map<string, number> {
+  const sequence = new Map<string, number>();
+  if (!Array.isArray(csvData)) return sequence;
+  for (const row of csvData) {
+    const customerName = row?.CustomName;
+    if (typeof customerName === 'string' && !sequence.has(customerName)) {
+      sequence.set(customerName, sequence.size + 1);
+    }
+  }
+  return sequence;
+}
+
+export function isCustomerQueuePolicy(value: unknown): value is CustomerQueuePolicy {
+  return CUSTOMER_QUEUE_POLICIES.includes(value as CustomerQueuePolicy);
+}
@@ -0,0 +1,243 @@
+import type { Response } from "express";
+import * as XLSX from "xlsx";
+
+/**
+ * Job exports: group manifests, box packing lists, customer fulfilment and the
+ * full job as XLSX or CSV. Every scope shares the same column layouts and
+ * filename scheme. Rows are read from storage in batches; CSV is written to the
+ * response batch by batch, XLSX is assembled once all batches are in (the
+ * format can't be streamed) but headers go out first so proxies don't time out.
+ */
+
+export type ExportFormat = 'xlsx' | 'csv';
+export const EXPORT_FORMATS: ExportFormat[] = ['xlsx', 'csv'];
+
+export type ExportScope = 'group' | 'box' | 'customer' | 'job';
+
+export type ExportSheetKey = 'lines' | 'extras' | 'put_aside' | 'check_results';
+export const EXPORT_SHEET_KEYS: ExportSheetKey[] = ['lines', 'extras', 'put_aside', 'check_results'];
+
+// Rows fetched per storage query
+export const EXPORT_BATCH_SIZE = 1000;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv; charset=utf-8',
+};
+
+const SCOPE_FILENAME_PREFIXES: Record<ExportScope, string> = {
+  group: 'Group_Manifest',
+  box: 'Packing_List',
+  customer: 'Customer_Fulfilment',
+  job: 'Job_Manifest',
+};
+
+// One box requirement line: required vs scanned for one product for one customer
+export interface ExportLine {
+  groupName: string | null;
+  customerName: string;
+  boxNumber: number | null;
+  barCode: string;
+  productName: string;
+  requiredQty: number;
+  scannedQty: number | null;
+  boxStatus: string | null;
+  transferSequence: number | null; // Above 0 once the customer's box was emptied or transferred
+  isTransferred: boolean | null;
+  lastWorkerName: string | null;
+}
+
+export interface ExportExtraItem {
+  scanTime: Date | null;
+  barCode: string;
+  productName: string | null;
+  customerName: string | null;
+  workerName: string | null;
+}
+
+export interface ExportPutAsideItem {
+  scanTime: Date | null;
+  barCode: string;
+  productName: string | null;
+  workerName: string | null;
+  allocatedToBox: number | null;
+  allocatedAt: Date | null;
+}
+
+export interface ExportCheckResult {
+  checkedAt: Date | null;
+  boxNumber: number | null;
+  customerName: string | null;
+  barCode: string | null;
+  productName: string | null;
+  requiredQty: number | null;
+  finalQty: number;
+  resolutionAction: string | null;
+  discrepancyNotes: string | null;
+  checkerName: string | null;
+  resolvedByName: string | null;
+}
+
+type CellValue = string | number | null;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => CellValue;
+}
+
+export interface ExportSheet<T = any> {
+  key: ExportSheetKey;
+  name: string; // Worksheet name in XLSX
+  columns: ExportColumn<T>[];
+  batches: () => AsyncIterable<T[]>;
+}
+
+function formatTimestamp(value: Date | null): string | null {
+  return value ? new Date(value).toISOString().replace('T', ' ').slice(0, 19) : null;
+}
+
+// Archived lines keep their old box number, so say what happened to the box
+function getBoxStatus(line: ExportLine): string | null {
+  if ((line.transferSequence ?? 0) > 0) return line.isTransferred ? 'Transferred' : 'Emptied';
+  return line.boxStatus;
+}
+
+function getLineStatus(line: ExportLine): string {
+  const scanned = line.scannedQty || 0;
+  if (scanned >= line.requiredQty) return 'Complete';
+  return scanned > 0 ? 'Partial' : 'Not Started';
+}
+
+export const LINE_COLUMNS: ExportColumn<ExportLine>[] = [
+  { header: 'Group', value: (line) => line.groupName },
+  { header: 'Customer', value: (line) => line.customerName },
+  { header: 'Box', value: (line) => line.boxNumber },
+  { header: 'BarCode', value: (line) => line.barCode },
+  { header: 'Product Name', value: (line) => line.productName },
+  { header: 'Required Qty', value: (line) => line.requiredQty },
+  { header: 'Scanned Qty', value: (line) => line.scannedQty || 0 },
+  { header: 'Outstanding Qty', value: (line) => Math.max(0, line.requiredQty - (line.scannedQty || 0)) },
+  { header: 'Status', value: getLineStatus },
+  { header: 'Box Status', value: getBoxStatus },
+  { header: 'Last Worker', value: (line) => line.lastWorkerName },
+];
+
+export const EXTRA_ITEM_COLUMNS: ExportColumn<ExportExtraItem>[] = [
+  { header: 'Scanned At (UTC)', value: (item) => formatTimestamp(item.scanTime) },
+  { header: 'BarCode', value: (item) => item.barCode },
+  { header: 'Product Name', value: (item) => item.productName },
+  { header: 'Customer', value: (item) => item.customerName },
+  { header: 'Worker', value: (item) => item.workerName },
+];
+
+export const PUT_ASIDE_COLUMNS: ExportColumn<ExportPutAsideItem>[] = [
+  { header: 'Scanned At (UTC)', value: (item) => formatTimestamp(item.scanTime) },
+  { header: 'BarCode', value: (item) => item.barCode },
+  { header: 'Product Name', value: (item) => item.productName },
+  { header: 'Worker', value: (item) => item.workerName },
+  { header: 'Allocated To Box', value: (item) => item.allocatedToBox },
+  { header: 'Allocated At (UTC)', value: (item) => formatTimestamp(item.allocatedAt) },
+];
+
+export const CHECK_RESULT_COLUMNS: ExportColumn<ExportCheckResult>[] = [
+  { header: 'Checked At (UTC)', value: (result) => formatTimestamp(result.checkedAt) },
+  { header: 'Box', value: (result) => result.boxNumber },
+  { header: 'Customer', value: (result) => result.customerName },
+  { header: 'BarCode', value: (result) => result.barCode },
+  { header: 'Product Name', value: (result) => result.productName },
+  { header: 'Required Qty', value: (result) => result.requiredQty },
+  { header: 'Final Qty', value: (result) => result.finalQty },
+  { header: 'Resolution', value: (result) => result.resolutionAction },
+  { header: 'Notes', value: (result) => result.discrepancyNotes },
+  { header: 'Checked By', value: (result) => result.checkerName },
+  { header: 'Resolved By', value: (result) => result.resolvedByName },
+];
+
+/**
+ * Batches from an offset-paged storage query, until a short page comes back
+ */
+export async function* pageBatches<T>(fetchPage: (offset: number, limit: number) => Promise<T[]>): AsyncIterable<T[]> {
+  for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+    const rows = await fetchPage(offset, EXPORT_BATCH_SIZE);
+    if (rows.length > 0) yield rows;
+    if (rows.length < EXPORT_BATCH_SIZE) return;
+  }
+}
+
+export async function* singleBatch<T>(fetchAll: () => Promise<T[]>): AsyncIterable<T[]> {
+  yield await fetchAll();
+}
+
+export function toFilenamePart(value: string): string {
+  return value.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'Export';
+}
+
+// e.g. Packing_List_Spring_Orders_Box_12_2025-01-31.xlsx
+export function buildExportFilename(scope: ExportScope, jobName: string, scopeName: string | null, format: ExportFormat, sheet?: ExportSheetKey): string {
+  const parts = [
+    SCOPE_FILENAME_PREFIXES[scope],
+    toFilenamePart(jobName),
+    ...(scopeName ? [toFilenamePart(scopeName)] : []),
+    ...(sheet && sheet !== 'lines' ? [toFilenamePart(sheet)] : []),
+    new Date().toISOString().split('T')[0],
+  ];
+  return `${parts.join('_')}.${format}`;
+}
+
+function escapeCsvCell(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvLine(cells: CellValue[]): string {
+  return cells.map(escapeCsvCell).join(',') + '\r\n';
+}
+
+async function writeChunk(res: Response, chunk: string): Promise<void> {
+  if (!res.write(chunk)) {
+    await new Promise<void>((resolve) => res.once('drain', resolve));
+  }
+}
+
+async function writeCsv(res: Response, sheet: ExportSheet): Promise<void> {
+  // BOM so Excel opens UTF-8 product names correctly
+  await writeChunk(res, '\uFEFF' + toCsvLine(sheet.columns.map((column) => column.header)));
+  for await (const rows of sheet.batches()) {
+    await writeChunk(res, rows.map((row) => toCsvLine(sheet.columns.map((column) => column.value(row)))).join(''));
+  }
+  res.end();
+}
+
+async function writeXlsx(res: Response, sheets: ExportSheet[]): Promise<void> {
+  const workbook = XLSX.utils.book_new();
+  for (const sheet of sheets) {
+    const data: CellValue[][] = [sheet.columns.map((column) => column.header)];
+    for await (const rows of sheet.batches()) {
+      for (const row of rows) {
+        data.push(sheet.columns.map((column) => column.value(row)));
+      }
+    }
+    const worksheet = XLSX.utils.aoa_to_sheet(data);
+    worksheet['!cols'] = sheet.columns.map((column) => ({ wch: Math.max(10, column.header.length + 2) }));
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheet.name);
+  }
+  res.end(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx', compression: true }));
+}
+
+/**
+ * Write an export as a download. CSV holds one sheet (the first given); XLSX holds them all.
+ * Headers are sent before any rows are read, so a failure part-way can only abort the download.
+ */
+export async function sendExport(res: Response, options: { filename: string; format: ExportFormat; sheets: ExportSheet[] }): Promise<void> {
+  res.setHeader('Content-Type', CONTENT_TYPES[options.format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${options.filename}"`);
+  res.setHeader('Cache-Control', 'no-store');
+  res.flushHeaders();
+
+  if (options.format === 'csv') {
+    await writeCsv(res, options.sheets[0]);
+  } else {
+    await writeXlsx(res, options.sheets);
+  }
+}
@@ -0,0 +1,90 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildAmendmentPlan } from "./job-import";
+import type { AmendmentRow, BoxRequirement } from "@shared/schema";
+
+// Run with: npx tsx --test server/job-import.test.ts
+
+let nextId = 1;
+function requirement(fields: Partial<BoxRequirement> & Pick<BoxRequirement, 'customerName' | 'barCode' | 'requiredQty'>): BoxRequirement {
+  return {
+    id: `req-${nextId++}`,
+    jobId: 'job-1',
+    boxNumber: null,
+    productName: `Product ${fields.barCode}`,
+    scannedQty: 0,
+    isComplete: false,
+    isTransferred: false,
+    transferSequence: 0,
+    groupName: null,
+    boxStatus: 'active',
+    customerSequence: null,
+    queuePosition: null,
+    isQueuePinned: false,
+    isQueuePriority: false,
+    lastWorkerUserId: null,
+    lastWorkerColor: null,
+    ...fields,
+  };
+}
+
+function amend(rows: AmendmentRow[], requirements: BoxRequirement[]) {
+  return buildAmendmentPlan(
+    { rows, rowNumbers: rows.map((_, index) => index + 2), issues: [] },
+    rows.length,
+    requirements,
+    { jobTypeName: 'Test', requireGroupField: false, boxLimit: null }
+  );
+}
+
+// Box 1 was emptied: Alice's lines are archived and Carol now holds the box
+const afterEmpty = () => [
+  requirement({ customerName: 'Alice', barCode: '100', requiredQty: 2, scannedQty: 2, boxNumber: 1, transferSequence: 1 }),
+  requirement({ customerName: 'Carol', barCode: '100', requiredQty: 1, scannedQty: 0, boxNumber: 1 }),
+  requirement({ customerName: 'Bob', barCode: '200', requiredQty: 3, scannedQty: 1, boxNumber: 2 }),
+];
+
+test('changing an emptied customer\'s line is locked', () => {
+  const plan = amend([{ BarCode: '100', CustomName: 'Alice', Qty: 5 }], afterEmpty());
+
+  assert.equal(plan.valid, false);
+  assert.deepEqual(plan.errors.map(error => error.code), ['LINE_LOCKED']);
+});
+
+test('a new line for an emptied customer is locked rather than given a new box', () => {
+  const plan = amend([{ BarCode: '300', CustomName: 'Alice', Qty: 1, 'Product Name': 'Product 300' }], afterEmpty());
+
+  assert.equal(plan.valid, false);
+  assert.deepEqual(plan.errors.map(error => error.code), ['LINE_LOCKED']);
+  assert.equal(plan.totals.addedCustomers, 0);
+});
+
+test('an emptied customer\'s unchanged line is left alone', () => {
+  const plan = amend([{ BarCode: '100', CustomName: 'Alice', Qty: 2 }], afterEmpty());
+
+  assert.equal(plan.valid, true);
+  assert.equal(plan.totals.unchangedLines, 1);
+  assert.equal(plan.changes.length, 0);
+});
+
+test('amending the active customers keeps archived quantities in the totals', () => {
+  const plan = amend([
+    { BarCode: '100', CustomName: 'Carol', Qty: 4 },
+    { BarCode: '400', CustomName: 'Dave', Qty: 2, 'Product Name': 'Product 400' },
+  ], afterEmpty());
+
+  assert.equal(plan.valid, true);
+  const carol = plan.changes.find(change => change.customerName === 'Carol')!;
+  assert.equal(carol.type, 'change_qty');
+  assert.equal(carol.boxNumber, 1);
+  assert.equal(carol.boxRequirementIds.length, 1);
+
+  const dave = plan.changes.find(change => change.customerName === 'Dave')!;
+  assert.equal(dave.type, 'add_line');
+  assert.equal(dave.boxNumber, 3);
+
+  assert.equal(plan.totals.totalProductsBefore, 6);
+  assert.equal(plan.totals.totalProductsAfter, 11);
+  assert.equal(plan.totals.customersBefore, 3);
+  assert.equal(plan.totals.customersAfter, 4);
+});
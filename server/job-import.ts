@@ -0,0 +1,758 @@
+import csv from "csv-parser";
+import { Readable } from "stream";
+import * as XLSX from "xlsx";
+import { z } from "zod";
+import {
+  csvRowSchema,
+  importColumnMappingSchema,
+  IMPORT_FIELDS,
+  REQUIRED_IMPORT_FIELDS,
+  type BoxRequirement,
+  type CsvRow,
+  type AmendmentRow,
+  type ImportColumnMapping,
+  type ImportDuplicate,
+  type ImportField,
+  type ImportIssue,
+  type ImportIssueCode,
+  type ImportPreview,
+  type JobAmendmentChange,
+  type JobAmendmentPreview,
+} from "@shared/schema";
+
+/**
+ * Job import pipeline: turns an uploaded CSV / TSV / XLSX file into the
+ * canonical CsvRow shape (BarCode, Product Name, Qty, CustomName, Group) that
+ * the rest of job creation works with, via a source column -> field mapping.
+ */
+
+export type ImportFileFormat = 'csv' | 'tsv' | 'xlsx';
+export type ImportEncoding = 'auto' | 'utf-8' | 'utf-16le' | 'windows-1252';
+
+export const IMPORT_ENCODINGS: ImportEncoding[] = ['auto', 'utf-8', 'utf-16le', 'windows-1252'];
+const DELIMITER_CANDIDATES = [',', '\t', ';', '|'];
+
+// Below this share of customers getting a box up front, job creation warns about the box limit
+const BOX_LIMIT_WARNING_RATIO = 0.8;
+
+export interface ImportFileOptions {
+  filename: string;
+  delimiter?: string | null; // CSV/TSV only; detected from the header line when omitted
+  encoding?: ImportEncoding | null;
+  sheetName?: string | null; // XLSX only; defaults to the first sheet
+}
+
+export interface ParsedImportFile {
+  format: ImportFileFormat;
+  headers: string[];
+  rows: Record<string, string>[];
+  delimiter: string | null;
+  encoding: ImportEncoding | null;
+  sheetName: string | null;
+  sheetNames: string[];
+}
+
+// Import options sent alongside the file as multipart text fields
+export interface ImportRequestSettings {
+  columnMapping?: ImportColumnMapping;
+  delimiter?: string;
+  encoding?: ImportEncoding;
+  sheetName?: string;
+}
+
+export interface MappedImportRows<T = CsvRow> {
+  rows: T[];
+  rowNumbers: number[]; // 1-based source row of each entry in rows
+  issues: ImportIssue[]; // Rows that failed validation and were left out of rows
+}
+
+export interface ImportPlanOptions {
+  jobTypeName: string;
+  requireGroupField: boolean;
+  boxLimit: number | null;
+}
+
+// A box requirement job creation would insert, with duplicate barcode/customer rows merged
+export interface PlannedBoxRequirement {
+  barCode: string;
+  productName: string;
+  requiredQty: number;
+  customerName: string;
+  groupName: string | null;
+  boxNumber: number | null; // null when the customer is beyond the box limit
+  customerSequence: number; // Customer's first appearance in the file (1-based) - the reallocation queue's CSV order
+}
+
+export interface ImportPlan {
+  preview: ImportPreview;
+  requirements: PlannedBoxRequirement[];
+}
+
+// Column headers we recognise for each field, compared with case and punctuation stripped
+const FIELD_SYNONYMS: Record<ImportField, string[]> = {
+  barCode: ['barcode', 'barcodes', 'ean', 'ean13', 'upc', 'gtin', 'sku', 'itembarcode', 'productbarcode'],
+  productName: ['productname', 'product', 'description', 'productdescription', 'item', 'itemname', 'itemdescription', 'name'],
+  qty: ['qty', 'quantity', 'units', 'unitqty', 'count', 'qtyordered', 'orderqty'],
+  customerName: ['customname', 'customername', 'customer', 'store', 'storename', 'account', 'accountname', 'shipto', 'destination'],
+  groupName: ['group', 'groupname', 'region', 'route', 'zone'],
+};
+
+const CSV_ROW_FIELDS: Record<string, ImportField> = {
+  BarCode: 'barCode',
+  'Product Name': 'productName',
+  Qty: 'qty',
+  CustomName: 'customerName',
+  Group: 'groupName',
+};
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function detectImportFormat(filename: string): ImportFileFormat {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'xlsx' || extension === 'xls') return 'xlsx';
+  if (extension === 'tsv' || extension === 'tab') return 'tsv';
+  return 'csv';
+}
+
+/**
+ * Decode a text upload. 'auto' honours a byte order mark, then tries strict
+ * UTF-8 and falls back to Windows-1252 (what Excel "Save as CSV" produces).
+ */
+export function decodeImportText(buffer: Buffer, encoding: ImportEncoding = 'auto'): { text: string; encoding: ImportEncoding } {
+  if (encoding !== 'auto') {
+    return { text: new TextDecoder(encoding).decode(buffer), encoding };
+  }
+
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(buffer), encoding: 'utf-16le' };
+  }
+
+  try {
+    // TextDecoder strips a UTF-8 BOM by default
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(buffer), encoding: 'windows-1252' };
+  }
+}
+
+// Pick the candidate that splits the header line into the most columns, ignoring quoted text
+export function detectDelimiter(text: string): string {
+  const headerLine = (text.split(/\r?\n/).find(line => line.trim() !== '') || '').replace(/"[^"]*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of DELIMITER_CANDIDATES) {
+    const count = headerLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  return String(value).trim();
+}
+
+async function parseDelimitedFile(buffer: Buffer, format: ImportFileFormat, options: ImportFileOptions): Promise<ParsedImportFile> {
+  const { text, encoding } = decodeImportText(buffer, options.encoding || 'auto');
+  const delimiter = options.delimiter || (format === 'tsv' ? '\t' : detectDelimiter(text));
+
+  const headers: string[] = [];
+  const rows: Record<string, string>[] = [];
+
+  await new Promise((resolve, reject) => {
+    Readable.from([text])
+      .pipe(csv({ separator: delimiter, mapHeaders: ({ header }) => header.trim() }))
+      .on('headers', (parsedHeaders: string[]) => {
+        headers.push(...parsedHeaders.filter(header => header !== ''));
+      })
+      .on('data', (row: Record<string, string>) => {
+        const cleaned: Record<string, string> = {};
+        headers.forEach(header => {
+          cleaned[header] = cellToString(row[header]);
+        });
+        // Skip fully blank lines (trailing newlines, spacer rows)
+        if (Object.values(cleaned).some(value => value !== '')) {
+          rows.push(cleaned);
+        }
+      })
+      .on('end', resolve)
+      .on('error', reject);
+  });
+
+  return { format, headers, rows, delimiter, encoding, sheetName: null, sheetNames: [] };
+}
+
+function parseSpreadsheet(buffer: Buffer, options: ImportFileOptions): ParsedImportFile {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(buffer, { type: 'buffer' });
+  } catch {
+    throw new ImportFileError('Could not read the spreadsheet - please upload a valid .xlsx file');
+  }
+
+  const sheetNames = workbook.SheetNames;
+  const sheetName = options.sheetName && sheetNames.includes(options.sheetName) ? options.sheetName : sheetNames[0];
+  if (!sheetName) {
+    throw new ImportFileError('The spreadsheet has no sheets');
+  }
+
+  const sheet = workbook.Sheets[sheetName];
+  // raw values keep long numeric barcodes as digits instead of Excel's display format (e.g. 9.31E+12)
+  const [headerRow = [], ...dataRows] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '', blankrows: false });
+  const columns = headerRow
+    .map((cell, index) => ({ header: cellToString(cell), index }))
+    .filter(column => column.header !== '');
+  const headers = columns.map(column => column.header);
+
+  const rows = dataRows
+    .map(cells => {
+      const cleaned: Record<string, string> = {};
+      columns.forEach(({ header, index }) => {
+        cleaned[header] = cellToString(cells[index]);
+      });
+      return cleaned;
+    })
+    .filter(row => Object.values(row).some(value => value !== ''));
+
+  return { format: 'xlsx', headers, rows, delimiter: null, encoding: null, sheetName, sheetNames };
+}
+
+export async function parseImportFile(buffer: Buffer, options: ImportFileOptions): Promise<ParsedImportFile> {
+  const format = detectImportFormat(options.filename);
+  const parsed = format === 'xlsx'
+    ? parseSpreadsheet(buffer, options)
+    : await parseDelimitedFile(buffer, format, options);
+
+  if (parsed.headers.length === 0) {
+    throw new ImportFileError('The file has no header row');
+  }
+  return parsed;
+}
+
+export function readImportSettings(body: Record<string, any>): ImportRequestSettings {
+  const settings: ImportRequestSettings = {};
+
+  if (body.columnMapping) {
+    let raw: unknown;
+    try {
+      raw = typeof body.columnMapping === 'string' ? JSON.parse(body.columnMapping) : body.columnMapping;
+    } catch {
+      throw new ImportFileError('Column mapping is not valid JSON');
+    }
+    const result = importColumnMappingSchema.safeParse(raw);
+    if (!result.success) {
+      throw new ImportFileError('Column mapping must map job fields to column names');
+    }
+    settings.columnMapping = result.data;
+  }
+
+  if (body.delimiter) {
+    if (typeof body.delimiter !== 'string' || body.delimiter.length !== 1) {
+      throw new ImportFileError('Delimiter must be a single character');
+    }
+    settings.delimiter = body.delimiter;
+  }
+
+  if (body.encoding) {
+    if (!IMPORT_ENCODINGS.includes(body.encoding)) {
+      throw new ImportFileError(`Encoding must be one of: ${IMPORT_ENCODINGS.join(', ')}`);
+    }
+    settings.encoding = body.encoding;
+  }
+
+  if (body.sheetName) {
+    settings.sheetName = String(body.sheetName);
+  }
+
+  return settings;
+}
+
+/**
+ * Guess which source column holds each field from its header
+ */
+export function suggestColumnMapping(headers: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  const used = new Set<string>();
+
+  IMPORT_FIELDS.forEach(field => {
+    const synonyms = FIELD_SYNONYMS[field];
+    // Earlier synonyms are stronger matches, so search synonym-first
+    for (const synonym of synonyms) {
+      const header = headers.find(candidate => !used.has(candidate) && normalizeHeader(candidate) === synonym);
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+        return;
+      }
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Required fields that are unmapped or point at a column the file does not have
+ */
+export function getMissingMappedFields(mapping: ImportColumnMapping, headers: string[], requiredFields: ImportField[] = REQUIRED_IMPORT_FIELDS): ImportField[] {
+  return requiredFields.filter(field => {
+    const column = mapping[field];
+    return !column || !headers.includes(column);
+  });
+}
+
+/**
+ * True when every column the mapping uses exists in the file
+ */
+export function mappingFitsHeaders(mapping: ImportColumnMapping, headers: string[]): boolean {
+  return getMissingMappedFields(mapping, headers).length === 0 &&
+    Object.values(mapping).every(column => !column || headers.includes(column));
+}
+
+/**
+ * Map source rows onto the CsvRow shape and validate them (against csvRowSchema unless another row schema is given)
+ */
+export function applyColumnMapping<S extends z.ZodTypeAny = typeof csvRowSchema>(
+  rows: Record<string, string>[],
+  mapping: ImportColumnMapping,
+  rowSchema?: S
+): MappedImportRows<z.infer<S>> {
+  const schema: z.ZodTypeAny = rowSchema || csvRowSchema;
+  const mapped: z.infer<S>[] = [];
+  const rowNumbers: number[] = [];
+  const issues: ImportIssue[] = [];
+
+  rows.forEach((row, index) => {
+    const value = (field: ImportField) => {
+      const column = mapping[field];
+      return column ? (row[column] ?? '') : undefined;
+    };
+
+    const result = schema.safeParse({
+      BarCode: value('barCode'),
+      'Product Name': value('productName'),
+      Qty: value('qty'),
+      CustomName: value('customerName'),
+      Group: value('groupName') || undefined,
+    });
+
+    if (result.success) {
+      mapped.push(result.data);
+      rowNumbers.push(index + 1);
+      return;
+    }
+
+    result.error.errors.forEach((error: z.ZodIssue) => {
+      issues.push({
+        severity: 'error',
+        code: 'INVALID_ROW',
+        row: index + 1,
+        field: CSV_ROW_FIELDS[String(error.path[0])] || null,
+        message: error.message
+      });
+    });
+  });
+
+  return { rows: mapped, rowNumbers, issues };
+}
+
+// Excel turns long numeric barcodes into scientific notation (e.g. 9.31E+12); restore the digits
+export function normalizeImportBarcode(barCode: string): string {
+  if (/^\d+\.\d+[eE][+-]?\d+$/.test(barCode)) {
+    const numericValue = parseFloat(barCode);
+    if (Number.isFinite(numericValue)) {
+      return numericValue.toString();
+    }
+  }
+  return barCode;
+}
+
+/**
+ * Validate mapped rows and work out exactly what job creation would produce:
+ * every error and warning with its row number, the merged box requirements
+ * and the customer -> box allocation under the box limit. Creates nothing.
+ */
+export function buildImportPlan(mapped: MappedImportRows, totalRows: number, options: ImportPlanOptions): ImportPlan {
+  const { rows, rowNumbers } = mapped;
+  const issues: ImportIssue[] = [...mapped.issues];
+  const addIssue = (severity: ImportIssue['severity'], code: ImportIssueCode, row: number | null, field: ImportField | null, message: string) => {
+    issues.push({ severity, code, row, field, message });
+  };
+
+  if (rows.length === 0 && mapped.issues.length === 0) {
+    addIssue('error', 'NO_ROWS', null, null, 'File is empty or contains no valid data');
+  }
+
+  const barCodes = rows.map((row, index) => {
+    const barCode = normalizeImportBarcode(row.BarCode);
+    if (barCode !== row.BarCode) {
+      addIssue('warning', 'BARCODE_NORMALIZED', rowNumbers[index], 'barCode', `Barcode "${row.BarCode}" will be imported as "${barCode}"`);
+    }
+    return barCode;
+  });
+
+  // Each barcode must always carry the same product name (case-sensitive)
+  const barcodeProductMap = new Map<string, string>();
+  rows.forEach((row, index) => {
+    const existingProductName = barcodeProductMap.get(barCodes[index]);
+    if (existingProductName === undefined) {
+      barcodeProductMap.set(barCodes[index], row['Product Name']);
+    } else if (existingProductName !== row['Product Name']) {
+      addIssue('error', 'BARCODE_PRODUCT_MISMATCH', rowNumbers[index], 'productName',
+        `Barcode "${barCodes[index]}" maps to "${row['Product Name']}" but was previously mapped to "${existingProductName}"`);
+    }
+  });
+
+  // Groups are checked when the job type requires them or the file uses them at all
+  const hasGroups = rows.some(row => row.Group && row.Group.trim() !== '');
+  if (options.requireGroupField || hasGroups) {
+    const customerGroupMap = new Map<string, string>();
+    rows.forEach((row, index) => {
+      const groupName = row.Group?.trim() ? row.Group : '';
+      if (!groupName) {
+        addIssue('error', 'GROUP_REQUIRED', rowNumbers[index], 'groupName', options.requireGroupField
+          ? `Group is required for job type "${options.jobTypeName}"`
+          : 'Group is empty but other rows have a Group');
+        return;
+      }
+
+      const existingGroupName = customerGroupMap.get(row.CustomName);
+      if (existingGroupName === undefined) {
+        customerGroupMap.set(row.CustomName, groupName);
+      } else if (existingGroupName !== groupName) {
+        addIssue('error', 'CUSTOMER_GROUP_MISMATCH', rowNumbers[index], 'groupName',
+          `Customer "${row.CustomName}" maps to Group "${groupName}" but was previously mapped to Group "${existingGroupName}"`);
+      }
+    });
+  }
+
+  // Customers get boxes in order of first appearance, up to the box limit
+  const customers = Array.from(new Set(rows.map(row => row.CustomName)));
+  const customerToBoxMap = new Map<string, number | null>();
+  const customerSequenceMap = new Map<string, number>();
+  customers.forEach((customerName, index) => {
+    customerToBoxMap.set(customerName, !options.boxLimit || index < options.boxLimit ? index + 1 : null);
+    customerSequenceMap.set(customerName, index + 1);
+  });
+  const unallocatedCustomers = customers.filter(customerName => customerToBoxMap.get(customerName) === null);
+
+  if (options.boxLimit && options.boxLimit < Math.ceil(customers.length * BOX_LIMIT_WARNING_RATIO)) {
+    addIssue('warning', 'BOX_LIMIT_LOW', null, null,
+      `Warning: Box limit (${options.boxLimit}) is less than 80% of unique customers (${customers.length}). ${unallocatedCustomers.length} customers will be unallocated and be assigned to a box when made available.`);
+  } else if (unallocatedCustomers.length > 0) {
+    addIssue('warning', 'UNALLOCATED_CUSTOMERS', null, null,
+      `${unallocatedCustomers.length} customer${unallocatedCustomers.length === 1 ? '' : 's'} beyond the box limit will be assigned a box when one is made available`);
+  }
+
+  // Rows for the same barcode and customer become one requirement with the quantities summed
+  const requirementsByKey = new Map<string, PlannedBoxRequirement & { rows: number[] }>();
+  rows.forEach((row, index) => {
+    const key = `${barCodes[index]}\u0000${row.CustomName}`;
+    const existing = requirementsByKey.get(key);
+    if (existing) {
+      existing.requiredQty += row.Qty;
+      existing.rows.push(rowNumbers[index]);
+      return;
+    }
+    requirementsByKey.set(key, {
+      barCode: barCodes[index],
+      productName: row['Product Name'],
+      requiredQty: row.Qty,
+      customerName: row.CustomName,
+      groupName: row.Group || null,
+      boxNumber: customerToBoxMap.get(row.CustomName) ?? null,
+      customerSequence: customerSequenceMap.get(row.CustomName)!,
+      rows: [rowNumbers[index]]
+    });
+  });
+
+  const requirements: PlannedBoxRequirement[] = [];
+  const duplicates: ImportDuplicate[] = [];
+  requirementsByKey.forEach(({ rows: sourceRows, ...requirement }) => {
+    requirements.push(requirement);
+    if (sourceRows.length > 1) {
+      duplicates.push({ barCode: requirement.barCode, customerName: requirement.customerName, rows: sourceRows, totalQty: requirement.requiredQty });
+      addIssue('warning', 'DUPLICATE_ROWS', sourceRows[1], null,
+        `Rows ${sourceRows.join(', ')} are all barcode "${requirement.barCode}" for "${requirement.customerName}" and will be merged (Qty ${requirement.requiredQty})`);
+    }
+  });
+
+  const byRow = (a: ImportIssue, b: ImportIssue) => (a.row ?? 0) - (b.row ?? 0);
+  const errors = issues.filter(issue => issue.severity === 'error').sort(byRow);
+  const warnings = issues.filter(issue => issue.severity === 'warning').sort(byRow);
+
+  return {
+    preview: {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      duplicates,
+      totals: {
+        rows: totalRows,
+        validRows: rows.length,
+        totalQty: rows.reduce((sum, row) => sum + row.Qty, 0),
+        customers: customers.length,
+        barcodes: barcodeProductMap.size,
+        groups: new Set(rows.map(row => row.Group?.trim()).filter(Boolean)).size,
+        boxRequirements: requirements.length
+      },
+      boxes: {
+        boxLimit: options.boxLimit,
+        projectedBoxCount: customers.length - unallocatedCustomers.length, // One box per allocated customer
+        unallocatedCustomers
+      }
+    },
+    requirements
+  };
+}
+
+interface ExistingLine {
+  requirements: BoxRequirement[];
+  requiredQty: number;
+  scannedQty: number;
+  locked: boolean; // Box already emptied or transferred - its contents can no longer change
+}
+
+/**
+ * Work out what a delta file would change on a live job. Each row gives a
+ * barcode/customer line's new quantity (0 removes it); lines not in the file
+ * stay as they are. Scanning progress is kept, and lines whose new quantity is
+ * below what has already been scanned are flagged with the excess.
+ *
+ * `requirements` is every row of the job, including those archived by Empty or
+ * Transfer (transferSequence > 0). Only active rows can be changed; archived
+ * customers' lines are locked but still count towards the job's totals.
+ */
+export function buildAmendmentPlan(
+  mapped: MappedImportRows<AmendmentRow>,
+  totalRows: number,
+  requirements: BoxRequirement[],
+  options: ImportPlanOptions
+): JobAmendmentPreview {
+  const { rows, rowNumbers } = mapped;
+  const issues: ImportIssue[] = [...mapped.issues];
+  const addIssue = (severity: ImportIssue['severity'], code: ImportIssueCode, row: number | null, field: ImportField | null, message: string) => {
+    issues.push({ severity, code, row, field, message });
+  };
+
+  if (rows.length === 0 && mapped.issues.length === 0) {
+    addIssue('error', 'NO_ROWS', null, null, 'File is empty or contains no valid data');
+  }
+
+  // Current state of the job
+  const existingLines = new Map<string, ExistingLine>();
+  const productNames = new Map<string, string>();
+  const customers = new Map<string, { groupName: string | null; boxNumber: number | null; locked: boolean }>();
+  const archivedLines = new Map<string, number>(); // Lines of customers whose box was emptied or transferred - required qty
+  requirements.forEach(requirement => {
+    const key = `${requirement.barCode}\u0000${requirement.customerName}`;
+    const isArchived = (requirement.transferSequence ?? 0) > 0;
+    if (isArchived) {
+      archivedLines.set(key, (archivedLines.get(key) || 0) + requirement.requiredQty);
+    } else {
+      const line = existingLines.get(key) || { requirements: [], requiredQty: 0, scannedQty: 0, locked: false };
+      line.requirements.push(requirement);
+      line.requiredQty += requirement.requiredQty;
+      line.scannedQty += requirement.scannedQty || 0;
+      line.locked = line.locked || !!requirement.isTransferred || (requirement.boxStatus || 'active') !== 'active';
+      existingLines.set(key, line);
+    }
+
+    if (!productNames.has(requirement.barCode)) productNames.set(requirement.barCode, requirement.productName);
+    const customer = customers.get(requirement.customerName)
+      || { groupName: requirement.groupName, boxNumber: requirement.boxNumber, locked: false };
+    customer.locked = customer.locked || isArchived || !!existingLines.get(key)?.locked;
+    customers.set(requirement.customerName, customer);
+  });
+  const totalProductsBefore = requirements.reduce((sum, requirement) => sum + requirement.requiredQty, 0);
+
+  // New customers get the next box numbers while the box limit allows
+  const allocatedBoxes = new Set(requirements.map(requirement => requirement.boxNumber).filter((box): box is number => box !== null));
+  let nextBoxNumber = allocatedBoxes.size > 0 ? Math.max(...Array.from(allocatedBoxes)) + 1 : 1;
+  let allocatedBoxCount = allocatedBoxes.size;
+
+  // Merge rows for the same line - their quantities add up, as on import
+  const deltaLines = new Map<string, { row: AmendmentRow; barCode: string; qty: number; rows: number[] }>();
+  rows.forEach((row, index) => {
+    const barCode = normalizeImportBarcode(row.BarCode);
+    if (barCode !== row.BarCode) {
+      addIssue('warning', 'BARCODE_NORMALIZED', rowNumbers[index], 'barCode', `Barcode "${row.BarCode}" will be imported as "${barCode}"`);
+    }
+    const key = `${barCode}\u0000${row.CustomName}`;
+    const existing = deltaLines.get(key);
+    if (existing) {
+      existing.qty += row.Qty;
+      existing.rows.push(rowNumbers[index]);
+      if (!existing.row['Product Name']) existing.row = { ...existing.row, 'Product Name': row['Product Name'] };
+      return;
+    }
+    deltaLines.set(key, { row, barCode, qty: row.Qty, rows: [rowNumbers[index]] });
+  });
+
+  const changes: JobAmendmentChange[] = [];
+  const newCustomers = new Set<string>();
+  let unchangedLines = 0;
+
+  deltaLines.forEach(({ row, barCode, qty: newQty, rows: sourceRows }, key) => {
+    const rowNumber = sourceRows[0];
+    const customerName = row.CustomName;
+    if (sourceRows.length > 1) {
+      addIssue('warning', 'DUPLICATE_ROWS', sourceRows[1], null,
+        `Rows ${sourceRows.join(', ')} are all barcode "${barCode}" for "${customerName}" and will be merged (Qty ${newQty})`);
+    }
+
+    const line = existingLines.get(key);
+    const archivedQty = archivedLines.get(key);
+    if (!line && archivedQty === undefined && newQty === 0) {
+      addIssue('warning', 'UNKNOWN_LINE', rowNumber, null, `Barcode "${barCode}" is not in the job for "${customerName}" - nothing to remove`);
+      return;
+    }
+
+    // Product names must stay consistent with the job (and with earlier rows of this file)
+    const givenProductName = row['Product Name']?.trim() || '';
+    const knownProductName = productNames.get(barCode);
+    if (knownProductName !== undefined && givenProductName && givenProductName !== knownProductName) {
+      addIssue('error', 'BARCODE_PRODUCT_MISMATCH', rowNumber, 'productName',
+        `Barcode "${barCode}" maps to "${givenProductName}" but the job has it as "${knownProductName}"`);
+    } else if (knownProductName === undefined && !givenProductName) {
+      addIssue('error', 'PRODUCT_NAME_REQUIRED', rowNumber, 'productName', `Barcode "${barCode}" is new to this job - a Product Name is required`);
+    } else if (knownProductName === undefined) {
+      productNames.set(barCode, givenProductName);
+    }
+    const productName = knownProductName ?? givenProductName;
+
+    // Customers keep their group; new customers must satisfy the job type's group requirement
+    const givenGroupName = row.Group?.trim() ? row.Group : null;
+    let customer = customers.get(customerName);
+    if (customer && givenGroupName && customer.groupName && givenGroupName !== customer.groupName) {
+      addIssue('error', 'CUSTOMER_GROUP_MISMATCH', rowNumber, 'groupName',
+        `Customer "${customerName}" maps to Group "${givenGroupName}" but the job has Group "${customer.groupName}"`);
+    }
+    if (!customer) {
+      if (options.requireGroupField && !givenGroupName) {
+        addIssue('error', 'GROUP_REQUIRED', rowNumber, 'groupName', `Group is required for job type "${options.jobTypeName}"`);
+      }
+      const hasBox = !options.boxLimit || allocatedBoxCount < options.boxLimit;
+      customer = { groupName: givenGroupName, boxNumber: hasBox ? nextBoxNumber++ : null, locked: false };
+      if (hasBox) allocatedBoxCount++;
+      customers.set(customerName, customer);
+      newCustomers.add(customerName);
+    }
+
+    const oldQty = line?.requiredQty ?? archivedQty ?? 0;
+    const scannedQty = line?.scannedQty || 0;
+    if (newQty === oldQty) {
+      unchangedLines++;
+      return;
+    }
+
+    if (line ? line.locked : archivedQty !== undefined || customer.locked) {
+      addIssue('error', 'LINE_LOCKED', rowNumber, 'qty',
+        `Box ${customer.boxNumber ?? '-'} for "${customerName}" has been emptied or transferred - its quantities can no longer change`);
+    }
+
+    const excessQty = Math.max(0, scannedQty - newQty);
+    if (excessQty > 0) {
+      addIssue('warning', 'QTY_ALREADY_EXCEEDED', rowNumber, 'qty',
+        `${scannedQty} already scanned into box ${customer.boxNumber ?? '-'} but the new Qty is ${newQty} - take ${excessQty} out of the box`);
+    }
+
+    changes.push({
+      type: !line ? 'add_line' : newQty === 0 ? 'remove_line' : 'change_qty',
+      rows: sourceRows,
+      barCode,
+      productName,
+      customerName,
+      groupName: customer.groupName,
+      boxNumber: customer.boxNumber,
+      isNewCustomer: newCustomers.has(customerName),
+      oldQty,
+      newQty,
+      scannedQty,
+      excessQty,
+      boxRequirementIds: line ? line.requirements.map(requirement => requirement.id) : []
+    });
+  });
+
+  const unallocatedNewCustomers = Array.from(newCustomers).filter(customerName => customers.get(customerName)!.boxNumber === null);
+  if (unallocatedNewCustomers.length > 0) {
+    addIssue('warning', 'UNALLOCATED_CUSTOMERS', null, null,
+      `${unallocatedNewCustomers.length} new customer${unallocatedNewCustomers.length === 1 ? '' : 's'} beyond the box limit will be assigned a box when one is made available`);
+  }
+  if (rows.length > 0 && changes.length === 0) {
+    addIssue('warning', 'NO_CHANGES', null, null, 'The file does not change any quantities in this job');
+  }
+
+  // Customers whose every line is removed drop out of the job
+  const remainingCustomers = new Set(requirements.map(requirement => requirement.customerName));
+  const removedKeys = new Set(changes.filter(change => change.type === 'remove_line').map(change => `${change.barCode}\u0000${change.customerName}`));
+  remainingCustomers.forEach(customerName => {
+    const keepsALine = [...Array.from(existingLines.keys()), ...Array.from(archivedLines.keys())]
+      .some(key => key.endsWith(`\u0000${customerName}`) && !removedKeys.has(key));
+    if (!keepsALine) remainingCustomers.delete(customerName);
+  });
+  changes.filter(change => change.type === 'add_line').forEach(change => remainingCustomers.add(change.customerName));
+
+  const byRow = (a: ImportIssue, b: ImportIssue) => (a.row ?? 0) - (b.row ?? 0);
+  const errors = issues.filter(issue => issue.severity === 'error').sort(byRow);
+  const warnings = issues.filter(issue => issue.severity === 'warning').sort(byRow);
+  const countChanges = (type: JobAmendmentChange['type']) => changes.filter(change => change.type === type).length;
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    changes,
+    totals: {
+      rows: totalRows,
+      validRows: rows.length,
+      addedLines: countChanges('add_line'),
+      changedLines: countChanges('change_qty'),
+      removedLines: countChanges('remove_line'),
+      unchangedLines,
+      addedCustomers: newCustomers.size,
+      excessQty: changes.reduce((sum, change) => sum + change.excessQty, 0),
+      totalProductsBefore,
+      totalProductsAfter: totalProductsBefore + changes.reduce((sum, change) => sum + change.newQty - change.oldQty, 0),
+      customersBefore: customers.size - newCustomers.size,
+      customersAfter: remainingCustomers.size
+    }
+  };
+}
+
+const ISSUE_HEADLINES: Partial<Record<ImportIssueCode, string>> = {
+  BARCODE_PRODUCT_MISMATCH: 'Barcode / Product mismatch - Check your product names are consistent',
+  CUSTOMER_GROUP_MISMATCH: 'Customer / Group mismatch - Check your group assignments are consistent',
+  GROUP_REQUIRED: 'Group missing - Every row needs a Group value',
+  NO_ROWS: 'File is empty or contains no valid data',
+  PRODUCT_NAME_REQUIRED: 'Product Name missing - New barcodes need a Product Name',
+  LINE_LOCKED: 'Box already emptied or transferred - Those lines can no longer change',
+};
+
+/**
+ * One-line summary of a failed preview for error toasts; the full list goes in details
+ */
+export function summarizeImportErrors(errors: ImportIssue[]): { message: string; details: string } {
+  const codes = Array.from(new Set(errors.map(error => error.code)));
+  const message = codes.length > 1
+    ? `Multiple validation errors found (${errors.length})`
+    : ISSUE_HEADLINES[codes[0]] || `File validation failed with ${errors.length} error${errors.length === 1 ? '' : 's'}: ${errors.slice(0, 3).map(formatImportIssue).join('; ')}`;
+
+  return { message, details: errors.map(formatImportIssue).join('\n') };
+}
+
+export function formatImportIssue(issue: ImportIssue): string {
+  return issue.row === null ? issue.message : `Row ${issue.row}: ${issue.message}`;
+}
@@ -0,0 +1,150 @@
+import { createHash } from "crypto";
+import type { QaSamplingConfig } from "@shared/qa-sampling";
+import type {
+  QaCheckQueue,
+  QaCheckQueueItem,
+  QaCheckStatus,
+  QaSampleReason,
+  QaWorkerRisk,
+} from "@shared/schema";
+
+/**
+ * QA check queue: picks which of a job's packed boxes CheckCount should verify,
+ * from the job type's sampling rules. Storage loads the packed boxes, their
+ * corrections, the job's check sessions and each packer's recent record;
+ * everything here is pure. Random sampling hashes the job and box number, so a
+ * box's pick never changes between requests and raising a rate only adds boxes.
+ */
+
+export interface QaPackedBox {
+  boxNumber: number;
+  customerName: string;
+  packedBy: string | null;
+  packedByName: string | null;
+  packedAt: Date | null;
+  correctedAt: Date | null; // Latest box-level correction (Empty, Transfer, hand-allocated put-aside stock)
+}
+
+export interface QaBoxCheck {
+  boxNumber: number;
+  status: string; // check_sessions.status
+  endTime: Date | null;
+  discrepanciesFound: number | null;
+}
+
+export type QaWorkerRecord = Omit<QaWorkerRisk, 'isAtRisk'>;
+
+const REASON_ORDER: QaSampleReason[] = ['correction', 'worker_risk', 'every_nth', 'random_sample'];
+const STATUS_ORDER: QaCheckStatus[] = ['in_progress', 'pending', 'checked'];
+
+export function assessWorkerRisk(record: QaWorkerRecord, config: QaSamplingConfig): QaWorkerRisk {
+  const hasDiscrepancies = config.riskDiscrepancyThreshold > 0 && record.discrepancies >= config.riskDiscrepancyThreshold;
+  const undoesTooOften = config.riskUndoRatePercent > 0 && record.undoRate > config.riskUndoRatePercent;
+  return { ...record, isAtRisk: hasDiscrepancies || undoesTooOften };
+}
+
+// Stable 0-100 draw for a box
+export function getSampleDraw(jobId: string, boxNumber: number): number {
+  const hash = createHash('sha256').update(`${jobId}:${boxNumber}`).digest();
+  return (hash.readUInt32BE(0) / 0x100000000) * 100;
+}
+
+function getEveryNthBoxes(boxes: QaPackedBox[], everyNth: number): Set<number> {
+  const picked = new Set<number>();
+  if (everyNth <= 0) return picked;
+
+  const boxesByPacker = new Map<string, QaPackedBox[]>();
+  for (const box of boxes) {
+    if (!box.packedBy) continue;
+    boxesByPacker.set(box.packedBy, [...(boxesByPacker.get(box.packedBy) || []), box]);
+  }
+
+  boxesByPacker.forEach(packerBoxes => {
+    packerBoxes
+      .sort((a, b) => (a.packedAt?.getTime() ?? 0) - (b.packedAt?.getTime() ?? 0) || a.boxNumber - b.boxNumber)
+      .forEach((box, index) => {
+        if ((index + 1) % everyNth === 0) picked.add(box.boxNumber);
+      });
+  });
+  return picked;
+}
+
+export function buildQaCheckQueue(input: {
+  jobId: string;
+  config: QaSamplingConfig;
+  boxes: QaPackedBox[];
+  checks: QaBoxCheck[];
+  workers: QaWorkerRecord[];
+}): QaCheckQueue {
+  const { jobId, config, boxes, checks } = input;
+  const workers = input.workers.map(record => assessWorkerRisk(record, config));
+  const atRiskWorkers = new Set(workers.filter(worker => worker.isAtRisk).map(worker => worker.userId));
+  const everyNthBoxes = getEveryNthBoxes(boxes, config.everyNthBoxPerWorker);
+
+  const checksByBox = new Map<number, QaBoxCheck[]>();
+  for (const check of checks) {
+    checksByBox.set(check.boxNumber, [...(checksByBox.get(check.boxNumber) || []), check]);
+  }
+
+  const items: QaCheckQueueItem[] = [];
+  for (const box of boxes) {
+    const draw = getSampleDraw(jobId, box.boxNumber);
+    const reasons = REASON_ORDER.filter(reason => {
+      switch (reason) {
+        case 'correction':
+          return config.checkCorrectedBoxes && !!box.correctedAt;
+        case 'worker_risk':
+          return !!box.packedBy && atRiskWorkers.has(box.packedBy) && draw < config.riskSamplePercent;
+        case 'every_nth':
+          return everyNthBoxes.has(box.boxNumber);
+        case 'random_sample':
+          return draw < config.samplePercent;
+      }
+    });
+    if (reasons.length === 0) continue;
+
+    // Only a check finished after the box last changed clears it
+    const changedAt = Math.max(box.packedAt?.getTime() ?? 0, box.correctedAt?.getTime() ?? 0);
+    const boxChecks = checksByBox.get(box.boxNumber) || [];
+    const clearingCheck = boxChecks
+      .filter(check => check.status === 'completed' && check.endTime && check.endTime.getTime() >= changedAt)
+      .sort((a, b) => b.endTime!.getTime() - a.endTime!.getTime())[0];
+    const status: QaCheckStatus = clearingCheck
+      ? 'checked'
+      : boxChecks.some(check => check.status === 'active') ? 'in_progress' : 'pending';
+
+    items.push({
+      boxNumber: box.boxNumber,
+      customerName: box.customerName,
+      packedBy: box.packedBy,
+      packedByName: box.packedByName,
+      packedAt: box.packedAt?.toISOString() ?? null,
+      reasons,
+      status,
+      lastCheckedAt: clearingCheck?.endTime?.toISOString() ?? null,
+      discrepanciesFound: clearingCheck ? clearingCheck.discrepanciesFound ?? 0 : null,
+    });
+  }
+
+  // Open boxes by urgency, oldest packed first; checked boxes last, latest check first
+  items.sort((a, b) =>
+    STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+    || (a.status === 'checked'
+      ? (b.lastCheckedAt || '').localeCompare(a.lastCheckedAt || '')
+      : REASON_ORDER.indexOf(a.reasons[0]) - REASON_ORDER.indexOf(b.reasons[0])
+        || (a.packedAt || '').localeCompare(b.packedAt || ''))
+    || a.boxNumber - b.boxNumber);
+
+  const checkedCount = items.filter(item => item.status === 'checked').length;
+  return {
+    jobId,
+    config,
+    packedBoxes: boxes.length,
+    totalQueued: items.length,
+    checkedCount,
+    pendingCount: items.length - checkedCount,
+    progress: items.length > 0 ? Math.round((checkedCount / items.length) * 100) : 100,
+    items,
+    workers: workers.sort((a, b) => Number(b.isAtRisk) - Number(a.isAtRisk) || a.name.localeCompare(b.name)),
+  };
+}
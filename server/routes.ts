@@ -1,51 +1,115 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
+import { storage, PendingDropError, type ExportLineFilter } from "./storage";
+import { assignWorkerPattern, getNextWorkerIndex, getWorkerColor, isAllocationStrategy } from "../lib/worker-allocation";
+import { authenticateAccessToken, createAuthSession, refreshAuthSession, type RevocationReason } from "./auth";
+import {
+  applyColumnMapping,
+  buildAmendmentPlan,
+  buildImportPlan,
+  getMissingMappedFields,
+  mappingFitsHeaders,
+  parseImportFile,
+  readImportSettings,
+  suggestColumnMapping,
+  summarizeImportErrors,
+  ImportFileError,
+  IMPORT_ENCODINGS,
+  type ImportEncoding,
+} from "./job-import";
+import {
+  buildExportFilename,
+  pageBatches,
+  sendExport,
+  singleBatch,
+  CHECK_RESULT_COLUMNS,
+  EXPORT_FORMATS,
+  EXPORT_SHEET_KEYS,
+  EXTRA_ITEM_COLUMNS,
+  LINE_COLUMNS,
+  PUT_ASIDE_COLUMNS,
+  type ExportFormat,
+  type ExportLine,
+  type ExportScope,
+  type ExportSheet,
+  type ExportSheetKey,
+} from "./job-export";
+import {
+  buildPdfFilename,
+  sendBoxLabelsPdf,
+  sendPackingSlipsPdf,
+  LABEL_LAYOUTS,
+  LABEL_SYMBOLOGIES,
+  type LabelLayout,
+  type LabelSymbology,
+  type PackingSlipLine,
+} from "./box-labels";
 import {
   loginSchema,
-  csvRowSchema,
   insertJobSchema,
   insertScanEventSchema,
   insertJobAssignmentSchema,
+  importColumnMappingSchema,
+  amendmentRowSchema,
+  scanReplayRequestSchema,
+  customerQueueUpdateSchema,
+  checkResolutionSchema,
+  checkWrongItemResolutionSchema,
+  checkSessionStartSchema,
+  customerQueueFlagsSchema,
+  deleteAllJobDataSchema,
+  workerAnalyticsQuerySchema,
+  AMENDMENT_EXCESS_ACTIONS,
+  PUT_ASIDE_STATUSES,
+  DEFAULT_JOB_RETENTION_DAYS,
+  IMPORT_FIELD_LABELS,
+  JOB_WRITE_REJECTION_MESSAGES,
+  REQUIRED_AMENDMENT_FIELDS,
+  type ImportColumnMapping,
+  type ImportProfile,
+  type InsertImportProfile,
+  type JobWriteRejectionCode,
+  type PutAsideStatus,
+  type PutAsidePickLine,
   type User,
   type Job,
+  type BoxRequirement,
   // Product type removed - table eliminated
   type ScanSession,
   type ScanEvent,
+  type ScanReplayResponse,
+  type ScanReplayResult,
   type WSMessage,
   type WSAuthenticateMessage,
+  type WSSubscriptionMessage,
   type WSScanUpdateMessage,
   type WSJobStatusMessage,
   type WSBoxActionMessage,
   type WSCheckCountMessage,
-  type WSPutAsideMessage
+  type WSPutAsideMessage,
+  type WSPutAsidePickListMessage,
+  type WSJobAmendedMessage,
+  type WSScansReplayedMessage,
+  type WSCheckSessionMessage,
+  type CheckSessionCancelReason,
+  type CheckSession
 } from "@shared/schema";
+import { scoringConfigOverridesSchema } from "@shared/scoring";
+import { qaSamplingConfigOverridesSchema } from "@shared/qa-sampling";
+import { isBoxLabelForJob, parseBoxLabelCode } from "@shared/box-labels";
 import { z } from "zod";
 import multer from "multer";
-import csv from "csv-parser";
-import { Readable } from "stream";
 import bcrypt from "bcryptjs";
 import { db } from "./db"; // Assuming db is imported for direct access
 import { eq } from "drizzle-orm"; // Assuming drizzle ORM for queries
 
-// Helper function to get worker performance (placeholder)
-async function getWorkerPerformance(userId: string, jobId: string): Promise<any> {
-  // This is a placeholder. In a real scenario, this would query performance data.
-  // For now, returning dummy data.
-  console.log(`[Helper] Fetching performance for user ${userId} on job ${jobId}`);
-  return {
-    scansCompleted: Math.floor(Math.random() * 100),
-    itemsPerHour: Math.floor(Math.random() * 150),
-    accuracy: Math.random().toFixed(2),
-  };
-}
-
 // Setup multer for file uploads
 const upload = multer({ storage: multer.memoryStorage() });
 
 interface AuthenticatedRequest extends Request {
   user?: User;
+  authSessionId?: string;
 }
 
 // WebSocket message types now imported from schema
@@ -55,7 +119,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // WebSocket setup
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  const connectedClients = new Map<string, { ws: WebSocket; userId: string; jobId?: string }>();
+  const connectedClients = new Map<string, { ws: WebSocket; userId: string; role: string; authSessionId: string; jobIds: Set<string> }>();
+
+  // Sockets that haven't authenticated within this window are closed
+  const WS_AUTH_TIMEOUT_MS = 10 * 1000;
+
+  /**
+   * Decide whether a user may receive a job's broadcasts. Managers and supervisors
+   * can watch any job; workers only jobs they are actively assigned to.
+   * Returns a rejection code, or null when the subscription is allowed.
+   */
+  async function getJobSubscriptionError(userId: string, role: string, jobId: string): Promise<string | null> {
+    const job = await storage.getJobById(jobId);
+    if (!job) {
+      return 'JOB_NOT_FOUND';
+    }
+    if (role === 'manager' || role === 'supervisor') {
+      return null;
+    }
+    const assignment = await storage.checkExistingAssignment(jobId, userId);
+    return assignment ? null : 'NOT_ASSIGNED';
+  }
+
+  interface JobWriteRejection {
+    status: number;
+    code: JobWriteRejectionCode;
+    message: string;
+  }
+
+  const rejectJobWrite = (status: number, code: JobWriteRejectionCode): JobWriteRejection =>
+    ({ status, code, message: JOB_WRITE_REJECTION_MESSAGES[code] });
+
+  /**
+   * Server-side guard for scan, undo, check and box writes - clients stopping on a websocket
+   * message is not enough. Archived jobs are read-only for everyone; locked jobs for workers and
+   * supervisors; paused jobs and jobs they aren't assigned to for workers. A worker who hits a
+   * locked job has their scan session on it closed.
+   */
+  async function getJobWriteRejection(user: User, jobId: string, scanSessionId?: string): Promise<JobWriteRejection | null> {
+    const job = jobId ? await storage.getJobById(jobId) : undefined;
+    if (!job) {
+      return rejectJobWrite(404, 'JOB_NOT_FOUND');
+    }
+    if (job.isArchived) {
+      return rejectJobWrite(409, 'JOB_ARCHIVED');
+    }
+
+    const isLocked = job.status === 'completed' && !job.isActive;
+    if (isLocked && user.role !== 'manager') {
+      if (user.role === 'worker') {
+        await storage.closeActiveScanSessions(job.id, user.id);
+      }
+      return rejectJobWrite(409, 'JOB_LOCKED');
+    }
+
+    if (user.role === 'worker') {
+      if (!job.isActive || job.status === 'paused') {
+        return rejectJobWrite(409, 'JOB_PAUSED');
+      }
+      const assignment = await storage.checkExistingAssignment(job.id, user.id);
+      if (!assignment) {
+        return rejectJobWrite(403, 'NOT_ASSIGNED');
+      }
+    }
+
+    if (scanSessionId !== undefined) {
+      const session = scanSessionId ? await storage.getScanSessionById(scanSessionId) : undefined;
+      if (!session || session.userId !== user.id || session.jobId !== job.id) {
+        return rejectJobWrite(404, 'SESSION_NOT_FOUND');
+      }
+      if (session.status === 'completed') {
+        return rejectJobWrite(409, 'SESSION_CLOSED');
+      }
+    }
+
+    return null;
+  }
+
+  function sendJobWriteRejection(res: Response, rejection: JobWriteRejection) {
+    return res.status(rejection.status).json({ message: rejection.message, code: rejection.code });
+  }
+
+  // Only the checker who owns an active check session may scan into, resolve or finish it -
+  // anyone else has to take the box over first
+  function sendCheckSessionOwnershipRejection(res: Response, user: User, session: CheckSession) {
+    if (session.status !== 'active') {
+      res.status(409).json({ message: 'This check is no longer open', code: 'CHECK_SESSION_CLOSED', session });
+      return true;
+    }
+    if (session.userId !== user.id) {
+      res.status(409).json({ message: `Box ${session.boxNumber} is now being checked by someone else`, code: 'CHECK_SESSION_NOT_OWNER', session });
+      return true;
+    }
+    return false;
+  }
+
+  async function subscribeClientToJob(clientId: string, jobId: string) {
+    const client = connectedClients.get(clientId);
+    if (!client) return;
+
+    const rejection = await getJobSubscriptionError(client.userId, client.role, jobId);
+    if (rejection) {
+      console.log(`[WebSocket Server] Client ${clientId} (user ${client.userId}) denied subscription to job ${jobId}: ${rejection}`);
+      client.ws.send(JSON.stringify({
+        type: 'subscription_rejected',
+        data: { jobId, code: rejection }
+      }));
+      return;
+    }
+
+    client.jobIds.add(jobId);
+    client.ws.send(JSON.stringify({
+      type: 'subscribed',
+      data: { jobId, jobIds: Array.from(client.jobIds) }
+    }));
+  }
 
   wss.on('connection', (ws, req) => {
     const clientId = Math.random().toString(36).substring(7);
@@ -63,29 +241,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     console.log(`[WebSocket Server] New connection established. ClientId: ${clientId}, IP: ${clientIP}`);
 
+    const authTimeout = setTimeout(() => {
+      if (!connectedClients.has(clientId)) {
+        console.log(`[WebSocket Server] Client ${clientId} did not authenticate in time - closing`);
+        ws.close(4001, 'AUTH_TIMEOUT');
+      }
+    }, WS_AUTH_TIMEOUT_MS);
+
     ws.on('message', async (message) => {
       try {
         const data = JSON.parse(message.toString()) as WSMessage;
-        console.log(`[WebSocket Server] Message received from client ${clientId}:`, data);
+        // Never log the access token carried by authenticate messages
+        console.log(`[WebSocket Server] Message received from client ${clientId}:`, data.type === 'authenticate' ? { type: data.type } : data);
 
         if (data.type === 'authenticate') {
           const authData = data as WSAuthenticateMessage;
+          const authResult = await authenticateAccessToken(authData.data?.token);
+
+          if ('error' in authResult) {
+            console.log(`[WebSocket Server] Client ${clientId} failed authentication: ${authResult.error}`);
+            connectedClients.delete(clientId);
+            ws.send(JSON.stringify({
+              type: 'authentication_failed',
+              data: { code: authResult.error }
+            }));
+            ws.close(4001, authResult.error);
+            return;
+          }
+
+          clearTimeout(authTimeout);
           connectedClients.set(clientId, {
             ws,
-            userId: authData.data.userId,
-            jobId: authData.data.jobId
+            userId: authResult.user.id,
+            role: authResult.user.role,
+            authSessionId: authResult.session.id,
+            jobIds: new Set()
           });
-          console.log(`[WebSocket Server] Client ${clientId} authenticated as user ${authData.data.userId}${authData.data.jobId ? ` for job ${authData.data.jobId}` : ''}`);
+          console.log(`[WebSocket Server] Client ${clientId} authenticated as user ${authResult.user.id} (${authResult.user.role})`);
 
           // Send authentication confirmation
           ws.send(JSON.stringify({
             type: 'authenticated',
             data: {
               clientId,
-              userId: authData.data.userId,
-              jobId: authData.data.jobId
+              userId: authResult.user.id
             }
           }));
+
+          // Initial subscriptions requested with the handshake go through the same checks
+          const requestedJobIds = new Set([
+            ...(authData.data.jobId ? [authData.data.jobId] : []),
+            ...(authData.data.jobIds || [])
+          ]);
+          for (const jobId of Array.from(requestedJobIds)) {
+            await subscribeClientToJob(clientId, jobId);
+          }
+          return;
+        }
+
+        // Everything past this point requires an authenticated socket
+        const client = connectedClients.get(clientId);
+        if (!client) {
+          ws.send(JSON.stringify({
+            type: 'error',
+            data: { code: 'NOT_AUTHENTICATED', message: 'Authenticate before sending other messages' }
+          }));
+          return;
+        }
+
+        if (data.type === 'subscribe' || data.type === 'unsubscribe') {
+          const subscription = data as WSSubscriptionMessage;
+          const jobId = subscription.data?.jobId;
+          if (typeof jobId !== 'string' || !jobId) {
+            ws.send(JSON.stringify({
+              type: 'error',
+              data: { code: 'INVALID_JOB_ID', message: `${data.type} requires a jobId` }
+            }));
+            return;
+          }
+
+          if (data.type === 'subscribe') {
+            await subscribeClientToJob(clientId, jobId);
+          } else {
+            client.jobIds.delete(jobId);
+            ws.send(JSON.stringify({
+              type: 'unsubscribed',
+              data: { jobId, jobIds: Array.from(client.jobIds) }
+            }));
+          }
+          return;
         }
 
         // Handle Put Aside specific WebSocket events
@@ -108,6 +352,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     ws.on('close', (code, reason) => {
       console.log(`[WebSocket Server] Client ${clientId} disconnected. Code: ${code}, Reason: ${reason}`);
+      clearTimeout(authTimeout);
       connectedClients.delete(clientId);
     });
 
@@ -125,10 +370,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }));
   });
 
-  function broadcastToJob(jobId: string, message: WSMessage | WSJobStatusMessage | WSBoxActionMessage | WSCheckCountMessage | WSPutAsideMessage) {
+  function broadcastToJob(jobId: string, message: WSMessage | WSJobStatusMessage | WSBoxActionMessage | WSCheckCountMessage | WSCheckSessionMessage | WSPutAsideMessage | WSPutAsidePickListMessage | WSJobAmendedMessage | WSScansReplayedMessage) {
     let broadcastCount = 0;
     connectedClients.forEach((client, clientId) => {
-      if (client.jobId === jobId && client.ws.readyState === WebSocket.OPEN) {
+      if (client.jobIds.has(jobId) && client.ws.readyState === WebSocket.OPEN) {
         try {
           client.ws.send(JSON.stringify(message));
           broadcastCount++;
@@ -142,6 +387,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log(`[WebSocket Server] Broadcasted message to ${broadcastCount} clients for job ${jobId}:`, message);
   }
 
+  function broadcastCheckSession(session: CheckSession, action: WSCheckSessionMessage['data']['action'], userName: string) {
+    broadcastToJob(session.jobId, {
+      type: 'check_session_update',
+      data: {
+        action,
+        sessionId: session.id,
+        boxNumber: session.boxNumber,
+        userId: session.userId,
+        userName,
+        ...(session.cancelReason ? { cancelReason: session.cancelReason as CheckSessionCancelReason } : {}),
+        timestamp: new Date().toISOString()
+      }
+    });
+  }
+
+  // Checks whose device went quiet are cancelled here too, so their boxes free up without anyone asking
+  const CHECK_SESSION_SWEEP_MS = 60 * 1000;
+  setInterval(async () => {
+    try {
+      const abandoned = await storage.cancelAbandonedCheckSessions();
+      abandoned.forEach(session => broadcastCheckSession(session, 'cancelled', 'System'));
+    } catch (error) {
+      console.error('Failed to cancel abandoned check sessions:', error);
+    }
+  }, CHECK_SESSION_SWEEP_MS).unref();
+
+  // Soft-deleted jobs are purged for good once their retention period is over
+  const JOB_RETENTION_DAYS = Number(process.env.JOB_RETENTION_DAYS) || DEFAULT_JOB_RETENTION_DAYS;
+  const JOB_PURGE_SWEEP_MS = 60 * 60 * 1000;
+  setInterval(async () => {
+    try {
+      const purged = await storage.purgeExpiredJobs();
+      if (purged.length > 0) {
+        console.log(`Purged ${purged.length} deleted job(s) past their retention period`);
+      }
+    } catch (error) {
+      console.error('Failed to purge expired deleted jobs:', error);
+    }
+  }, JOB_PURGE_SWEEP_MS).unref();
+
   function broadcastToUser(userId: string, message: WSMessage | WSJobStatusMessage) {
     connectedClients.forEach((client) => {
       if (client.userId === userId && client.ws.readyState === WebSocket.OPEN) {
@@ -150,23 +435,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }
 
+  // Drop a user's live subscription to a job, e.g. after they are unassigned from it
+  function unsubscribeUserFromJob(userId: string, jobId: string) {
+    connectedClients.forEach((client) => {
+      if (client.userId === userId && client.jobIds.delete(jobId) && client.ws.readyState === WebSocket.OPEN) {
+        client.ws.send(JSON.stringify({
+          type: 'subscription_revoked',
+          data: { jobId, code: 'NOT_ASSIGNED' }
+        }));
+      }
+    });
+  }
+
+  // Close live sockets belonging to revoked sessions so they must re-authenticate
+  function disconnectAuthSessions(sessionIds: string[], reason: string) {
+    if (sessionIds.length === 0) return;
+    connectedClients.forEach((client, clientId) => {
+      if (sessionIds.includes(client.authSessionId)) {
+        connectedClients.delete(clientId);
+        client.ws.close(4001, reason);
+      }
+    });
+  }
+
+  async function revokeUserSessions(userId: string, reason: RevocationReason) {
+    const revokedIds = await storage.revokeUserAuthSessions(userId, reason);
+    disconnectAuthSessions(revokedIds, 'SESSION_REVOKED');
+    console.log(`[Auth] Revoked ${revokedIds.length} session(s) for user ${userId} (${reason})`);
+  }
+
+  // Parse an uploaded job file: explicit request settings win, then the chosen import profile, then auto-detection
+  async function readJobImport(req: AuthenticatedRequest) {
+    const settings = readImportSettings(req.body);
+
+    let profile: ImportProfile | undefined;
+    if (req.body.importProfileId) {
+      profile = await storage.getImportProfileById(req.body.importProfileId);
+      if (!profile) {
+        throw new ImportFileError('Selected import profile no longer exists');
+      }
+    }
+
+    const parsed = await parseImportFile(req.file!.buffer, {
+      filename: req.file!.originalname,
+      delimiter: settings.delimiter ?? profile?.delimiter,
+      encoding: settings.encoding ?? (profile?.encoding as ImportEncoding | null | undefined),
+      sheetName: settings.sheetName ?? profile?.sheetName
+    });
+
+    const mapping: ImportColumnMapping = settings.columnMapping
+      || (profile?.columnMapping as ImportColumnMapping | undefined)
+      || suggestColumnMapping(parsed.headers);
+
+    return { parsed, mapping, profile, settings };
+  }
+
+  // Saving under an existing profile name overwrites that profile's mapping
+  async function saveImportProfile(name: string, profile: Omit<InsertImportProfile, 'name'>): Promise<ImportProfile | undefined> {
+    const existing = (await storage.getImportProfiles()).find(candidate => candidate.name === name);
+    const saved = existing
+      ? await storage.updateImportProfile(existing.id, { ...profile, createdBy: existing.createdBy })
+      : await storage.createImportProfile({ ...profile, name });
+    if (saved) {
+      await storage.markImportProfileUsed(saved.id);
+    }
+    return saved;
+  }
+
   // Authentication middleware
   const requireAuth = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const token = req.headers.authorization?.replace('Bearer ', '');
     if (!token) {
-      return res.status(401).json({ message: 'Authentication required' });
+      return res.status(401).json({ message: 'Authentication required', code: 'TOKEN_MISSING' });
     }
 
     try {
-      // Simple token validation - in production use proper JWT
-      const user = await storage.getUserById(token);
-      if (!user) {
-        return res.status(401).json({ message: 'Invalid token' });
+      const authResult = await authenticateAccessToken(token);
+      if ('error' in authResult) {
+        return res.status(401).json({
+          message: authResult.error === 'TOKEN_EXPIRED' ? 'Token expired' : 'Invalid token',
+          code: authResult.error
+        });
       }
-      req.user = user;
+      req.user = authResult.user;
+      req.authSessionId = authResult.session.id;
       next();
     } catch (error) {
-      res.status(401).json({ message: 'Invalid token' });
+      console.error('Failed to authenticate request:', error);
+      res.status(401).json({ message: 'Invalid token', code: 'TOKEN_INVALID' });
     }
   };
 
@@ -199,9 +555,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ error: 'Account is deactivated' });
       }
 
-      // Return user ID as token (in production use proper JWT)
+      const tokens = await createAuthSession(user, req.headers['user-agent']);
+
       res.json({
-        token: user.id,
+        ...tokens,
         user: {
           id: user.id,
           staffId: user.staffId,
@@ -214,6 +571,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/auth/refresh', async (req, res) => {
+    try {
+      const { refreshToken } = req.body || {};
+      if (typeof refreshToken !== 'string' || !refreshToken) {
+        return res.status(400).json({ message: 'Refresh token is required' });
+      }
+
+      const result = await refreshAuthSession(refreshToken);
+      if ('error' in result) {
+        return res.status(401).json({ message: 'Session is no longer valid', code: result.error });
+      }
+
+      const { user, ...tokens } = result;
+      res.json({
+        ...tokens,
+        user: {
+          id: user.id,
+          staffId: user.staffId,
+          name: user.name,
+          role: user.role
+        }
+      });
+    } catch (error) {
+      console.error('Failed to refresh session:', error);
+      res.status(500).json({ message: 'Failed to refresh session' });
+    }
+  });
+
+  app.post('/api/auth/logout', requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      await storage.revokeAuthSession(req.authSessionId!, 'logout');
+      disconnectAuthSessions([req.authSessionId!], 'SESSION_REVOKED');
+      res.json({ message: 'Logged out' });
+    } catch (error) {
+      console.error('Failed to log out:', error);
+      res.status(500).json({ message: 'Failed to log out' });
+    }
+  });
+
   app.post('/api/auth/register', requireAuth, requireRole(['manager']), async (req, res) => {
     try {
       const userData = req.body;
@@ -248,76 +644,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  // Job management routes
+  // Job management routes - send preview=true to get the validation report without creating the job
   app.post('/api/jobs', requireAuth, requireRole(['manager']), upload.single('csv'), async (req: AuthenticatedRequest, res) => {
     try {
       if (!req.file) {
-        return res.status(400).json({ message: 'CSV file is required' });
-      }
-
-      const csvData: any[] = [];
-      const stream = Readable.from(req.file.buffer);
-
-      const validationErrors: string[] = [];
-      let rowIndex = 0;
-      let headerValidated = false;
-
-      await new Promise((resolve, reject) => {
-        stream
-          .pipe(csv())
-          .on('data', (row) => {
-            rowIndex++;
-
-            // Validate headers on first row
-            if (!headerValidated) {
-              headerValidated = true;
-              const headers = Object.keys(row);
-              const expectedHeaders = ['BarCode', 'Product Name', 'Qty', 'CustomName', 'Group'];
-              const requiredHeaders = ['BarCode', 'Product Name', 'Qty', 'CustomName'];
-
-              const missingRequired = requiredHeaders.filter(h => !headers.includes(h));
-              const hasOldCustomerName = headers.includes('CustomerName');
-
-              if (missingRequired.length > 0 || hasOldCustomerName) {
-                let errorMsg = '';
-                if (hasOldCustomerName) {
-                  errorMsg = `CSV header error: Found "CustomerName" but expected "CustomName". Please update your CSV header.`;
-                } else if (missingRequired.length > 0) {
-                  errorMsg = `CSV header error: Missing required columns: ${missingRequired.join(', ')}. Expected: ${expectedHeaders.join(', ')}`;
-                }
-                reject(new Error(errorMsg));
-                return;
-              }
-            }
+        return res.status(400).json({ message: 'Import file is required' });
+      }
 
-            try {
-              const validatedRow = csvRowSchema.parse(row);
-              csvData.push(validatedRow);
-            } catch (error: any) {
-              const errorMsg = `Row ${rowIndex}: ${error.errors?.map((e: any) => e.message).join(', ') || 'Invalid data format'}`;
-              validationErrors.push(errorMsg);
-
-              // Stop processing if too many errors
-              if (validationErrors.length >= 10) {
-                reject(new Error(`CSV validation failed with ${validationErrors.length}+ errors. First errors: ${validationErrors.slice(0, 3).join('; ')}`));
-                return;
-              }
-            }
-          })
-          .on('end', () => {
-            if (validationErrors.length > 0) {
-              reject(new Error(`CSV validation failed with ${validationErrors.length} errors: ${validationErrors.slice(0, 3).join('; ')}`));
-            } else {
-              resolve(undefined);
-            }
-          })
-          .on('error', reject);
-      });
+      const { parsed, mapping, profile, settings } = await readJobImport(req);
 
-      if (csvData.length === 0) {
+      const missingFields = getMissingMappedFields(mapping, parsed.headers);
+      if (missingFields.length > 0) {
         return res.status(400).json({
-          message: 'CSV file is empty or contains no valid data',
-          details: 'Expected columns: BarCode, Product Name, Qty, CustomName, Group (optional)'
+          message: `Column mapping incomplete: choose a column for ${missingFields.map(field => IMPORT_FIELD_LABELS[field]).join(', ')}`,
+          details: `Columns found in file: ${parsed.headers.join(', ')}`,
+          code: 'MAPPING_REQUIRED',
+          headers: parsed.headers,
+          suggestedMapping: mapping
         });
       }
 
@@ -339,122 +682,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Validate Group field requirement
-      if (jobType.requireGroupField) {
-        const hasGroupField = csvData.every(row => row.Group !== undefined && row.Group !== null);
-        if (!hasGroupField) {
-          return res.status(400).json({
-            message: `CSV validation failed: Group field is required for job type "${jobType.name}"`,
-            details: 'This job type requires all products to have a Group value. Please ensure your CSV includes a Group column with values for all rows.'
-          });
-        }
-      }
-
-      // Validate barcode/product name consistency
-      const barcodeProductMap = new Map<string, string>();
-      const consistencyErrors: string[] = [];
-
-      csvData.forEach((row, index) => {
-        const barcode = row.BarCode;
-        const productName = row['Product Name'];
-
-        if (barcodeProductMap.has(barcode)) {
-          const existingProductName = barcodeProductMap.get(barcode)!;
-          if (existingProductName !== productName) {
-            // Case-sensitive exact match failed - report the mismatch
-            consistencyErrors.push(
-              `Row ${index + 1}: Barcode "${barcode}" maps to "${productName}" but was previously mapped to "${existingProductName}"`
-            );
-          }
-        } else {
-          barcodeProductMap.set(barcode, productName);
-        }
+      // Extract and parse box limit
+      const boxLimitStr = req.body.boxLimit;
+      const parsedBoxLimit = boxLimitStr && boxLimitStr.trim() ? parseInt(boxLimitStr.trim()) : NaN;
+      const boxLimit = parsedBoxLimit > 0 ? parsedBoxLimit : null;
+
+      const mapped = applyColumnMapping(parsed.rows, mapping);
+      const { preview, requirements } = buildImportPlan(mapped, parsed.rows.length, {
+        jobTypeName: jobType.name,
+        requireGroupField: !!jobType.requireGroupField,
+        boxLimit
       });
 
-      // Check if Group validation should run
-      const shouldValidateGroup = jobType.requireGroupField || csvData.some(row => row.Group && row.Group.trim() !== '');
-
-      let groupConsistencyErrors: string[] = [];
-      let groupRequiredErrors: string[] = [];
-
-      if (shouldValidateGroup) {
-        // Validate Group field population (if required by job type OR present in CSV)
-        csvData.forEach((row, index) => {
-          if (!row.Group || row.Group.trim() === '') {
-            groupRequiredErrors.push(`Row ${index + 1}: Group field is empty but Group data is required`);
-          }
-        });
-
-        // Validate customer/group consistency
-        const customerGroupMap = new Map<string, string>();
-
-        csvData.forEach((row, index) => {
-          const customerName = row.CustomName;
-          const groupName = row.Group;
-
-          if (groupName && groupName.trim() !== '') {
-            if (customerGroupMap.has(customerName)) {
-              const existingGroupName = customerGroupMap.get(customerName)!;
-              if (existingGroupName !== groupName) {
-                // Case-sensitive exact match failed - report the mismatch
-                groupConsistencyErrors.push(
-                  `Row ${index + 1}: Customer "${customerName}" maps to Group "${groupName}" but was previously mapped to Group "${existingGroupName}"`
-                );
-              }
-            } else {
-              customerGroupMap.set(customerName, groupName);
-            }
-          }
-        });
-      }
-
-      // Combine all validation errors and return comprehensive error response
-      const allErrors: string[] = [];
-
-      if (consistencyErrors.length > 0) {
-        const errorCount = consistencyErrors.length;
-        const displayedErrors = consistencyErrors.slice(0, 10);
-        const moreErrorsText = errorCount > 10 ? ` (and ${errorCount - 10} more)` : '';
-        allErrors.push(`Barcode/Product errors:\nFound ${errorCount} barcode/product name inconsistencies${moreErrorsText}:\n${displayedErrors.join('\n')}`);
-      }
-
-      if (groupRequiredErrors.length > 0) {
-        const errorCount = groupRequiredErrors.length;
-        const displayedErrors = groupRequiredErrors.slice(0, 10);
-        const moreErrorsText = errorCount > 10 ? ` (and ${errorCount - 10} more)` : '';
-        allErrors.push(`Group Required errors:\nFound ${errorCount} missing Group values${moreErrorsText}:\n${displayedErrors.join('\n')}`);
-      }
-
-      if (groupConsistencyErrors.length > 0) {
-        const errorCount = groupConsistencyErrors.length;
-        const displayedErrors = groupConsistencyErrors.slice(0, 10);
-        const moreErrorsText = errorCount > 10 ? ` (and ${errorCount - 10} more)` : '';
-        allErrors.push(`Customer/Group errors:\nFound ${errorCount} customer/group inconsistencies${moreErrorsText}:\n${displayedErrors.join('\n')}`);
+      // Preview mode: report what would happen and create nothing
+      if (req.body.preview === 'true' || req.body.preview === true) {
+        return res.json({ preview });
       }
 
-      // If any errors found, reject the entire CSV upload
-      if (allErrors.length > 0) {
-        const message = allErrors.length === 1
-          ? (groupConsistencyErrors.length > 0 ? 'Customer / Group mismatch - Check your group assignments are consistent' : 'Barcode / Product mismatch - Check your product names are consistent')
-          : 'Multiple validation errors found';
-
+      // Any error rejects the entire upload
+      if (!preview.valid) {
         return res.status(400).json({
-          message,
-          details: allErrors.join('\n\n')
+          ...summarizeImportErrors(preview.errors),
+          preview
         });
       }
 
-      // Extract and parse box limit
-      const boxLimitStr = req.body.boxLimit;
-      const boxLimit = boxLimitStr && boxLimitStr.trim() ? parseInt(boxLimitStr.trim()) : null;
+      const csvData = mapped.rows;
 
       // Create job
       const jobData = {
         name: req.body.name || `Job ${new Date().toISOString().split('T')[0]}`,
         description: req.body.description || '',
         jobTypeId: jobTypeId,
-        totalProducts: csvData.reduce((sum, row) => sum + row.Qty, 0), // Sum all quantities, not just count rows
-        totalCustomers: Array.from(new Set(csvData.map(row => row.CustomName))).length,
+        totalProducts: preview.totals.totalQty, // Sum all quantities, not just count rows
+        totalCustomers: preview.totals.customers,
         csvData,
         boxLimit: boxLimit, // BOX LIMIT FOUNDATION: Add box limit to job data
         createdBy: req.user!.id
@@ -462,89 +723,185 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const job = await storage.createJob(jobData);
 
-      // BOX LIMIT FOUNDATION: Enhanced Box Assignment with optional limit
-      const uniqueCustomers = Array.from(new Set(csvData.map(row => row.CustomName)));
-      const totalCustomers = uniqueCustomers.length;
-
-      // Check for box limit warning (< 80% of customers)
-      let warningMessage = null;
-      if (boxLimit && boxLimit < Math.ceil(totalCustomers * 0.8)) {
-        warningMessage = `Warning: Box limit (${boxLimit}) is less than 80% of unique customers (${totalCustomers}). ${totalCustomers - boxLimit} customers will be unallocated and be assigned to a box when made available.`;
-      }
-
-      const customerToBoxMap = new Map<string, number | null>();
-      let nextBoxNumber = 1;
-
-      // Build customer-to-box mapping: assign boxes up to limit, then NULL
-      uniqueCustomers.forEach((customerName, index) => {
-        if (!boxLimit || nextBoxNumber <= boxLimit) {
-          customerToBoxMap.set(customerName, nextBoxNumber);
-          nextBoxNumber++;
-        } else {
-          // BOX LIMIT: Set to NULL for customers beyond the limit
-          customerToBoxMap.set(customerName, null);
-        }
-      });
-
-      // BARCODE FIX: Normalize barcodes during CSV import to prevent scientific notation issues
-      const normalizeBarcodeFormat = (barCode: string): string => {
-        // Check if the barcode is in scientific notation format
-        if (/^\d+\.\d+[eE][+-]?\d+$/.test(barCode)) {
-          try {
-            // Convert scientific notation to full numeric string
-            const numericValue = parseFloat(barCode);
-            return numericValue.toString();
-          } catch (error) {
-            console.warn(`Failed to normalize barcode during import: ${barCode}`, error);
-            return barCode;
-          }
-        }
-        return barCode;
-      };
+      // BOX LIMIT WARNING: customers beyond the limit are allocated as boxes free up
+      const warningMessage = preview.warnings.find(warning => warning.code === 'BOX_LIMIT_LOW')?.message || null;
 
-      // Create products with BOX LIMIT box assignments (may be NULL)
-      const products = csvData.map((row) => ({
+      // Box requirements come from the plan: barcodes normalised, duplicate rows merged, NULL box beyond the limit
+      const boxRequirements = requirements.map(requirement => ({
         jobId: job.id,
-        barCode: normalizeBarcodeFormat(row.BarCode), // Normalize barcode format
-        productName: row['Product Name'],
-        qty: row.Qty,
-        customerName: row.CustomName,
-        groupName: row.Group || null,
-        boxNumber: customerToBoxMap.get(row.CustomName) || null // May be NULL for unallocated customers
-      }));
-
-      // Create box requirements directly (products table eliminated)
-      const boxRequirements = products.map(product => ({
-        jobId: product.jobId,
-        barCode: product.barCode,
-        productName: product.productName,
-        requiredQty: product.qty,
-        customerName: product.customerName,
-        groupName: product.groupName,
-        boxNumber: product.boxNumber,
+        ...requirement,
         scannedQty: 0,
         isComplete: false
       }));
 
       await storage.createBoxRequirements(boxRequirements);
 
+      // Remember this layout: refresh the profile that was used, or save the mapping under a new name
+      let importProfile = profile;
+      if (profile) {
+        await storage.markImportProfileUsed(profile.id);
+      }
+      const saveProfileName = typeof req.body.saveProfileName === 'string' ? req.body.saveProfileName.trim() : '';
+      if (saveProfileName) {
+        importProfile = await saveImportProfile(saveProfileName, {
+          customerLabel: req.body.saveProfileCustomer?.trim() || null,
+          jobTypeId,
+          columnMapping: mapping,
+          delimiter: settings.delimiter ?? profile?.delimiter ?? null,
+          encoding: settings.encoding ?? profile?.encoding ?? null,
+          sheetName: parsed.format === 'xlsx' ? parsed.sheetName : null,
+          createdBy: req.user!.id
+        });
+      }
+
       res.status(201).json({
         job,
-        products: products,
+        products: boxRequirements,
         productsCount: jobData.totalProducts, // Use total quantity sum, not CSV row count
         customersCount: jobData.totalCustomers,
         warning: warningMessage, // BOX LIMIT WARNING: Send warning if limit < 80% of customers
-        message: 'CSV uploaded and job created successfully'
+        importProfile: importProfile || null,
+        message: 'File uploaded and job created successfully'
       });
     } catch (error: any) {
       console.error('Job creation error:', error);
       res.status(400).json({
-        message: error.message || 'Failed to create job from CSV',
-        details: error.message?.includes('validation') ? 'Please check your CSV format. Expected columns: BarCode, Product Name, Qty, CustomName, Group (optional)' : undefined
+        message: error.message || 'Failed to create job from file',
+        details: error instanceof ImportFileError ? 'Upload a CSV, TSV or XLSX file with a header row and map its columns to BarCode, Product Name, Qty, CustomName and Group (optional)' : undefined
       });
     }
   });
 
+  // Read an uploaded file's columns and a sample so the manager can map them before creating the job
+  app.post('/api/import/inspect', requireAuth, requireRole(['manager']), upload.single('csv'), async (req: AuthenticatedRequest, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: 'File is required' });
+      }
+
+      const { parsed, mapping, profile } = await readJobImport(req);
+
+      // Offer the most recently used profile whose columns all exist in this file, preferring the chosen job type's
+      let matchingProfile = profile || null;
+      if (!matchingProfile) {
+        const fittingProfiles = (await storage.getImportProfiles())
+          .filter(candidate => mappingFitsHeaders(candidate.columnMapping as ImportColumnMapping, parsed.headers));
+        matchingProfile = fittingProfiles.find(candidate => req.body.jobTypeId && candidate.jobTypeId === req.body.jobTypeId)
+          || fittingProfiles[0]
+          || null;
+      }
+
+      res.json({
+        format: parsed.format,
+        headers: parsed.headers,
+        sampleRows: parsed.rows.slice(0, 5),
+        rowCount: parsed.rows.length,
+        delimiter: parsed.delimiter,
+        encoding: parsed.encoding,
+        sheetName: parsed.sheetName,
+        sheetNames: parsed.sheetNames,
+        suggestedMapping: mapping,
+        missingFields: getMissingMappedFields(mapping, parsed.headers),
+        matchingProfile
+      });
+    } catch (error: any) {
+      if (error instanceof ImportFileError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Import inspect error:', error);
+      res.status(500).json({ message: 'Failed to read file' });
+    }
+  });
+
+  // Amend a live job from a delta file - send preview=true to get the change report without applying it
+  app.post('/api/jobs/:id/amend', requireAuth, requireRole(['manager']), upload.single('csv'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const jobId = req.params.id;
+      if (!req.file) {
+        return res.status(400).json({ message: 'Amendment file is required' });
+      }
+
+      const job = await storage.getJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      const jobType = job.jobTypeId ? await storage.getJobTypeById(job.jobTypeId) : undefined;
+
+      const excessAction = req.body.excessAction || 'put_aside';
+      if (!AMENDMENT_EXCESS_ACTIONS.includes(excessAction)) {
+        return res.status(400).json({ message: `excessAction must be one of: ${AMENDMENT_EXCESS_ACTIONS.join(', ')}` });
+      }
+
+      const { parsed, mapping } = await readJobImport(req);
+      const missingFields = getMissingMappedFields(mapping, parsed.headers, REQUIRED_AMENDMENT_FIELDS);
+      if (missingFields.length > 0) {
+        return res.status(400).json({
+          message: `Column mapping incomplete: choose a column for ${missingFields.map(field => IMPORT_FIELD_LABELS[field]).join(', ')}`,
+          details: `Columns found in file: ${parsed.headers.join(', ')}`,
+          code: 'MAPPING_REQUIRED',
+          headers: parsed.headers,
+          suggestedMapping: mapping
+        });
+      }
+
+      const amendment = {
+        rows: applyColumnMapping(parsed.rows, mapping, amendmentRowSchema),
+        totalRows: parsed.rows.length,
+        jobTypeName: jobType?.name || 'Unknown',
+        requireGroupField: !!jobType?.requireGroupField
+      };
+
+      if (req.body.preview === 'true' || req.body.preview === true) {
+        const preview = buildAmendmentPlan(amendment.rows, amendment.totalRows, await storage.getAllBoxRequirementsByJobId(jobId), {
+          jobTypeName: amendment.jobTypeName,
+          requireGroupField: amendment.requireGroupField,
+          boxLimit: job.boxLimit
+        });
+        return res.json({ preview });
+      }
+
+      const result = await storage.amendJob(jobId, amendment, { excessAction, performedBy: req.user!.id });
+      if (!result.preview.valid) {
+        return res.status(400).json({
+          ...summarizeImportErrors(result.preview.errors),
+          preview: result.preview
+        });
+      }
+      if (!result.applied) {
+        return res.status(400).json({ message: 'The file does not change any quantities in this job', preview: result.preview });
+      }
+
+      const { totals } = result.preview;
+      broadcastToJob(jobId, {
+        type: 'job_amended',
+        data: {
+          jobId,
+          addedLines: totals.addedLines,
+          changedLines: totals.changedLines,
+          removedLines: totals.removedLines,
+          excessQty: totals.excessQty,
+          excessAction,
+          performedBy: req.user!.name,
+          timestamp: new Date().toISOString()
+        }
+      });
+
+      console.log(`[Job Amend] ${req.user!.name} amended job ${jobId}: +${totals.addedLines} ~${totals.changedLines} -${totals.removedLines} lines, ${totals.excessQty} excess unit(s) to ${excessAction}`);
+
+      res.json({
+        job: result.job,
+        preview: result.preview,
+        message: 'Job amended successfully'
+      });
+    } catch (error: any) {
+      if (error instanceof ImportFileError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Job amendment error:', error);
+      res.status(500).json({ message: 'Failed to amend job' });
+    }
+  });
+
   // Worker assignment to job
   app.post('/api/jobs/:jobId/assign', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
     try {
@@ -573,34 +930,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Worker is already assigned to this job' });
       }
 
-      // Validate worker limit (max 4 workers)
+      // Any number of workers can be assigned - the job type's allocation strategy partitions the boxes
       const currentAssignments = await storage.getJobAssignmentsWithUsers(jobId);
-      if (currentAssignments.length >= 4) {
-        return res.status(400).json({ message: 'Maximum of 4 workers can be assigned per job' });
-      }
 
-      // Calculate correct worker index based on assignment order
-      const correctWorkerIndex = currentAssignments.length;
+      // Take the lowest free worker index so a replacement worker inherits the vacated slot
+      const correctWorkerIndex = getNextWorkerIndex(currentAssignments.map(assignment => assignment.workerIndex ?? 0));
+
+      const pattern = allocationPattern || assignWorkerPattern(correctWorkerIndex);
 
       // Create assignment with allocation pattern
       const assignment = await storage.createJobAssignment({
         jobId,
         userId,
         assignedBy: req.user!.id,
-        assignedColor: assignedColor || '#3B82F6',
-        allocationPattern: allocationPattern || 'ascending',
+        assignedColor: assignedColor || getWorkerColor(correctWorkerIndex),
+        allocationPattern: pattern,
         workerIndex: correctWorkerIndex, // Use calculated worker index, not frontend provided
         isActive: true,
       });
 
-      console.log(`[Job Assignment] Worker ${userId} assigned to job ${jobId} with ${allocationPattern || 'ascending'} pattern, workerIndex: ${correctWorkerIndex}`);
+      console.log(`[Job Assignment] Worker ${userId} assigned to job ${jobId} with ${pattern} pattern, workerIndex: ${correctWorkerIndex}`);
 
       res.status(201).json({
         assignment: {
           ...assignment,
-          allocationPattern: allocationPattern || 'ascending'
+          allocationPattern: pattern
         },
-        message: `Worker assigned to job with ${allocationPattern || 'ascending'} box allocation pattern`
+        message: `Worker assigned to job with ${pattern} box allocation pattern`
       });
     } catch (error: any) {
       console.error('Job assignment error:', error);
@@ -648,6 +1004,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Recently deleted jobs a manager can still restore
+  app.get('/api/jobs/deleted', requireAuth, requireRole(['manager']), async (req, res) => {
+    try {
+      const deletedJobs = await storage.getDeletedJobs();
+      res.json({ jobs: deletedJobs, retentionDays: JOB_RETENTION_DAYS });
+    } catch (error) {
+      console.error('Failed to fetch deleted jobs:', error);
+      res.status(500).json({ message: 'Failed to fetch deleted jobs' });
+    }
+  });
+
   app.get('/api/jobs/:id', requireAuth, async (req, res) => {
     try {
       const job = await storage.getJobById(req.params.id);
@@ -722,8 +1089,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const sessions = await storage.getScanSessionsByJobId(job.id);
+      const jobType = job.jobTypeId ? await storage.getJobTypeById(job.jobTypeId) : undefined;
 
-      res.json({ job, products, sessions });
+      res.json({ job, products, sessions, requireBoxConfirmation: !!jobType?.requireBoxConfirmation });
     } catch (error) {
       console.error('Failed to fetch job:', error);
       res.status(500).json({ error: 'Failed to fetch job' });
@@ -779,6 +1147,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Job is being locked - terminate worker sessions immediately
         console.log(`[Job Locking] Job ${jobId} is being locked - terminating worker sessions`);
 
+        // Close the sessions server-side too, rather than relying on each browser to stop
+        const closedSessions = await storage.closeActiveScanSessions(jobId);
+        console.log(`[Job Locking] Closed ${closedSessions.length} active scan sessions`);
+
         // Get all assignments for this job to notify assigned workers
         const assignments = await storage.getJobAssignmentsWithUsers(jobId);
 
@@ -847,7 +1219,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Delete all job data (Manager only) - Emergency cleanup endpoint - MOVED UP TO AVOID CONFLICTS
   app.delete('/api/jobs/all-data', requireAuth, requireRole(['manager']), async (req: AuthenticatedRequest, res) => {
     try {
-      const result = await storage.deleteAllJobData();
+      // Unlike single job removal this can't be undone, so the manager must type the confirmation phrase
+      const parsed = deleteAllJobDataSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message || 'Confirmation required',
+          code: 'CONFIRMATION_REQUIRED'
+        });
+      }
+
+      const result = await storage.deleteAllJobData(req.user!.id);
 
       // Broadcast system-wide notification that all jobs have been cleared
       connectedClients.forEach((client) => {
@@ -872,8 +1253,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Remove job (only if 0% complete)
-  app.delete('/api/jobs/:id', requireAuth, requireRole(['manager']), async (req, res) => {
+  // Remove job (only if 0% complete) - soft delete, restorable from Recently Deleted until the purge
+  app.delete('/api/jobs/:id', requireAuth, requireRole(['manager']), async (req: AuthenticatedRequest, res) => {
     try {
       const jobId = req.params.id;
 
@@ -891,10 +1272,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Remove all job data
-      const success = await storage.deleteJob(jobId);
-      if (!success) {
-        return res.status(500).json({ message: 'Failed to remove job' });
+      const deletedJob = await storage.softDeleteJob(jobId, req.user!.id, JOB_RETENTION_DAYS);
+      if (!deletedJob) {
+        return res.status(404).json({ message: 'Job not found' });
       }
 
       // Broadcast job removal to all connected clients
@@ -903,7 +1283,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         data: { jobId }
       });
 
-      res.json({ message: 'Job removed successfully', jobId });
+      res.json({ message: 'Job removed successfully', jobId, purgeAfter: deletedJob.purgeAfter });
     } catch (error: any) {
       console.error('Job removal error:', error);
       res.status(500).json({
@@ -912,6 +1292,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Restore a soft-deleted job with all its history
+  app.post('/api/jobs/:id/restore', requireAuth, requireRole(['manager']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const job = await storage.restoreJob(req.params.id, req.user!.id);
+      if (!job) {
+        return res.status(404).json({ message: 'Deleted job not found. It may have been restored or purged already.' });
+      }
+
+      res.json({ message: 'Job restored successfully', job });
+    } catch (error) {
+      console.error('Job restore error:', error);
+      res.status(500).json({ message: 'Failed to restore job' });
+    }
+  });
+
   // Job assignments
   app.post('/api/jobs/:id/assignments', requireAuth, requireRole(['manager']), async (req: AuthenticatedRequest, res) => {
     try {
@@ -965,6 +1360,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Assignment not found or already inactive' });
       }
 
+      // Managers and supervisors keep their view of the job; workers lose the live feed
+      if (user.role === 'worker') {
+        unsubscribeUserFromJob(userId, jobId);
+      }
+
       res.json({
         message: 'Worker unassigned from job successfully',
         jobId,
@@ -1005,7 +1405,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
 
       // Filter out assignments with null jobs (deleted jobs) and locked jobs (for workers)
-      let validAssignments = assignmentsWithJobs.filter(assignment => assignment.job !== null);
+      let validAssignments = assignmentsWithJobs.filter(assignment => !!assignment.job);
 
       // Workers cannot see locked jobs in their assignments
       if (req.user!.role === 'worker') {
@@ -1062,10 +1462,143 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  async function jobRequiresBoxConfirmation(jobId: string): Promise<boolean> {
+    const job = await storage.getJobById(jobId);
+    const jobType = job?.jobTypeId ? await storage.getJobTypeById(job.jobTypeId) : undefined;
+    return !!jobType?.requireBoxConfirmation;
+  }
+
+  // Live box progress for everyone watching the job after a scan is committed
+  async function broadcastScanUpdate(jobId: string, user: User, scanEvent: ScanEvent, consumedPutAside: boolean) {
+    // Get worker's assigned color from job assignments
+    const workerAssignment = await storage.checkExistingAssignment(jobId, user.id);
+
+    // PHASE 1 OPTIMIZATION: Get complete updated data for WebSocket broadcast
+    // This eliminates the need for clients to make additional API calls
+
+    // Get updated box requirements (replaces products query)
+    const updatedBoxRequirements = await storage.getBoxRequirementsByJobId(jobId);
+
+    // Transform box requirements to product format for UI compatibility
+    const updatedProducts: any[] = []; // Explicitly type
+    const productMap = new Map();
+
+    // PERFORMANCE FIX: Batch fetch all unique workers to eliminate N+1 queries
+    const uniqueWorkerIds = Array.from(new Set(updatedBoxRequirements
+      .map(req => req.lastWorkerUserId)
+      .filter(id => id !== null)));
+    
+    const workerMap = new Map();
+    if (uniqueWorkerIds.length > 0) {
+      const workers = await storage.getUsersByIds(uniqueWorkerIds);
+      workers.forEach(worker => workerMap.set(worker.id, worker));
+    }
+
+    for (const req of updatedBoxRequirements) {
+      const key = `${req.customerName}-${req.boxNumber}`;
+      if (!productMap.has(key)) {
+        const worker = req.lastWorkerUserId ? workerMap.get(req.lastWorkerUserId) : null;
+        productMap.set(key, {
+          id: `${req.customerName}-${req.boxNumber}`,
+          customerName: req.customerName,
+          qty: 0,
+          scannedQty: 0,
+          boxNumber: req.boxNumber,
+          isComplete: true,
+          lastWorkerUserId: req.lastWorkerUserId,
+          lastWorkerColor: req.lastWorkerColor,
+          lastWorkerStaffId: worker?.staffId
+        });
+      }
+    }
+
+    for (const req of updatedBoxRequirements) {
+      const key = `${req.customerName}-${req.boxNumber}`;
+      const product = productMap.get(key);
+      product.qty += req.requiredQty;
+      product.scannedQty += Math.min(req.scannedQty || 0, req.requiredQty);
+      product.isComplete = product.isComplete && req.isComplete;
+
+      if (req.lastWorkerUserId) {
+        product.lastWorkerUserId = req.lastWorkerUserId;
+        product.lastWorkerColor = req.lastWorkerColor;
+      }
+    }
+
+    const transformedProducts = Array.from(productMap.values());
+
+    // Get worker performance data
+    const workerPerformance = await storage.getJobWorkerPerformance(jobId, user.id);
+
+    // PERFORMANCE OPTIMIZATION: Send minimal delta update instead of complete product list
+    const affectedBoxes = transformedProducts.filter(product => 
+      product.boxNumber === scanEvent.boxNumber || product.lastWorkerUserId === user.id
+    );
+
+    // Send optimized update with minimal data payload
+    broadcastToJob(String(jobId), {
+      type: "scan_update",
+      data: {
+        scanEvent: {
+          id: scanEvent.id,
+          barCode: scanEvent.barCode,
+          boxNumber: scanEvent.boxNumber,
+          eventType: scanEvent.eventType,
+          userId: user.id,
+          workerColor: workerAssignment?.assignedColor || '#3B82F6',
+          workerStaffId: user.staffId,
+          consumedPutAside,
+          scanTime: scanEvent.scanTime
+        },
+        // Only send affected boxes instead of all products (reduces payload ~90%)
+        affectedBoxes: affectedBoxes.map(box => ({
+          id: box.id,
+          boxNumber: box.boxNumber,
+          customerName: box.customerName,
+          scannedQty: box.scannedQty,
+          qty: box.qty,
+          isComplete: box.isComplete,
+          lastWorkerUserId: box.lastWorkerUserId,
+          lastWorkerColor: box.lastWorkerColor,
+          lastWorkerStaffId: box.lastWorkerStaffId
+        })),
+        performance: {
+          totalScans: workerPerformance.totalScans,
+          scansPerHour: workerPerformance.scansPerHour,
+          score: workerPerformance.score
+        },
+        boxNumber: scanEvent.boxNumber,
+        jobId: String(jobId)
+      },
+      jobId: String(jobId)
+    });
+  }
+
+  // Put aside stock was reserved for a reassigned box - scanners and supervisors get its pull list
+  function broadcastPutAsidePickList(jobId: string, boxNumber: number, lines: PutAsidePickLine[], user: User) {
+    if (lines.length === 0) return;
+    broadcastToJob(jobId, {
+      type: 'put_aside_pick_list',
+      data: {
+        jobId,
+        boxNumber,
+        customerName: lines[0].customerName,
+        lines,
+        performedBy: user.name,
+        timestamp: new Date().toISOString()
+      }
+    });
+  }
+
   app.post('/api/scan-events', requireAuth, requireRole(['worker']), async (req: AuthenticatedRequest, res) => {
     try {
       const { jobId, sessionId, ...scanEventData } = req.body; // Destructure to get jobId and sessionId
 
+      const rejection = await getJobWriteRejection(req.user!, jobId, sessionId || '');
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
+      }
+
       const eventData = {
         ...scanEventData,
         jobId: jobId,
@@ -1079,162 +1612,275 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // This is handled automatically in storage.createScanEvent() - no need to manually check here
       let insertEvent: ScanEvent = eventData as ScanEvent; // Explicitly type as ScanEvent
 
-      const scanEvent = await storage.createScanEvent(insertEvent);
+      // Box-confirmation job types hold each item until its box label is scanned, one at a time
+      const holdForBoxConfirmation = await jobRequiresBoxConfirmation(jobId);
+
+      // Allocation, quantity increment and job status update happen in one transaction
+      const { allocation, ...scanEvent } = await storage.createScanEvent(insertEvent, { holdForBoxConfirmation });
 
       // Update session statistics
       await storage.updateScanSessionStats(sessionId);
 
-      // Auto-update job status based on scan progress
-      await storage.updateJobStatusBasedOnProgress(jobId);
+      // A pending drop hasn't changed any box yet
+      if (allocation.outcome !== 'pending_drop') {
+        await broadcastScanUpdate(jobId, req.user!, scanEvent, allocation.consumedPutAside);
+      }
 
-      // Get worker's assigned color from job assignments
-      const workerAssignment = await storage.checkExistingAssignment(jobId, req.user!.id);
+      res.json({ scanEvent, allocation });
+    } catch (error) {
+      if (error instanceof PendingDropError) {
+        const { pendingDrop } = error;
+        return res.status(409).json({
+          message: `Scan the label on Box ${pendingDrop.calculatedTargetBox} to confirm ${pendingDrop.productName || pendingDrop.barCode}, or cancel it first`,
+          code: 'DROP_PENDING',
+          pendingDrop
+        });
+      }
+      console.error('Failed to record scan event:', error);
+      res.status(500).json({ message: 'Failed to record scan event' });
+    }
+  });
 
-      // PHASE 1 OPTIMIZATION: Get complete updated data for WebSocket broadcast
-      // This eliminates the need for clients to make additional API calls
+  // BOX DROP CONFIRMATION: the worker's pending drop, so a reloaded scanner can pick it back up
+  app.get('/api/scan-sessions/:sessionId/pending-drop', requireAuth, requireRole(['worker']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const session = await storage.getScanSessionById(req.params.sessionId);
+      if (!session || session.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'Scan session not found', code: 'SESSION_NOT_FOUND' });
+      }
 
-      // Get updated box requirements (replaces products query)
-      const updatedBoxRequirements = await storage.getBoxRequirementsByJobId(jobId);
+      const pendingDrop = await storage.getPendingBoxDrop(session.id);
+      res.json({ pendingDrop: pendingDrop || null });
+    } catch (error) {
+      console.error('Failed to fetch pending drop:', error);
+      res.status(500).json({ message: 'Failed to fetch pending drop' });
+    }
+  });
 
-      // Transform box requirements to product format for UI compatibility
-      const updatedProducts: any[] = []; // Explicitly type
-      const productMap = new Map();
+  // Scan a box label to commit the pending drop. A wrong box is recorded as an error scan
+  // and the drop stays pending; a label that isn't a box label at all is just refused.
+  app.post('/api/scan-events/:eventId/confirm-drop', requireAuth, requireRole(['worker']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const { sessionId, boxLabel } = req.body;
+      const session = sessionId ? await storage.getScanSessionById(sessionId) : undefined;
+      if (!session || session.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'Scan session not found', code: 'SESSION_NOT_FOUND' });
+      }
 
-      // PERFORMANCE FIX: Batch fetch all unique workers to eliminate N+1 queries
-      const uniqueWorkerIds = Array.from(new Set(updatedBoxRequirements
-        .map(req => req.lastWorkerUserId)
-        .filter(id => id !== null)));
-      
-      const workerMap = new Map();
-      if (uniqueWorkerIds.length > 0) {
-        const workers = await storage.getUsersByIds(uniqueWorkerIds);
-        workers.forEach(worker => workerMap.set(worker.id, worker));
+      const rejection = await getJobWriteRejection(req.user!, session.jobId, session.id);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
       }
 
-      for (const req of updatedBoxRequirements) {
-        const key = `${req.customerName}-${req.boxNumber}`;
-        if (!productMap.has(key)) {
-          const worker = req.lastWorkerUserId ? workerMap.get(req.lastWorkerUserId) : null;
-          productMap.set(key, {
-            id: `${req.customerName}-${req.boxNumber}`,
-            customerName: req.customerName,
-            qty: 0,
-            scannedQty: 0,
-            boxNumber: req.boxNumber,
-            isComplete: true,
-            lastWorkerUserId: req.lastWorkerUserId,
-            lastWorkerColor: req.lastWorkerColor,
-            lastWorkerStaffId: worker?.staffId
-          });
-        }
+      const pendingDrop = await storage.getPendingBoxDrop(session.id);
+      if (!pendingDrop || pendingDrop.id !== req.params.eventId) {
+        return res.status(404).json({ message: 'No pending drop to confirm', code: 'NO_PENDING_DROP' });
       }
 
-      for (const req of updatedBoxRequirements) {
-        const key = `${req.customerName}-${req.boxNumber}`;
-        const product = productMap.get(key);
-        product.qty += req.requiredQty;
-        product.scannedQty += Math.min(req.scannedQty || 0, req.requiredQty);
-        product.isComplete = product.isComplete && req.isComplete;
+      const label = typeof boxLabel === 'string' ? parseBoxLabelCode(boxLabel) : null;
+      if (!label) {
+        return res.status(400).json({
+          message: `That is not a box label - scan the label on Box ${pendingDrop.calculatedTargetBox}`,
+          code: 'NOT_A_BOX_LABEL'
+        });
+      }
 
-        if (req.lastWorkerUserId) {
-          product.lastWorkerUserId = req.lastWorkerUserId;
-          product.lastWorkerColor = req.lastWorkerColor;
-        }
+      const confirmation = await storage.confirmBoxDrop(
+        pendingDrop.id,
+        isBoxLabelForJob(label, session.jobId) ? label.boxNumber : null
+      );
+
+      if (!confirmation) {
+        return res.status(404).json({ message: 'No pending drop to confirm', code: 'NO_PENDING_DROP' });
       }
 
-      const transformedProducts = Array.from(productMap.values());
+      await storage.updateScanSessionStats(session.id);
+      if (confirmation.outcome === 'confirmed') {
+        await broadcastScanUpdate(session.jobId, req.user!, confirmation.scanEvent, confirmation.consumedPutAside);
+      }
 
-      // Get worker performance data
-      const workerPerformance = await storage.getJobWorkerPerformance(jobId, req.user!.id);
+      res.json(confirmation);
+    } catch (error) {
+      console.error('Failed to confirm box drop:', error);
+      res.status(500).json({ message: 'Failed to confirm box drop' });
+    }
+  });
 
-      // PERFORMANCE OPTIMIZATION: Send minimal delta update instead of complete product list
-      const affectedBoxes = transformedProducts.filter(product => 
-        product.boxNumber === scanEvent.boxNumber || product.lastWorkerUserId === req.user!.id
-      );
+  // The item goes back on the pile - nothing was committed, so there is nothing to undo
+  app.post('/api/scan-events/:eventId/cancel-drop', requireAuth, requireRole(['worker']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const { sessionId } = req.body;
+      const session = sessionId ? await storage.getScanSessionById(sessionId) : undefined;
+      if (!session || session.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'Scan session not found', code: 'SESSION_NOT_FOUND' });
+      }
 
-      // Send optimized update with minimal data payload
-      broadcastToJob(String(jobId), {
-        type: "scan_update",
-        data: {
-          scanEvent: {
-            id: scanEvent.id,
+      const pendingDrop = await storage.getPendingBoxDrop(session.id);
+      const cancelled = pendingDrop && pendingDrop.id === req.params.eventId
+        ? await storage.cancelBoxDrop(pendingDrop.id)
+        : undefined;
+      if (!cancelled) {
+        return res.status(404).json({ message: 'No pending drop to cancel', code: 'NO_PENDING_DROP' });
+      }
+
+      await storage.updateScanSessionStats(session.id);
+      res.json({ scanEvent: cancelled });
+    } catch (error) {
+      console.error('Failed to cancel box drop:', error);
+      res.status(500).json({ message: 'Failed to cancel box drop' });
+    }
+  });
+
+  // Replay scans a worker captured while offline, in capture order. Each scan carries a
+  // client-generated key, so a batch retried after a dropped response is only applied once.
+  // Target boxes are resolved now, so the results say which scans became put asides or extras.
+  app.post('/api/scan-events/replay', requireAuth, requireRole(['worker']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const parsed = scanReplayRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || 'Invalid scan replay' });
+      }
+
+      const { jobId, scans } = parsed.data;
+      // Paused or locked jobs fail the whole batch - the scans stay queued on the device
+      const rejection = await getJobWriteRejection(req.user!, jobId);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
+      }
+      // Every drop on a box-confirmation job waits for its box label scan, which a replayed scan never had -
+      // including scans queued before the job type turned confirmation on
+      if (await jobRequiresBoxConfirmation(jobId)) {
+        return res.status(409).json({
+          message: 'Box drops on this job must be confirmed with a box label scan - scan these items again',
+          code: 'BOX_CONFIRMATION_REQUIRED'
+        });
+      }
+      const assignment = (await storage.checkExistingAssignment(jobId, req.user!.id))!;
+
+      // The session the scans were captured under may have been closed during the outage
+      const session = await storage.createOrGetActiveScanSession(req.user!.id, jobId);
+
+      const results: ScanReplayResult[] = [];
+      let failed: ScanReplayResponse['failed'] = null;
+
+      for (const scan of scans) {
+        try {
+          const { allocation, ...scanEvent } = await storage.createScanEvent({
+            sessionId: session.id,
+            jobId,
+            barCode: scan.barCode,
+            eventType: 'scan',
+            clientScanId: scan.clientScanId,
+            workerColor: assignment.assignedColor || '#3B82F6'
+          }, { capturedAt: new Date(scan.capturedAt) });
+
+          results.push({
+            clientScanId: scan.clientScanId,
             barCode: scanEvent.barCode,
+            outcome: allocation.outcome,
+            duplicate: allocation.duplicate,
             boxNumber: scanEvent.boxNumber,
-            eventType: scanEvent.eventType,
+            customerName: scanEvent.customerName,
+            productName: scanEvent.productName
+          });
+        } catch (error) {
+          // Later scans stay queued on the device so they are never applied out of order
+          console.error(`Failed to replay scan ${scan.clientScanId}:`, error);
+          failed = { clientScanId: scan.clientScanId, message: error instanceof Error ? error.message : 'Failed to record scan event' };
+          break;
+        }
+      }
+
+      const applied = results.filter(result => !result.duplicate);
+      if (applied.length > 0) {
+        await storage.updateScanSessionStats(session.id);
+
+        broadcastToJob(jobId, {
+          type: 'scans_replayed',
+          data: {
+            jobId,
             userId: req.user!.id,
-            workerColor: workerAssignment?.assignedColor || '#3B82F6',
-            workerStaffId: req.user!.staffId,
-            consumedPutAside: (insertEvent as any).consumedPutAside || false,
-            scanTime: scanEvent.scanTime
-          },
-          // Only send affected boxes instead of all products (reduces payload ~90%)
-          affectedBoxes: affectedBoxes.map(box => ({
-            id: box.id,
-            boxNumber: box.boxNumber,
-            customerName: box.customerName,
-            scannedQty: box.scannedQty,
-            qty: box.qty,
-            isComplete: box.isComplete,
-            lastWorkerUserId: box.lastWorkerUserId,
-            lastWorkerColor: box.lastWorkerColor,
-            lastWorkerStaffId: box.lastWorkerStaffId
-          })),
-          performance: {
-            totalScans: workerPerformance.totalScans,
-            scansPerHour: workerPerformance.scansPerHour,
-            score: workerPerformance.score
-          },
-          boxNumber: scanEvent.boxNumber,
-          jobId: String(jobId)
-        },
-        jobId: String(jobId)
-      });
+            applied: applied.length,
+            putAside: applied.filter(result => result.outcome === 'put_aside').length,
+            extraItems: applied.filter(result => result.outcome === 'extra_item').length,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
 
-      res.json({ scanEvent });
+      const response: ScanReplayResponse = { results, failed };
+      res.json(response);
     } catch (error) {
-      console.error('Failed to record scan event:', error);
-      res.status(500).json({ message: 'Failed to record scan event' });
+      console.error('Failed to replay scan events:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to replay scan events';
+      res.status(400).json({ message: errorMessage });
     }
   });
 
   app.post('/api/scan-events/undo', requireAuth, requireRole(['worker']), async (req: AuthenticatedRequest, res) => {
     try {
-      const { sessionId, count = 1 } = req.body;
+      const { sessionId, scanEventIds, count = 1 } = req.body;
 
-      const undoneEvents = await storage.undoScanEvents(sessionId, count);
-      await storage.updateScanSessionStats(sessionId);
-
-      // Broadcast undo event and update job status
+      // Workers may only undo scans from their own session
       const session = await storage.getScanSessionById(sessionId);
-      if (session) {
-        // Auto-update job status after undo
-        await storage.updateJobStatusBasedOnProgress(session.jobId);
+      if (!session || session.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'Scan session not found', code: 'SESSION_NOT_FOUND' });
+      }
+
+      const rejection = await getJobWriteRejection(req.user!, session.jobId, session.id);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
+      }
+
+      // With enableAutoUndo on, undo is limited to scans made within undoTimeLimit seconds
+      const preferences = await storage.getUserPreferences(req.user!.id);
+      const undoWindowSeconds = preferences?.enableAutoUndo ? preferences.undoTimeLimit : null;
+
+      const { undoneEvents, undoEvents, rejected } = await storage.undoScanEvents(sessionId, {
+        scanEventIds: Array.isArray(scanEventIds) ? scanEventIds : undefined,
+        count: Math.max(1, Math.min(Number(count) || 1, 50)),
+        undoWindowSeconds
+      });
+
+      if (undoneEvents.length === 0 && rejected.length > 0) {
+        return res.status(409).json({
+          message: rejected[0].message,
+          code: rejected[0].code,
+          rejected
+        });
+      }
 
+      await storage.updateScanSessionStats(sessionId);
+
+      if (undoneEvents.length > 0) {
         broadcastToJob(session.jobId, {
           type: 'undo_event',
           data: {
             sessionId,
             undoneEvents,
+            undoEvents,
             userId: req.user!.id
           }
         });
       }
 
-      // Enhanced response with event type information for better UI feedback
-      const undoneEventsWithTypes = undoneEvents.map((event: any) => ({
+      // Return the original events so the UI can show what was reversed
+      const undoneEventsWithTypes = undoneEvents.map((event: ScanEvent) => ({
         ...event,
-        originalEventType: event.eventType === 'undo' ? 'unknown' : event.eventType // Store original type before undo
+        originalEventType: event.eventType
       }));
 
       res.json({
         undoneEvents: undoneEventsWithTypes,
+        rejected,
         summary: {
           totalUndone: undoneEvents.length,
-          scanUndone: undoneEvents.filter((e: any) => e.eventType === 'scan').length,
-          extraItemsUndone: undoneEvents.filter((e: any) => e.eventType === 'extra_item').length
+          scanUndone: undoneEvents.filter((e: ScanEvent) => e.eventType === 'scan').length,
+          extraItemsUndone: undoneEvents.filter((e: ScanEvent) => e.eventType === 'extra_item').length
         }
       });
     } catch (error) {
+      console.error('Failed to undo scan events:', error);
       res.status(500).json({ message: 'Failed to undo scan events' });
     }
   });
@@ -1311,9 +1957,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // CheckCount API Routes
   // Check session management
+  // Start a check on a box, resume the checker's own open check, or take the box over (takeOver: true)
   app.post('/api/check-sessions', requireAuth, requireRole(['manager', 'supervisor', 'worker']), async (req: AuthenticatedRequest, res) => {
     try {
-      const { jobId, boxNumber, totalItemsExpected } = req.body;
+      const parsed = checkSessionStartSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || 'Invalid check session' });
+      }
+      const { jobId, boxNumber, takeOver } = parsed.data;
 
       // Verify user has permission to perform checks
       if (req.user!.role === 'worker') {
@@ -1323,16 +1974,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      const sessionData = {
-        jobId,
-        boxNumber: parseInt(boxNumber),
-        userId: req.user!.id,
-        totalItemsExpected: parseInt(totalItemsExpected),
-        status: 'active'
-      };
+      const rejection = await getJobWriteRejection(req.user!, jobId);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
+      }
 
-      const session = await storage.createCheckSession(sessionData);
-      res.status(201).json({ session });
+      const result = await storage.startCheckSession(jobId, boxNumber, req.user!, takeOver === true);
+      if (result.outcome === 'empty_box') {
+        return res.status(400).json({ message: 'This box has no items to verify', code: 'CHECK_BOX_EMPTY' });
+      }
+      if (result.outcome === 'locked') {
+        return res.status(409).json({
+          message: `Box ${boxNumber} is being checked by ${result.activeCheck.checkerName}`,
+          code: 'CHECK_BOX_LOCKED',
+          activeCheck: result.activeCheck,
+          canTakeOver: result.canTakeOver
+        });
+      }
+
+      broadcastCheckSession(result.session, result.outcome, req.user!.name);
+      res.status(result.outcome === 'started' ? 201 : 200).json(result);
     } catch (error) {
       console.error('Failed to create check session:', error);
       res.status(500).json({ message: 'Failed to create check session' });
@@ -1369,15 +2030,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/check-sessions/:id', requireAuth, async (req, res) => {
+  // Cancel a check - the owner, or a supervisor or manager, can release the box
+  app.patch('/api/check-sessions/:id', requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
       const { status } = req.body;
-      const session = await storage.updateCheckSessionStatus(req.params.id, status);
+      if (status !== 'cancelled') {
+        return res.status(400).json({ message: 'Check sessions can only be cancelled here - finish them with /complete' });
+      }
 
-      if (!session) {
+      const checkSession = await storage.getCheckSessionById(req.params.id);
+      if (!checkSession) {
         return res.status(404).json({ message: 'Check session not found' });
       }
 
+      const rejection = await getJobWriteRejection(req.user!, checkSession.jobId);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
+      }
+      if (req.user!.role === 'worker' && sendCheckSessionOwnershipRejection(res, req.user!, checkSession)) {
+        return;
+      }
+
+      const session = await storage.cancelCheckSession(req.params.id, 'cancelled_by_checker');
+      if (!session) {
+        return res.status(409).json({ message: 'This check is no longer open', code: 'CHECK_SESSION_CLOSED' });
+      }
+
+      broadcastCheckSession(session, 'cancelled', req.user!.name);
       res.json({ session });
     } catch (error) {
       console.error('Failed to update check session:', error);
@@ -1385,51 +2064,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/check-sessions/:id/complete', requireAuth, async (req, res) => {
+  // Sent by the owner's device while the check is open
+  app.post('/api/check-sessions/:id/heartbeat', requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
-      const { discrepanciesFound, applyCorrections, corrections, extraItems } = req.body;
-      const session = await storage.completeCheckSession(
-        req.params.id,
-        new Date(),
-        parseInt(discrepanciesFound) || 0,
-        applyCorrections
-      );
+      const checkSession = await storage.getCheckSessionById(req.params.id);
+      if (!checkSession) {
+        return res.status(404).json({ message: 'Check session not found' });
+      }
+      if (sendCheckSessionOwnershipRejection(res, req.user!, checkSession)) {
+        return;
+      }
 
+      const session = await storage.touchCheckSession(req.params.id);
       if (!session) {
+        return res.status(409).json({ message: 'This check is no longer open', code: 'CHECK_SESSION_CLOSED' });
+      }
+      res.json({ session });
+    } catch (error) {
+      console.error('Failed to record check heartbeat:', error);
+      res.status(500).json({ message: 'Failed to record check heartbeat' });
+    }
+  });
+
+  // The server's comparison of the box with what the check found - the proposal the supervisor accepts or rejects
+  app.get('/api/check-sessions/:id/reconciliation', requireAuth, async (req, res) => {
+    try {
+      const reconciliation = await storage.getCheckReconciliation(req.params.id);
+      if (!reconciliation) {
         return res.status(404).json({ message: 'Check session not found' });
       }
 
-      // Create check results for ALL discrepancies (whether applied or rejected)
-      if (corrections && corrections.length > 0) {
-        if (applyCorrections) {
-          // Apply corrections and update box requirements
-          await storage.applyCheckCorrections(session.jobId, session.boxNumber, corrections, session.userId, (req as AuthenticatedRequest).user!.id);
-        } else {
-          // Create check results for rejected corrections
-          await storage.createRejectedCheckResults(session.id, corrections, (req as AuthenticatedRequest).user!.id);
-        }
-      } else if (discrepanciesFound === 0) {
-        // No discrepancies found - create success check result for this box
-        const boxReqs = await storage.getBoxRequirementsByBoxNumber(session.jobId, session.boxNumber);
-        for (const boxReq of boxReqs) {
-          await storage.createCheckResult({
-            checkSessionId: session.id,
-            boxRequirementId: boxReq.id,
-            finalQty: boxReq.scannedQty || 0,
-            discrepancyNotes: 'No discrepancies found - verified successfully',
-            resolutionAction: 'verified_complete',
-            resolvedBy: (req as AuthenticatedRequest).user!.id
-          });
-        }
+      res.json({ reconciliation });
+    } catch (error) {
+      console.error('Failed to build check reconciliation:', error);
+      res.status(500).json({ message: 'Failed to build check reconciliation' });
+    }
+  });
+
+  // Accept or reject the reconciliation by the version that was reviewed - the server rebuilds it and
+  // applies its own corrections and extras, never quantities sent by the client
+  app.post('/api/check-sessions/:id/complete', requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const parsed = checkResolutionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || 'Invalid check decision' });
+      }
+
+      const checkSession = await storage.getCheckSessionById(req.params.id);
+      if (!checkSession) {
+        return res.status(404).json({ message: 'Check session not found' });
+      }
+
+      const rejection = await getJobWriteRejection(req.user!, checkSession.jobId);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
       }
 
-      // If extra items found, create them as scan events for the job
-      if (extraItems && extraItems.length > 0) {
-        await storage.createExtraItemsFromCheck(session.jobId, extraItems, session.userId);
+      if (checkSession.status === 'active' && checkSession.userId !== req.user!.id) {
+        sendCheckSessionOwnershipRejection(res, req.user!, checkSession);
+        return;
       }
 
+      const resolution = await storage.resolveCheckSession(req.params.id, parsed.data.decision, parsed.data.version, req.user!.id);
+      if (!resolution) {
+        return res.status(404).json({ message: 'Check session not found' });
+      }
+      if (resolution.outcome === 'session_closed') {
+        return res.status(409).json({ message: 'This check has already been completed', code: 'CHECK_SESSION_CLOSED', session: resolution.session });
+      }
+      if (resolution.outcome === 'stale') {
+        return res.status(409).json({
+          message: 'The box or the check changed since this comparison was shown - review the updated comparison',
+          code: 'RECONCILIATION_STALE',
+          reconciliation: resolution.reconciliation
+        });
+      }
+
+      const { session, reconciliation } = resolution;
+      broadcastCheckSession(session, 'completed', req.user!.name);
+
       // Broadcast CheckCount completion with corrections to all monitoring interfaces
-      if (applyCorrections && corrections && corrections.length > 0) {
+      if (session.correctionsApplied) {
         // Get updated job progress for real-time updates
         const updatedProgress = await storage.getJobProgress(session.jobId);
 
@@ -1438,61 +2153,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
           data: {
             sessionId: session.id,
             boxNumber: session.boxNumber,
-            applyCorrections,
-            corrections,
-            extraItems: extraItems || [],
-            extraItemsCount: extraItems ? extraItems.length : 0,
+            applyCorrections: true,
+            corrections: reconciliation.lines.filter(line => line.outcome !== 'match'),
+            extraItems: reconciliation.extraItems,
+            extraItemsCount: reconciliation.extraItems.reduce((sum, item) => sum + item.qty, 0),
             progress: updatedProgress,
             timestamp: new Date().toISOString(),
             userId: session.userId,
-            userName: (req as AuthenticatedRequest).user!.name
+            userName: req.user!.name
           }
         });
       }
 
-      res.json({ session });
+      res.json({ session, reconciliation });
     } catch (error) {
       console.error('Failed to complete check session:', error);
       res.status(500).json({ message: 'Failed to complete check session' });
     }
   });
 
-  // Check events
-  app.post('/api/check-events', requireAuth, async (req, res) => {
+  // Check events - one per unit found; quantities and discrepancy type are worked out server-side.
+  // A barcode the box doesn't need comes back as a wrong_item finding to resolve.
+  app.post('/api/check-events', requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
-      const eventData = req.body;
-      const checkEvent = await storage.createCheckEvent(eventData);
+      const { checkSessionId, barCode } = req.body;
+      if (typeof barCode !== 'string' || !barCode.trim()) {
+        return res.status(400).json({ message: 'barCode is required' });
+      }
+
+      const checkSession = await storage.getCheckSessionById(checkSessionId);
+      if (!checkSession) {
+        return res.status(404).json({ message: 'Check session not found' });
+      }
+
+      const rejection = await getJobWriteRejection(req.user!, checkSession.jobId);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
+      }
+      if (sendCheckSessionOwnershipRejection(res, req.user!, checkSession)) {
+        return;
+      }
 
-      res.status(201).json({ checkEvent });
+      const checkEvent = await storage.recordCheckScan(checkSession, barCode.trim(), req.user!.id);
+      const finding = checkEvent.eventType === 'wrong_item'
+        ? (await storage.getCheckWrongItems(checkSession.id)).find(item => item.checkEventId === checkEvent.id) || null
+        : null;
+
+      res.status(201).json({ checkEvent, finding });
     } catch (error) {
       console.error('Failed to create check event:', error);
       res.status(500).json({ message: 'Failed to create check event' });
     }
   });
 
-  app.get('/api/check-sessions/:id/events', requireAuth, async (req, res) => {
+  // Resolve a wrong item found during a check: move it to its box, record it as an extra, or put it aside
+  app.post('/api/check-events/:id/resolve', requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
-      const events = await storage.getCheckEventsBySessionId(req.params.id);
-      res.json({ events });
+      const parsed = checkWrongItemResolutionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || 'Invalid wrong item resolution' });
+      }
+
+      const checkEvent = await storage.getCheckEventById(req.params.id);
+      const checkSession = checkEvent ? await storage.getCheckSessionById(checkEvent.checkSessionId) : undefined;
+      if (!checkEvent || !checkSession) {
+        return res.status(404).json({ message: 'Wrong item finding not found', code: 'CHECK_FINDING_NOT_FOUND' });
+      }
+
+      const rejection = await getJobWriteRejection(req.user!, checkSession.jobId);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
+      }
+
+      // Findings can still be resolved once the check is finished, but not from under its owner
+      if (checkSession.status === 'active' && checkSession.userId !== req.user!.id) {
+        sendCheckSessionOwnershipRejection(res, req.user!, checkSession);
+        return;
+      }
+
+      const result = await storage.resolveCheckWrongItem(req.params.id, parsed.data.resolution, parsed.data.targetBoxNumber, req.user!.id);
+      if (!result) {
+        return res.status(404).json({ message: 'Wrong item finding not found', code: 'CHECK_FINDING_NOT_FOUND' });
+      }
+      if (result.outcome === 'already_resolved') {
+        return res.status(409).json({ message: 'This item has already been resolved', code: 'CHECK_FINDING_ALREADY_RESOLVED', finding: result.finding });
+      }
+      if (result.outcome === 'no_target_box') {
+        return res.status(400).json({ message: 'No box needs this item - choose a box, or record it as an extra or put it aside', code: 'TARGET_BOX_REQUIRED' });
+      }
+      if (result.outcome === 'box_does_not_need_item') {
+        return res.status(409).json({ message: 'That box does not need this item', code: 'BOX_DOES_NOT_NEED_ITEM' });
+      }
+
+      if (result.allocation) {
+        broadcastToJob(checkSession.jobId, {
+          type: 'put_aside_allocated',
+          data: {
+            allocatedEvent: result.allocation.item,
+            boxNumber: result.allocation.boxNumber,
+            customerName: result.allocation.customerName,
+            performedBy: req.user!.name,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      res.json({ finding: result.finding, allocation: result.allocation });
     } catch (error) {
-      console.error('Failed to fetch check events:', error);
-      res.status(500).json({ error: 'Failed to fetch check events' });
+      console.error('Failed to resolve wrong item:', error);
+      res.status(500).json({ message: 'Failed to resolve wrong item' });
     }
   });
 
-  // Check results
-  app.post('/api/check-results', requireAuth, async (req, res) => {
+  app.get('/api/check-sessions/:id/events', requireAuth, async (req, res) => {
     try {
-      const resultData = req.body;
-      const checkResult = await storage.createCheckResult(resultData);
-
-      res.status(201).json({ checkResult });
+      const events = await storage.getCheckEventsBySessionId(req.params.id);
+      res.json({ events });
     } catch (error) {
-      console.error('Failed to create check result:', error);
-      res.status(500).json({ message: 'Failed to create check result' });
+      console.error('Failed to fetch check events:', error);
+      res.status(500).json({ error: 'Failed to fetch check events' });
     }
   });
 
+  // Check results are only written when a check session is resolved
   app.get('/api/check-sessions/:id/results', requireAuth, async (req, res) => {
     try {
       const results = await storage.getCheckResultsBySessionId(req.params.id);
@@ -1524,6 +2307,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // QA check queue: boxes the job type's sampling rules want verified, with progress
+  app.get('/api/jobs/:id/qa-check-queue', requireAuth, requireRole(['manager', 'supervisor']), async (req, res) => {
+    try {
+      const queue = await storage.getQaCheckQueue(req.params.id);
+      if (!queue) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      res.json({ queue });
+    } catch (error) {
+      console.error('Failed to build QA check queue:', error);
+      res.status(500).json({ message: 'Failed to build QA check queue' });
+    }
+  });
+
+  // Worker analytics endpoints - ?from&to (default: the last 14 days), &bucket=hour|day|week, &jobId, &timezoneOffset
+  const DEFAULT_ANALYTICS_RANGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+  function parseWorkerAnalyticsQuery(query: Request['query']) {
+    const to = typeof query.to === 'string' ? query.to : new Date().toISOString();
+    const from = typeof query.from === 'string' ? query.from : new Date(new Date(to).getTime() - DEFAULT_ANALYTICS_RANGE_MS).toISOString();
+    return workerAnalyticsQuerySchema.safeParse({ ...query, from, to });
+  }
+
+  app.get('/api/analytics/workers', requireAuth, requireRole(['manager', 'supervisor']), async (req, res) => {
+    try {
+      const query = parseWorkerAnalyticsQuery(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.errors[0]?.message || 'Invalid analytics query' });
+      }
+
+      const report = await storage.getWorkerAnalytics(query.data);
+      res.json({ report });
+    } catch (error) {
+      console.error('Failed to generate worker analytics:', error);
+      res.status(500).json({ message: 'Failed to generate worker analytics' });
+    }
+  });
+
+  app.get('/api/analytics/workers/:userId', requireAuth, requireRole(['manager', 'supervisor']), async (req, res) => {
+    try {
+      const query = parseWorkerAnalyticsQuery(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.errors[0]?.message || 'Invalid analytics query' });
+      }
+
+      const worker = await storage.getUserById(req.params.userId);
+      if (!worker) {
+        return res.status(404).json({ message: 'Worker not found' });
+      }
+
+      const report = await storage.getWorkerAnalytics(query.data, worker.id);
+      res.json({ report, worker: report.workers[0] || null });
+    } catch (error) {
+      console.error('Failed to generate worker analytics:', error);
+      res.status(500).json({ message: 'Failed to generate worker analytics' });
+    }
+  });
+
   app.get('/api/jobs/:id/check-sessions', requireAuth, requireRole(['manager', 'supervisor']), async (req, res) => {
     try {
       const sessions = await storage.getCheckSessionsByJobId(req.params.id);
@@ -1534,6 +2375,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Who is checking which box - the check page uses it to offer resume or takeover
+  app.get('/api/jobs/:id/active-checks', requireAuth, async (req, res) => {
+    try {
+      const activeChecks = await storage.getActiveCheckSessions(req.params.id);
+      res.json({ activeChecks });
+    } catch (error) {
+      console.error('Failed to fetch active checks:', error);
+      res.status(500).json({ message: 'Failed to fetch active checks' });
+    }
+  });
+
   app.get('/api/jobs/:id/discrepancy-report', requireAuth, requireRole(['manager', 'supervisor']), async (req, res) => {
     try {
       const report = await storage.getDiscrepancyReport(req.params.id);
@@ -1599,17 +2451,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Each worker's zone/route and current position for the supervisor view
+  app.get('/api/jobs/:id/worker-positions', requireAuth, requireRole(['manager', 'supervisor']), async (req, res) => {
+    try {
+      const { strategy, positions } = await storage.getWorkerPositions(req.params.id);
+      res.json({ strategy, positions });
+    } catch (error) {
+      console.error('Failed to fetch worker positions:', error);
+      res.status(500).json({ message: 'Failed to fetch worker positions' });
+    }
+  });
+
   // BOX LIMIT: Get unallocated customers for Customer Queue
   app.get('/api/jobs/:id/unallocated-customers', requireAuth, requireRole(['manager', 'supervisor']), async (req, res) => {
     try {
-      const unallocatedCustomers = await storage.getUnallocatedCustomers(req.params.id);
-      res.json({ customers: unallocatedCustomers });
+      // In reallocation order, with the job's queue policy
+      const queue = await storage.getUnallocatedCustomers(req.params.id);
+      res.json(queue);
     } catch (error) {
       console.error('Failed to fetch unallocated customers:', error);
       res.status(500).json({ message: 'Failed to fetch unallocated customers' });
     }
   });
 
+  // Customer Queue: change the queue policy and/or the manual order (null order resets to the policy)
+  app.put('/api/jobs/:id/customer-queue', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const parsed = customerQueueUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || 'Invalid customer queue update' });
+      }
+
+      const rejection = await getJobWriteRejection(req.user!, req.params.id);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
+      }
+
+      const queue = await storage.updateCustomerQueue(req.params.id, parsed.data);
+      res.json(queue);
+    } catch (error) {
+      console.error('Failed to update customer queue:', error);
+      res.status(500).json({ message: 'Failed to update customer queue' });
+    }
+  });
+
+  // Customer Queue: pin a waiting customer to the front or flag them as a priority customer
+  app.patch('/api/jobs/:id/customer-queue/:customerName', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const parsed = customerQueueFlagsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || 'Invalid customer queue flags' });
+      }
+
+      const rejection = await getJobWriteRejection(req.user!, req.params.id);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
+      }
+
+      const queue = await storage.setCustomerQueueFlags(req.params.id, req.params.customerName, parsed.data);
+      if (!queue) {
+        return res.status(404).json({ message: 'Customer is not waiting for a box', code: 'CUSTOMER_NOT_IN_QUEUE' });
+      }
+      res.json(queue);
+    } catch (error) {
+      console.error('Failed to update customer queue flags:', error);
+      res.status(500).json({ message: 'Failed to update customer queue flags' });
+    }
+  });
+
   // BOX LIMIT: Get product details for a specific unallocated customer
   app.get('/api/jobs/:id/customers/:customerName/products', requireAuth, requireRole(['manager', 'supervisor']), async (req, res) => {
     try {
@@ -1844,6 +2753,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'User not found' });
       }
 
+      // A PIN change invalidates every existing login for that user
+      if (pin) {
+        await revokeUserSessions(userId, 'pin_changed');
+      }
+
       // Update user preferences if checkBoxEnabled is provided (only for workers)
       if (role === 'worker' && checkBoxEnabled !== undefined) {
         await storage.updateUserPreferences(userId, { checkBoxEnabled });
@@ -1877,6 +2791,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'User not found' });
       }
 
+      await revokeUserSessions(userId, 'deactivated');
+
       res.json({ message: 'User deleted successfully' });
     } catch (error) {
       console.error('Failed to delete user:', error);
@@ -1897,16 +2813,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/job-types', requireAuth, requireRole(['manager']), async (req: AuthenticatedRequest, res) => {
     try {
-      const { name, benchmarkItemsPerHour, requireGroupField } = req.body;
+      const { name, benchmarkItemsPerHour, requireGroupField, allocationStrategy, scoringConfig, qaSamplingConfig, requireBoxConfirmation } = req.body;
 
       if (!name) {
         return res.status(400).json({ message: 'Job type name is required' });
       }
 
+      if (allocationStrategy !== undefined && !isAllocationStrategy(allocationStrategy)) {
+        return res.status(400).json({ message: 'Invalid allocation strategy' });
+      }
+
+      const parsedScoringConfig = scoringConfigOverridesSchema.nullish().safeParse(scoringConfig);
+      if (!parsedScoringConfig.success) {
+        return res.status(400).json({ message: `Invalid scoring config: ${parsedScoringConfig.error.errors[0]?.message}` });
+      }
+
+      const parsedQaSamplingConfig = qaSamplingConfigOverridesSchema.nullish().safeParse(qaSamplingConfig);
+      if (!parsedQaSamplingConfig.success) {
+        return res.status(400).json({ message: `Invalid QA sampling config: ${parsedQaSamplingConfig.error.errors[0]?.message}` });
+      }
+
       const jobTypeData = {
         name,
         benchmarkItemsPerHour: benchmarkItemsPerHour || 71,
         requireGroupField: requireGroupField || false,
+        allocationStrategy: allocationStrategy || 'worker_patterns',
+        scoringConfig: parsedScoringConfig.data || null,
+        qaSamplingConfig: parsedQaSamplingConfig.data || null,
+        requireBoxConfirmation: requireBoxConfirmation === true,
         createdBy: req.user!.id
       };
 
@@ -1923,17 +2857,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put('/api/job-types/:id', requireAuth, requireRole(['manager']), async (req: AuthenticatedRequest, res) => {
     try {
-      const { name, benchmarkItemsPerHour, requireGroupField } = req.body;
+      const { name, benchmarkItemsPerHour, requireGroupField, allocationStrategy, scoringConfig, qaSamplingConfig, requireBoxConfirmation } = req.body;
       const jobTypeId = req.params.id;
 
       if (!name) {
         return res.status(400).json({ message: 'Job type name is required' });
       }
 
+      if (allocationStrategy !== undefined && !isAllocationStrategy(allocationStrategy)) {
+        return res.status(400).json({ message: 'Invalid allocation strategy' });
+      }
+
+      const parsedScoringConfig = scoringConfigOverridesSchema.nullish().safeParse(scoringConfig);
+      if (!parsedScoringConfig.success) {
+        return res.status(400).json({ message: `Invalid scoring config: ${parsedScoringConfig.error.errors[0]?.message}` });
+      }
+
+      const parsedQaSamplingConfig = qaSamplingConfigOverridesSchema.nullish().safeParse(qaSamplingConfig);
+      if (!parsedQaSamplingConfig.success) {
+        return res.status(400).json({ message: `Invalid QA sampling config: ${parsedQaSamplingConfig.error.errors[0]?.message}` });
+      }
+
       const updateData = {
         name,
         benchmarkItemsPerHour: benchmarkItemsPerHour || 71,
-        requireGroupField: requireGroupField || false
+        requireGroupField: requireGroupField || false,
+        ...(allocationStrategy !== undefined ? { allocationStrategy } : {}),
+        ...(scoringConfig !== undefined ? { scoringConfig: parsedScoringConfig.data || null } : {}),
+        ...(qaSamplingConfig !== undefined ? { qaSamplingConfig: parsedQaSamplingConfig.data || null } : {}),
+        ...(requireBoxConfirmation !== undefined ? { requireBoxConfirmation: requireBoxConfirmation === true } : {})
       };
 
       const jobType = await storage.updateJobType(jobTypeId, updateData);
@@ -1967,6 +2919,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Import profile routes - saved column mappings for job uploads
+  const importProfileBodySchema = z.object({
+    name: z.string().trim().min(1, 'Profile name is required'),
+    customerLabel: z.string().trim().nullable().optional(),
+    jobTypeId: z.string().nullable().optional(),
+    columnMapping: importColumnMappingSchema,
+    delimiter: z.string().length(1, 'Delimiter must be a single character').nullable().optional(),
+    encoding: z.enum(IMPORT_ENCODINGS as [ImportEncoding, ...ImportEncoding[]]).nullable().optional(),
+    sheetName: z.string().nullable().optional(),
+  });
+
+  app.get('/api/import-profiles', requireAuth, requireRole(['manager']), async (req, res) => {
+    try {
+      const profiles = await storage.getImportProfiles();
+      res.json({ profiles });
+    } catch (error) {
+      console.error('Failed to fetch import profiles:', error);
+      res.status(500).json({ message: 'Failed to fetch import profiles' });
+    }
+  });
+
+  app.post('/api/import-profiles', requireAuth, requireRole(['manager']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const parsed = importProfileBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || 'Invalid import profile' });
+      }
+
+      const profile = await storage.createImportProfile({
+        ...parsed.data,
+        customerLabel: parsed.data.customerLabel || null,
+        jobTypeId: parsed.data.jobTypeId || null,
+        createdBy: req.user!.id
+      });
+      res.json({ profile });
+    } catch (error: any) {
+      if (error.message?.includes('unique')) {
+        return res.status(400).json({ message: 'Import profile name already exists' });
+      }
+      console.error('Failed to create import profile:', error);
+      res.status(500).json({ message: 'Failed to create import profile' });
+    }
+  });
+
+  app.put('/api/import-profiles/:id', requireAuth, requireRole(['manager']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const parsed = importProfileBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || 'Invalid import profile' });
+      }
+
+      const profile = await storage.updateImportProfile(req.params.id, {
+        ...parsed.data,
+        customerLabel: parsed.data.customerLabel || null,
+        jobTypeId: parsed.data.jobTypeId || null
+      });
+      if (!profile) {
+        return res.status(404).json({ message: 'Import profile not found' });
+      }
+
+      res.json({ profile });
+    } catch (error: any) {
+      if (error.message?.includes('unique')) {
+        return res.status(400).json({ message: 'Import profile name already exists' });
+      }
+      console.error('Failed to update import profile:', error);
+      res.status(500).json({ message: 'Failed to update import profile' });
+    }
+  });
+
+  app.delete('/api/import-profiles/:id', requireAuth, requireRole(['manager']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const deleted = await storage.deleteImportProfile(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: 'Import profile not found' });
+      }
+
+      res.json({ message: 'Import profile deleted successfully' });
+    } catch (error) {
+      console.error('Failed to delete import profile:', error);
+      res.status(500).json({ message: 'Failed to delete import profile' });
+    }
+  });
+
   // ========================
   // BOX EMPTY/TRANSFER ROUTES
   // ========================
@@ -1990,10 +3026,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: 'Insufficient permissions to empty boxes' });
       }
 
-      // Validate job exists
-      const job = await storage.getJobById(jobId);
-      if (!job) {
-        return res.status(404).json({ message: 'Job not found' });
+      // Validate job exists and still accepts changes
+      const rejection = await getJobWriteRejection(req.user!, jobId);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
       }
 
       // Validate box number
@@ -2063,12 +3099,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           products: transformedProducts // NEW: Include products data for instant UI updates
         }
       });
+      broadcastPutAsidePickList(jobId, boxNum, emptyResult.putAsidePickList, req.user!);
 
       res.json({
         success: true,
         message: emptyResult.message,
         history: emptyResult.history,
-        reallocation: emptyResult.reallocation
+        reallocation: emptyResult.reallocation,
+        putAsidePickList: emptyResult.putAsidePickList
       });
     } catch (error: any) {
       console.error('Box empty error:', error);
@@ -2102,10 +3140,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Auto-detect customer's group from database - no manual selection required
 
-      // Validate job exists
-      const job = await storage.getJobById(jobId);
-      if (!job) {
-        return res.status(404).json({ message: 'Job not found' });
+      // Validate job exists and still accepts changes
+      const rejection = await getJobWriteRejection(req.user!, jobId);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
       }
 
       // Validate box number
@@ -2182,12 +3220,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           products: transformedProducts // NEW: Include products data for instant UI updates
         }
       });
+      broadcastPutAsidePickList(jobId, boxNum, transferResult.putAsidePickList, req.user!);
 
       res.json({
         success: true,
         message: transferResult.message,
         history: transferResult.history,
-        reallocation: transferResult.reallocation
+        reallocation: transferResult.reallocation,
+        putAsidePickList: transferResult.putAsidePickList
       });
     } catch (error: any) {
       console.error('Box transfer error:', error);
@@ -2400,11 +3440,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // ============== PUT ASIDE API ENDPOINTS (NEW scan_events approach) ==============
 
-  // Get put aside items for a job
+  // ?status=pending (default), reallocated or all
+  function parsePutAsideStatus(value: unknown): PutAsideStatus | undefined {
+    if (value === 'all') return undefined;
+    return PUT_ASIDE_STATUSES.includes(value as PutAsideStatus) ? value as PutAsideStatus : 'pending';
+  }
+
+  // Get put aside items for a job - individual items plus pending items grouped by barcode
   app.get('/api/jobs/:jobId/put-aside', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
     try {
       const { jobId } = req.params;
-      const items = await storage.getPutAsideItemsForJob(jobId);
+      const items = await storage.getPutAsideItems({ jobId, status: parsePutAsideStatus(req.query.status) });
+      const groups = await storage.getPutAsideItemsForJob(jobId);
+      const pickList = await storage.getPutAsidePickList(jobId);
+      res.json({ items, groups, pickList });
+    } catch (error) {
+      console.error('Failed to fetch put aside items:', error);
+      res.status(500).json({ message: 'Failed to fetch put aside items' });
+    }
+  });
+
+  // Put aside items across every job, for the Put Aside Manager
+  app.get('/api/put-aside/all', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const items = await storage.getPutAsideItems({ status: parsePutAsideStatus(req.query.status) });
       res.json({ items });
     } catch (error) {
       console.error('Failed to fetch put aside items:', error);
@@ -2412,6 +3471,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Reserved put aside items waiting to be pulled into their boxes - same guard as the pull itself
+  app.get('/api/jobs/:jobId/put-aside/pick-list', requireAuth, requireRole(['worker']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const rejection = await getJobWriteRejection(req.user!, req.params.jobId);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
+      }
+
+      const lines = await storage.getPutAsidePickList(req.params.jobId);
+      res.json({ lines });
+    } catch (error) {
+      console.error('Failed to fetch put aside pick list:', error);
+      res.status(500).json({ message: 'Failed to fetch put aside pick list' });
+    }
+  });
+
+  // A worker scanned an item off the pull list - credit the box it was reserved for
+  app.post('/api/jobs/:jobId/put-aside/pull', requireAuth, requireRole(['worker']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const { sessionId, barCode } = req.body;
+      if (!barCode || typeof barCode !== 'string') {
+        return res.status(400).json({ message: 'Barcode is required' });
+      }
+
+      const session = sessionId ? await storage.getScanSessionById(sessionId) : undefined;
+      if (!session || session.userId !== req.user!.id || session.jobId !== req.params.jobId) {
+        return res.status(404).json({ message: 'Scan session not found', code: 'SESSION_NOT_FOUND' });
+      }
+
+      const rejection = await getJobWriteRejection(req.user!, session.jobId, session.id);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
+      }
+
+      const result = await storage.pullPutAsideItem(session.id, barCode.trim());
+      if (result.allocation) {
+        broadcastToJob(session.jobId, {
+          type: 'put_aside_allocated',
+          data: {
+            allocatedEvent: result.allocation.item,
+            boxNumber: result.allocation.boxNumber,
+            customerName: result.allocation.customerName,
+            performedBy: req.user!.name,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Failed to pull put aside item:', error);
+      res.status(500).json({ message: 'Failed to pull put aside item' });
+    }
+  });
+
   // Get put aside count for a job
   app.get('/api/jobs/:jobId/put-aside/count', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
     try {
@@ -2442,28 +3556,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Mark put aside item as allocated to a box
-  app.post('/api/put-aside/:eventId/allocate', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
+  // Boxes whose current customer needs a put aside item
+  app.get('/api/put-aside/:itemId/suggestions', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = await storage.getPutAsideItemById(req.params.itemId);
+      if (!item) {
+        return res.status(404).json({ message: 'Put aside item not found', code: 'PUT_ASIDE_NOT_FOUND' });
+      }
+
+      const suggestions = item.allocatedAt ? [] : await storage.getPutAsideSuggestions(item.id);
+      res.json({ suggestions });
+    } catch (error) {
+      console.error('Failed to fetch put aside suggestions:', error);
+      res.status(500).json({ message: 'Failed to fetch put aside suggestions' });
+    }
+  });
+
+  // Allocate a put aside item to a box, crediting that box's requirement for the barcode
+  app.post('/api/put-aside/:itemId/reallocate', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
     try {
-      const { eventId } = req.params;
-      const { boxNumber } = req.body;
+      const targetBoxNumber = parseInt(req.body.targetBoxNumber);
+      if (isNaN(targetBoxNumber) || targetBoxNumber <= 0) {
+        return res.status(400).json({ message: 'A valid target box number is required' });
+      }
 
-      if (!boxNumber) {
-        return res.status(400).json({ message: 'Box number is required' });
+      const item = await storage.getPutAsideItemById(req.params.itemId);
+      if (!item?.jobId) {
+        return res.status(404).json({ message: 'Put aside item not found', code: 'PUT_ASIDE_NOT_FOUND' });
+      }
+      if (item.allocatedAt) {
+        return res.status(409).json({
+          message: `This item was already allocated to box ${item.allocatedToBox}`,
+          code: 'PUT_ASIDE_ALREADY_ALLOCATED'
+        });
       }
 
-      const allocatedEvent = await storage.markPutAsideAllocated(eventId, parseInt(boxNumber));
+      const rejection = await getJobWriteRejection(req.user!, item.jobId);
+      if (rejection) {
+        return sendJobWriteRejection(res, rejection);
+      }
 
-      if (!allocatedEvent) {
-        return res.status(404).json({ message: 'Put aside item not found' });
+      const allocation = await storage.allocatePutAsideItem(item.id, targetBoxNumber, req.user!.id);
+      if (!allocation) {
+        return res.status(409).json({
+          message: `Box ${targetBoxNumber} doesn't need ${item.productName || item.barCode}`,
+          code: 'BOX_DOES_NOT_NEED_ITEM'
+        });
       }
 
-      // Broadcast allocation event
-      broadcastToJob(allocatedEvent.jobId!, {
+      broadcastToJob(item.jobId, {
         type: 'put_aside_allocated',
         data: {
-          allocatedEvent,
-          boxNumber: parseInt(boxNumber),
+          allocatedEvent: allocation.item,
+          boxNumber: allocation.boxNumber,
+          customerName: allocation.customerName,
           performedBy: req.user!.name,
           timestamp: new Date().toISOString()
         }
@@ -2471,8 +3617,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({
         success: true,
-        allocatedEvent,
-        message: `Put aside item allocated to box ${boxNumber}`
+        allocation,
+        message: `Put aside item allocated to box ${allocation.boxNumber} (${allocation.customerName})`
       });
     } catch (error) {
       console.error('Failed to reallocate put aside item:', error);
@@ -2504,56 +3650,239 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Export group data to Excel
+  // Spreadsheet exports - ?format=xlsx (default) or csv. A CSV holds one sheet, so the
+  // full job export takes ?sheet=lines|extras|put_aside|check_results in CSV format.
+  function getLinesSheet(jobId: string, filter: ExportLineFilter): ExportSheet<ExportLine> {
+    return {
+      key: 'lines',
+      name: 'Lines',
+      columns: LINE_COLUMNS,
+      batches: () => pageBatches((offset, limit) => storage.getExportLines(jobId, filter, offset, limit)),
+    };
+  }
+
+  async function sendJobExport(
+    req: AuthenticatedRequest,
+    res: Response,
+    scope: ExportScope,
+    scopeName: string | null,
+    getSheets: (job: Job) => Promise<ExportSheet[] | null>
+  ) {
+    const format = req.query.format === undefined ? 'xlsx' : req.query.format;
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return res.status(400).json({ message: `Invalid export format - expected one of ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    try {
+      const job = await storage.getJobById(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+
+      const sheets = await getSheets(job);
+      if (!sheets) {
+        return res.status(404).json({ message: `Nothing to export for this ${scope}` });
+      }
+
+      const sheetKey = format === 'csv' ? sheets[0].key : undefined;
+      await sendExport(res, {
+        filename: buildExportFilename(scope, job.name, scopeName, format as ExportFormat, sheetKey),
+        format: format as ExportFormat,
+        sheets,
+      });
+    } catch (error) {
+      console.error(`Failed to export ${scope}:`, error);
+      if (res.headersSent) {
+        // Part of the file is already out - abort so the download fails rather than looking complete
+        res.destroy(error as Error);
+      } else {
+        res.status(500).json({ message: `Failed to export ${scope}` });
+      }
+    }
+  }
+
   app.get('/api/jobs/:jobId/groups/:groupName/export', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
+    const { jobId, groupName } = req.params;
+    await sendJobExport(req, res, 'group', groupName, async () => {
+      // The group's current customers only - archived lines still carry their old box numbers
+      const [line] = await storage.getExportLines(jobId, { groupName, activeOnly: true }, 0, 1);
+      return line ? [getLinesSheet(jobId, { groupName, activeOnly: true })] : null;
+    });
+  });
+
+  app.get('/api/jobs/:jobId/boxes/:boxNumber/export', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
+    const { jobId } = req.params;
+    const boxNumber = parseInt(req.params.boxNumber);
+    if (isNaN(boxNumber)) {
+      return res.status(400).json({ message: 'Invalid box number' });
+    }
+
+    await sendJobExport(req, res, 'box', `Box ${boxNumber}`, async () => {
+      // The box's current customer only - an emptied or transferred customer's lines share its number
+      const [line] = await storage.getExportLines(jobId, { boxNumber, activeOnly: true }, 0, 1);
+      return line ? [getLinesSheet(jobId, { boxNumber, activeOnly: true })] : null;
+    });
+  });
+
+  app.get('/api/jobs/:jobId/customers/:customerName/export', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
+    const { jobId, customerName } = req.params;
+    await sendJobExport(req, res, 'customer', customerName, async () => {
+      const [line] = await storage.getExportLines(jobId, { customerName }, 0, 1);
+      return line ? [getLinesSheet(jobId, { customerName })] : null;
+    });
+  });
+
+  app.get('/api/jobs/:jobId/export', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
+    const { jobId } = req.params;
+    const sheet = req.query.sheet === undefined ? 'lines' : req.query.sheet;
+    if (!EXPORT_SHEET_KEYS.includes(sheet as ExportSheetKey)) {
+      return res.status(400).json({ message: `Invalid sheet - expected one of ${EXPORT_SHEET_KEYS.join(', ')}` });
+    }
+
+    await sendJobExport(req, res, 'job', null, async () => {
+      const sheets: ExportSheet[] = [
+        getLinesSheet(jobId, {}),
+        { key: 'extras', name: 'Extra Items', columns: EXTRA_ITEM_COLUMNS, batches: () => singleBatch(() => storage.getExportExtraItems(jobId)) },
+        { key: 'put_aside', name: 'Put Aside', columns: PUT_ASIDE_COLUMNS, batches: () => singleBatch(() => storage.getExportPutAsideItems(jobId)) },
+        { key: 'check_results', name: 'Check Results', columns: CHECK_RESULT_COLUMNS, batches: () => singleBatch(() => storage.getExportCheckResults(jobId)) },
+      ];
+      // XLSX gets every sheet; CSV just the one asked for
+      return req.query.format === 'csv' ? sheets.filter((candidate) => candidate.key === sheet) : sheets;
+    });
+  });
+
+  // Box labels and packing slips (PDF). Labels take ?layout=thermal|sheet and ?symbology=code128|qr.
+  function parseLabelOptions(req: AuthenticatedRequest): { layout: LabelLayout; symbology: LabelSymbology } | string {
+    const layout = req.query.layout === undefined ? 'thermal' : req.query.layout;
+    const symbology = req.query.symbology === undefined ? 'code128' : req.query.symbology;
+    if (!LABEL_LAYOUTS.includes(layout as LabelLayout)) {
+      return `Invalid label layout - expected one of ${LABEL_LAYOUTS.join(', ')}`;
+    }
+    if (!LABEL_SYMBOLOGIES.includes(symbology as LabelSymbology)) {
+      return `Invalid barcode type - expected one of ${LABEL_SYMBOLOGIES.join(', ')}`;
+    }
+    return { layout: layout as LabelLayout, symbology: symbology as LabelSymbology };
+  }
+
+  function toPackingSlipLines(lines: BoxRequirement[]): PackingSlipLine[] {
+    return lines.map((line) => ({
+      barCode: line.barCode,
+      productName: line.productName,
+      requiredQty: line.requiredQty,
+      scannedQty: line.scannedQty || 0,
+    }));
+  }
+
+  function handlePdfError(res: Response, error: unknown, description: string) {
+    console.error(`Failed to print ${description}:`, error);
+    if (res.headersSent) {
+      res.destroy(error as Error);
+    } else {
+      res.status(500).json({ message: `Failed to print ${description}` });
+    }
+  }
+
+  async function sendJobLabels(req: AuthenticatedRequest, res: Response, boxNumbers: number[] | undefined, scopeName: string | null) {
+    const options = parseLabelOptions(req);
+    if (typeof options === 'string') {
+      return res.status(400).json({ message: options });
+    }
+
     try {
-      const { jobId, groupName } = req.params;
+      const job = await storage.getJobById(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
 
-      // Get all customers in the group
-      const customers = await storage.getGroupCustomers(jobId, groupName);
+      const labels = await storage.getBoxLabelData(job.id, boxNumbers);
+      if (labels.length === 0) {
+        return res.status(404).json({ message: 'No allocated boxes to label' });
+      }
+
+      await sendBoxLabelsPdf(
+        res,
+        buildPdfFilename('labels', job.name, scopeName),
+        labels.map((label) => ({ ...label, jobId: job.id, jobName: job.name })),
+        options
+      );
+    } catch (error) {
+      handlePdfError(res, error, 'box labels');
+    }
+  }
 
-      if (customers.length === 0) {
-        return res.status(404).json({ message: 'No customers found in this group' });
+  // All allocated boxes, or ?boxes=1,2,5
+  app.get('/api/jobs/:jobId/labels', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
+    let boxNumbers: number[] | undefined;
+    if (typeof req.query.boxes === 'string' && req.query.boxes.trim() !== '') {
+      boxNumbers = req.query.boxes.split(',').map((value) => parseInt(value.trim()));
+      if (boxNumbers.some((boxNumber) => isNaN(boxNumber))) {
+        return res.status(400).json({ message: 'Invalid box numbers - expected a comma-separated list' });
       }
+    }
+    await sendJobLabels(req, res, boxNumbers, null);
+  });
 
-      // Group customers by CustomName
-      const groupedCustomers = customers.reduce((acc: any, customer) => {
-        const key = customer.customerName;
-        if (!acc[key]) {
-          acc[key] = [];
-        }
-        acc[key].push({
-          BarCode: customer.barCode,
-          ProductName: customer.productName,
-          Qty: customer.requiredQty,
-          ScannedQty: customer.scannedQty || 0,
-          BoxNumber: customer.boxNumber
-        });
-        return acc;
-      }, {});
-
-      // Format for Excel export
-      const exportData = Object.entries(groupedCustomers).map(([customName, items]) => ({
-        GroupName: groupName,
-        CustomName: customName,
-        Items: items,
-        TotalQty: (items as any[]).reduce((sum, item) => sum + item.Qty, 0),
-        TotalScanned: (items as any[]).reduce((sum, item) => sum + item.ScannedQty, 0)
-      }));
+  app.get('/api/jobs/:jobId/boxes/:boxNumber/label', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
+    const boxNumber = parseInt(req.params.boxNumber);
+    if (isNaN(boxNumber)) {
+      return res.status(400).json({ message: 'Invalid box number' });
+    }
+    await sendJobLabels(req, res, [boxNumber], `Box ${boxNumber}`);
+  });
 
-      res.json({
-        groupName,
-        exportData,
-        summary: {
-          totalCustomers: Object.keys(groupedCustomers).length,
-          totalItems: customers.length,
-          totalQty: customers.reduce((sum, c) => sum + c.requiredQty, 0),
-          totalScanned: customers.reduce((sum, c) => sum + (c.scannedQty || 0), 0)
-        }
-      });
+  app.get('/api/jobs/:jobId/customers/:customerName/packing-slip', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
+    const { jobId, customerName } = req.params;
+    try {
+      const job = await storage.getJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+
+      const lines = await storage.getCustomerPackingLines(jobId, customerName);
+      if (lines.length === 0) {
+        return res.status(404).json({ message: 'Customer not found in this job' });
+      }
+
+      await sendPackingSlipsPdf(res, buildPdfFilename('packing_slip', job.name, customerName), [{
+        jobId,
+        jobName: job.name,
+        customerName,
+        groupName: lines[0].groupName,
+        boxNumber: lines[0].boxNumber,
+        lines: toPackingSlipLines(lines),
+        source: { type: 'live' },
+      }]);
+    } catch (error) {
+      handlePdfError(res, error, 'packing slip');
+    }
+  });
+
+  // Reprint from the snapshot taken when the box was emptied or transferred
+  app.get('/api/jobs/:jobId/box-history/:historyId/packing-slip', requireAuth, requireRole(['manager', 'supervisor']), async (req: AuthenticatedRequest, res) => {
+    const { jobId, historyId } = req.params;
+    try {
+      const job = await storage.getJobById(jobId);
+      const history = await storage.getBoxHistoryById(historyId);
+      if (!job || !history || history.jobId !== jobId) {
+        return res.status(404).json({ message: 'Box history not found' });
+      }
+
+      const items: BoxRequirement[] = (history.boxSnapshot as { items?: BoxRequirement[] } | null)?.items || [];
+      if (items.length === 0) {
+        return res.status(404).json({ message: 'No box contents were recorded for this action' });
+      }
+
+      await sendPackingSlipsPdf(res, buildPdfFilename('packing_slip', job.name, items[0].customerName), [{
+        jobId,
+        jobName: job.name,
+        customerName: items[0].customerName,
+        groupName: items[0].groupName,
+        boxNumber: history.boxNumber,
+        lines: toPackingSlipLines(items),
+        source: { type: 'history', action: history.action, at: history.timestamp, targetGroup: history.targetGroup },
+      }]);
     } catch (error) {
-      console.error('Failed to export group data:', error);
-      res.status(500).json({ message: 'Failed to export group data' });
+      handlePdfError(res, error, 'packing slip');
     }
   });
 
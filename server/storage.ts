@@ -1,5 +1,6 @@
 import { 
   users, 
+  authSessions,
   jobs, 
   boxRequirements,
   scanSessions, 
@@ -8,6 +9,7 @@ import {
   userPreferences,
   roleDefaults,
   jobTypes,
+  importProfiles,
   workerBoxAssignments,
   // PHASE 4: sessionSnapshots removed
   jobArchives,
@@ -18,9 +20,12 @@ import {
   checkResults,
   // Box Empty/Transfer tables
   boxHistory,
+  auditLog,
   // putAsideItems, // REMOVED - Functionality migrated to scanEvents
   type User, 
   type InsertUser,
+  type AuthSession,
+  type InsertAuthSession,
   type Job,
   type InsertJob,
 
@@ -38,6 +43,8 @@ import {
   type InsertRoleDefaults,
   type JobType,
   type InsertJobType,
+  type ImportProfile,
+  type InsertImportProfile,
   type WorkerBoxAssignment,
   type InsertWorkerBoxAssignment,
   // Archive types
@@ -55,11 +62,92 @@ import {
   // Box Empty/Transfer types
   type BoxHistory,
   type InsertBoxHistory,
+  type ScanAllocation,
+  type BoxDropConfirmation,
+  type PutAsideStatus,
+  type PutAsideItemDetail,
+  type PutAsideGroup,
+  type PutAsideSuggestion,
+  type PutAsideAllocation,
+  type PutAsideAllocationSource,
+  type PutAsidePickLine,
+  type PutAsidePullResult,
+  type WorkerPosition,
+  type UndoRejection,
+  type UndoRejectionCode,
+  type AmendmentExcessAction,
+  type AmendmentRow,
+  type CsvRow,
+  type JobAmendmentPreview,
+  type WorkerAnalyticsQuery,
+  type WorkerAnalyticsReport,
+  type CheckReconciliation,
+  type CheckResolution,
+  type CheckResolutionDecision,
+  type CheckSessionStart,
+  type CheckSessionCancelReason,
+  type ActiveCheckSession,
+  CHECK_SESSION_HANDOVER_IDLE_MS,
+  CHECK_SESSION_ABANDON_MS,
+  type CheckWrongItemFinding,
+  type CheckWrongItemResolution,
+  type CheckWrongItemResolutionResult,
+  type CustomerQueue,
+  type CustomerQueueUpdate,
+  type CustomerQueueFlags,
+  type QaCheckQueue,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  type DeletedJob,
   // type PutAsideItem, // REMOVED
   // type InsertPutAsideItem // REMOVED
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, ne, desc, sql, inArray, isNotNull, isNull } from "drizzle-orm";
+import { calculatePerformance, resolveScoringConfig, type ScoringConfig } from "@shared/scoring";
+import { buildAmendmentPlan, type MappedImportRows } from "./job-import";
+import { buildWorkerAnalyticsReport, type AnalyticsCheckedLine } from "./worker-analytics";
+import type { ExportCheckResult, ExportExtraItem, ExportLine, ExportPutAsideItem } from "./job-export";
+import type { BoxLabelData } from "./box-labels";
+import { buildCheckReconciliation, describeCheckLine, planWrongItemMove } from "./check-reconciliation";
+import { resolveQaSamplingConfig } from "@shared/qa-sampling";
+import { buildQaCheckQueue, type QaPackedBox, type QaWorkerRecord } from "./qa-check-queue";
+import {
+  sortCustomerQueue,
+  getCsvCustomerSequence,
+  isCustomerQueuePolicy,
+  DEFAULT_CUSTOMER_QUEUE_POLICY,
+  type CustomerQueueCandidate,
+} from "./customer-queue";
+import {
+  selectTargetBox,
+  getWorkerSequence,
+  describeWorkerAllocation,
+  isAllocationStrategy,
+  DEFAULT_ALLOCATION_STRATEGY,
+  type AllocationStrategy,
+  type WorkerAllocationPattern,
+} from "../lib/worker-allocation";
+import { eq, and, or, ne, desc, sql, inArray, isNotNull, isNull, gte, lt, lte } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+// A scan whose chosen box is filled underneath it re-selects at most this many times
+const MAX_SCAN_ALLOCATION_ATTEMPTS = 3;
+
+// A validated delta file for amendJob, planned against the job's requirements under the job lock
+export interface JobAmendmentInput {
+  rows: MappedImportRows<AmendmentRow>;
+  totalRows: number;
+  jobTypeName: string;
+  requireGroupField: boolean;
+}
+
+// Box-confirmation scans are held one at a time - thrown when the session already has a drop waiting
+export class PendingDropError extends Error {
+  constructor(public readonly pendingDrop: ScanEvent) {
+    super('A box drop is waiting for confirmation');
+    this.name = 'PendingDropError';
+  }
+}
 
 /**
  * Utility function to normalize barcodes by converting scientific notation to full numeric strings
@@ -81,6 +169,27 @@ function normalizeBarcodeFormat(barCode: string): string {
   return barCode; // Return as-is if not scientific notation
 }
 
+function getScanOutcome(event: ScanEvent): ScanAllocation['outcome'] {
+  return event.eventType === 'scan' && event.boxNumber ? 'allocated'
+    : event.eventType === 'put_aside' ? 'put_aside'
+    : event.eventType === 'extra_item' ? 'extra_item'
+    : event.eventType === 'pending_drop' ? 'pending_drop'
+    : 'error';
+}
+
+// Appended to the empty/transfer message when Put Aside stock was reserved for the box's new customer
+function formatPutAsidePickList(lines: PutAsidePickLine[]): string {
+  const qty = lines.reduce((sum, line) => sum + line.qty, 0);
+  return qty > 0 ? ` | ${qty} put aside item${qty === 1 ? '' : 's'} to pull` : '';
+}
+
+export interface ExportLineFilter {
+  groupName?: string;
+  boxNumber?: number;
+  customerName?: string;
+  activeOnly?: boolean; // Leave out customers archived by Empty or Transfer
+}
+
 export interface IStorage {
   // User methods
   getUserById(id: string): Promise<User | undefined>;
@@ -93,6 +202,14 @@ export interface IStorage {
   getUsersByIds(ids: string[]): Promise<User[]>;
   getAllUsersWithPreferences(): Promise<(User & { preferences?: any })[]>;
 
+  // Auth session methods
+  createAuthSession(session: InsertAuthSession): Promise<AuthSession>;
+  getAuthSessionById(id: string): Promise<AuthSession | undefined>;
+  getAuthSessionByRefreshHash(refreshTokenHash: string): Promise<AuthSession | undefined>;
+  rotateAuthSessionRefreshToken(id: string, currentHash: string, nextHash: string): Promise<AuthSession | undefined>;
+  revokeAuthSession(id: string, reason: string): Promise<void>;
+  revokeUserAuthSessions(userId: string, reason: string): Promise<string[]>;
+
   // Job methods
   createJob(job: InsertJob): Promise<Job>;
   getJobById(id: string): Promise<Job | undefined>;
@@ -106,6 +223,10 @@ export interface IStorage {
   getJobs(): Promise<{ jobs: any[] }>;
   jobHasScanEvents(jobId: string): Promise<boolean>;
   deleteJob(jobId: string): Promise<boolean>;
+  softDeleteJob(jobId: string, deletedBy: string, retentionDays: number): Promise<Job | undefined>;
+  restoreJob(jobId: string, restoredBy: string): Promise<Job | undefined>;
+  getDeletedJobs(): Promise<DeletedJob[]>;
+  purgeExpiredJobs(): Promise<Job[]>;
   updateJobStatusBasedOnProgress(jobId: string): Promise<void>;
 
   // Products methods removed - functionality moved to box_requirements system
@@ -113,12 +234,16 @@ export interface IStorage {
   // Box requirement methods - NEW SCANNING LOGIC
   createBoxRequirements(requirements: InsertBoxRequirement[]): Promise<BoxRequirement[]>;
   getBoxRequirementsByJobId(jobId: string): Promise<BoxRequirement[]>;
+  getAllBoxRequirementsByJobId(jobId: string): Promise<BoxRequirement[]>;
+  amendJob(jobId: string, amendment: JobAmendmentInput, options: { excessAction: AmendmentExcessAction; performedBy: string }): Promise<{ preview: JobAmendmentPreview; applied: boolean; job?: Job }>;
   getBoxRequirementsByBoxNumber(jobId: string, boxNumber: number): Promise<BoxRequirement[]>;
   findNextTargetBox(barCode: string, jobId: string, workerId: string): Promise<number | null>;
-  updateBoxRequirementScannedQty(boxNumber: number, barCode: string, jobId: string, workerId: string, workerColor: string): Promise<BoxRequirement | undefined>;
+  updateBoxRequirementScannedQty(boxNumber: number, barCode: string, jobId: string, workerId: string, workerColor: string): Promise<(BoxRequirement & { previousLastWorkerUserId: string | null; previousLastWorkerColor: string | null }) | undefined>;
 
   // BOX LIMIT: Unallocated customers methods
-  getUnallocatedCustomers(jobId: string): Promise<{ customerName: string; totalItems: number; productCount: number; groupName: string | null; }[]>;
+  getUnallocatedCustomers(jobId: string): Promise<CustomerQueue>;
+  updateCustomerQueue(jobId: string, update: CustomerQueueUpdate): Promise<CustomerQueue>;
+  setCustomerQueueFlags(jobId: string, customerName: string, flags: CustomerQueueFlags): Promise<CustomerQueue | null>;
   // Migration method removed - not needed after full migration completed
 
   // Scan session methods
@@ -128,13 +253,19 @@ export interface IStorage {
   createOrGetActiveScanSession(userId: string, jobId: string): Promise<ScanSession>;
   getScanSessionsByJobId(jobId: string): Promise<ScanSession[]>;
   updateScanSessionStatus(id: string, status: string): Promise<ScanSession | undefined>;
+  closeActiveScanSessions(jobId: string, userId?: string): Promise<ScanSession[]>;
   updateScanSessionStats(sessionId: string): Promise<void>;
 
   // Scan event methods  
-  createScanEvent(event: InsertScanEvent): Promise<ScanEvent>;
+  createScanEvent(event: InsertScanEvent, options?: { capturedAt?: Date; holdForBoxConfirmation?: boolean }): Promise<ScanEvent & { allocation: ScanAllocation }>;
+  getPendingBoxDrop(sessionId: string): Promise<ScanEvent | undefined>;
+  confirmBoxDrop(eventId: string, scannedBoxNumber: number | null): Promise<BoxDropConfirmation | undefined>;
+  cancelBoxDrop(eventId: string): Promise<ScanEvent | undefined>;
   getScanEventsBySessionId(sessionId: string): Promise<ScanEvent[]>;
-  undoScanEvents(sessionId: string, count: number): Promise<ScanEvent[]>;
+  undoScanEvents(sessionId: string, options: { scanEventIds?: string[]; count?: number; undoWindowSeconds?: number | null }): Promise<{ undoneEvents: ScanEvent[]; undoEvents: ScanEvent[]; rejected: UndoRejection[] }>;
   getSessionPerformance(sessionId: string): Promise<any>;
+  getScoringConfigForJob(jobId: string): Promise<ScoringConfig>;
+  getJobWorkerPerformance(jobId: string, userId: string, config?: ScoringConfig): Promise<any>;
 
   // Job assignment methods
   createJobAssignment(assignment: InsertJobAssignment): Promise<JobAssignment>;
@@ -156,11 +287,21 @@ export interface IStorage {
   updateJobType(id: string, updates: Partial<InsertJobType>): Promise<JobType | undefined>;
   deleteJobType(id: string): Promise<boolean>;
 
+  // Import profile methods
+  createImportProfile(profile: InsertImportProfile): Promise<ImportProfile>;
+  getImportProfiles(): Promise<ImportProfile[]>;
+  getImportProfileById(id: string): Promise<ImportProfile | undefined>;
+  updateImportProfile(id: string, updates: Partial<InsertImportProfile>): Promise<ImportProfile | undefined>;
+  markImportProfileUsed(id: string): Promise<void>;
+  deleteImportProfile(id: string): Promise<boolean>;
+
   // Worker box assignment methods
   createWorkerBoxAssignment(assignment: InsertWorkerBoxAssignment): Promise<WorkerBoxAssignment>;
   getWorkerBoxAssignments(jobId: string): Promise<WorkerBoxAssignment[]>;
   getWorkerBoxAssignmentsByWorker(workerId: string, jobId: string): Promise<WorkerBoxAssignment[]>;
   deleteWorkerBoxAssignments(jobId: string, workerId: string): Promise<boolean>;
+  recordWorkerPosition(jobId: string, workerId: string, boxNumber: number): Promise<WorkerBoxAssignment>;
+  getWorkerPositions(jobId: string): Promise<{ strategy: AllocationStrategy; positions: WorkerPosition[] }>;
 
   // PHASE 4: Session snapshot methods removed (unused dead code)
 
@@ -187,35 +328,65 @@ export interface IStorage {
   getCheckSessionsByBoxNumber(jobId: string, boxNumber: number): Promise<CheckSession[]>;
   updateCheckSessionStatus(id: string, status: string): Promise<CheckSession | undefined>;
   completeCheckSession(id: string, endTime: Date, discrepanciesFound: number, correctionsApplied?: boolean): Promise<CheckSession | undefined>;
+  startCheckSession(jobId: string, boxNumber: number, user: Pick<User, 'id' | 'role'>, takeOver: boolean): Promise<CheckSessionStart>;
+  touchCheckSession(id: string): Promise<CheckSession | undefined>;
+  cancelCheckSession(id: string, reason: CheckSessionCancelReason): Promise<CheckSession | undefined>;
+  cancelAbandonedCheckSessions(jobId?: string): Promise<CheckSession[]>;
+  getActiveCheckSessions(jobId: string): Promise<ActiveCheckSession[]>;
 
   // Check event methods
   createCheckEvent(event: InsertCheckEvent): Promise<CheckEvent>;
+  recordCheckScan(session: CheckSession, barCode: string, scannedBy: string): Promise<CheckEvent>;
+  getCheckWrongItems(sessionId: string): Promise<CheckWrongItemFinding[]>;
+  resolveCheckWrongItem(checkEventId: string, resolution: CheckWrongItemResolution, targetBoxNumber: number | undefined, performedBy: string): Promise<CheckWrongItemResolutionResult | undefined>;
   getCheckEventsBySessionId(sessionId: string): Promise<CheckEvent[]>;
+  getCheckEventById(id: string): Promise<CheckEvent | undefined>;
 
   // Check result methods
   createCheckResult(result: InsertCheckResult): Promise<CheckResult>;
   getCheckResultsBySessionId(sessionId: string): Promise<CheckResult[]>;
   updateCheckResult(id: string, updates: Partial<InsertCheckResult>): Promise<CheckResult | undefined>;
 
-  // Check correction methods
-  applyCheckCorrections(jobId: string, boxNumber: number, corrections: any[], sessionUserId: string, resolvedBy: string): Promise<void>;
-  createRejectedCheckResults(checkSessionId: string, corrections: any[], resolvedBy: string): Promise<void>;
-  createExtraItemsFromCheck(jobId: string, extraItems: any[], sessionUserId: string): Promise<void>;
+  // Check reconciliation methods
+  getCheckReconciliation(sessionId: string): Promise<CheckReconciliation | undefined>;
+  resolveCheckSession(sessionId: string, decision: CheckResolutionDecision, version: string, resolvedBy: string): Promise<CheckResolution | undefined>;
+  createExtraItemsFromCheck(jobId: string, extraItems: CheckReconciliation['extraItems'], sessionUserId: string): Promise<void>;
 
   // QA reporting methods
   getJobQAReport(jobId: string): Promise<any>;
   getDiscrepancyReport(jobId: string): Promise<any>;
+  getQaCheckQueue(jobId: string): Promise<QaCheckQueue | undefined>;
+
+  // Export methods
+  getExportLines(jobId: string, filter: ExportLineFilter, offset: number, limit: number): Promise<ExportLine[]>;
+  getExportExtraItems(jobId: string): Promise<ExportExtraItem[]>;
+  getExportPutAsideItems(jobId: string): Promise<ExportPutAsideItem[]>;
+  getExportCheckResults(jobId: string): Promise<ExportCheckResult[]>;
+
+  // Box label / packing slip methods
+  getBoxLabelData(jobId: string, boxNumbers?: number[]): Promise<BoxLabelData[]>;
+  getCustomerPackingLines(jobId: string, customerName: string): Promise<BoxRequirement[]>;
+
+  // Worker analytics
+  getWorkerAnalytics(query: WorkerAnalyticsQuery, userId?: string): Promise<WorkerAnalyticsReport>;
 
   // Box Empty/Transfer methods
-  emptyBox(jobId: string, boxNumber: number, performedBy: string): Promise<{message: string, history: BoxHistory, reallocation?: any}>;
-  transferBoxToGroup(jobId: string, boxNumber: number, targetGroup: string, performedBy: string): Promise<{message: string, history: BoxHistory, reallocation?: any}>;
+  emptyBox(jobId: string, boxNumber: number, performedBy: string): Promise<{message: string, history: BoxHistory, reallocation?: any, putAsidePickList: PutAsidePickLine[]}>;
+  transferBoxToGroup(jobId: string, boxNumber: number, targetGroup: string, performedBy: string): Promise<{message: string, history: BoxHistory, reallocation?: any, putAsidePickList: PutAsidePickLine[]}>;
   getBoxHistory(jobId: string): Promise<BoxHistory[]>;
   getBoxHistoryByBoxNumber(jobId: string, boxNumber: number): Promise<BoxHistory[]>;
+  getBoxHistoryById(id: string): Promise<BoxHistory | undefined>;
 
   // Put Aside methods (now using scan_events)
   createPutAsideItem(jobId: string, barCode: string, productName: string, sessionId: string): Promise<ScanEvent>;
-  getPutAsideItemsForJob(jobId: string): Promise<any[]>;
-  markPutAsideAllocated(putAsideEventId: string, allocatedToBox: number): Promise<ScanEvent | undefined>;
+  getPutAsideItems(filter?: { jobId?: string; status?: PutAsideStatus }): Promise<PutAsideItemDetail[]>;
+  getPutAsideItemsForJob(jobId: string): Promise<PutAsideGroup[]>;
+  getPutAsideItemById(id: string): Promise<ScanEvent | undefined>;
+  getPutAsideSuggestions(id: string): Promise<PutAsideSuggestion[]>;
+  allocatePutAsideItem(id: string, boxNumber: number, performedBy: string): Promise<PutAsideAllocation | null>;
+  reservePutAsideForBox(jobId: string, boxNumber: number): Promise<PutAsidePickLine[]>;
+  getPutAsidePickList(jobId: string): Promise<PutAsidePickLine[]>;
+  pullPutAsideItem(sessionId: string, barCode: string): Promise<PutAsidePullResult>;
   checkUnallocatedCustomerRequirements(jobId: string, barCode: string): Promise<boolean>;
   getPutAsideCount(jobId: string): Promise<number>;
 
@@ -276,6 +447,57 @@ export class DatabaseStorage implements IStorage {
     return !!user;
   }
 
+  async createAuthSession(session: InsertAuthSession): Promise<AuthSession> {
+    const [created] = await this.db
+      .insert(authSessions)
+      .values(session)
+      .returning();
+    return created;
+  }
+
+  async getAuthSessionById(id: string): Promise<AuthSession | undefined> {
+    const [session] = await this.db.select().from(authSessions).where(eq(authSessions.id, id));
+    return session || undefined;
+  }
+
+  async getAuthSessionByRefreshHash(refreshTokenHash: string): Promise<AuthSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(authSessions)
+      .where(eq(authSessions.refreshTokenHash, refreshTokenHash));
+    return session || undefined;
+  }
+
+  async rotateAuthSessionRefreshToken(id: string, currentHash: string, nextHash: string): Promise<AuthSession | undefined> {
+    // Conditional on the current hash so concurrent refreshes with the same token can't both win
+    const [session] = await this.db
+      .update(authSessions)
+      .set({ refreshTokenHash: nextHash, lastRefreshedAt: new Date() })
+      .where(and(
+        eq(authSessions.id, id),
+        eq(authSessions.refreshTokenHash, currentHash),
+        isNull(authSessions.revokedAt)
+      ))
+      .returning();
+    return session || undefined;
+  }
+
+  async revokeAuthSession(id: string, reason: string): Promise<void> {
+    await this.db
+      .update(authSessions)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(eq(authSessions.id, id), isNull(authSessions.revokedAt)));
+  }
+
+  async revokeUserAuthSessions(userId: string, reason: string): Promise<string[]> {
+    const revoked = await this.db
+      .update(authSessions)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(eq(authSessions.userId, userId), isNull(authSessions.revokedAt)))
+      .returning({ id: authSessions.id });
+    return revoked.map((session: { id: string }) => session.id);
+  }
+
   async getAllUsers(): Promise<User[]> {
     return await this.db.select().from(users).where(eq(users.isActive, true));
   }
@@ -306,19 +528,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getJobById(id: string): Promise<Job | undefined> {
-    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    // Soft-deleted jobs are gone as far as the rest of the app is concerned
+    const [job] = await this.db.select().from(jobs).where(and(eq(jobs.id, id), isNull(jobs.deletedAt)));
     return job || undefined;
   }
 
   async getAllJobs(): Promise<Job[]> {
-    return await this.db.select().from(jobs).orderBy(desc(jobs.createdAt));
+    return await this.db.select().from(jobs).where(isNull(jobs.deletedAt)).orderBy(desc(jobs.createdAt));
   }
 
   async getActiveJobs(): Promise<Job[]> {
     return await this.db
       .select()
       .from(jobs)
-      .where(eq(jobs.isArchived, false))
+      .where(and(eq(jobs.isArchived, false), isNull(jobs.deletedAt)))
       .orderBy(desc(jobs.createdAt));
   }
 
@@ -329,6 +552,7 @@ export class DatabaseStorage implements IStorage {
       .from(jobs)
       .where(and(
         eq(jobs.isArchived, false),
+        isNull(jobs.deletedAt),
         or(
           ne(jobs.status, 'completed'), // Not completed jobs are always visible
           eq(jobs.isActive, true) // Completed but unlocked jobs are visible
@@ -344,6 +568,7 @@ export class DatabaseStorage implements IStorage {
       .from(jobs)
       .where(and(
         eq(jobs.isArchived, false),
+        isNull(jobs.deletedAt),
         or(
           ne(jobs.status, 'completed'), // Not completed jobs are always visible
           eq(jobs.isActive, true) // Completed but unlocked jobs are visible
@@ -532,6 +757,95 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Soft delete: the job and all its history stay in place, hidden, until the retention period ends
+  async softDeleteJob(jobId: string, deletedBy: string, retentionDays: number): Promise<Job | undefined> {
+    const deletedAt = new Date();
+    const [job] = await this.db
+      .update(jobs)
+      .set({
+        deletedAt,
+        deletedBy,
+        purgeAfter: new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000),
+      })
+      .where(and(eq(jobs.id, jobId), isNull(jobs.deletedAt)))
+      .returning();
+    if (!job) return undefined;
+
+    await this.createAuditLogEntry({
+      action: 'job_deleted',
+      performedBy: deletedBy,
+      jobId: job.id,
+      jobName: job.name,
+      details: { retentionDays, purgeAfter: job.purgeAfter },
+    });
+    return job;
+  }
+
+  async restoreJob(jobId: string, restoredBy: string): Promise<Job | undefined> {
+    const [job] = await this.db
+      .update(jobs)
+      .set({ deletedAt: null, deletedBy: null, purgeAfter: null })
+      .where(and(eq(jobs.id, jobId), isNotNull(jobs.deletedAt)))
+      .returning();
+    if (!job) return undefined;
+
+    await this.createAuditLogEntry({
+      action: 'job_restored',
+      performedBy: restoredBy,
+      jobId: job.id,
+      jobName: job.name,
+    });
+    return job;
+  }
+
+  async getDeletedJobs(): Promise<DeletedJob[]> {
+    const rows = await this.db
+      .select({ job: jobs, deletedByName: users.name })
+      .from(jobs)
+      .leftJoin(users, eq(jobs.deletedBy, users.id))
+      .where(isNotNull(jobs.deletedAt))
+      .orderBy(desc(jobs.deletedAt));
+
+    return rows.map((row: { job: Job; deletedByName: string | null }) => ({
+      ...row.job,
+      deletedByName: row.deletedByName,
+    }));
+  }
+
+  // Permanently removes soft-deleted jobs whose retention has run out
+  async purgeExpiredJobs(): Promise<Job[]> {
+    const expiredJobs: Job[] = await this.db
+      .select()
+      .from(jobs)
+      .where(and(isNotNull(jobs.deletedAt), lte(jobs.purgeAfter, new Date())));
+
+    const purged: Job[] = [];
+    for (const job of expiredJobs) {
+      try {
+        await this.deleteJob(job.id);
+        await this.createAuditLogEntry({
+          action: 'job_purged',
+          performedBy: null,
+          jobId: job.id,
+          jobName: job.name,
+          details: { deletedAt: job.deletedAt, deletedBy: job.deletedBy },
+        });
+        purged.push(job);
+      } catch (error) {
+        console.error(`Error purging deleted job ${job.id}:`, error);
+      }
+    }
+    return purged;
+  }
+
+  private async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [result] = await this.db
+      .insert(auditLog)
+      .values(entry)
+      .returning();
+    return result;
+  }
+
   async getJobProgress(id: string): Promise<any> {
     try {
       // Get job with products
@@ -558,7 +872,8 @@ export class DatabaseStorage implements IStorage {
         .where(and(
           eq(scanEvents.jobId, id),
           eq(scanEvents.eventType, 'scan'),
-          eq(scanEvents.isExtraItem, false)
+          eq(scanEvents.isExtraItem, false),
+          isNull(scanEvents.undoneAt) // Undone scans stay as history but no longer count
         ));
 
       const totalItems = progressStats.totalItems || 0;
@@ -637,12 +952,14 @@ export class DatabaseStorage implements IStorage {
           Math.round((completedCustomers / (totalCustomersData.totalCustomers || 0)) * 100) : 0
       };
 
-      // Get worker performance data for all assigned workers
+      // Get worker performance data for all assigned workers - scored across the whole job,
+      // the same figures workers see in their live scan_update broadcasts
+      const scoringConfig = await this.getScoringConfigForJob(id);
       const workersData = await Promise.all(
         assignments.map(async (assignment) => {
           const session = sessions.find(s => s.userId === assignment.userId);
           const events = session ? await this.getScanEventsBySessionId(session.id) : [];
-          const performance = session ? await this.getSessionPerformance(session.id) : null;
+          const performance = await this.getJobWorkerPerformance(id, assignment.userId, scoringConfig);
 
           return {
             id: assignment.userId,
@@ -651,7 +968,7 @@ export class DatabaseStorage implements IStorage {
             isActive: session?.status === 'active' || false,
             scansPerHour: performance?.scansPerHour || 0,
             score: performance?.score || 0,
-            totalScans: session?.totalScans || 0,
+            totalScans: performance?.totalScans || 0,
             currentBox: this.getCurrentBox(jobProducts, assignment.userId),
             currentCustomer: this.getCurrentCustomer(jobProducts, assignment.userId),
             lastScan: events.length > 0 ? events[events.length - 1].scanTime : null,
@@ -914,7 +1231,19 @@ export class DatabaseStorage implements IStorage {
     return session || undefined;
   }
 
-
+  // Complete every active scan session on a job (or one worker's), e.g. when the job is locked
+  async closeActiveScanSessions(jobId: string, userId?: string): Promise<ScanSession[]> {
+    const now = new Date();
+    return await this.db
+      .update(scanSessions)
+      .set({ status: 'completed', endTime: now, lastActivityTime: now })
+      .where(and(
+        eq(scanSessions.jobId, jobId),
+        eq(scanSessions.status, 'active'),
+        userId ? eq(scanSessions.userId, userId) : undefined
+      ))
+      .returning();
+  }
 
   async updateScanSessionStats(sessionId: string): Promise<void> {
     const events = await this.getScanEventsBySessionId(sessionId);
@@ -937,8 +1266,12 @@ export class DatabaseStorage implements IStorage {
       .where(eq(scanSessions.id, sessionId));
   }
 
-  async createScanEvent(insertEvent: InsertScanEvent): Promise<ScanEvent> {
+  // With holdForBoxConfirmation the scan picks its box but is only committed by confirmBoxDrop
+  async createScanEvent(insertEvent: InsertScanEvent, options: { capturedAt?: Date; holdForBoxConfirmation?: boolean } = {}): Promise<ScanEvent & { allocation: ScanAllocation }> {
     try {
+      // Replayed offline scans keep the time they were captured on the device (never in the future)
+      const scanMoment = options.capturedAt ? Math.min(options.capturedAt.getTime(), Date.now()) : Date.now();
+
       // Calculate time since previous scan
       const previousEvents = await this.db
         .select()
@@ -949,7 +1282,7 @@ export class DatabaseStorage implements IStorage {
 
       let timeSincePrevious = null;
       if (previousEvents.length > 0 && previousEvents[0].scanTime) {
-        timeSincePrevious = Date.now() - new Date(previousEvents[0].scanTime).getTime();
+        timeSincePrevious = Math.max(0, scanMoment - new Date(previousEvents[0].scanTime).getTime());
       }
 
       // Get session to determine worker and job
@@ -958,415 +1291,693 @@ export class DatabaseStorage implements IStorage {
         throw new Error('Session not found');
       }
 
-      // Check if job has box requirements (new system) or fall back to products (old system)
-      const hasBoxRequirements = await this.db
-        .select()
-        .from(boxRequirements)
-        .where(eq(boxRequirements.jobId, session.jobId))
-        .limit(1);
-
-      let productName = null;
-      let customerName = null;
-      let targetBox = null;
-
       // Get worker's assigned color from job assignments
       const workerAssignment = await this.checkExistingAssignment(session.jobId, session.userId);
-      let workerColor = workerAssignment?.assignedColor || insertEvent.workerColor || 'blue'; // Use assigned color, fallback to provided or default
-
-      if (hasBoxRequirements.length > 0) {
-        // NEW SYSTEM: Use box requirements logic
-        console.log('Using new box requirements system for scanning');
-        const workerId = session.userId;
-        targetBox = await this.findNextTargetBox(insertEvent.barCode, session.jobId, workerId);
-
-        if (targetBox) {
-          // PUT ASIDE PRIORITIZATION: Check if job has box limit and consume Put Aside items first
-          const job = await this.getJobById(session.jobId);
-          if (job?.boxLimit) {
-            // BARCODE FIX: Normalize barcode for Put Aside checks
-            const normalizedBarCode = normalizeBarcodeFormat(insertEvent.barCode);
-
-            // Look for unallocated Put Aside items with matching barcode
-            const putAsideItems = await this.db
-              .select()
-              .from(scanEvents)
-              .where(and(
-                eq(scanEvents.jobId, session.jobId),
-                eq(scanEvents.eventType, 'put_aside'),
-                sql`(${scanEvents.barCode} = ${insertEvent.barCode} OR ${scanEvents.barCode} = ${normalizedBarCode})`,
-                isNull(scanEvents.allocatedAt) // Only unallocated Put Aside items
-              ))
-              .limit(1);
-
-            if (putAsideItems.length > 0) {
-              // CONSUME PUT ASIDE ITEM: Mark the first matching Put Aside item as allocated
-              const putAsideItem = putAsideItems[0];
-              await this.db
-                .update(scanEvents)
-                .set({
-                  allocatedToBox: targetBox,
-                  allocatedAt: new Date()
-                })
-                .where(eq(scanEvents.id, putAsideItem.id));
-
-              console.log(`[Put Aside Priority] Consumed Put Aside item for barcode ${insertEvent.barCode} - allocated to box ${targetBox}`);
-            }
-          }
-          // Get box requirement info for the target box
-          const boxReq = await this.db
+      const workerColor = workerAssignment?.assignedColor || insertEvent.workerColor || 'blue'; // Use assigned color, fallback to provided or default
+
+      // ATOMIC SCAN: target selection, put aside consumption, event insert, quantity increment
+      // and job status update commit or roll back together
+      return await this.db.transaction(async (tx: any) => {
+        const txStorage = new DatabaseStorage(tx);
+
+        // Lock the job row so concurrent scans on this job are applied one at a time
+        const [lockedJob] = await tx
+          .select()
+          .from(jobs)
+          .where(eq(jobs.id, session.jobId))
+          .for('update');
+
+        // IDEMPOTENT REPLAY: a scan already applied under this key returns the original event.
+        // Checked under the job lock so a retry racing the original request can't double-apply.
+        if (insertEvent.clientScanId) {
+          const [existingEvent] = await tx
             .select()
-            .from(boxRequirements)
-            .where(and(
-              eq(boxRequirements.jobId, session.jobId),
-              eq(boxRequirements.barCode, insertEvent.barCode),
-              eq(boxRequirements.boxNumber, targetBox)
-            ))
+            .from(scanEvents)
+            .where(eq(scanEvents.clientScanId, insertEvent.clientScanId))
             .limit(1);
 
-          if (boxReq.length > 0) {
-            productName = boxReq[0].productName;
-            customerName = boxReq[0].customerName;
+          if (existingEvent) {
+            return {
+              ...existingEvent,
+              allocation: {
+                outcome: getScanOutcome(existingEvent),
+                lostSlotRace: false,
+                consumedPutAside: !!existingEvent.consumedPutAsideEventId,
+                duplicate: true
+              }
+            };
+          }
+        }
+
+        // Checked under the job lock too, so two quick scans can't both leave a pending drop
+        if (options.holdForBoxConfirmation) {
+          const pendingDrop = await txStorage.getPendingBoxDrop(insertEvent.sessionId);
+          if (pendingDrop) {
+            throw new PendingDropError(pendingDrop);
           }
-        } else if (insertEvent.eventType === 'scan') {
-          // CRITICAL: Put Aside logic ONLY runs when job has a box limit
-          const job = await this.getJobById(session.jobId);
-          if (job?.boxLimit) {
-            // BARCODE FIX: Normalize barcode for put aside checks
-            const normalizedBarCode = normalizeBarcodeFormat(insertEvent.barCode);
-
-            // STEP 1: Check if unallocated customers (boxNumber: NULL) need this item
-          const unallocatedRequirement = await this.db
-            .select()
-            .from(boxRequirements)
-            .where(and(
-              eq(boxRequirements.jobId, session.jobId),
-              sql`(${boxRequirements.barCode} = ${insertEvent.barCode} OR ${boxRequirements.barCode} = ${normalizedBarCode})`,
-              isNull(boxRequirements.boxNumber), // Unallocated customers
-              sql`${boxRequirements.scannedQty} < ${boxRequirements.requiredQty}` // Still need items
-            ))
-            .limit(1);
+        }
 
-          if (unallocatedRequirement.length > 0) {
-            // CREATE PUT ASIDE SCAN EVENT: Unallocated customer needs this item
-            console.log(`[Put Aside] Creating put aside scan event for unallocated customer "${unallocatedRequirement[0].customerName}" - item: ${unallocatedRequirement[0].productName}`);
+        // BARCODE FIX: Normalize barcode for all lookups below
+        const normalizedBarCode = normalizeBarcodeFormat(insertEvent.barCode);
 
-            // Mark scan event as put aside type
-            insertEvent.eventType = 'put_aside';
-            productName = unallocatedRequirement[0].productName;
-            customerName = null; // Put Aside items have no customer initially
-            targetBox = null; // Put Aside items have no box initially
-          } else {
-            // STEP 2: Check if this is a known product anywhere in the job (excess quantity)
-            const existingProduct = await this.db
-              .select()
-              .from(boxRequirements)
-              .where(and(
-                eq(boxRequirements.jobId, session.jobId),
-                sql`(${boxRequirements.barCode} = ${insertEvent.barCode} OR ${boxRequirements.barCode} = ${normalizedBarCode})`
-              ))
-              .limit(1);
-
-            if (existingProduct.length > 0) {
-              // This is a known product but all quantities fulfilled - mark as EXTRA ITEM (duplicate/consumed)
-              console.log(`Duplicate/consumed barcode ${insertEvent.barCode} scanned - all quantities fulfilled - marking as extra item`);
-              insertEvent.eventType = 'extra_item';
-              productName = existingProduct[0].productName;
-              customerName = existingProduct[0].customerName;
-            } else {
-              // Completely unknown barcode - mark as extra item with "Unknown" name
-              console.log(`Unknown barcode ${insertEvent.barCode} scanned - marking as extra item`);
-              insertEvent.eventType = 'extra_item';
-              productName = 'Unknown';
-              customerName = 'Unassigned';
+        const hasBoxRequirements = await tx
+          .select()
+          .from(boxRequirements)
+          .where(eq(boxRequirements.jobId, session.jobId))
+          .limit(1);
+
+        let productName = null;
+        let customerName = null;
+        let targetBox: number | null = null;
+        let pendingBox: number | null = null;
+        let lostSlotRace = false;
+        let consumedPutAside = false;
+        // Recorded on the event so undo can reverse exactly what this scan changed
+        let undoTrail: {
+          boxRequirementId?: string;
+          consumedPutAsideEventId?: string;
+          previousLastWorkerUserId?: string | null;
+          previousLastWorkerColor?: string | null;
+        } = {};
+
+        if (hasBoxRequirements.length > 0) {
+          // NEW SYSTEM: Use box requirements logic
+          const workerId = session.userId;
+
+          if (insertEvent.eventType === 'scan' && options.holdForBoxConfirmation) {
+            // BOX CONFIRMATION: pick the box now, commit nothing until the worker scans its label
+            const candidateBox = await txStorage.findNextTargetBox(insertEvent.barCode, session.jobId, workerId);
+            const requirement = candidateBox ? await txStorage.getOpenBoxRequirement(session.jobId, candidateBox, insertEvent.barCode) : undefined;
+            if (candidateBox && requirement) {
+              pendingBox = candidateBox;
+              insertEvent.eventType = 'pending_drop';
+              productName = requirement.productName;
+              customerName = requirement.customerName;
             }
           }
-          } else {
-            // No box limit: Skip Put Aside logic, go directly to extra items
-            // BARCODE FIX: Normalize barcode for checks
-            const normalizedBarCode = normalizeBarcodeFormat(insertEvent.barCode);
-
-            // Check if this is a known product anywhere in the job (excess quantity)
-            const existingProduct = await this.db
-              .select()
-              .from(boxRequirements)
-              .where(and(
-                eq(boxRequirements.jobId, session.jobId),
-                sql`(${boxRequirements.barCode} = ${insertEvent.barCode} OR ${boxRequirements.barCode} = ${normalizedBarCode})`
-              ))
-              .limit(1);
-
-            if (existingProduct.length > 0) {
-              // This is a known product but all quantities fulfilled - mark as EXTRA ITEM
-              console.log(`No box limit: Barcode ${insertEvent.barCode} - marking as extra item`);
-              insertEvent.eventType = 'extra_item';
-              productName = existingProduct[0].productName;
-              customerName = existingProduct[0].customerName;
+
+          // The increment is conditional on the slot still being open. If something outside
+          // the job lock (check corrections, box empty) filled it first, pick again.
+          for (let attempt = 0; insertEvent.eventType === 'scan' && attempt < MAX_SCAN_ALLOCATION_ATTEMPTS; attempt++) {
+            const candidateBox = await txStorage.findNextTargetBox(insertEvent.barCode, session.jobId, workerId);
+            if (!candidateBox) break;
+
+            const updatedRequirement = await txStorage.updateBoxRequirementScannedQty(
+              candidateBox,
+              insertEvent.barCode,
+              session.jobId,
+              workerId,
+              workerColor
+            );
+
+            if (updatedRequirement) {
+              targetBox = candidateBox;
+              await txStorage.recordWorkerPosition(session.jobId, workerId, candidateBox);
+              productName = updatedRequirement.productName;
+              customerName = updatedRequirement.customerName;
+              undoTrail = {
+                boxRequirementId: updatedRequirement.id,
+                previousLastWorkerUserId: updatedRequirement.previousLastWorkerUserId,
+                previousLastWorkerColor: updatedRequirement.previousLastWorkerColor
+              };
+              break;
+            }
+
+            console.log(`[Scan Allocation] Box ${candidateBox} filled by another worker before barcode ${insertEvent.barCode} could be placed - retrying`);
+            lostSlotRace = true;
+          }
+
+          if (targetBox) {
+            // PUT ASIDE PRIORITIZATION: Check if job has box limit and consume Put Aside items first
+            if (lockedJob?.boxLimit) {
+              const consumedPutAsideEventId = await txStorage.consumePutAsideItem(session.jobId, insertEvent.barCode, targetBox);
+              consumedPutAside = !!consumedPutAsideEventId;
+              if (consumedPutAsideEventId) {
+                undoTrail.consumedPutAsideEventId = consumedPutAsideEventId;
+              }
+            }
+          } else if (!targetBox && insertEvent.eventType === 'scan') {
+            // CRITICAL: Put Aside logic ONLY runs when job has a box limit
+            const unallocatedRequirement = lockedJob?.boxLimit
+              ? await tx
+                  .select()
+                  .from(boxRequirements)
+                  .where(and(
+                    eq(boxRequirements.jobId, session.jobId),
+                    sql`(${boxRequirements.barCode} = ${insertEvent.barCode} OR ${boxRequirements.barCode} = ${normalizedBarCode})`,
+                    isNull(boxRequirements.boxNumber), // Unallocated customers
+                    sql`${boxRequirements.scannedQty} < ${boxRequirements.requiredQty}` // Still need items
+                  ))
+                  .limit(1)
+              : [];
+
+            if (unallocatedRequirement.length > 0) {
+              // CREATE PUT ASIDE SCAN EVENT: Unallocated customer needs this item
+              console.log(`[Put Aside] Creating put aside scan event for unallocated customer "${unallocatedRequirement[0].customerName}" - item: ${unallocatedRequirement[0].productName}`);
+
+              insertEvent.eventType = 'put_aside';
+              productName = unallocatedRequirement[0].productName;
+              customerName = null; // Put Aside items have no customer initially
             } else {
-              // Completely unknown barcode - mark as extra item with "Unknown" name
-              console.log(`No box limit: Unknown barcode ${insertEvent.barCode} - marking as extra item`);
+              // Check if this is a known product anywhere in the job (excess quantity)
+              const existingProduct = await tx
+                .select()
+                .from(boxRequirements)
+                .where(and(
+                  eq(boxRequirements.jobId, session.jobId),
+                  sql`(${boxRequirements.barCode} = ${insertEvent.barCode} OR ${boxRequirements.barCode} = ${normalizedBarCode})`
+                ))
+                .limit(1);
+
               insertEvent.eventType = 'extra_item';
-              productName = 'Unknown';
-              customerName = 'Unassigned';
+              if (existingProduct.length > 0) {
+                // This is a known product but all quantities fulfilled - mark as EXTRA ITEM (duplicate/consumed)
+                console.log(`Duplicate/consumed barcode ${insertEvent.barCode} scanned - all quantities fulfilled - marking as extra item`);
+                productName = existingProduct[0].productName;
+                customerName = existingProduct[0].customerName;
+              } else {
+                // Completely unknown barcode - mark as extra item with "Unknown" name
+                console.log(`Unknown barcode ${insertEvent.barCode} scanned - marking as extra item`);
+                productName = 'Unknown';
+                customerName = 'Unassigned';
+              }
             }
           }
+        } else {
+          // No box requirements found - this should not happen for modern jobs
+          console.log(`No box requirements found for job ${session.jobId}, barcode ${insertEvent.barCode} - marking as error`);
+          insertEvent.eventType = 'error';
         }
-      } else {
-        // No box requirements found - this should not happen for modern jobs
-        console.log(`No box requirements found for job ${session.jobId}, barcode ${insertEvent.barCode} - marking as error`);
-        insertEvent.eventType = 'error';
-      }
-
-      const eventData = {
-        ...insertEvent,
-        productName,
-        customerName,
-        boxNumber: targetBox,
-        calculatedTargetBox: targetBox,
-        timeSincePrevious,
-        workerColor,
-        isExtraItem: insertEvent.eventType === 'extra_item',
-        jobId: session.jobId, // Add direct job reference for extra items tracking
-      };
 
-      const [event] = await this.db
-        .insert(scanEvents)
-        .values(eventData)
-        .returning();
+        const eventData = {
+          ...insertEvent,
+          productName,
+          customerName,
+          boxNumber: targetBox,
+          calculatedTargetBox: targetBox || pendingBox,
+          timeSincePrevious,
+          ...(options.capturedAt && { scanTime: new Date(scanMoment) }),
+          workerColor,
+          isExtraItem: insertEvent.eventType === 'extra_item',
+          jobId: session.jobId, // Add direct job reference for extra items tracking
+          ...undoTrail,
+        };
 
-      // Update quantities using box requirements system (all jobs should have box requirements)
-      // Only update box requirements for normal scans, not extra items
-      if (insertEvent.eventType === 'scan' && targetBox) {
-        await this.updateBoxRequirementScannedQty(
-          targetBox,
-          insertEvent.barCode, 
-          session.jobId, 
-          session.userId,
-          workerColor
-        );
-      }
+        const [event] = await tx
+          .insert(scanEvents)
+          .values(eventData)
+          .returning();
 
-      // Automatically update job status after a scan event
-      await this.updateJobStatusBasedOnProgress(session.jobId);
+        // Automatically update job status after a scan event
+        await txStorage.updateJobStatusBasedOnProgress(session.jobId);
 
-      return event;
+        return {
+          ...event,
+          allocation: { outcome: getScanOutcome(event), lostSlotRace, consumedPutAside, duplicate: false }
+        };
+      });
     } catch (error) {
-      console.error('Error in createScanEvent:', error);
+      if (!(error instanceof PendingDropError)) {
+        console.error('Error in createScanEvent:', error);
+      }
       throw error;
     }
   }
 
-  private async getWorkerIdFromSession(sessionId: string): Promise<string | undefined> {
-    const session = await this.getScanSessionById(sessionId);
-    return session?.userId;
+  // PUT ASIDE PRIORITIZATION: a scan placed in a box on a box-limited job marks one matching
+  // unallocated Put Aside item as allocated there. Returns the consumed event's id.
+  private async consumePutAsideItem(jobId: string, barCode: string, targetBox: number): Promise<string | null> {
+    const normalizedBarCode = normalizeBarcodeFormat(barCode);
+    const [putAsideItem] = await this.db
+      .select()
+      .from(scanEvents)
+      .where(and(
+        eq(scanEvents.jobId, jobId),
+        eq(scanEvents.eventType, 'put_aside'),
+        sql`(${scanEvents.barCode} = ${barCode} OR ${scanEvents.barCode} = ${normalizedBarCode})`,
+        isNull(scanEvents.allocatedAt), // Only unallocated Put Aside items
+        isNull(scanEvents.reservedForBox) // Reserved items are waiting to be pulled into their box
+      ))
+      .limit(1);
+
+    if (!putAsideItem) return null;
+
+    // CONSUME PUT ASIDE ITEM: conditional on it still being unallocated
+    const consumed = await this.db
+      .update(scanEvents)
+      .set({
+        allocatedToBox: targetBox,
+        allocatedAt: new Date(),
+        allocationSource: 'scan'
+      })
+      .where(and(eq(scanEvents.id, putAsideItem.id), isNull(scanEvents.allocatedAt)))
+      .returning({ id: scanEvents.id });
+
+    if (consumed.length === 0) return null;
+    console.log(`[Put Aside Priority] Consumed Put Aside item for barcode ${barCode} - allocated to box ${targetBox}`);
+    return putAsideItem.id;
   }
 
-  async getScanEventsBySessionId(sessionId: string): Promise<ScanEvent[]> {
-    return await this.db
+  // Active requirement in a box that still needs this barcode
+  private async getOpenBoxRequirement(jobId: string, boxNumber: number, barCode: string): Promise<BoxRequirement | undefined> {
+    const normalizedBarCode = normalizeBarcodeFormat(barCode);
+    const [requirement] = await this.db
       .select()
-      .from(scanEvents)
-      .where(eq(scanEvents.sessionId, sessionId))
-      .orderBy(desc(scanEvents.scanTime));
+      .from(boxRequirements)
+      .where(and(
+        eq(boxRequirements.jobId, jobId),
+        sql`(${boxRequirements.barCode} = ${barCode} OR ${boxRequirements.barCode} = ${normalizedBarCode})`,
+        eq(boxRequirements.boxNumber, boxNumber),
+        eq(boxRequirements.transferSequence, 0),
+        sql`coalesce(${boxRequirements.scannedQty}, 0) < ${boxRequirements.requiredQty}`
+      ))
+      .limit(1);
+    return requirement || undefined;
   }
 
-  async undoScanEvents(sessionId: string, count: number): Promise<ScanEvent[]> {
-    // Get the most recent undoable events (both scans and extra items) to undo
-    const eventsToUndo = await this.db
+  async getPendingBoxDrop(sessionId: string): Promise<ScanEvent | undefined> {
+    const [event] = await this.db
       .select()
       .from(scanEvents)
       .where(and(
-        eq(scanEvents.sessionId, sessionId), 
-        or(eq(scanEvents.eventType, 'scan'), eq(scanEvents.eventType, 'extra_item'))
+        eq(scanEvents.sessionId, sessionId),
+        eq(scanEvents.eventType, 'pending_drop')
       ))
       .orderBy(desc(scanEvents.scanTime))
-      .limit(count);
-
-    if (eventsToUndo.length === 0) return [];
-
-    // Mark these events as undone and create undo events  
-    const undoEvents: InsertScanEvent[] = eventsToUndo.map((event: ScanEvent) => ({
-      sessionId,
-      barCode: event.barCode,
-      productName: event.productName,
-      customerName: event.customerName,
-      boxNumber: event.boxNumber,
-      eventType: 'undo',
-    }));
+      .limit(1);
+    return event || undefined;
+  }
 
-    const createdUndoEvents = await this.db
-      .insert(scanEvents)
-      .values(undoEvents)
-      .returning();
+  /**
+   * Commit a pending drop once the worker scans a box label. scannedBoxNumber is null
+   * for a label from another job. A wrong box records an 'error' event and leaves the
+   * drop pending; the right box increments the requirement exactly as a normal scan would.
+   * Undefined when the drop is no longer pending, e.g. a retried confirm.
+   */
+  async confirmBoxDrop(eventId: string, scannedBoxNumber: number | null): Promise<BoxDropConfirmation | undefined> {
+    return await this.db.transaction(async (tx: any) => {
+      const txStorage = new DatabaseStorage(tx);
 
-    // Decrease box requirement scanned quantities for successful scans only
-    // Extra items don't affect box requirements, so skip them
-    for (const event of eventsToUndo) {
-      if (event.eventType === 'scan' && event.barCode && event.boxNumber) {
-        // Find matching box requirements and decrement their scanned quantity
-        const boxReqs = await this.db
-          .select()
-          .from(boxRequirements)
-          .where(and(
-            eq(boxRequirements.barCode, event.barCode),
-            eq(boxRequirements.boxNumber, event.boxNumber)
-          ));
+      const [event] = await tx
+        .select({ sessionId: scanEvents.sessionId })
+        .from(scanEvents)
+        .where(eq(scanEvents.id, eventId));
+      if (!event) return undefined;
 
-        for (const boxReq of boxReqs) {
-          if ((boxReq.scannedQty || 0) > 0) {
-            const newScannedQty = (boxReq.scannedQty || 0) - 1;
-            await this.db
-              .update(boxRequirements)
-              .set({ 
-                scannedQty: newScannedQty,
-                isComplete: newScannedQty >= boxReq.requiredQty
-              })
-              .where(eq(boxRequirements.id, boxReq.id));
-          }
-        }
-      } else if (event.eventType === 'extra_item') {
-        // For extra_item events, delete the original record from the database
-        await this.db
-          .delete(scanEvents)
-          .where(eq(scanEvents.id, event.id));
+      const session = await txStorage.getScanSessionById(event.sessionId);
+      if (!session) {
+        throw new Error('Session not found');
       }
-    }
 
-    // Automatically update job status after an undo event
-    const session = await this.getScanSessionById(sessionId);
-    if (session) {
-      await this.updateJobStatusBasedOnProgress(session.jobId);
-    }
+      // Same job lock as createScanEvent, so the slot can't be taken mid-confirmation
+      const [lockedJob] = await tx
+        .select()
+        .from(jobs)
+        .where(eq(jobs.id, session.jobId))
+        .for('update');
 
-    return createdUndoEvents;
-  }
+      // Re-read under the lock: a retried or double-tapped confirm finds the drop already settled
+      const [pendingEvent] = await tx
+        .select()
+        .from(scanEvents)
+        .where(eq(scanEvents.id, eventId))
+        .for('update');
+      if (!pendingEvent || pendingEvent.eventType !== 'pending_drop') return undefined;
+
+      const expectedBox: number = pendingEvent.calculatedTargetBox;
+      const result = (outcome: BoxDropConfirmation['outcome'], scanEvent: ScanEvent, extra: Partial<BoxDropConfirmation> = {}): BoxDropConfirmation => ({
+        outcome,
+        scanEvent,
+        errorEvent: null,
+        expectedBoxNumber: expectedBox,
+        consumedPutAside: false,
+        ...extra
+      });
 
-  async getSessionPerformance(sessionId: string): Promise<any> {
-    const session = await this.getScanSessionById(sessionId);
-    if (!session) return null;
+      if (scannedBoxNumber !== expectedBox) {
+        // MIS-DROP: recorded against the worker like any other error scan
+        const [errorEvent] = await tx
+          .insert(scanEvents)
+          .values({
+            sessionId: pendingEvent.sessionId,
+            barCode: pendingEvent.barCode,
+            productName: pendingEvent.productName,
+            customerName: pendingEvent.customerName,
+            boxNumber: scannedBoxNumber,
+            calculatedTargetBox: expectedBox,
+            eventType: 'error',
+            workerColor: pendingEvent.workerColor,
+            jobId: session.jobId
+          })
+          .returning();
+        return result('wrong_box', pendingEvent, { errorEvent });
+      }
 
-    const events = await this.getScanEventsBySessionId(sessionId);
-    const scanEvents = events.filter(e => e.eventType === 'scan');
-    const errorEvents = events.filter((e: ScanEvent) => e.eventType === 'error');
-    const undoEvents = events.filter((e: ScanEvent) => e.eventType === 'undo');
+      const workerColor = pendingEvent.workerColor || 'blue';
+      const updatedRequirement = await txStorage.updateBoxRequirementScannedQty(
+        expectedBox,
+        pendingEvent.barCode,
+        session.jobId,
+        session.userId,
+        workerColor
+      );
 
-    const sessionDuration = session.endTime 
-      ? new Date(session.endTime).getTime() - new Date(session.startTime!).getTime()
-      : Date.now() - new Date(session.startTime!).getTime();
+      if (!updatedRequirement) {
+        // Filled by another worker (or a check correction) since the item was scanned - pick again
+        const nextBox = await txStorage.findNextTargetBox(pendingEvent.barCode, session.jobId, session.userId);
+        const nextRequirement = nextBox ? await txStorage.getOpenBoxRequirement(session.jobId, nextBox, pendingEvent.barCode) : undefined;
+        if (nextBox && nextRequirement) {
+          const [retargeted] = await tx
+            .update(scanEvents)
+            .set({
+              calculatedTargetBox: nextBox,
+              customerName: nextRequirement.customerName
+            })
+            .where(eq(scanEvents.id, eventId))
+            .returning();
+          return result('retargeted', retargeted, { expectedBoxNumber: nextBox });
+        }
 
-    const sessionHours = sessionDuration / (1000 * 60 * 60);
-    const scansPerHour = sessionHours > 0 ? Math.round(scanEvents.length / sessionHours) : 0;
+        const [cancelled] = await tx
+          .update(scanEvents)
+          .set({ eventType: 'cancelled_drop' })
+          .where(eq(scanEvents.id, eventId))
+          .returning();
+        return result('cancelled', cancelled, { expectedBoxNumber: null });
+      }
 
-    const accuracy = events.length > 0 
-      ? Math.round((scanEvents.length / (scanEvents.length + errorEvents.length)) * 100)
-      : 100;
+      await txStorage.recordWorkerPosition(session.jobId, session.userId, expectedBox);
+      const consumedPutAsideEventId = lockedJob?.boxLimit
+        ? await txStorage.consumePutAsideItem(session.jobId, pendingEvent.barCode, expectedBox)
+        : null;
+
+      const [confirmedEvent] = await tx
+        .update(scanEvents)
+        .set({
+          eventType: 'scan',
+          boxNumber: expectedBox,
+          productName: updatedRequirement.productName,
+          customerName: updatedRequirement.customerName,
+          boxRequirementId: updatedRequirement.id,
+          previousLastWorkerUserId: updatedRequirement.previousLastWorkerUserId,
+          previousLastWorkerColor: updatedRequirement.previousLastWorkerColor,
+          ...(consumedPutAsideEventId && { consumedPutAsideEventId })
+        })
+        .where(eq(scanEvents.id, eventId))
+        .returning();
 
-    // Calculate score based on industry standards
-    let score = 0;
-    if (scansPerHour >= 360) score = 10;
-    else if (scansPerHour >= 180) score = 8 + (scansPerHour - 180) / 180 * 2;
-    else if (scansPerHour >= 71) score = 6 + (scansPerHour - 71) / 109 * 2;
-    else if (scansPerHour >= 36) score = 4 + (scansPerHour - 36) / 35 * 2;
-    else if (scansPerHour >= 18) score = 2 + (scansPerHour - 18) / 18 * 2;
-    else score = 1;
+      await txStorage.updateJobStatusBasedOnProgress(session.jobId);
 
-    // Apply penalties
-    score = Math.max(1, score - (errorEvents.length * 0.1) - (undoEvents.length * 0.05));
-    score = Math.min(10, Math.round(score * 10) / 10);
+      return result('confirmed', confirmedEvent, { consumedPutAside: !!consumedPutAsideEventId });
+    });
+  }
 
-    const averageTimePerScan = scanEvents.length > 0
-      ? sessionDuration / scanEvents.length / 1000 // Convert to seconds
-      : 0;
+  async cancelBoxDrop(eventId: string): Promise<ScanEvent | undefined> {
+    const [event] = await this.db
+      .update(scanEvents)
+      .set({ eventType: 'cancelled_drop' })
+      .where(and(eq(scanEvents.id, eventId), eq(scanEvents.eventType, 'pending_drop')))
+      .returning();
+    return event || undefined;
+  }
 
-    return {
-      sessionId,
-      totalScans: scanEvents.length,
-      scansPerHour,
-      accuracy,
-      score,
-      sessionDuration: Math.round(sessionDuration / 1000), // Convert to seconds
-      averageTimePerScan: Math.round(averageTimePerScan),
-      errorCount: errorEvents.length,
-      undoCount: undoEvents.length,
-    };
+  private async getWorkerIdFromSession(sessionId: string): Promise<string | undefined> {
+    const session = await this.getScanSessionById(sessionId);
+    return session?.userId;
   }
 
-  async getJobWorkerPerformance(jobId: string, userId: string): Promise<any> {
-    // Get all scan events for this worker on this job
-    const allEvents = await this.db
+  async getScanEventsBySessionId(sessionId: string): Promise<ScanEvent[]> {
+    return await this.db
       .select()
       .from(scanEvents)
-      .innerJoin(scanSessions, eq(scanEvents.sessionId, scanSessions.id))
-      .where(
-        and(
-          eq(scanSessions.jobId, jobId),
-          eq(scanSessions.userId, userId)
-        )
-      )
-      .orderBy(scanEvents.scanTime);
+      .where(eq(scanEvents.sessionId, sessionId))
+      .orderBy(desc(scanEvents.scanTime));
+  }
 
-    if (allEvents.length === 0) {
-      return {
-        totalScans: 0,
-        scansPerHour: 0,
-        accuracy: 100,
-        score: 0,
-        activeScanningTime: 0,
-        errorCount: 0,
-        undoCount: 0
-      };
+  /**
+   * Reverse specific scan events. Each undo restores exactly the requirement row the
+   * scan incremented (including lastWorker), releases any Put Aside item the scan consumed,
+   * and is refused when the box has since been emptied, transferred or checked.
+   * Without explicit ids, the session's most recent undoable events are used.
+   */
+  async undoScanEvents(
+    sessionId: string,
+    options: { scanEventIds?: string[]; count?: number; undoWindowSeconds?: number | null }
+  ): Promise<{ undoneEvents: ScanEvent[]; undoEvents: ScanEvent[]; rejected: UndoRejection[] }> {
+    const session = await this.getScanSessionById(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
     }
 
-    const successfulScans = allEvents.filter((e: any) => e.scan_events.eventType === 'scan');
-    const errorEvents = allEvents.filter((e: any) => e.scan_events.eventType === 'error');
-    const undoEvents = allEvents.filter((e: any) => e.scan_events.eventType === 'undo');
+    return await this.db.transaction(async (tx: any) => {
+      const txStorage = new DatabaseStorage(tx);
 
-    // Calculate active scanning time (excluding breaks > 30 seconds)
-    let activeScanningTime = 0;
-    let lastScanTime = new Date(allEvents[0].scan_events.scanTime).getTime();
+      // Same per-job lock as createScanEvent so undo never interleaves with a scan
+      await tx.select().from(jobs).where(eq(jobs.id, session.jobId)).for('update');
 
-    for (let i = 1; i < allEvents.length; i++) {
-      const currentScanTime = new Date(allEvents[i].scan_events.scanTime).getTime();
-      const timeDiff = currentScanTime - lastScanTime;
+      const undoableTypes = or(eq(scanEvents.eventType, 'scan'), eq(scanEvents.eventType, 'extra_item'));
+      const requestedIds = options.scanEventIds || [];
 
-      // Only count time gaps <= 30 seconds as active scanning
-      if (timeDiff <= 30000) {
-        activeScanningTime += timeDiff;
+      const candidates: ScanEvent[] = requestedIds.length > 0
+        ? await tx
+            .select()
+            .from(scanEvents)
+            .where(and(eq(scanEvents.sessionId, sessionId), inArray(scanEvents.id, requestedIds)))
+        : await tx
+            .select()
+            .from(scanEvents)
+            .where(and(eq(scanEvents.sessionId, sessionId), undoableTypes, isNull(scanEvents.undoneAt)))
+            .orderBy(desc(scanEvents.scanTime))
+            .limit(options.count || 1);
+
+      const rejected: UndoRejection[] = [];
+      const undoneEvents: ScanEvent[] = [];
+      const undoEvents: ScanEvent[] = [];
+
+      // Ids from another session (or another job) are reported as not found
+      for (const id of requestedIds) {
+        if (!candidates.some(event => event.id === id)) {
+          rejected.push({ scanEventId: id, code: 'EVENT_NOT_FOUND', message: 'Scan event not found in this session' });
+        }
       }
-      lastScanTime = currentScanTime;
-    }
-
-    // Convert to hours for scans per hour calculation
-    const activeScanningHours = activeScanningTime / (1000 * 60 * 60);
-    const scansPerHour = activeScanningHours > 0 ? Math.round(successfulScans.length / activeScanningHours) : 0;
-
-    // Calculate accuracy: successful scans / total scan attempts
-    const totalAttempts = successfulScans.length + errorEvents.length;
-    const accuracy = totalAttempts > 0 ? Math.round((successfulScans.length / totalAttempts) * 100) : 100;
 
-    // Calculate score based on speed + accuracy
-    let speedScore = 0;
-    if (scansPerHour >= 360) speedScore = 10;
-    else if (scansPerHour >= 180) speedScore = 8 + (scansPerHour - 180) / 180 * 2;
-    else if (scansPerHour >= 71) speedScore = 6 + (scansPerHour - 71) / 109 * 2;
-    else if (scansPerHour >= 36) speedScore = 4 + (scansPerHour - 36) / 35 * 2;
-    else if (scansPerHour >= 18) speedScore = 2 + (scansPerHour - 18) / 18 * 2;
-    else speedScore = 1;
+      for (const event of candidates) {
+        const rejection = await txStorage.getUndoRejection(event, session.jobId, options.undoWindowSeconds);
+        if (rejection) {
+          rejected.push(rejection);
+          continue;
+        }
 
-    // Combine speed and accuracy for final score
-    const accuracyMultiplier = accuracy / 100;
-    let score = speedScore * accuracyMultiplier;
+        if (event.eventType === 'scan' && event.boxNumber) {
+          const requirementId = event.boxRequirementId || (await txStorage.findLegacyRequirementForScan(event, session.jobId))?.id;
+          if (requirementId) {
+            await txStorage.revertRequirementForScan(requirementId, event);
+          }
 
-    // Apply penalties for undos
-    score = Math.max(1, score - (undoEvents.length * 0.05));
-    score = Math.min(10, Math.round(score * 10) / 10);
+          if (event.consumedPutAsideEventId) {
+            // Release the Put Aside item back to the unallocated pool
+            await tx
+              .update(scanEvents)
+              .set({ allocatedToBox: null, allocatedAt: null, allocationSource: null })
+              .where(eq(scanEvents.id, event.consumedPutAsideEventId));
+          }
 
-    return {
-      totalScans: successfulScans.length,
-      scansPerHour,
-      accuracy,
-      score,
-      activeScanningTime: Math.round(activeScanningTime / 1000), // Convert to seconds
-      errorCount: errorEvents.length,
-      undoCount: undoEvents.length
+          await tx
+            .update(scanEvents)
+            .set({ undoneAt: new Date() })
+            .where(eq(scanEvents.id, event.id));
+        } else if (event.eventType === 'extra_item') {
+          // For extra_item events, delete the original record from the database
+          await tx
+            .delete(scanEvents)
+            .where(eq(scanEvents.id, event.id));
+        }
+
+        const [undoEvent] = await tx
+          .insert(scanEvents)
+          .values({
+            sessionId,
+            barCode: event.barCode,
+            productName: event.productName,
+            customerName: event.customerName,
+            boxNumber: event.boxNumber,
+            eventType: 'undo',
+            jobId: session.jobId,
+            undoOfEventId: event.id,
+          })
+          .returning();
+
+        undoneEvents.push(event);
+        undoEvents.push(undoEvent);
+      }
+
+      // Automatically update job status after an undo event
+      if (undoneEvents.length > 0) {
+        await txStorage.updateJobStatusBasedOnProgress(session.jobId);
+      }
+
+      return { undoneEvents, undoEvents, rejected };
+    });
+  }
+
+  private async getUndoRejection(event: ScanEvent, jobId: string, undoWindowSeconds?: number | null): Promise<UndoRejection | null> {
+    const reject = (code: UndoRejectionCode, message: string): UndoRejection => ({ scanEventId: event.id, code, message });
+
+    if (event.eventType !== 'scan' && event.eventType !== 'extra_item') {
+      return reject('NOT_UNDOABLE', `${event.eventType} events cannot be undone`);
+    }
+    if (event.undoneAt) {
+      return reject('ALREADY_UNDONE', 'This scan has already been undone');
+    }
+
+    const scanTime = event.scanTime ? new Date(event.scanTime) : new Date(0);
+    if (undoWindowSeconds && Date.now() - scanTime.getTime() > undoWindowSeconds * 1000) {
+      return reject('UNDO_WINDOW_EXPIRED', `Scans can only be undone within ${undoWindowSeconds} seconds`);
+    }
+
+    // Extra items never touched a box, so box state doesn't matter
+    if (event.eventType !== 'scan' || !event.boxNumber) {
+      return null;
+    }
+
+    const [laterBoxAction] = await this.db
+      .select()
+      .from(boxHistory)
+      .where(and(
+        eq(boxHistory.jobId, jobId),
+        eq(boxHistory.boxNumber, event.boxNumber),
+        sql`${boxHistory.timestamp} > ${scanTime}`
+      ))
+      .limit(1);
+
+    if (laterBoxAction) {
+      return laterBoxAction.action === 'transferred'
+        ? reject('BOX_TRANSFERRED', `Box ${event.boxNumber} has been transferred since this scan`)
+        : reject('BOX_EMPTIED', `Box ${event.boxNumber} has been emptied since this scan`);
+    }
+
+    const [laterCheck] = await this.db
+      .select()
+      .from(checkSessions)
+      .where(and(
+        eq(checkSessions.jobId, jobId),
+        eq(checkSessions.boxNumber, event.boxNumber),
+        eq(checkSessions.status, 'completed'),
+        sql`coalesce(${checkSessions.endTime}, ${checkSessions.startTime}) > ${scanTime}`
+      ))
+      .limit(1);
+
+    if (laterCheck) {
+      return reject('BOX_CHECKED', `Box ${event.boxNumber} has been checked since this scan`);
+    }
+
+    return null;
+  }
+
+  // Scans recorded before requirement ids were tracked: match on job, barcode and active box
+  private async findLegacyRequirementForScan(event: ScanEvent, jobId: string): Promise<BoxRequirement | undefined> {
+    const normalizedBarCode = normalizeBarcodeFormat(event.barCode);
+    const [requirement] = await this.db
+      .select()
+      .from(boxRequirements)
+      .where(and(
+        eq(boxRequirements.jobId, jobId),
+        sql`(${boxRequirements.barCode} = ${event.barCode} OR ${boxRequirements.barCode} = ${normalizedBarCode})`,
+        eq(boxRequirements.boxNumber, event.boxNumber!),
+        eq(boxRequirements.transferSequence, 0),
+        sql`coalesce(${boxRequirements.scannedQty}, 0) > 0`
+      ))
+      .limit(1);
+    return requirement || undefined;
+  }
+
+  private async revertRequirementForScan(requirementId: string, event: ScanEvent): Promise<void> {
+    // lastWorker goes back to whoever made the latest remaining scan on this row,
+    // or to what it was before this scan if there is none
+    const [latestRemainingScan] = await this.db
+      .select({ userId: scanSessions.userId, workerColor: scanEvents.workerColor })
+      .from(scanEvents)
+      .innerJoin(scanSessions, eq(scanEvents.sessionId, scanSessions.id))
+      .where(and(
+        eq(scanEvents.boxRequirementId, requirementId),
+        eq(scanEvents.eventType, 'scan'),
+        isNull(scanEvents.undoneAt),
+        ne(scanEvents.id, event.id)
+      ))
+      .orderBy(desc(scanEvents.scanTime))
+      .limit(1);
+
+    await this.db
+      .update(boxRequirements)
+      .set({
+        scannedQty: sql`greatest(coalesce(${boxRequirements.scannedQty}, 0) - 1, 0)`,
+        isComplete: sql`greatest(coalesce(${boxRequirements.scannedQty}, 0) - 1, 0) >= ${boxRequirements.requiredQty}`,
+        lastWorkerUserId: latestRemainingScan ? latestRemainingScan.userId : event.previousLastWorkerUserId,
+        lastWorkerColor: latestRemainingScan ? latestRemainingScan.workerColor : event.previousLastWorkerColor,
+      })
+      .where(eq(boxRequirements.id, requirementId));
+  }
+
+  // Benchmark from the job's type plus that type's scoring overrides
+  async getScoringConfigForJob(jobId: string): Promise<ScoringConfig> {
+    const [result] = await this.db
+      .select({
+        benchmarkItemsPerHour: jobTypes.benchmarkItemsPerHour,
+        scoringConfig: jobTypes.scoringConfig,
+      })
+      .from(jobs)
+      .leftJoin(jobTypes, eq(jobs.jobTypeId, jobTypes.id))
+      .where(eq(jobs.id, jobId));
+
+    return resolveScoringConfig(result?.benchmarkItemsPerHour, result?.scoringConfig);
+  }
+
+  async getSessionPerformance(sessionId: string): Promise<any> {
+    const session = await this.getScanSessionById(sessionId);
+    if (!session) return null;
+
+    const events = await this.getScanEventsBySessionId(sessionId);
+    const config = await this.getScoringConfigForJob(session.jobId);
+    const performance = calculatePerformance(events, config);
+
+    const sessionDuration = session.endTime 
+      ? new Date(session.endTime).getTime() - new Date(session.startTime!).getTime()
+      : Date.now() - new Date(session.startTime!).getTime();
+
+    const averageTimePerScan = performance.totalScans > 0
+      ? performance.activeScanningTime / performance.totalScans
+      : 0;
+
+    return {
+      sessionId,
+      ...performance,
+      sessionDuration: Math.round(sessionDuration / 1000), // Convert to seconds
+      averageTimePerScan: Math.round(averageTimePerScan),
+      benchmarkItemsPerHour: config.benchmarkItemsPerHour,
+    };
+  }
+
+  async getJobWorkerPerformance(jobId: string, userId: string, config?: ScoringConfig): Promise<any> {
+    // Get all scan events for this worker on this job
+    const allEvents = await this.db
+      .select({
+        eventType: scanEvents.eventType,
+        scanTime: scanEvents.scanTime,
+      })
+      .from(scanEvents)
+      .innerJoin(scanSessions, eq(scanEvents.sessionId, scanSessions.id))
+      .where(
+        and(
+          eq(scanSessions.jobId, jobId),
+          eq(scanSessions.userId, userId)
+        )
+      )
+      .orderBy(scanEvents.scanTime);
+
+    const scoringConfig = config || await this.getScoringConfigForJob(jobId);
+    return {
+      ...calculatePerformance(allEvents, scoringConfig),
+      benchmarkItemsPerHour: scoringConfig.benchmarkItemsPerHour,
     };
   }
 
@@ -1638,6 +2249,55 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  // Import profile methods
+  async createImportProfile(profile: InsertImportProfile): Promise<ImportProfile> {
+    const [result] = await this.db
+      .insert(importProfiles)
+      .values(profile)
+      .returning();
+    return result;
+  }
+
+  async getImportProfiles(): Promise<ImportProfile[]> {
+    // Most recently used first so the upload form can default to it
+    return await this.db
+      .select()
+      .from(importProfiles)
+      .orderBy(sql`${importProfiles.lastUsedAt} DESC NULLS LAST`, importProfiles.name);
+  }
+
+  async getImportProfileById(id: string): Promise<ImportProfile | undefined> {
+    const [result] = await this.db
+      .select()
+      .from(importProfiles)
+      .where(eq(importProfiles.id, id));
+    return result || undefined;
+  }
+
+  async updateImportProfile(id: string, updates: Partial<InsertImportProfile>): Promise<ImportProfile | undefined> {
+    const [result] = await this.db
+      .update(importProfiles)
+      .set(updates)
+      .where(eq(importProfiles.id, id))
+      .returning();
+    return result || undefined;
+  }
+
+  async markImportProfileUsed(id: string): Promise<void> {
+    await this.db
+      .update(importProfiles)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(importProfiles.id, id));
+  }
+
+  async deleteImportProfile(id: string): Promise<boolean> {
+    const result = await this.db
+      .delete(importProfiles)
+      .where(eq(importProfiles.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
   // Worker box assignment methods
   async createWorkerBoxAssignment(assignment: InsertWorkerBoxAssignment): Promise<WorkerBoxAssignment> {
     const [result] = await this.db
@@ -1677,6 +2337,86 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  /**
+   * Persist the box a worker just scanned into as their position on the job
+   * findNextTargetBox walks each worker's route onward from this box
+   */
+  async recordWorkerPosition(jobId: string, workerId: string, boxNumber: number): Promise<WorkerBoxAssignment> {
+    const [assignment] = await this.db
+      .select({ allocationPattern: jobAssignments.allocationPattern })
+      .from(jobAssignments)
+      .where(and(
+        eq(jobAssignments.jobId, jobId),
+        eq(jobAssignments.userId, workerId),
+        eq(jobAssignments.isActive, true)
+      ))
+      .limit(1);
+
+    const assignmentType = assignment?.allocationPattern || 'ascending';
+    const [position] = await this.db
+      .insert(workerBoxAssignments)
+      .values({ jobId, workerId, boxNumber, assignmentType })
+      .onConflictDoUpdate({
+        target: [workerBoxAssignments.jobId, workerBoxAssignments.workerId],
+        set: { boxNumber, assignmentType, updatedAt: new Date() }
+      })
+      .returning();
+    return position;
+  }
+
+  /**
+   * Each active worker's route/zone under the job's strategy and where they currently are on it
+   */
+  async getWorkerPositions(jobId: string): Promise<{ strategy: AllocationStrategy; positions: WorkerPosition[] }> {
+    const strategy = await this.getJobAllocationStrategy(jobId);
+    const assignments = (await this.getJobAssignmentsWithUsers(jobId))
+      .sort((a, b) => (a.workerIndex ?? 0) - (b.workerIndex ?? 0));
+    const allBoxNumbers = await this.getActiveBoxNumbers(jobId);
+
+    const openBoxRows = await this.db
+      .selectDistinct({ boxNumber: boxRequirements.boxNumber })
+      .from(boxRequirements)
+      .where(and(
+        eq(boxRequirements.jobId, jobId),
+        isNotNull(boxRequirements.boxNumber),
+        eq(boxRequirements.transferSequence, 0),
+        sql`coalesce(${boxRequirements.scannedQty}, 0) < ${boxRequirements.requiredQty}`
+      ));
+    const openBoxes = new Set<number>(openBoxRows.map((row: { boxNumber: number }) => row.boxNumber));
+
+    const savedPositions = await this.getWorkerBoxAssignments(jobId);
+    const positionByWorker = new Map<string, WorkerBoxAssignment>(
+      savedPositions.map((position: WorkerBoxAssignment) => [position.workerId, position])
+    );
+
+    const positions = assignments.map((assignment, workerSlot): WorkerPosition => {
+      const pattern = (assignment.allocationPattern || undefined) as WorkerAllocationPattern | undefined;
+      const sequence = getWorkerSequence(strategy, allBoxNumbers, workerSlot, assignments.length, pattern);
+      const saved = positionByWorker.get(assignment.userId);
+      const currentBoxNumber = saved?.boxNumber ?? null;
+      const sequenceIndex = sequence && currentBoxNumber !== null ? sequence.indexOf(currentBoxNumber) : -1;
+
+      return {
+        userId: assignment.userId,
+        name: assignment.assignee.name,
+        staffId: assignment.assignee.staffId,
+        assignedColor: assignment.assignedColor,
+        workerSlot,
+        allocationPattern: assignment.allocationPattern,
+        allocationLabel: describeWorkerAllocation(strategy, workerSlot, assignments.length, pattern),
+        zoneStartBox: sequence && sequence.length > 0 ? sequence[0] : null,
+        zoneEndBox: sequence && sequence.length > 0 ? sequence[sequence.length - 1] : null,
+        zoneBoxCount: sequence ? sequence.length : allBoxNumbers.length,
+        openBoxesInZone: sequence ? sequence.filter(box => openBoxes.has(box)).length : openBoxes.size,
+        currentBoxNumber,
+        sequencePosition: sequenceIndex >= 0 ? sequenceIndex + 1 : null,
+        lastMovedAt: saved?.updatedAt ?? null,
+      };
+    });
+
+    return { strategy, positions };
+  }
+
   // NEW BOX REQUIREMENT METHODS - CORRECT SCANNING LOGIC
   async createBoxRequirements(requirements: InsertBoxRequirement[]): Promise<BoxRequirement[]> {
     return await this.db
@@ -1696,6 +2436,151 @@ export class DatabaseStorage implements IStorage {
       .orderBy(boxRequirements.boxNumber, boxRequirements.barCode);
   }
 
+  // Every row of the job, including customers archived by Empty or Transfer (transferSequence > 0)
+  async getAllBoxRequirementsByJobId(jobId: string): Promise<BoxRequirement[]> {
+    return await this.db
+      .select()
+      .from(boxRequirements)
+      .where(eq(boxRequirements.jobId, jobId))
+      .orderBy(boxRequirements.transferSequence, boxRequirements.boxNumber, boxRequirements.barCode);
+  }
+
+  /**
+   * Apply a delta file to a live job. The plan is rebuilt under the job lock so
+   * scans made since the preview are accounted for; nothing is written if it
+   * now has errors. Units scanned beyond a reduced quantity are recorded as put
+   * aside or extra items, and csvData / totals are rebuilt from the result.
+   */
+  async amendJob(
+    jobId: string,
+    amendment: JobAmendmentInput,
+    options: { excessAction: AmendmentExcessAction; performedBy: string }
+  ): Promise<{ preview: JobAmendmentPreview; applied: boolean; job?: Job }> {
+    return await this.db.transaction(async (tx: any) => {
+      const txStorage = new DatabaseStorage(tx);
+
+      // Same per-job lock as createScanEvent so no scan lands mid-amendment
+      const [lockedJob] = await tx.select().from(jobs).where(eq(jobs.id, jobId)).for('update');
+      if (!lockedJob) {
+        throw new Error('Job not found');
+      }
+
+      // Archived rows lock their customers' lines and still count towards the job's totals
+      const requirements = await txStorage.getAllBoxRequirementsByJobId(jobId);
+      const preview = buildAmendmentPlan(amendment.rows, amendment.totalRows, requirements, {
+        jobTypeName: amendment.jobTypeName,
+        requireGroupField: amendment.requireGroupField,
+        boxLimit: lockedJob.boxLimit
+      });
+      if (!preview.valid || preview.changes.length === 0) {
+        return { preview, applied: false };
+      }
+
+      // Excess units are recorded under a closed session of the manager who made the amendment
+      let excessSessionId: string | null = null;
+      if (preview.totals.excessQty > 0) {
+        const [excessSession] = await tx
+          .insert(scanSessions)
+          .values({
+            jobId,
+            userId: options.performedBy,
+            status: 'completed',
+            endTime: new Date(),
+            sessionData: { source: 'job_amendment' }
+          })
+          .returning();
+        excessSessionId = excessSession.id;
+      }
+
+      // Added lines keep their customer's place in the reallocation queue; new customers join the end of the CSV order
+      const queueFieldsByCustomer = new Map<string, Pick<BoxRequirement, 'customerSequence' | 'queuePosition' | 'isQueuePinned' | 'isQueuePriority'>>();
+      let nextCustomerSequence = 1;
+      for (const requirement of requirements) {
+        if (!queueFieldsByCustomer.has(requirement.customerName)) {
+          queueFieldsByCustomer.set(requirement.customerName, {
+            customerSequence: requirement.customerSequence,
+            queuePosition: requirement.queuePosition,
+            isQueuePinned: requirement.isQueuePinned,
+            isQueuePriority: requirement.isQueuePriority
+          });
+        }
+        nextCustomerSequence = Math.max(nextCustomerSequence, (requirement.customerSequence ?? 0) + 1);
+      }
+
+      for (const change of preview.changes) {
+        if (change.type === 'add_line') {
+          let queueFields = queueFieldsByCustomer.get(change.customerName);
+          if (!queueFields) {
+            queueFields = { customerSequence: nextCustomerSequence++, queuePosition: null, isQueuePinned: false, isQueuePriority: false };
+            queueFieldsByCustomer.set(change.customerName, queueFields);
+          }
+          await tx.insert(boxRequirements).values({
+            jobId,
+            barCode: change.barCode,
+            productName: change.productName,
+            requiredQty: change.newQty,
+            customerName: change.customerName,
+            groupName: change.groupName,
+            boxNumber: change.boxNumber,
+            ...queueFields,
+            scannedQty: 0,
+            isComplete: false
+          });
+          continue;
+        }
+
+        // Older jobs can hold a line as several rows - collapse them into the first
+        const [keepId, ...mergedIds] = change.boxRequirementIds;
+        const deleteIds = change.type === 'remove_line' ? change.boxRequirementIds : mergedIds;
+        if (deleteIds.length > 0) {
+          await tx.delete(boxRequirements).where(inArray(boxRequirements.id, deleteIds));
+        }
+        if (change.type === 'change_qty') {
+          const scannedQty = Math.min(change.scannedQty, change.newQty);
+          await tx
+            .update(boxRequirements)
+            .set({ requiredQty: change.newQty, scannedQty, isComplete: scannedQty >= change.newQty })
+            .where(eq(boxRequirements.id, keepId));
+        }
+
+        for (let unit = 0; unit < change.excessQty; unit++) {
+          await tx.insert(scanEvents).values({
+            sessionId: excessSessionId,
+            jobId,
+            barCode: change.barCode,
+            productName: change.productName,
+            customerName: options.excessAction === 'extra_item' ? 'Unassigned' : null,
+            boxNumber: null,
+            eventType: options.excessAction,
+            isExtraItem: options.excessAction === 'extra_item'
+          });
+        }
+      }
+
+      // Keep the job's source data and totals in step with its requirements
+      const amendedRequirements = await txStorage.getAllBoxRequirementsByJobId(jobId);
+      const csvData: CsvRow[] = amendedRequirements.map(requirement => ({
+        BarCode: requirement.barCode,
+        'Product Name': requirement.productName,
+        Qty: requirement.requiredQty,
+        CustomName: requirement.customerName,
+        ...(requirement.groupName ? { Group: requirement.groupName } : {})
+      }));
+      await tx
+        .update(jobs)
+        .set({
+          csvData,
+          totalProducts: amendedRequirements.reduce((sum, requirement) => sum + requirement.requiredQty, 0),
+          totalCustomers: new Set(amendedRequirements.map(requirement => requirement.customerName)).size
+        })
+        .where(eq(jobs.id, jobId));
+
+      await txStorage.updateJobStatusBasedOnProgress(jobId);
+
+      return { preview, applied: true, job: await txStorage.getJobById(jobId) };
+    });
+  }
+
   async getBoxRequirementsByBoxNumber(jobId: string, boxNumber: number): Promise<BoxRequirement[]> {
     return await this.db
       .select()
@@ -1709,27 +2594,28 @@ export class DatabaseStorage implements IStorage {
   }
 
   /**
-   * Find the next target box for a scanned item based on worker allocation pattern
-   * Logic: Find the appropriate box based on worker pattern and current progress
+   * Find the next target box for a scanned item based on the job type's allocation strategy
+   * Logic: Gather the worker's persisted position and the job's boxes, then let lib/worker-allocation pick the box
    */
   async findNextTargetBox(barCode: string, jobId: string, workerId: string): Promise<number | null> {
     // PHASE 3: Get worker assignment pattern from job_assignments (primary source)
-    const jobAssignment = await this.db
+    const activeAssignments: JobAssignment[] = await this.db
       .select()
       .from(jobAssignments)
       .where(and(
         eq(jobAssignments.jobId, jobId),
-        eq(jobAssignments.userId, workerId),
         eq(jobAssignments.isActive, true)
       ))
-      .limit(1);
+      .orderBy(jobAssignments.workerIndex, jobAssignments.assignedAt);
 
-    if (jobAssignment.length === 0) {
+    const workerSlot = activeAssignments.findIndex(assignment => assignment.userId === workerId);
+    if (workerSlot === -1) {
       console.log(`No job assignment found for worker ${workerId}`);
       return null;
     }
 
-    const workerPattern = jobAssignment[0].allocationPattern as 'ascending' | 'descending' | 'middle_up' | 'middle_down';
+    const jobAssignment = activeAssignments[workerSlot];
+    const workerPattern = jobAssignment.allocationPattern as WorkerAllocationPattern;
 
     // BARCODE FIX: Normalize barcode format for comparison
     const normalizedBarCode = normalizeBarcodeFormat(barCode);
@@ -1755,45 +2641,63 @@ export class DatabaseStorage implements IStorage {
       return null;
     }
 
-    const boxNumbers = availableBoxes.map((box: BoxRequirement) => box.boxNumber);
-    console.log(`[Worker Pattern Debug] Worker ${workerId} (${workerPattern}) - Available boxes for barcode ${barCode}: [${boxNumbers.join(', ')}]`);
-
-    // Apply worker allocation pattern to find next box
-    let targetBox: number;
-
-    switch (workerPattern) {
-      case 'ascending':
-        // Worker with ascending pattern: Always pick the lowest numbered available box
-        targetBox = Math.min(...boxNumbers);
-        break;
+    const boxNumbers: number[] = availableBoxes.map((box: BoxRequirement) => box.boxNumber);
+    const strategy = await this.getJobAllocationStrategy(jobId);
+    console.log(`[Worker Pattern Debug] Worker ${workerId} (${strategy}/${workerPattern}) - Available boxes for barcode ${barCode}: [${boxNumbers.join(', ')}]`);
+
+    // Routes and zones are cut from every box in the job (not just the open ones) so they stay
+    // fixed as boxes fill; each worker then walks on from their persisted position
+    const allBoxNumbers = await this.getActiveBoxNumbers(jobId);
+    const savedPositions = await this.getWorkerBoxAssignments(jobId);
+    const positionByWorker = new Map<string, number>();
+    savedPositions.forEach((position: WorkerBoxAssignment) => {
+      if (position.boxNumber !== null) {
+        positionByWorker.set(position.workerId, position.boxNumber);
+      }
+    });
 
-      case 'descending':
-        // Worker with descending pattern: Always pick the highest numbered available box
-        targetBox = Math.max(...boxNumbers);
-        break;
+    const lastBoxNumber = positionByWorker.get(workerId) ?? null;
+    const otherWorkerBoxNumbers = activeAssignments
+      .filter(assignment => assignment.userId !== workerId)
+      .map(assignment => positionByWorker.get(assignment.userId))
+      .filter((box): box is number => box !== undefined);
+
+    const targetBox = selectTargetBox({
+      strategy,
+      candidateBoxNumbers: boxNumbers,
+      allBoxNumbers,
+      workerSlot,
+      workerCount: activeAssignments.length,
+      pattern: workerPattern,
+      lastBoxNumber,
+      otherWorkerBoxNumbers,
+    });
 
-      case 'middle_up':
-        // Worker with middle_up pattern: Start from middle, work up
-        const sortedAsc = [...boxNumbers].sort((a, b) => a - b);
-        const middleUpIndex = Math.floor(sortedAsc.length / 2);
-        targetBox = sortedAsc[middleUpIndex];
-        break;
+    console.log(`[Worker Pattern Debug] Worker ${workerId} (${strategy}/${workerPattern}) selected box ${targetBox} from available boxes [${boxNumbers.join(', ')}]`);
+    return targetBox;
+  }
 
-      case 'middle_down':
-        // Worker with middle_down pattern: Start from middle, work down
-        const sortedDesc = [...boxNumbers].sort((a, b) => b - a);
-        const middleDownIndex = Math.floor(sortedDesc.length / 2);
-        targetBox = sortedDesc[middleDownIndex];
-        break;
+  private async getJobAllocationStrategy(jobId: string): Promise<AllocationStrategy> {
+    const [row] = await this.db
+      .select({ allocationStrategy: jobTypes.allocationStrategy })
+      .from(jobs)
+      .leftJoin(jobTypes, eq(jobs.jobTypeId, jobTypes.id))
+      .where(eq(jobs.id, jobId));
 
-      default:
-        // Fallback to ascending
-        targetBox = Math.min(...boxNumbers);
-        break;
-    }
+    return isAllocationStrategy(row?.allocationStrategy) ? row.allocationStrategy : DEFAULT_ALLOCATION_STRATEGY;
+  }
 
-    console.log(`[Worker Pattern Debug] Worker ${workerId} (${workerPattern}) selected box ${targetBox} from available boxes [${boxNumbers.join(', ')}]`);
-    return targetBox;
+  // Every box currently holding a customer on this job
+  private async getActiveBoxNumbers(jobId: string): Promise<number[]> {
+    const jobBoxes = await this.db
+      .selectDistinct({ boxNumber: boxRequirements.boxNumber })
+      .from(boxRequirements)
+      .where(and(
+        eq(boxRequirements.jobId, jobId),
+        isNotNull(boxRequirements.boxNumber),
+        eq(boxRequirements.transferSequence, 0)
+      ));
+    return jobBoxes.map((box: { boxNumber: number }) => box.boxNumber);
   }
 
   /**
@@ -1805,7 +2709,7 @@ export class DatabaseStorage implements IStorage {
     jobId: string, 
     workerId: string, 
     workerColor: string
-  ): Promise<BoxRequirement | undefined> {
+  ): Promise<(BoxRequirement & { previousLastWorkerUserId: string | null; previousLastWorkerColor: string | null }) | undefined> {
     // BARCODE FIX: Normalize barcode format for comparison
     const normalizedBarCode = normalizeBarcodeFormat(barCode);
 
@@ -1828,29 +2732,33 @@ export class DatabaseStorage implements IStorage {
 
     const currentRequirement = requirement[0];
 
-    // Check if box can accept more items
-    if ((currentRequirement.scannedQty || 0) >= currentRequirement.requiredQty) {
-      console.log(`Box ${boxNumber} is already full for barcode ${barCode}`);
-      return undefined;
-    }
-
-    // Update scanned quantity
-    const newScannedQty = (currentRequirement.scannedQty || 0) + 1;
-    const isComplete = newScannedQty >= currentRequirement.requiredQty;
-
+    // Increment in the database and only while the slot is still open, so a concurrent
+    // scan that filled it first makes this a no-op instead of over-filling the box
     const [updatedRequirement] = await this.db
       .update(boxRequirements)
       .set({
-        scannedQty: newScannedQty,
-        isComplete,
+        scannedQty: sql`coalesce(${boxRequirements.scannedQty}, 0) + 1`,
+        isComplete: sql`coalesce(${boxRequirements.scannedQty}, 0) + 1 >= ${boxRequirements.requiredQty}`,
         lastWorkerUserId: workerId,
         lastWorkerColor: workerColor
       })
-      .where(eq(boxRequirements.id, currentRequirement.id))
+      .where(and(
+        eq(boxRequirements.id, currentRequirement.id),
+        sql`coalesce(${boxRequirements.scannedQty}, 0) < ${boxRequirements.requiredQty}`
+      ))
       .returning();
 
-    console.log(`Updated box ${boxNumber} for barcode ${barCode}: ${newScannedQty}/${currentRequirement.requiredQty}`);
-    return updatedRequirement;
+    if (!updatedRequirement) {
+      console.log(`Box ${boxNumber} is already full for barcode ${barCode}`);
+      return undefined;
+    }
+
+    console.log(`Updated box ${boxNumber} for barcode ${barCode}: ${updatedRequirement.scannedQty}/${updatedRequirement.requiredQty}`);
+    return {
+      ...updatedRequirement,
+      previousLastWorkerUserId: currentRequirement.lastWorkerUserId,
+      previousLastWorkerColor: currentRequirement.lastWorkerColor
+    };
   }
 
   // Migration method removed - all jobs now use box_requirements system
@@ -1923,7 +2831,7 @@ export class DatabaseStorage implements IStorage {
   // Job archive methods - moved to end of class to avoid duplicates
 
   // Delete all job data while preserving users and their settings
-  async deleteAllJobData(): Promise<{ deletedJobs: number; message: string }> {
+  async deleteAllJobData(performedBy: string): Promise<{ deletedJobs: number; message: string }> {
     try {
       // Get count of jobs before deletion
       const jobCount = await this.db.select().from(jobs);
@@ -1960,6 +2868,16 @@ export class DatabaseStorage implements IStorage {
       // NOTE: job_archives is preserved to maintain historical summaries
       await this.db.delete(jobs);
 
+      // Leave a record of who wiped the data and how much went
+      await this.createAuditLogEntry({
+        action: 'all_job_data_deleted',
+        performedBy,
+        details: {
+          deletedJobs: jobCount.length,
+          softDeletedJobs: jobCount.filter((job: Job) => job.deletedAt).length,
+        },
+      });
+
       return {
         deletedJobs: jobCount.length,
         message: `Successfully deleted ${jobCount.length} jobs and all associated data including CheckCount QA records. User accounts, job types, settings, and job archives preserved.`
@@ -2030,22 +2948,404 @@ export class DatabaseStorage implements IStorage {
     return session || undefined;
   }
 
-  async createCheckEvent(event: InsertCheckEvent): Promise<CheckEvent> {
-    const [result] = await this.db
-      .insert(checkEvents)
-      .values(event)
-      .returning();
-    return result;
-  }
+  /**
+   * Open a check on a box, or pick up the one already running. The checker's own active
+   * session is resumed with its progress rebuilt from the recorded check events; another
+   * checker's session locks the box unless it is taken over. Starts and handovers lock the
+   * job row so a box never has two active sessions.
+   */
+  async startCheckSession(jobId: string, boxNumber: number, user: Pick<User, 'id' | 'role'>, takeOver: boolean): Promise<CheckSessionStart> {
+    return await this.db.transaction(async (tx: any) => {
+      const txStorage = new DatabaseStorage(tx);
+      await tx.select({ id: jobs.id }).from(jobs).where(eq(jobs.id, jobId)).for('update');
+      await txStorage.cancelAbandonedCheckSessions(jobId);
 
-  async getCheckEventsBySessionId(sessionId: string): Promise<CheckEvent[]> {
-    return await this.db
-      .select()
+      const [activeSession]: CheckSession[] = await tx
+        .select()
+        .from(checkSessions)
+        .where(and(
+          eq(checkSessions.jobId, jobId),
+          eq(checkSessions.boxNumber, boxNumber),
+          eq(checkSessions.status, 'active')
+        ))
+        .orderBy(desc(checkSessions.startTime))
+        .limit(1);
+
+      if (activeSession && activeSession.userId !== user.id) {
+        const idleMs = Date.now() - new Date(activeSession.lastActivityTime || activeSession.startTime!).getTime();
+        const canTakeOver = user.role === 'manager' || user.role === 'supervisor' || idleMs >= CHECK_SESSION_HANDOVER_IDLE_MS;
+        if (!takeOver || !canTakeOver) {
+          const activeCheck = (await txStorage.getActiveCheckSessions(jobId)).find(check => check.sessionId === activeSession.id)!;
+          return { outcome: 'locked', activeCheck, canTakeOver };
+        }
+      }
+
+      if (activeSession) {
+        const isHandover = activeSession.userId !== user.id;
+        const [session] = await tx
+          .update(checkSessions)
+          .set({
+            lastActivityTime: new Date(),
+            ...(isHandover ? { userId: user.id, handedOverFrom: activeSession.userId, handedOverAt: new Date() } : {})
+          })
+          .where(eq(checkSessions.id, activeSession.id))
+          .returning();
+        return {
+          outcome: isHandover ? 'handed_over' : 'resumed',
+          session,
+          reconciliation: (await txStorage.getCheckReconciliation(session.id))!
+        };
+      }
+
+      const requirements = await txStorage.getBoxRequirementsByBoxNumber(jobId, boxNumber);
+      if (requirements.length === 0) {
+        return { outcome: 'empty_box' };
+      }
+
+      const session = await txStorage.createCheckSession({
+        jobId,
+        boxNumber,
+        userId: user.id,
+        totalItemsExpected: requirements.reduce((sum, requirement) => sum + (requirement.scannedQty || 0), 0),
+        status: 'active'
+      });
+      return { outcome: 'started', session, reconciliation: (await txStorage.getCheckReconciliation(session.id))! };
+    });
+  }
+
+  // Heartbeat from the owner's device - keeps an open check from being treated as abandoned
+  async touchCheckSession(id: string): Promise<CheckSession | undefined> {
+    const [session] = await this.db
+      .update(checkSessions)
+      .set({ lastActivityTime: new Date() })
+      .where(and(eq(checkSessions.id, id), eq(checkSessions.status, 'active')))
+      .returning();
+    return session || undefined;
+  }
+
+  async cancelCheckSession(id: string, reason: CheckSessionCancelReason): Promise<CheckSession | undefined> {
+    const [session] = await this.db
+      .update(checkSessions)
+      .set({ status: 'cancelled', cancelReason: reason, endTime: new Date() })
+      .where(and(eq(checkSessions.id, id), eq(checkSessions.status, 'active')))
+      .returning();
+    return session || undefined;
+  }
+
+  // Active sessions with no scan or heartbeat for CHECK_SESSION_ABANDON_MS release their box
+  async cancelAbandonedCheckSessions(jobId?: string): Promise<CheckSession[]> {
+    const cutoff = new Date(Date.now() - CHECK_SESSION_ABANDON_MS);
+    return await this.db
+      .update(checkSessions)
+      .set({ status: 'cancelled', cancelReason: 'abandoned', endTime: new Date() })
+      .where(and(
+        eq(checkSessions.status, 'active'),
+        sql`coalesce(${checkSessions.lastActivityTime}, ${checkSessions.startTime}) < ${cutoff}`,
+        ...(jobId ? [eq(checkSessions.jobId, jobId)] : [])
+      ))
+      .returning();
+  }
+
+  // Who is checking which box right now
+  async getActiveCheckSessions(jobId: string): Promise<ActiveCheckSession[]> {
+    const previousOwners = alias(users, 'previous_owners');
+    const rows = await this.db
+      .select({
+        session: checkSessions,
+        checkerName: users.name,
+        handedOverFromName: previousOwners.name,
+      })
+      .from(checkSessions)
+      .innerJoin(users, eq(checkSessions.userId, users.id))
+      .leftJoin(previousOwners, eq(checkSessions.handedOverFrom, previousOwners.id))
+      .where(and(eq(checkSessions.jobId, jobId), eq(checkSessions.status, 'active')))
+      .orderBy(checkSessions.boxNumber);
+    if (rows.length === 0) return [];
+
+    const customers = await this.db
+      .selectDistinct({ boxNumber: boxRequirements.boxNumber, customerName: boxRequirements.customerName })
+      .from(boxRequirements)
+      .where(and(
+        eq(boxRequirements.jobId, jobId),
+        eq(boxRequirements.transferSequence, 0),
+        inArray(boxRequirements.boxNumber, rows.map((row: any) => row.session.boxNumber))
+      ));
+    const customerByBox = new Map<number, string>(customers.map((customer: any) => [customer.boxNumber, customer.customerName]));
+
+    return rows.map(({ session, checkerName, handedOverFromName }: { session: CheckSession; checkerName: string; handedOverFromName: string | null }) => ({
+      sessionId: session.id,
+      jobId: session.jobId,
+      boxNumber: session.boxNumber,
+      customerName: customerByBox.get(session.boxNumber) ?? null,
+      userId: session.userId,
+      checkerName,
+      startTime: new Date(session.startTime!).toISOString(),
+      lastActivityTime: new Date(session.lastActivityTime || session.startTime!).toISOString(),
+      totalItemsExpected: session.totalItemsExpected,
+      totalItemsScanned: session.totalItemsScanned || 0,
+      handedOverFromName,
+    }));
+  }
+
+  async createCheckEvent(event: InsertCheckEvent): Promise<CheckEvent> {
+    const [result] = await this.db
+      .insert(checkEvents)
+      .values(event)
+      .returning();
+    return result;
+  }
+
+  /**
+   * One unit found by a check. The running count and the packed quantity come from the server,
+   * not the checker's browser. A barcode the box doesn't need is recorded as a 'wrong_item'
+   * finding with the box or customer it belongs to and the worker who last scanned into the box.
+   */
+  async recordCheckScan(session: CheckSession, barCode: string, scannedBy: string): Promise<CheckEvent> {
+    const normalizedBarCode = normalizeBarcodeFormat(barCode);
+    const [requirement] = await this.db
+      .select()
+      .from(boxRequirements)
+      .where(and(
+        eq(boxRequirements.jobId, session.jobId),
+        eq(boxRequirements.boxNumber, session.boxNumber),
+        eq(boxRequirements.transferSequence, 0),
+        sql`(${boxRequirements.barCode} = ${barCode} OR ${boxRequirements.barCode} = ${normalizedBarCode})`
+      ))
+      .limit(1);
+    if (!requirement) {
+      const home = await this.findWrongItemHome(session.jobId, barCode);
+      const checkEvent = await this.createCheckEvent({
+        checkSessionId: session.id,
+        barCode: home.barCode,
+        productName: home.productName,
+        scannedQty: 1,
+        expectedQty: 0,
+        discrepancyType: 'wrong_item',
+        eventType: 'wrong_item',
+        expectedBoxNumber: home.boxNumber,
+        expectedCustomerName: home.customerName,
+        attributedUserId: await this.getLastBoxWorker(session.jobId, session.boxNumber),
+        scannedBy
+      });
+      await this.db
+        .update(checkSessions)
+        .set({ totalItemsScanned: sql`COALESCE(${checkSessions.totalItemsScanned}, 0) + 1`, lastActivityTime: new Date() })
+        .where(eq(checkSessions.id, session.id));
+      return checkEvent;
+    }
+
+    const [{ count }] = await this.db
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(checkEvents)
+      .where(and(
+        eq(checkEvents.checkSessionId, session.id),
+        eq(checkEvents.barCode, requirement.barCode),
+        eq(checkEvents.eventType, 'scan')
+      ));
+    const scannedQty = Number(count) + 1;
+    const expectedQty = requirement.scannedQty || 0;
+
+    const checkEvent = await this.createCheckEvent({
+      checkSessionId: session.id,
+      barCode: requirement.barCode,
+      productName: requirement.productName,
+      scannedQty,
+      expectedQty,
+      discrepancyType: scannedQty === expectedQty ? 'match' : scannedQty > expectedQty ? 'excess' : 'shortage',
+      eventType: 'scan',
+      scannedBy
+    });
+    await this.db
+      .update(checkSessions)
+      .set({ totalItemsScanned: sql`COALESCE(${checkSessions.totalItemsScanned}, 0) + 1`, lastActivityTime: new Date() })
+      .where(eq(checkSessions.id, session.id));
+    return checkEvent;
+  }
+
+  async getCheckEventById(id: string): Promise<CheckEvent | undefined> {
+    const [event] = await this.db
+      .select()
+      .from(checkEvents)
+      .where(eq(checkEvents.id, id));
+    return event || undefined;
+  }
+
+  async getCheckEventsBySessionId(sessionId: string): Promise<CheckEvent[]> {
+    return await this.db
+      .select()
       .from(checkEvents)
       .where(eq(checkEvents.checkSessionId, sessionId))
       .orderBy(checkEvents.scanTime);
   }
 
+  // Where a wrong item belongs: a box still short of it, then a customer waiting for a box, then any line with the barcode
+  private async findWrongItemHome(jobId: string, barCode: string): Promise<{ barCode: string; productName: string | null; boxNumber: number | null; customerName: string | null }> {
+    const normalizedBarCode = normalizeBarcodeFormat(barCode);
+    const candidates: BoxRequirement[] = await this.db
+      .select()
+      .from(boxRequirements)
+      .where(and(
+        eq(boxRequirements.jobId, jobId),
+        sql`(${boxRequirements.barCode} = ${barCode} OR ${boxRequirements.barCode} = ${normalizedBarCode})`,
+        eq(boxRequirements.transferSequence, 0),
+        or(isNull(boxRequirements.isTransferred), eq(boxRequirements.isTransferred, false))
+      ))
+      .orderBy(boxRequirements.boxNumber);
+    if (candidates.length === 0) {
+      return { barCode, productName: null, boxNumber: null, customerName: null };
+    }
+
+    const isOpen = (requirement: BoxRequirement) => (requirement.scannedQty || 0) < requirement.requiredQty;
+    const home = candidates.find(requirement => requirement.boxNumber !== null && isOpen(requirement))
+      || candidates.find(requirement => requirement.boxNumber === null && isOpen(requirement))
+      || candidates[0];
+    return { barCode: home.barCode, productName: home.productName, boxNumber: home.boxNumber, customerName: home.customerName };
+  }
+
+  // The worker whose scan last went into the box - wrong items found there are attributed to them
+  private async getLastBoxWorker(jobId: string, boxNumber: number): Promise<string | null> {
+    const [lastScan] = await this.db
+      .select({ userId: scanSessions.userId })
+      .from(scanEvents)
+      .innerJoin(scanSessions, eq(scanEvents.sessionId, scanSessions.id))
+      .where(and(
+        eq(scanSessions.jobId, jobId),
+        eq(scanEvents.boxNumber, boxNumber),
+        eq(scanEvents.eventType, 'scan'),
+        isNull(scanEvents.undoneAt)
+      ))
+      .orderBy(desc(scanEvents.scanTime))
+      .limit(1);
+    return lastScan?.userId || null;
+  }
+
+  async getCheckWrongItems(sessionId: string): Promise<CheckWrongItemFinding[]> {
+    const rows = await this.db
+      .select({
+        checkEventId: checkEvents.id,
+        barCode: checkEvents.barCode,
+        productName: checkEvents.productName,
+        expectedBoxNumber: checkEvents.expectedBoxNumber,
+        expectedCustomerName: checkEvents.expectedCustomerName,
+        attributedUserId: checkEvents.attributedUserId,
+        attributedWorkerName: users.name,
+        resolution: checkEvents.resolution,
+        resolvedBoxNumber: checkEvents.resolvedBoxNumber,
+        scanTime: checkEvents.scanTime
+      })
+      .from(checkEvents)
+      .leftJoin(users, eq(checkEvents.attributedUserId, users.id))
+      .where(and(eq(checkEvents.checkSessionId, sessionId), eq(checkEvents.eventType, 'wrong_item')))
+      .orderBy(checkEvents.scanTime);
+
+    return rows.map((row: any) => ({
+      ...row,
+      resolution: row.resolution as CheckWrongItemResolution | null,
+      scanTime: row.scanTime ? new Date(row.scanTime).toISOString() : null
+    }));
+  }
+
+  /**
+   * Deal with a wrong item found during a check: move it to the box it belongs in (credited
+   * like a put aside item allocated to that box, unless it is matched to the mis-drop scan that
+   * already credited it),
+   * record it as an extra item, or put it aside. Runs under the job lock so the item is resolved once.
+   */
+  async resolveCheckWrongItem(
+    checkEventId: string,
+    resolution: CheckWrongItemResolution,
+    targetBoxNumber: number | undefined,
+    performedBy: string
+  ): Promise<CheckWrongItemResolutionResult | undefined> {
+    const result: CheckWrongItemResolutionResult | undefined = await this.db.transaction(async (tx: any) => {
+      const txStorage = new DatabaseStorage(tx);
+
+      const [event] = await tx.select().from(checkEvents).where(eq(checkEvents.id, checkEventId));
+      if (!event || event.eventType !== 'wrong_item') return undefined;
+      const session = await txStorage.getCheckSessionById(event.checkSessionId);
+      if (!session) return undefined;
+      await tx.select().from(jobs).where(eq(jobs.id, session.jobId)).for('update');
+
+      const findFinding = async () => (await txStorage.getCheckWrongItems(session.id)).find(finding => finding.checkEventId === checkEventId)!;
+      const [lockedEvent] = await tx.select().from(checkEvents).where(eq(checkEvents.id, checkEventId)).for('update');
+      if (lockedEvent.resolution) {
+        return { outcome: 'already_resolved', finding: await findFinding() };
+      }
+
+      const productName = lockedEvent.productName || 'Unknown';
+      let allocation: PutAsideAllocation | null = null;
+      let resolvedBoxNumber: number | null = null;
+      let matchedScanEventId: string | null = null;
+
+      if (resolution === 'move_to_box') {
+        resolvedBoxNumber = targetBoxNumber ?? lockedEvent.expectedBoxNumber;
+        if (resolvedBoxNumber === null) return { outcome: 'no_target_box' };
+
+        const targetBoxScans = await tx
+          .select({
+            id: scanEvents.id,
+            userId: scanSessions.userId,
+            barCode: scanEvents.barCode,
+            boxNumber: scanEvents.boxNumber,
+            eventType: scanEvents.eventType,
+            scanTime: scanEvents.scanTime,
+            undoneAt: scanEvents.undoneAt
+          })
+          .from(scanEvents)
+          .innerJoin(scanSessions, eq(scanEvents.sessionId, scanSessions.id))
+          .where(and(
+            eq(scanSessions.jobId, session.jobId),
+            eq(scanEvents.barCode, lockedEvent.barCode),
+            eq(scanEvents.boxNumber, resolvedBoxNumber),
+            eq(scanEvents.eventType, 'scan')
+          ));
+        const earlierMoves = await tx
+          .select({ matchedScanEventId: checkEvents.matchedScanEventId })
+          .from(checkEvents)
+          .innerJoin(checkSessions, eq(checkEvents.checkSessionId, checkSessions.id))
+          .where(and(eq(checkSessions.jobId, session.jobId), isNotNull(checkEvents.matchedScanEventId)));
+
+        const move = planWrongItemMove(
+          lockedEvent,
+          resolvedBoxNumber,
+          targetBoxScans,
+          new Set(earlierMoves.map((row: { matchedScanEventId: string }) => row.matchedScanEventId))
+        );
+        if (move.action === 'record_only') {
+          matchedScanEventId = move.scanEventId;
+        } else {
+          if (!(await txStorage.getOpenBoxRequirement(session.jobId, resolvedBoxNumber, lockedEvent.barCode))) {
+            return { outcome: 'box_does_not_need_item' };
+          }
+
+          const sessionId = await txStorage.getCheckerScanSessionId(session.jobId, session.userId);
+          const item = await txStorage.createPutAsideItem(session.jobId, lockedEvent.barCode, productName, sessionId);
+          allocation = await txStorage.creditPutAsideItem(item, resolvedBoxNumber, performedBy, 'check');
+          if (!allocation) {
+            throw new Error(`Wrong item ${checkEventId} could not be credited to box ${resolvedBoxNumber}`);
+          }
+        }
+      } else if (resolution === 'extra_item') {
+        await txStorage.createExtraItemsFromCheck(session.jobId, [{ barCode: lockedEvent.barCode, productName, qty: 1 }], session.userId);
+      } else {
+        const sessionId = await txStorage.getCheckerScanSessionId(session.jobId, session.userId);
+        await txStorage.createPutAsideItem(session.jobId, lockedEvent.barCode, productName, sessionId);
+      }
+
+      await tx
+        .update(checkEvents)
+        .set({ resolution, resolvedBoxNumber, matchedScanEventId, resolvedBy: performedBy, resolvedAt: new Date() })
+        .where(eq(checkEvents.id, checkEventId));
+
+      return { outcome: 'resolved', finding: await findFinding(), allocation };
+    });
+
+    if (result?.outcome === 'resolved' && result.allocation?.item.jobId) {
+      await this.updateJobStatusBasedOnProgress(result.allocation.item.jobId);
+    }
+    return result;
+  }
+
   async createCheckResult(result: InsertCheckResult): Promise<CheckResult> {
     const [checkResult] = await this.db
       .insert(checkResults)
@@ -2303,104 +3603,151 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async applyCheckCorrections(jobId: string, boxNumber: number, corrections: any[], sessionUserId: string, resolvedBy: string): Promise<void> {
-    for (const correction of corrections) {
-      // New allocation logic: 
-      // - correctedQty is already calculated to be min(checkQty, requiredQty) from frontend
-      // - This ensures only items up to required_qty are allocated to the box
-      // - Excess items beyond required_qty are handled as extras separately
+  // The box as the check found it, rebuilt from the session's recorded events and the box's current requirements
+  async getCheckReconciliation(sessionId: string): Promise<CheckReconciliation | undefined> {
+    const session = await this.getCheckSessionById(sessionId);
+    if (!session) return undefined;
 
-      // Update box requirement with corrected quantity (capped at required_qty)
-      await this.db
-        .update(boxRequirements)
-        .set({ 
-          scannedQty: correction.correctedQty, // Already capped at required_qty by frontend
-          lastWorkerUserId: sessionUserId,
-        })
-        .where(and(
-          eq(boxRequirements.jobId, jobId),
-          eq(boxRequirements.boxNumber, boxNumber),
-          eq(boxRequirements.barCode, correction.barCode)
-        ));
+    const requirements = await this.getBoxRequirementsByBoxNumber(session.jobId, session.boxNumber);
+    const events = await this.getCheckEventsBySessionId(session.id);
+    const wrongItems = await this.getCheckWrongItems(session.id);
+    return buildCheckReconciliation(session, requirements, events, wrongItems);
+  }
 
-      // Create check result record for tracking with enhanced notes
-      const allocationNotes = correction.checkQty > (correction.requiredQty || 0) 
-        ? `Original: ${correction.originalQty}, Checked: ${correction.checkQty}, Allocated to box: ${correction.correctedQty}, Excess: ${correction.checkQty - correction.correctedQty}`
-        : `Original: ${correction.originalQty}, Checked: ${correction.checkQty}, Applied: ${correction.correctedQty}`;
+  /**
+   * Accept or reject the reconciliation the supervisor was shown. It is rebuilt under
+   * the job lock with the session row locked: a session resolves once, and a proposal
+   * built before another check corrected the box comes back as 'stale'.
+   */
+  async resolveCheckSession(sessionId: string, decision: CheckResolutionDecision, version: string, resolvedBy: string): Promise<CheckResolution | undefined> {
+    const resolution: CheckResolution | undefined = await this.db.transaction(async (tx: any) => {
+      const txStorage = new DatabaseStorage(tx);
+
+      const session = await txStorage.getCheckSessionById(sessionId);
+      if (!session) return undefined;
+      await tx.select().from(jobs).where(eq(jobs.id, session.jobId)).for('update');
+      const [lockedSession] = await tx.select().from(checkSessions).where(eq(checkSessions.id, sessionId)).for('update');
+      if (lockedSession.status !== 'active') {
+        return { outcome: 'session_closed', session: lockedSession };
+      }
 
-      await this.db
-        .insert(checkResults)
-        .values({
-          checkSessionId: correction.sessionId,
-          boxRequirementId: correction.boxRequirementId,
-          finalQty: correction.correctedQty,
-          discrepancyNotes: allocationNotes,
-          resolutionAction: 'correction_applied',
-          resolvedBy: resolvedBy,
+      const reconciliation = (await txStorage.getCheckReconciliation(sessionId))!;
+      if (reconciliation.version !== version) {
+        return { outcome: 'stale', reconciliation };
+      }
+
+      const discrepantLines = reconciliation.lines.filter(line => line.outcome !== 'match');
+      const applyCorrections = decision === 'accept' && discrepantLines.length > 0;
+
+      if (discrepantLines.length === 0) {
+        for (const line of reconciliation.lines) {
+          await tx.insert(checkResults).values({
+            checkSessionId: sessionId,
+            boxRequirementId: line.boxRequirementId,
+            finalQty: line.originalQty,
+            discrepancyNotes: 'No discrepancies found - verified successfully',
+            resolutionAction: 'verified_complete',
+            resolvedBy
+          });
+        }
+      }
+
+      // Results are recorded for every discrepancy, whether applied or rejected
+      for (const line of discrepantLines) {
+        if (applyCorrections) {
+          // Only units up to requiredQty go to the box - the rest become extra items below
+          await tx
+            .update(boxRequirements)
+            .set({
+              scannedQty: line.correctedQty,
+              isComplete: line.correctedQty >= line.requiredQty,
+              lastWorkerUserId: session.userId
+            })
+            .where(eq(boxRequirements.id, line.boxRequirementId));
+        }
+
+        await tx.insert(checkResults).values({
+          checkSessionId: sessionId,
+          boxRequirementId: line.boxRequirementId,
+          finalQty: applyCorrections ? line.correctedQty : line.originalQty,
+          discrepancyNotes: describeCheckLine(line, decision),
+          resolutionAction: applyCorrections ? 'correction_applied' : 'correction_rejected',
+          resolvedBy
         });
+      }
+
+      if (applyCorrections && reconciliation.extraItems.length > 0) {
+        await txStorage.createExtraItemsFromCheck(session.jobId, reconciliation.extraItems, session.userId);
+      }
+
+      const [completedSession] = await tx
+        .update(checkSessions)
+        .set({
+          status: 'completed',
+          endTime: new Date(),
+          discrepanciesFound: reconciliation.discrepancies,
+          correctionsApplied: applyCorrections,
+          totalItemsScanned: reconciliation.totalCheckScans,
+          isComplete: true
+        })
+        .where(eq(checkSessions.id, sessionId))
+        .returning();
+
+      return { outcome: 'resolved', session: completedSession, reconciliation };
+    });
+
+    if (resolution?.outcome === 'resolved' && resolution.session.correctionsApplied) {
+      await this.updateJobStatusBasedOnProgress(resolution.session.jobId);
     }
+    return resolution;
   }
 
-  async createRejectedCheckResults(checkSessionId: string, corrections: any[], resolvedBy: string): Promise<void> {
-    // Create check results for rejected corrections
-    for (const correction of corrections) {
-      await this.db
-        .insert(checkResults)
-        .values({
-          checkSessionId: checkSessionId,
-          boxRequirementId: correction.boxRequirementId,
-          finalQty: correction.originalQty, // Keep original quantity since corrections were rejected
-          discrepancyNotes: `Original: ${correction.originalQty}, Checked: ${correction.checkQty}, Status: REJECTED`,
-          resolutionAction: 'correction_rejected',
-          resolvedBy: resolvedBy,
-        });
+  async createExtraItemsFromCheck(jobId: string, extraItems: CheckReconciliation['extraItems'], sessionUserId: string): Promise<void> {
+    const sessionId = await this.getCheckerScanSessionId(jobId, sessionUserId);
+
+    // One extra item scan event per unit
+    for (const extraItem of extraItems) {
+      for (let unit = 0; unit < extraItem.qty; unit++) {
+        await this.db
+          .insert(scanEvents)
+          .values({
+            sessionId: sessionId,
+            jobId: jobId, // Ensure jobId is included for proper tracking
+            barCode: extraItem.barCode,
+            productName: extraItem.productName || 'Unknown',
+            customerName: 'Unassigned',
+            boxNumber: null,
+            eventType: 'extra_item',
+            isExtraItem: true,
+            scanTime: new Date(),
+          });
+      }
     }
   }
 
-  async createExtraItemsFromCheck(jobId: string, extraItems: any[], sessionUserId: string): Promise<void> {
-    // Get an active scan session for this user to attach extra items
+  // Items a checker records (extras, put asides) go under their active scan session on the job, opened if needed
+  private async getCheckerScanSessionId(jobId: string, userId: string): Promise<string> {
     const activeSession = await this.db
       .select()
       .from(scanSessions)
       .where(and(
-        eq(scanSessions.userId, sessionUserId),
+        eq(scanSessions.userId, userId),
         eq(scanSessions.jobId, jobId),
         eq(scanSessions.status, 'active')
       ))
       .limit(1);
+    if (activeSession.length > 0) return activeSession[0].id;
 
-    let sessionId = activeSession.length > 0 ? activeSession[0].id : null;
-
-    // If no active session, create one for extra items
-    if (!sessionId) {
-      const newSession = await this.db
-        .insert(scanSessions)
-        .values({
-          userId: sessionUserId,
-          jobId: jobId,
-          status: 'active',
-          startTime: new Date(),
-        })
-        .returning();
-      sessionId = newSession[0].id;
-    }
-
-    // Create scan events for extra items
-    for (const extraItem of extraItems) {
-      await this.db
-        .insert(scanEvents)
-        .values({
-          sessionId: sessionId,
-          jobId: jobId, // Ensure jobId is included for proper tracking
-          barCode: extraItem.barCode,
-          productName: extraItem.productName || 'Unknown',
-          customerName: 'Unassigned',
-          boxNumber: null,
-          eventType: 'extra_item',
-          isExtraItem: true,
-          scanTime: new Date(),
-        });
-    }
+    const [newSession] = await this.db
+      .insert(scanSessions)
+      .values({
+        userId,
+        jobId,
+        status: 'active',
+        startTime: new Date(),
+      })
+      .returning();
+    return newSession.id;
   }
 
   // QA Dashboard Summary Methods
@@ -2410,7 +3757,10 @@ export class DatabaseStorage implements IStorage {
       const activeJobs = await this.db
         .select()
         .from(jobs)
-        .where(eq(jobs.status, 'active'));
+        .where(and(eq(jobs.status, 'active'), isNull(jobs.deletedAt)));
+
+      // Jobs whose types share a risk lookback share one worker analytics load
+      const riskReports = new Map<number, Promise<WorkerAnalyticsReport>>();
 
       // Calculate QA metrics for each active job
       const jobSummaries = await Promise.all(
@@ -2491,6 +3841,8 @@ export class DatabaseStorage implements IStorage {
             .sort((a, b) => b.accuracy - a.accuracy)
             .slice(0, 3);
 
+          const checkQueue = await this.loadQaCheckQueue(job.id, riskReports);
+
           return {
             jobId: job.id,
             jobName: job.name,
@@ -2500,7 +3852,13 @@ export class DatabaseStorage implements IStorage {
             completedSessions: completedSessions.length,
             totalDiscrepancies: sessionsData.reduce((sum: number, session: any) => sum + (session.discrepanciesFound || 0), 0),
             recentActivity: recentSessions,
-            topWorkers
+            topWorkers,
+            checkQueue: {
+              totalQueued: checkQueue.totalQueued,
+              checkedCount: checkQueue.checkedCount,
+              pendingCount: checkQueue.pendingCount,
+              progress: checkQueue.progress
+            }
           };
         })
       );
@@ -2536,62 +3894,533 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // ========================
-  // BOX LIMIT: UNALLOCATED CUSTOMERS METHODS  
-  // ========================
+  // QA check queue: packed boxes the job type's sampling rules want CheckCount to verify
+  async getQaCheckQueue(jobId: string): Promise<QaCheckQueue | undefined> {
+    const job = await this.getJobById(jobId);
+    if (!job) return undefined;
+    return this.loadQaCheckQueue(jobId, new Map());
+  }
 
-  async getUnallocatedCustomers(jobId: string): Promise<{ customerName: string; totalItems: number; productCount: number; groupName: string | null; }[]> {
-    try {
-      const unallocatedData = await this.db
-        .select({
-          customerName: boxRequirements.customerName,
-          groupName: boxRequirements.groupName,
-          totalItems: sql<number>`SUM(${boxRequirements.requiredQty})`,
-          productCount: sql<number>`COUNT(*)`
-        })
-        .from(boxRequirements)
-        .where(and(eq(boxRequirements.jobId, jobId), sql`${boxRequirements.boxNumber} IS NULL`))
-        .groupBy(boxRequirements.customerName, boxRequirements.groupName)
-        .orderBy(boxRequirements.customerName);
+  /**
+   * A box is packed once every active line is fully scanned. Its packer is the worker
+   * with the most (not undone) scans into it; it was packed at its last scan or put-aside
+   * credit. Empty, Transfer and put-aside stock allocated by hand or by CheckCount are
+   * box-level corrections. Worker risk comes from the worker analytics over the
+   * configured lookback, across all jobs.
+   */
+  private async loadQaCheckQueue(jobId: string, riskReports: Map<number, Promise<WorkerAnalyticsReport>>): Promise<QaCheckQueue> {
+    const [jobType] = await this.db
+      .select({ qaSamplingConfig: jobTypes.qaSamplingConfig })
+      .from(jobs)
+      .leftJoin(jobTypes, eq(jobs.jobTypeId, jobTypes.id))
+      .where(eq(jobs.id, jobId));
+    const config = resolveQaSamplingConfig(jobType?.qaSamplingConfig);
 
-      return unallocatedData.map((item: any) => ({
-        customerName: item.customerName,
-        totalItems: item.totalItems || 0,
-        productCount: item.productCount || 0,
-        groupName: item.groupName
-      }));
-    } catch (error) {
-      console.error(`[ERROR] getUnallocatedCustomers failed for job ${jobId}:`, error);
-      throw error;
+    const requirements: BoxRequirement[] = await this.db
+      .select()
+      .from(boxRequirements)
+      .where(and(
+        eq(boxRequirements.jobId, jobId),
+        isNotNull(boxRequirements.boxNumber),
+        eq(boxRequirements.transferSequence, 0)
+      ));
+
+    const requirementsByBox = new Map<number, BoxRequirement[]>();
+    for (const requirement of requirements) {
+      const boxNumber = requirement.boxNumber!;
+      requirementsByBox.set(boxNumber, [...(requirementsByBox.get(boxNumber) || []), requirement]);
     }
-  }
+    const packedBoxes = Array.from(requirementsByBox.entries())
+      .filter(([, lines]) => lines.every(line => (line.scannedQty || 0) >= line.requiredQty));
+    const packedRequirementIds = packedBoxes.flatMap(([, lines]) => lines.map(line => line.id));
 
-  // Get customer product details for any customer (allocated or unallocated)
-  async getCustomerProductDetails(jobId: string, customerName: string): Promise<BoxRequirement[]> {
-    try {
-      return await this.db
-        .select()
-        .from(boxRequirements)
+    const packingScans = packedRequirementIds.length > 0
+      ? await this.db
+        .select({
+          boxNumber: boxRequirements.boxNumber,
+          userId: scanSessions.userId,
+          scanTime: scanEvents.scanTime,
+        })
+        .from(scanEvents)
+        .innerJoin(scanSessions, eq(scanEvents.sessionId, scanSessions.id))
+        .innerJoin(boxRequirements, eq(scanEvents.boxRequirementId, boxRequirements.id))
         .where(and(
-          eq(boxRequirements.jobId, jobId),
-          eq(boxRequirements.customerName, customerName)
+          eq(scanEvents.eventType, 'scan'),
+          isNull(scanEvents.undoneAt),
+          inArray(scanEvents.boxRequirementId, packedRequirementIds)
         ))
-        .orderBy(boxRequirements.productName);
-    } catch (error) {
-      console.error(`[ERROR] getCustomerProductDetails failed for customer ${customerName} in job ${jobId}:`, error);
-      throw error;
-    }
-  }
-
-  // ========================
-  // JOB ARCHIVING METHODS
-  // ========================
+      : [];
 
-  async createJobArchive(archive: InsertJobArchive): Promise<JobArchive> {
-    const [result] = await this.db
-      .insert(jobArchives)
-      .values(archive)
-      .returning();
+    const putAsideCredits = await this.db
+      .select({
+        boxNumber: scanEvents.allocatedToBox,
+        allocatedAt: scanEvents.allocatedAt,
+        allocationSource: scanEvents.allocationSource,
+      })
+      .from(scanEvents)
+      .where(and(
+        eq(scanEvents.jobId, jobId),
+        eq(scanEvents.eventType, 'put_aside'),
+        isNotNull(scanEvents.allocatedToBox),
+        isNotNull(scanEvents.allocatedAt)
+      ));
+
+    const boxActions = await this.db
+      .select({ boxNumber: boxHistory.boxNumber, timestamp: boxHistory.timestamp })
+      .from(boxHistory)
+      .where(eq(boxHistory.jobId, jobId));
+
+    const checks = await this.db
+      .select({
+        boxNumber: checkSessions.boxNumber,
+        status: checkSessions.status,
+        endTime: checkSessions.endTime,
+        discrepanciesFound: checkSessions.discrepanciesFound,
+      })
+      .from(checkSessions)
+      .where(eq(checkSessions.jobId, jobId));
+
+    const latest = (current: Date | null, time: Date | string | null): Date | null => {
+      if (!time) return current;
+      const date = new Date(time);
+      return !current || date > current ? date : current;
+    };
+
+    const packedAtByBox = new Map<number, Date | null>();
+    const scanCountsByBox = new Map<number, Map<string, number>>();
+    for (const scan of packingScans as Array<{ boxNumber: number; userId: string; scanTime: Date | null }>) {
+      packedAtByBox.set(scan.boxNumber, latest(packedAtByBox.get(scan.boxNumber) ?? null, scan.scanTime));
+      const counts = scanCountsByBox.get(scan.boxNumber) || new Map<string, number>();
+      counts.set(scan.userId, (counts.get(scan.userId) || 0) + 1);
+      scanCountsByBox.set(scan.boxNumber, counts);
+    }
+
+    const correctedAtByBox = new Map<number, Date | null>();
+    for (const credit of putAsideCredits as Array<{ boxNumber: number; allocatedAt: Date; allocationSource: string | null }>) {
+      packedAtByBox.set(credit.boxNumber, latest(packedAtByBox.get(credit.boxNumber) ?? null, credit.allocatedAt));
+      if (credit.allocationSource === 'manual' || credit.allocationSource === 'check') {
+        correctedAtByBox.set(credit.boxNumber, latest(correctedAtByBox.get(credit.boxNumber) ?? null, credit.allocatedAt));
+      }
+    }
+    for (const action of boxActions as Array<{ boxNumber: number; timestamp: Date | null }>) {
+      correctedAtByBox.set(action.boxNumber, latest(correctedAtByBox.get(action.boxNumber) ?? null, action.timestamp));
+    }
+
+    const packerByBox = new Map<number, string>();
+    scanCountsByBox.forEach((counts, boxNumber) => {
+      const [packerId] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+      packerByBox.set(boxNumber, packerId);
+    });
+
+    const packerIds = Array.from(new Set(packerByBox.values()));
+    const packers = packerIds.length > 0
+      ? await this.db
+        .select({ id: users.id, name: users.name })
+        .from(users)
+        .where(inArray(users.id, packerIds))
+      : [];
+    const packerNames = new Map<string, string>(packers.map((packer: any) => [packer.id, packer.name]));
+
+    let riskReport = riskReports.get(config.riskLookbackDays);
+    if (!riskReport) {
+      const to = new Date();
+      riskReport = this.getWorkerAnalytics({
+        from: new Date(to.getTime() - config.riskLookbackDays * 24 * 60 * 60 * 1000),
+        to,
+        bucket: 'day',
+        timezoneOffset: 0,
+      });
+      riskReports.set(config.riskLookbackDays, riskReport);
+    }
+    const riskMetrics = new Map((await riskReport).workers.map(worker => [worker.userId, worker.metrics]));
+
+    const workers: QaWorkerRecord[] = packerIds.map(userId => {
+      const metrics = riskMetrics.get(userId);
+      return {
+        userId,
+        name: packerNames.get(userId) || 'Unknown',
+        discrepancies: metrics ? metrics.checkedLines - metrics.accurateLines : 0,
+        undoRate: metrics?.undoRate ?? 0,
+      };
+    });
+
+    const boxes: QaPackedBox[] = packedBoxes.map(([boxNumber, lines]) => {
+      const packedBy = packerByBox.get(boxNumber) ?? null;
+      return {
+        boxNumber,
+        customerName: lines[0].customerName,
+        packedBy,
+        packedByName: packedBy ? packerNames.get(packedBy) || 'Unknown' : null,
+        packedAt: packedAtByBox.get(boxNumber) ?? null,
+        correctedAt: correctedAtByBox.get(boxNumber) ?? null,
+      };
+    });
+
+    return buildQaCheckQueue({
+      jobId,
+      config,
+      boxes,
+      checks: checks.map((check: any) => ({ ...check, endTime: check.endTime ? new Date(check.endTime) : null })),
+      workers,
+    });
+  }
+
+  // Worker analytics: shift metrics across jobs for a date range, optionally for one worker or job
+  async getWorkerAnalytics(query: WorkerAnalyticsQuery, userId?: string): Promise<WorkerAnalyticsReport> {
+    // Deleted jobs stay out of the numbers while they wait to be purged - both queries join jobs
+    const sessionFilters = [
+      isNull(jobs.deletedAt),
+      ...(query.jobId ? [eq(scanSessions.jobId, query.jobId)] : []),
+      ...(userId ? [eq(scanSessions.userId, userId)] : []),
+    ];
+    const sessionEnd = sql<Date>`coalesce(${scanSessions.endTime}, ${scanSessions.lastActivityTime}, ${scanSessions.startTime})`;
+
+    const sessions = await this.db
+      .select({
+        id: scanSessions.id,
+        userId: scanSessions.userId,
+        jobId: scanSessions.jobId,
+        startTime: scanSessions.startTime,
+        endTime: sessionEnd,
+      })
+      .from(scanSessions)
+      .innerJoin(jobs, eq(scanSessions.jobId, jobs.id))
+      .where(and(
+        lt(scanSessions.startTime, query.to),
+        sql`${sessionEnd} >= ${query.from}`,
+        ...sessionFilters
+      ));
+
+    const events = await this.db
+      .select({
+        sessionId: scanEvents.sessionId,
+        userId: scanSessions.userId,
+        jobId: scanSessions.jobId,
+        eventType: scanEvents.eventType,
+        scanTime: scanEvents.scanTime,
+      })
+      .from(scanEvents)
+      .innerJoin(scanSessions, eq(scanEvents.sessionId, scanSessions.id))
+      .innerJoin(jobs, eq(scanSessions.jobId, jobs.id))
+      .where(and(
+        gte(scanEvents.scanTime, query.from),
+        lt(scanEvents.scanTime, query.to),
+        isNull(scanEvents.undoneAt),
+        or(
+          inArray(scanEvents.eventType, ['scan', 'error', 'undo']),
+          // Only extras a worker scanned count as caused: scans record the worker's colour, while extras
+          // a check or an amendment records under the checker's or manager's session have none
+          and(eq(scanEvents.eventType, 'extra_item'), isNotNull(scanEvents.workerColor))
+        ),
+        ...sessionFilters
+      ));
+
+    const checkedLines = await this.getCheckedLinesByPacker(query, userId);
+
+    const jobIds = Array.from(new Set([
+      ...sessions.map((session: any) => session.jobId as string),
+      ...events.map((event: any) => event.jobId as string),
+      ...checkedLines.map((line) => line.jobId),
+    ]));
+    const userIds = Array.from(new Set([
+      ...sessions.map((session: any) => session.userId as string),
+      ...events.map((event: any) => event.userId as string),
+      ...checkedLines.map((line) => line.userId),
+    ]));
+
+    const jobRows = jobIds.length > 0
+      ? await this.db
+        .select({
+          id: jobs.id,
+          name: jobs.name,
+          benchmarkItemsPerHour: jobTypes.benchmarkItemsPerHour,
+          scoringConfig: jobTypes.scoringConfig,
+        })
+        .from(jobs)
+        .leftJoin(jobTypes, eq(jobs.jobTypeId, jobTypes.id))
+        .where(inArray(jobs.id, jobIds))
+      : [];
+
+    const workers = userIds.length > 0
+      ? await this.db
+        .select({ id: users.id, name: users.name, staffId: users.staffId })
+        .from(users)
+        .where(inArray(users.id, userIds))
+      : [];
+
+    return buildWorkerAnalyticsReport({
+      query,
+      workers,
+      jobNames: new Map(jobRows.map((job: any) => [job.id, job.name])),
+      // Same idle-gap threshold the job's live score uses
+      idleGapMsByJob: new Map(jobRows.map((job: any) => [job.id, resolveScoringConfig(job.benchmarkItemsPerHour, job.scoringConfig).idleGapMs])),
+      sessions: sessions.map((session: any) => ({
+        ...session,
+        startTime: new Date(session.startTime),
+        endTime: new Date(session.endTime),
+      })),
+      events: events
+        .filter((event: any) => event.scanTime)
+        .map((event: any) => ({ ...event, scanTime: new Date(event.scanTime) })),
+      checkedLines,
+    });
+  }
+
+  /**
+   * Box lines verified by a CheckCount completed in the range, attributed to every worker
+   * whose (not undone) scans packed the line before the check started. A line is accurate
+   * unless the check recorded a correction for it. Wrong items the check found count as an
+   * inaccurate line for the worker they were attributed to.
+   */
+  private async getCheckedLinesByPacker(query: WorkerAnalyticsQuery, userId?: string): Promise<AnalyticsCheckedLine[]> {
+    const completedChecks: CheckSession[] = (await this.db
+      .select()
+      .from(checkSessions)
+      .innerJoin(jobs, eq(checkSessions.jobId, jobs.id))
+      .where(and(
+        eq(checkSessions.status, 'completed'),
+        gte(checkSessions.endTime, query.from),
+        lt(checkSessions.endTime, query.to),
+        isNull(jobs.deletedAt),
+        ...(query.jobId ? [eq(checkSessions.jobId, query.jobId)] : [])
+      ))).map((row: any) => row.check_sessions);
+    if (completedChecks.length === 0) return [];
+
+    const checkJobIds = Array.from(new Set<string>(completedChecks.map((check: CheckSession) => check.jobId)));
+    const requirements: BoxRequirement[] = await this.db
+      .select()
+      .from(boxRequirements)
+      .where(inArray(boxRequirements.jobId, checkJobIds));
+
+    const requirementsByBox = new Map<string, BoxRequirement[]>();
+    for (const requirement of requirements) {
+      if (requirement.boxNumber === null) continue;
+      const key = `${requirement.jobId}:${requirement.boxNumber}`;
+      requirementsByBox.set(key, [...(requirementsByBox.get(key) || []), requirement]);
+    }
+
+    const requirementIds = requirements.map((requirement) => requirement.id);
+    const packingScans = requirementIds.length > 0
+      ? await this.db
+        .select({
+          boxRequirementId: scanEvents.boxRequirementId,
+          userId: scanSessions.userId,
+          scanTime: scanEvents.scanTime,
+        })
+        .from(scanEvents)
+        .innerJoin(scanSessions, eq(scanEvents.sessionId, scanSessions.id))
+        .where(and(
+          eq(scanEvents.eventType, 'scan'),
+          isNull(scanEvents.undoneAt),
+          inArray(scanEvents.boxRequirementId, requirementIds),
+          ...(userId ? [eq(scanSessions.userId, userId)] : [])
+        ))
+      : [];
+
+    const scansByRequirement = new Map<string, Array<{ userId: string; scanTime: number }>>();
+    for (const scan of packingScans as Array<{ boxRequirementId: string | null; userId: string; scanTime: Date | null }>) {
+      if (!scan.boxRequirementId || !scan.scanTime) continue;
+      const requirementScans = scansByRequirement.get(scan.boxRequirementId) || [];
+      requirementScans.push({ userId: scan.userId, scanTime: new Date(scan.scanTime).getTime() });
+      scansByRequirement.set(scan.boxRequirementId, requirementScans);
+    }
+
+    const corrections = await this.db
+      .select({ checkSessionId: checkResults.checkSessionId, boxRequirementId: checkResults.boxRequirementId })
+      .from(checkResults)
+      .where(and(
+        inArray(checkResults.checkSessionId, completedChecks.map((check: CheckSession) => check.id)),
+        inArray(checkResults.resolutionAction, ['correction_applied', 'correction_rejected'])
+      ));
+    const correctedLines = new Set(corrections.map((correction: any) => `${correction.checkSessionId}:${correction.boxRequirementId}`));
+
+    const lines: AnalyticsCheckedLine[] = [];
+    for (const check of completedChecks as CheckSession[]) {
+      const checkStart = new Date(check.startTime || check.endTime!).getTime();
+
+      for (const requirement of requirementsByBox.get(`${check.jobId}:${check.boxNumber}`) || []) {
+        const packers = new Set(
+          (scansByRequirement.get(requirement.id) || [])
+            .filter((scan) => scan.scanTime <= checkStart)
+            .map((scan) => scan.userId)
+        );
+
+        packers.forEach((packerId) => {
+          lines.push({
+            userId: packerId,
+            jobId: check.jobId,
+            checkedAt: new Date(check.endTime!),
+            accurate: !correctedLines.has(`${check.id}:${requirement.id}`),
+          });
+        });
+      }
+    }
+
+    const wrongItems = await this.db
+      .select({ checkSessionId: checkEvents.checkSessionId, attributedUserId: checkEvents.attributedUserId })
+      .from(checkEvents)
+      .where(and(
+        inArray(checkEvents.checkSessionId, completedChecks.map((check: CheckSession) => check.id)),
+        eq(checkEvents.eventType, 'wrong_item'),
+        isNotNull(checkEvents.attributedUserId),
+        ...(userId ? [eq(checkEvents.attributedUserId, userId)] : [])
+      ));
+    const checksById = new Map<string, CheckSession>(completedChecks.map((check: CheckSession) => [check.id, check]));
+    for (const wrongItem of wrongItems as Array<{ checkSessionId: string; attributedUserId: string }>) {
+      const check = checksById.get(wrongItem.checkSessionId)!;
+      lines.push({
+        userId: wrongItem.attributedUserId,
+        jobId: check.jobId,
+        checkedAt: new Date(check.endTime!),
+        accurate: false,
+      });
+    }
+    return lines;
+  }
+
+  // ========================
+  // BOX LIMIT: UNALLOCATED CUSTOMERS METHODS  
+  // ========================
+
+  // Customers waiting for a box, in the order reallocation will give them one
+  async getUnallocatedCustomers(jobId: string): Promise<CustomerQueue> {
+    try {
+      const [job] = await this.db
+        .select({ reallocationPolicy: jobs.reallocationPolicy })
+        .from(jobs)
+        .where(eq(jobs.id, jobId));
+      const policy = isCustomerQueuePolicy(job?.reallocationPolicy) ? job.reallocationPolicy : DEFAULT_CUSTOMER_QUEUE_POLICY;
+
+      const unallocatedData = await this.db
+        .select({
+          customerName: boxRequirements.customerName,
+          groupName: boxRequirements.groupName,
+          totalItems: sql<number>`SUM(${boxRequirements.requiredQty})`,
+          productCount: sql<number>`COUNT(*)`,
+          customerSequence: sql<number | null>`MIN(${boxRequirements.customerSequence})`,
+          queuePosition: sql<number | null>`MIN(${boxRequirements.queuePosition})`,
+          isPinned: sql<boolean>`BOOL_OR(COALESCE(${boxRequirements.isQueuePinned}, false))`,
+          isPriority: sql<boolean>`BOOL_OR(COALESCE(${boxRequirements.isQueuePriority}, false))`
+        })
+        .from(boxRequirements)
+        .where(and(
+          eq(boxRequirements.jobId, jobId),
+          isNull(boxRequirements.boxNumber),
+          eq(boxRequirements.transferSequence, 0), // Only active (not archived) customers
+          or(isNull(boxRequirements.isTransferred), eq(boxRequirements.isTransferred, false)) // Transferred customers never get a box back
+        ))
+        .groupBy(boxRequirements.customerName, boxRequirements.groupName);
+
+      const candidates: CustomerQueueCandidate[] = unallocatedData.map((item: any) => ({
+        customerName: item.customerName,
+        groupName: item.groupName,
+        totalItems: Number(item.totalItems) || 0,
+        productCount: Number(item.productCount) || 0,
+        customerSequence: item.customerSequence === null ? null : Number(item.customerSequence),
+        queuePosition: item.queuePosition === null ? null : Number(item.queuePosition),
+        isPinned: !!item.isPinned,
+        isPriority: !!item.isPriority
+      }));
+
+      // Jobs imported before the CSV order was stored fall back to the order in their csvData
+      if (candidates.some(candidate => candidate.customerSequence === null)) {
+        const [jobData] = await this.db.select({ csvData: jobs.csvData }).from(jobs).where(eq(jobs.id, jobId));
+        const csvSequence = getCsvCustomerSequence(jobData?.csvData);
+        candidates.forEach(candidate => {
+          candidate.customerSequence ??= csvSequence.get(candidate.customerName) ?? null;
+        });
+      }
+
+      return {
+        policy,
+        hasManualOrder: candidates.some(candidate => candidate.queuePosition !== null),
+        customers: sortCustomerQueue(candidates, policy)
+      };
+    } catch (error) {
+      console.error(`[ERROR] getUnallocatedCustomers failed for job ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change the job's queue policy and/or the supervisor's manual order. The
+   * order lists customers front to back; customers left out keep their place
+   * behind the ordered ones. A null order goes back to the policy alone.
+   */
+  async updateCustomerQueue(jobId: string, update: CustomerQueueUpdate): Promise<CustomerQueue> {
+    await this.db.transaction(async (tx: any) => {
+      if (update.policy) {
+        await tx.update(jobs).set({ reallocationPolicy: update.policy }).where(eq(jobs.id, jobId));
+      }
+      if (update.order !== undefined) {
+        await tx
+          .update(boxRequirements)
+          .set({ queuePosition: null })
+          .where(and(eq(boxRequirements.jobId, jobId), isNull(boxRequirements.boxNumber)));
+        const order = update.order || [];
+        for (let index = 0; index < order.length; index++) {
+          await tx
+            .update(boxRequirements)
+            .set({ queuePosition: index + 1 })
+            .where(and(
+              eq(boxRequirements.jobId, jobId),
+              eq(boxRequirements.customerName, order[index]),
+              isNull(boxRequirements.boxNumber)
+            ));
+        }
+      }
+    });
+    return await this.getUnallocatedCustomers(jobId);
+  }
+
+  // Pin a waiting customer to the front of the queue or flag them as a priority customer
+  async setCustomerQueueFlags(jobId: string, customerName: string, flags: CustomerQueueFlags): Promise<CustomerQueue | null> {
+    const updates: Partial<BoxRequirement> = {};
+    if (flags.isPinned !== undefined) updates.isQueuePinned = flags.isPinned;
+    if (flags.isPriority !== undefined) updates.isQueuePriority = flags.isPriority;
+
+    const updated = await this.db
+      .update(boxRequirements)
+      .set(updates)
+      .where(and(
+        eq(boxRequirements.jobId, jobId),
+        eq(boxRequirements.customerName, customerName),
+        isNull(boxRequirements.boxNumber),
+        eq(boxRequirements.transferSequence, 0),
+        or(isNull(boxRequirements.isTransferred), eq(boxRequirements.isTransferred, false))
+      ))
+      .returning({ id: boxRequirements.id });
+    if (updated.length === 0) return null;
+
+    return await this.getUnallocatedCustomers(jobId);
+  }
+
+  // Get customer product details for any customer (allocated or unallocated)
+  async getCustomerProductDetails(jobId: string, customerName: string): Promise<BoxRequirement[]> {
+    try {
+      return await this.db
+        .select()
+        .from(boxRequirements)
+        .where(and(
+          eq(boxRequirements.jobId, jobId),
+          eq(boxRequirements.customerName, customerName)
+        ))
+        .orderBy(boxRequirements.productName);
+    } catch (error) {
+      console.error(`[ERROR] getCustomerProductDetails failed for customer ${customerName} in job ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  // ========================
+  // JOB ARCHIVING METHODS
+  // ========================
+
+  async createJobArchive(archive: InsertJobArchive): Promise<JobArchive> {
+    const [result] = await this.db
+      .insert(jobArchives)
+      .values(archive)
+      .returning();
     return result;
   }
 
@@ -2703,10 +4532,7 @@ export class DatabaseStorage implements IStorage {
   async archiveJob(jobId: string, archivedBy: string): Promise<JobArchive> {
     try {
       // Get job details
-      const [job] = await this.db
-        .select()
-        .from(jobs)
-        .where(eq(jobs.id, jobId));
+      const job = await this.getJobById(jobId);
 
       if (!job) {
         throw new Error('Job not found');
@@ -2773,14 +4599,21 @@ export class DatabaseStorage implements IStorage {
         .leftJoin(users, eq(scanSessions.userId, users.id))
         .where(eq(scanSessions.jobId, jobId));
 
-      const workerStatsRecords: InsertArchiveWorkerStats[] = [];
-
+      // One row per worker across all their sessions, scored exactly as the live view scores them
+      const sessionsByWorker = new Map<string, { worker: User; sessions: ScanSession[] }>();
       for (const sessionRecord of jobScanSessions) {
-        const session = sessionRecord.scan_sessions;
         const worker = sessionRecord.users;
-
         if (!worker) continue;
 
+        const entry = sessionsByWorker.get(worker.id) || { worker, sessions: [] as ScanSession[] };
+        entry.sessions.push(sessionRecord.scan_sessions);
+        sessionsByWorker.set(worker.id, entry);
+      }
+
+      const scoringConfig = await this.getScoringConfigForJob(jobId);
+      const workerStatsRecords: InsertArchiveWorkerStats[] = [];
+
+      for (const { worker, sessions: workerSessions } of Array.from(sessionsByWorker.values())) {
         // Find CheckCount sessions for this worker
         const workerCheckSessions = checkSessions.filter(cs => cs.userId === worker.id);
         const totalItemsChecked = workerCheckSessions.length;
@@ -2788,21 +4621,26 @@ export class DatabaseStorage implements IStorage {
         const checkAccuracy = totalItemsChecked > 0 ? (correctChecks / totalItemsChecked) * 100 : 0;
 
         // Calculate session time in minutes
-        const sessionTimeMinutes = session.endTime && session.startTime 
+        const sessionTimeMinutes = workerSessions.reduce((sum, session) => sum + (session.endTime && session.startTime
           ? Math.round((new Date(session.endTime).getTime() - new Date(session.startTime).getTime()) / (1000 * 60))
-          : 0;
+          : 0), 0);
+
+        const performance = await this.getJobWorkerPerformance(jobId, worker.id, scoringConfig);
 
         workerStatsRecords.push({
           archiveId: archive.id,
           workerId: worker.id,
           workerName: worker.name,
-          totalScans: session.totalScans || 0,
+          totalScans: performance.totalScans,
           totalSessionTime: sessionTimeMinutes,
+          activeScanningTime: performance.activeScanningTime,
+          scansPerHour: performance.scansPerHour,
+          score: performance.score.toFixed(1),
           itemsChecked: totalItemsChecked,
           correctChecks,
           checkAccuracy: checkAccuracy.toString(),
           extrasFound: 0, // Will be calculated from extra items in scan events
-          errorsCaused: session.errorScans || 0
+          errorsCaused: performance.errorCount
         });
       }
 
@@ -2960,24 +4798,13 @@ export class DatabaseStorage implements IStorage {
   // Core reallocation algorithm for both Empty and Transfer actions
   async reallocateBoxToNextCustomer(jobId: string, boxNumber: number): Promise<{success: boolean, customerName?: string, message?: string}> {
     try {
-      // Find the next unallocated customer using transferSequence system
-      const unallocatedCustomer = await this.db
-        .selectDistinct({ customerName: boxRequirements.customerName })
-        .from(boxRequirements)
-        .where(and(
-          eq(boxRequirements.jobId, jobId),
-          isNull(boxRequirements.boxNumber),
-          eq(boxRequirements.transferSequence, 0), // Only active (not archived) customers
-          or(isNull(boxRequirements.isTransferred), eq(boxRequirements.isTransferred, false)) // Exclude transferred customers
-        ))
-        .orderBy(boxRequirements.customerName) // FIFO order based on original CSV sequence
-        .limit(1);
-
-      if (unallocatedCustomer.length === 0) {
+      // The head of the job's reallocation queue: pinned, manual order, policy, then CSV order
+      const queue = await this.getUnallocatedCustomers(jobId);
+      if (queue.customers.length === 0) {
         return { success: false, message: "No unallocated customers available for reallocation" };
       }
 
-      const customerName = unallocatedCustomer[0].customerName;
+      const customerName = queue.customers[0].customerName;
 
       // Update all box requirements for this customer to assign them to the box
       const result = await this.db
@@ -2989,7 +4816,10 @@ export class DatabaseStorage implements IStorage {
           scannedQty: 0,
           isComplete: false,
           lastWorkerUserId: null,
-          lastWorkerColor: null
+          lastWorkerColor: null,
+          // Leaves the queue - the priority flag stays with the customer
+          queuePosition: null,
+          isQueuePinned: false
         })
         .where(and(
           eq(boxRequirements.jobId, jobId),
@@ -3017,7 +4847,7 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async emptyBox(jobId: string, boxNumber: number, performedBy: string): Promise<{message: string, history: BoxHistory, reallocation?: any}> {
+  async emptyBox(jobId: string, boxNumber: number, performedBy: string): Promise<{message: string, history: BoxHistory, reallocation?: any, putAsidePickList: PutAsidePickLine[]}> {
     try {
       // Get box snapshot before emptying
       const boxItems = await this.getBoxRequirementsByBoxNumber(jobId, boxNumber);
@@ -3059,11 +4889,14 @@ export class DatabaseStorage implements IStorage {
         ));
 
       // Seamlessly reallocate the box to next unallocated customer
+      await this.releasePutAsideReservations(jobId, boxNumber);
       const reallocationResult = await this.reallocateBoxToNextCustomer(jobId, boxNumber);
 
       let message: string;
+      let putAsidePickList: PutAsidePickLine[] = [];
       if (reallocationResult.success) {
-        message = `Box ${boxNumber}: Customer ${customerName} emptied | Customer ${reallocationResult.customerName} assigned`;
+        putAsidePickList = await this.reservePutAsideForBox(jobId, boxNumber);
+        message = `Box ${boxNumber}: Customer ${customerName} emptied | Customer ${reallocationResult.customerName} assigned${formatPutAsidePickList(putAsidePickList)}`;
         console.log(`[Empty Box] ${reallocationResult.message}`);
       } else {
         message = `Box ${boxNumber}: Customer ${customerName} emptied | No customers available - Box Empty`;
@@ -3073,7 +4906,8 @@ export class DatabaseStorage implements IStorage {
       return {
         message,
         history,
-        reallocation: reallocationResult
+        reallocation: reallocationResult,
+        putAsidePickList
       };
     } catch (error) {
       console.error('Error emptying box:', error);
@@ -3081,7 +4915,7 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async transferBoxToGroup(jobId: string, boxNumber: number, targetGroup: string, performedBy: string): Promise<{message: string, history: BoxHistory, reallocation?: any}> {
+  async transferBoxToGroup(jobId: string, boxNumber: number, targetGroup: string, performedBy: string): Promise<{message: string, history: BoxHistory, reallocation?: any, putAsidePickList: PutAsidePickLine[]}> {
     try {
       // Get box snapshot before transfer
       const boxItems = await this.getBoxRequirementsByBoxNumber(jobId, boxNumber);
@@ -3127,11 +4961,14 @@ export class DatabaseStorage implements IStorage {
         ));
 
       // Seamlessly reallocate the box to next unallocated customer
+      await this.releasePutAsideReservations(jobId, boxNumber);
       const reallocationResult = await this.reallocateBoxToNextCustomer(jobId, boxNumber);
 
       let message: string;
+      let putAsidePickList: PutAsidePickLine[] = [];
       if (reallocationResult.success) {
-        message = `Box ${boxNumber}: Customer ${customerName} → Group ${targetGroup} | Customer ${reallocationResult.customerName} assigned`;
+        putAsidePickList = await this.reservePutAsideForBox(jobId, boxNumber);
+        message = `Box ${boxNumber}: Customer ${customerName} → Group ${targetGroup} | Customer ${reallocationResult.customerName} assigned${formatPutAsidePickList(putAsidePickList)}`;
         console.log(`[Transfer Box] ${reallocationResult.message}`);
       } else {
         message = `Box ${boxNumber}: Customer ${customerName} → Group ${targetGroup} | No customers available - Box Empty`;
@@ -3141,7 +4978,8 @@ export class DatabaseStorage implements IStorage {
       return {
         message,
         history,
-        reallocation: reallocationResult
+        reallocation: reallocationResult,
+        putAsidePickList
       };
     } catch (error) {
       console.error('Error transferring box to group:', error);
@@ -3170,6 +5008,14 @@ export class DatabaseStorage implements IStorage {
     return history;
   }
 
+  async getBoxHistoryById(id: string): Promise<BoxHistory | undefined> {
+    const [history] = await this.db
+      .select()
+      .from(boxHistory)
+      .where(eq(boxHistory.id, id));
+    return history || undefined;
+  }
+
   // Put Aside Implementation (now using scan_events table)
   async createPutAsideItem(jobId: string, barCode: string, productName: string, sessionId: string): Promise<ScanEvent> {
     // Create scan event with eventType='put_aside', customerName=null, boxNumber=null
@@ -3192,55 +5038,343 @@ export class DatabaseStorage implements IStorage {
     return event;
   }
 
-  async getPutAsideItemsForJob(jobId: string): Promise<any[]> {
-    // Get Put Aside items (scan events with eventType='put_aside' and allocatedAt=null)
-    const putAsideEvents = await this.db
+  async getPutAsideItems(filter: { jobId?: string; status?: PutAsideStatus } = {}): Promise<PutAsideItemDetail[]> {
+    const allocators = alias(users, 'allocators');
+    const rows = await this.db
       .select({
         id: scanEvents.id,
+        jobId: scanEvents.jobId,
+        jobName: jobs.name,
         barCode: scanEvents.barCode,
         productName: scanEvents.productName,
-        scanTime: scanEvents.scanTime,
-        allocatedToBox: scanEvents.allocatedToBox,
-        allocatedAt: scanEvents.allocatedAt
+        putAsideBy: scanSessions.userId,
+        putAsideWorkerName: users.name,
+        putAsideAt: scanEvents.scanTime,
+        customerName: scanEvents.customerName,
+        reservedForBox: scanEvents.reservedForBox,
+        reallocatedToBoxNumber: scanEvents.allocatedToBox,
+        reallocatedAt: scanEvents.allocatedAt,
+        reallocatedBy: scanEvents.allocatedBy,
+        reallocatedByName: allocators.name,
+        allocationSource: scanEvents.allocationSource
       })
       .from(scanEvents)
+      .innerJoin(scanSessions, eq(scanEvents.sessionId, scanSessions.id))
+      .leftJoin(users, eq(scanSessions.userId, users.id))
+      .leftJoin(allocators, eq(scanEvents.allocatedBy, allocators.id))
+      .leftJoin(jobs, eq(scanEvents.jobId, jobs.id))
       .where(and(
-        eq(scanEvents.jobId, jobId),
         eq(scanEvents.eventType, 'put_aside'),
-        isNull(scanEvents.allocatedAt) // Only unallocated items
+        isNull(jobs.deletedAt), // A deleted job's items can't be reallocated until it is restored
+        filter.jobId ? eq(scanEvents.jobId, filter.jobId) : undefined,
+        filter.status === 'pending' ? isNull(scanEvents.allocatedAt) : undefined,
+        filter.status === 'reallocated' ? isNotNull(scanEvents.allocatedAt) : undefined
       ))
       .orderBy(desc(scanEvents.scanTime));
 
-    // Group by barcode and combine quantities
-    const groupedItems = putAsideEvents.reduce((acc: any[], item: any) => {
-      const existing = acc.find((group: any) => group.barCode === item.barCode);
-      if (existing) {
-        existing.qty += 1;
+    return rows.map((row: any): PutAsideItemDetail => ({
+      ...row,
+      status: row.reallocatedAt ? 'reallocated' : 'pending'
+    }));
+  }
+
+  async getPutAsideItemsForJob(jobId: string): Promise<PutAsideGroup[]> {
+    // Pending Put Aside items grouped by barcode, keeping the ids so each unit can still be allocated.
+    // Items reserved for a box are on its pull list instead.
+    const items = await this.getPutAsideItems({ jobId, status: 'pending' });
+
+    const groups = new Map<string, PutAsideGroup>();
+    for (const item of items.filter(item => item.reservedForBox === null)) {
+      const group = groups.get(item.barCode);
+      if (group) {
+        group.qty += 1;
+        group.itemIds.push(item.id);
       } else {
-        acc.push({
+        groups.set(item.barCode, {
           barCode: item.barCode,
           productName: item.productName,
-          qty: 1
+          qty: 1,
+          itemIds: [item.id]
         });
       }
-      return acc;
-    }, []);
+    }
+    return Array.from(groups.values());
+  }
 
-    return groupedItems;
+  async getPutAsideItemById(id: string): Promise<ScanEvent | undefined> {
+    const [item] = await this.db
+      .select()
+      .from(scanEvents)
+      .where(and(eq(scanEvents.id, id), eq(scanEvents.eventType, 'put_aside')));
+    return item || undefined;
+  }
+
+  // Boxes whose current customer still needs the item, fewest outstanding first so a box is finished sooner
+  async getPutAsideSuggestions(id: string): Promise<PutAsideSuggestion[]> {
+    const item = await this.getPutAsideItemById(id);
+    if (!item?.jobId) return [];
+
+    const normalizedBarCode = normalizeBarcodeFormat(item.barCode);
+    const requirements = await this.db
+      .select({
+        boxNumber: boxRequirements.boxNumber,
+        customerName: boxRequirements.customerName,
+        groupName: boxRequirements.groupName,
+        remainingQty: sql<number>`${boxRequirements.requiredQty} - coalesce(${boxRequirements.scannedQty}, 0)`
+      })
+      .from(boxRequirements)
+      .where(and(
+        eq(boxRequirements.jobId, item.jobId),
+        sql`(${boxRequirements.barCode} = ${item.barCode} OR ${boxRequirements.barCode} = ${normalizedBarCode})`,
+        isNotNull(boxRequirements.boxNumber),
+        eq(boxRequirements.transferSequence, 0),
+        sql`coalesce(${boxRequirements.scannedQty}, 0) < ${boxRequirements.requiredQty}`
+      ))
+      .orderBy(sql`${boxRequirements.requiredQty} - coalesce(${boxRequirements.scannedQty}, 0)`, boxRequirements.boxNumber);
+
+    return requirements.map((requirement: any) => ({
+      ...requirement,
+      remainingQty: Number(requirement.remainingQty)
+    }));
+  }
+
+  /**
+   * Allocate one Put Aside item to a box, crediting the box's requirement for its barcode
+   * exactly as a scan would. Returns null when the item is no longer pending or the box
+   * doesn't need it.
+   */
+  async allocatePutAsideItem(id: string, boxNumber: number, performedBy: string): Promise<PutAsideAllocation | null> {
+    const item = await this.getPutAsideItemById(id);
+    const jobId = item?.jobId;
+    if (!item || !jobId) return null;
+
+    return await this.db.transaction(async (tx: any) => {
+      const txStorage = new DatabaseStorage(tx);
+
+      // Same per-job lock as createScanEvent, so a scan can't take the slot mid-allocation
+      await tx.select().from(jobs).where(eq(jobs.id, jobId)).for('update');
+
+      const allocation = await txStorage.creditPutAsideItem(item, boxNumber, performedBy, 'manual');
+      if (allocation) {
+        await txStorage.updateJobStatusBasedOnProgress(jobId);
+      }
+      return allocation;
+    });
+  }
+
+  /**
+   * After a box is reassigned, reserve the pending Put Aside items its new customer needs
+   * (oldest first, up to each line's outstanding quantity) and return them as the box's pull list.
+   * Nothing is credited until a worker scans each item off the shelf (pullPutAsideItem).
+   */
+  async reservePutAsideForBox(jobId: string, boxNumber: number): Promise<PutAsidePickLine[]> {
+    const reserved = await this.db.transaction(async (tx: any) => {
+      const txStorage = new DatabaseStorage(tx);
+      await tx.select().from(jobs).where(eq(jobs.id, jobId)).for('update');
+
+      const outstanding = new Map<string, number>();
+      for (const requirement of await txStorage.getBoxRequirementsByBoxNumber(jobId, boxNumber)) {
+        const remaining = requirement.requiredQty - (requirement.scannedQty || 0);
+        if (remaining > 0) {
+          outstanding.set(requirement.barCode, (outstanding.get(requirement.barCode) || 0) + remaining);
+        }
+      }
+      if (outstanding.size === 0) return 0;
+
+      const unreservedItems: ScanEvent[] = await tx
+        .select()
+        .from(scanEvents)
+        .where(and(
+          eq(scanEvents.jobId, jobId),
+          eq(scanEvents.eventType, 'put_aside'),
+          isNull(scanEvents.allocatedAt),
+          isNull(scanEvents.reservedForBox)
+        ))
+        .orderBy(scanEvents.scanTime); // Oldest first
+
+      let reservedCount = 0;
+      for (const item of unreservedItems) {
+        const barCode = outstanding.has(item.barCode) ? item.barCode : normalizeBarcodeFormat(item.barCode);
+        const remaining = outstanding.get(barCode) || 0;
+        if (remaining <= 0) continue;
+
+        await tx
+          .update(scanEvents)
+          .set({ reservedForBox: boxNumber })
+          .where(eq(scanEvents.id, item.id));
+        outstanding.set(barCode, remaining - 1);
+        reservedCount++;
+      }
+      return reservedCount;
+    });
+
+    if (reserved > 0) {
+      console.log(`[Put Aside] Reserved ${reserved} Put Aside items for box ${boxNumber}`);
+    }
+    return (await this.getPutAsidePickList(jobId)).filter(line => line.boxNumber === boxNumber);
+  }
+
+  async getPutAsidePickList(jobId: string): Promise<PutAsidePickLine[]> {
+    const reservedItems: ScanEvent[] = await this.db
+      .select()
+      .from(scanEvents)
+      .where(and(
+        eq(scanEvents.jobId, jobId),
+        eq(scanEvents.eventType, 'put_aside'),
+        isNull(scanEvents.allocatedAt),
+        isNotNull(scanEvents.reservedForBox)
+      ))
+      .orderBy(scanEvents.reservedForBox, scanEvents.scanTime);
+    if (reservedItems.length === 0) return [];
+
+    const boxNumbers = Array.from(new Set(reservedItems.map(item => item.reservedForBox!)));
+    const boxCustomers = await this.db
+      .selectDistinct({ boxNumber: boxRequirements.boxNumber, customerName: boxRequirements.customerName })
+      .from(boxRequirements)
+      .where(and(
+        eq(boxRequirements.jobId, jobId),
+        inArray(boxRequirements.boxNumber, boxNumbers),
+        eq(boxRequirements.transferSequence, 0)
+      ));
+    const customerByBox = new Map<number, string>(boxCustomers.map((box: any) => [box.boxNumber, box.customerName]));
+
+    const lines = new Map<string, PutAsidePickLine>();
+    for (const item of reservedItems) {
+      const boxNumber = item.reservedForBox!;
+      const key = `${boxNumber}:${item.barCode}`;
+      const line = lines.get(key);
+      if (line) {
+        line.qty += 1;
+        line.itemIds.push(item.id);
+      } else {
+        lines.set(key, {
+          boxNumber,
+          customerName: customerByBox.get(boxNumber) || null,
+          barCode: item.barCode,
+          productName: item.productName,
+          qty: 1,
+          itemIds: [item.id]
+        });
+      }
+    }
+    return Array.from(lines.values());
+  }
+
+  /**
+   * A worker scanned an item off the pull list: credit the box it was reserved for, as a
+   * scan by that worker would. A box filled meanwhile gives 'not_needed' and the item
+   * goes back to the unreserved Put Aside stock.
+   */
+  async pullPutAsideItem(sessionId: string, barCode: string): Promise<PutAsidePullResult> {
+    const session = await this.getScanSessionById(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    return await this.db.transaction(async (tx: any) => {
+      const txStorage = new DatabaseStorage(tx);
+      await tx.select().from(jobs).where(eq(jobs.id, session.jobId)).for('update');
+
+      const normalizedBarCode = normalizeBarcodeFormat(barCode);
+      const [item]: ScanEvent[] = await tx
+        .select()
+        .from(scanEvents)
+        .where(and(
+          eq(scanEvents.jobId, session.jobId),
+          eq(scanEvents.eventType, 'put_aside'),
+          sql`(${scanEvents.barCode} = ${barCode} OR ${scanEvents.barCode} = ${normalizedBarCode})`,
+          isNull(scanEvents.allocatedAt),
+          isNotNull(scanEvents.reservedForBox)
+        ))
+        .orderBy(scanEvents.reservedForBox, scanEvents.scanTime)
+        .limit(1);
+
+      if (!item?.reservedForBox) {
+        return { outcome: 'not_on_pick_list', allocation: null };
+      }
+
+      const assignment = await txStorage.checkExistingAssignment(session.jobId, session.userId);
+      const allocation = await txStorage.creditPutAsideItem(item, item.reservedForBox, session.userId, 'pull', {
+        userId: session.userId,
+        color: assignment?.assignedColor || 'blue'
+      });
+
+      if (!allocation) {
+        await tx
+          .update(scanEvents)
+          .set({ reservedForBox: null })
+          .where(eq(scanEvents.id, item.id));
+        return { outcome: 'not_needed', allocation: null };
+      }
+
+      await txStorage.recordWorkerPosition(session.jobId, session.userId, allocation.boxNumber);
+      await txStorage.updateJobStatusBasedOnProgress(session.jobId);
+      return { outcome: 'pulled', allocation };
+    });
   }
 
-  async markPutAsideAllocated(putAsideEventId: string, allocatedToBox: number): Promise<ScanEvent | undefined> {
-    // Mark Put Aside scan event as allocated
-    const [updatedEvent] = await this.db
+  // The box's customer changed - its pull list no longer applies
+  private async releasePutAsideReservations(jobId: string, boxNumber: number): Promise<void> {
+    await this.db
+      .update(scanEvents)
+      .set({ reservedForBox: null })
+      .where(and(
+        eq(scanEvents.jobId, jobId),
+        eq(scanEvents.reservedForBox, boxNumber),
+        isNull(scanEvents.allocatedAt)
+      ));
+  }
+
+  // Credit the box's open requirement for the item and stamp the allocation on the put_aside event.
+  // The box's lastWorker is the worker who put the item aside unless creditedWorker is given;
+  // previous values are kept like a scan's undo trail.
+  private async creditPutAsideItem(
+    item: ScanEvent,
+    boxNumber: number,
+    performedBy: string,
+    source: PutAsideAllocationSource,
+    creditedWorker?: { userId: string; color: string }
+  ): Promise<PutAsideAllocation | null> {
+    if (!item.jobId || !(await this.getOpenBoxRequirement(item.jobId, boxNumber, item.barCode))) {
+      return null;
+    }
+
+    // Claim the item first - it may have been allocated since it was read
+    const [claimed] = await this.db
+      .update(scanEvents)
+      .set({ allocatedAt: new Date() })
+      .where(and(eq(scanEvents.id, item.id), isNull(scanEvents.allocatedAt)))
+      .returning();
+    if (!claimed) return null;
+
+    const workerId = creditedWorker?.userId || await this.getWorkerIdFromSession(item.sessionId);
+    const updatedRequirement = await this.updateBoxRequirementScannedQty(
+      boxNumber,
+      item.barCode,
+      item.jobId,
+      workerId || performedBy,
+      creditedWorker?.color || item.workerColor || 'blue'
+    );
+    if (!updatedRequirement) {
+      await this.db.update(scanEvents).set({ allocatedAt: null }).where(eq(scanEvents.id, item.id));
+      return null;
+    }
+
+    const [allocatedItem] = await this.db
       .update(scanEvents)
       .set({
-        allocatedToBox,
-        allocatedAt: new Date()
+        allocatedToBox: boxNumber,
+        allocatedBy: performedBy,
+        allocationSource: source,
+        customerName: updatedRequirement.customerName,
+        boxRequirementId: updatedRequirement.id,
+        previousLastWorkerUserId: updatedRequirement.previousLastWorkerUserId,
+        previousLastWorkerColor: updatedRequirement.previousLastWorkerColor
       })
-      .where(eq(scanEvents.id, putAsideEventId))
+      .where(eq(scanEvents.id, item.id))
       .returning();
 
-    return updatedEvent;
+    return { item: allocatedItem, boxNumber, customerName: updatedRequirement.customerName };
   }
 
   async checkUnallocatedCustomerRequirements(jobId: string, barCode: string): Promise<boolean> {
@@ -3301,6 +5435,155 @@ export class DatabaseStorage implements IStorage {
     return result.map((r: any) => r.groupName).filter((name: any): name is string => name !== null);
   }
 
+  // ========================
+  // EXPORT METHODS
+  // ========================
+
+  async getExportLines(jobId: string, filter: ExportLineFilter, offset: number, limit: number): Promise<ExportLine[]> {
+    return this.db
+      .select({
+        groupName: boxRequirements.groupName,
+        customerName: boxRequirements.customerName,
+        boxNumber: boxRequirements.boxNumber,
+        barCode: boxRequirements.barCode,
+        productName: boxRequirements.productName,
+        requiredQty: boxRequirements.requiredQty,
+        scannedQty: boxRequirements.scannedQty,
+        boxStatus: boxRequirements.boxStatus,
+        transferSequence: boxRequirements.transferSequence,
+        isTransferred: boxRequirements.isTransferred,
+        lastWorkerName: users.name,
+      })
+      .from(boxRequirements)
+      .leftJoin(users, eq(boxRequirements.lastWorkerUserId, users.id))
+      .where(and(
+        eq(boxRequirements.jobId, jobId),
+        ...(filter.activeOnly ? [eq(boxRequirements.transferSequence, 0)] : []),
+        ...(filter.groupName !== undefined ? [eq(boxRequirements.groupName, filter.groupName)] : []),
+        ...(filter.boxNumber !== undefined ? [eq(boxRequirements.boxNumber, filter.boxNumber)] : []),
+        ...(filter.customerName !== undefined ? [eq(boxRequirements.customerName, filter.customerName)] : [])
+      ))
+      // Stable order so offset paging never skips or repeats a line
+      .orderBy(sql`${boxRequirements.boxNumber} asc nulls last`, boxRequirements.customerName, boxRequirements.barCode, boxRequirements.id)
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getExportExtraItems(jobId: string): Promise<ExportExtraItem[]> {
+    return this.db
+      .select({
+        scanTime: scanEvents.scanTime,
+        barCode: scanEvents.barCode,
+        productName: scanEvents.productName,
+        customerName: scanEvents.customerName,
+        workerName: users.name,
+      })
+      .from(scanEvents)
+      .innerJoin(scanSessions, eq(scanEvents.sessionId, scanSessions.id))
+      .leftJoin(users, eq(scanSessions.userId, users.id))
+      .where(and(
+        eq(scanSessions.jobId, jobId),
+        eq(scanEvents.eventType, 'extra_item'),
+        isNull(scanEvents.undoneAt)
+      ))
+      .orderBy(scanEvents.scanTime);
+  }
+
+  async getExportPutAsideItems(jobId: string): Promise<ExportPutAsideItem[]> {
+    return this.db
+      .select({
+        scanTime: scanEvents.scanTime,
+        barCode: scanEvents.barCode,
+        productName: scanEvents.productName,
+        workerName: users.name,
+        allocatedToBox: scanEvents.allocatedToBox,
+        allocatedAt: scanEvents.allocatedAt,
+      })
+      .from(scanEvents)
+      .innerJoin(scanSessions, eq(scanEvents.sessionId, scanSessions.id))
+      .leftJoin(users, eq(scanSessions.userId, users.id))
+      .where(and(
+        eq(scanSessions.jobId, jobId),
+        eq(scanEvents.eventType, 'put_aside'),
+        isNull(scanEvents.undoneAt)
+      ))
+      .orderBy(scanEvents.scanTime);
+  }
+
+  async getExportCheckResults(jobId: string): Promise<ExportCheckResult[]> {
+    const results = await this.db
+      .select({
+        checkedAt: checkSessions.endTime,
+        boxNumber: checkSessions.boxNumber,
+        customerName: boxRequirements.customerName,
+        barCode: boxRequirements.barCode,
+        productName: boxRequirements.productName,
+        requiredQty: boxRequirements.requiredQty,
+        finalQty: checkResults.finalQty,
+        resolutionAction: checkResults.resolutionAction,
+        discrepancyNotes: checkResults.discrepancyNotes,
+        checkerName: users.name,
+        resolvedBy: checkResults.resolvedBy,
+      })
+      .from(checkResults)
+      .innerJoin(checkSessions, eq(checkResults.checkSessionId, checkSessions.id))
+      .leftJoin(boxRequirements, eq(checkResults.boxRequirementId, boxRequirements.id))
+      .leftJoin(users, eq(checkSessions.userId, users.id))
+      .where(eq(checkSessions.jobId, jobId))
+      .orderBy(checkSessions.endTime, checkSessions.boxNumber, boxRequirements.barCode);
+
+    // Resolver is a second user on the same row - look the names up separately
+    const resolverIds = Array.from(new Set<string>(results.map((result: any) => result.resolvedBy).filter(Boolean)));
+    const resolvers = resolverIds.length > 0
+      ? await this.db.select({ id: users.id, name: users.name }).from(users).where(inArray(users.id, resolverIds))
+      : [];
+    const resolverNames = new Map<string, string>(resolvers.map((resolver: any) => [resolver.id, resolver.name]));
+
+    return results.map(({ resolvedBy, ...result }: any) => ({
+      ...result,
+      resolvedByName: resolvedBy ? resolverNames.get(resolvedBy) || null : null,
+    }));
+  }
+
+  // ========================
+  // BOX LABEL / PACKING SLIP METHODS
+  // ========================
+
+  async getBoxLabelData(jobId: string, boxNumbers?: number[]): Promise<BoxLabelData[]> {
+    if (boxNumbers && boxNumbers.length === 0) return [];
+
+    // Only the customer currently assigned to each box (archived assignments keep their box number)
+    const rows = await this.db
+      .select({
+        boxNumber: boxRequirements.boxNumber,
+        customerName: boxRequirements.customerName,
+        groupName: boxRequirements.groupName,
+        itemCount: sql<number>`coalesce(sum(${boxRequirements.requiredQty}), 0)::int`,
+      })
+      .from(boxRequirements)
+      .where(and(
+        eq(boxRequirements.jobId, jobId),
+        isNotNull(boxRequirements.boxNumber),
+        eq(boxRequirements.transferSequence, 0),
+        ...(boxNumbers ? [inArray(boxRequirements.boxNumber, boxNumbers)] : [])
+      ))
+      .groupBy(boxRequirements.boxNumber, boxRequirements.customerName, boxRequirements.groupName)
+      .orderBy(boxRequirements.boxNumber);
+
+    return rows.map((row: any) => ({ ...row, itemCount: Number(row.itemCount) }));
+  }
+
+  async getCustomerPackingLines(jobId: string, customerName: string): Promise<BoxRequirement[]> {
+    return this.db
+      .select()
+      .from(boxRequirements)
+      .where(and(
+        eq(boxRequirements.jobId, jobId),
+        eq(boxRequirements.customerName, customerName)
+      ))
+      .orderBy(boxRequirements.barCode, boxRequirements.id);
+  }
+
   async updateBoxRequirementsGroup(jobId: string, boxNumber: number, groupName: string): Promise<void> {
     await this.db
       .update(boxRequirements)
@@ -3388,114 +5671,6 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // PUT ASIDE STORAGE METHODS (using scan_events table)
-
-  async createPutAsideItem(jobId: string, barCode: string, productName: string, sessionId: string): Promise<ScanEvent> {
-    // Create scan event with eventType='put_aside', customerName=null, boxNumber=null
-    const putAsideEvent = {
-      sessionId,
-      barCode,
-      productName,
-      customerName: null, // Put Aside items have no customer initially
-      boxNumber: null, // Put Aside items have no box initially
-      eventType: 'put_aside' as const,
-      isExtraItem: false,
-      jobId
-    };
-
-    const [event] = await this.db
-      .insert(scanEvents)
-      .values(putAsideEvent)
-      .returning();
-
-    return event;
-  }
-
-  async getPutAsideItemsForJob(jobId: string): Promise<any[]> {
-    // Get Put Aside items (scan events with eventType='put_aside' and allocatedAt=null)
-    const putAsideEvents = await this.db
-      .select({
-        id: scanEvents.id,
-        barCode: scanEvents.barCode,
-        productName: scanEvents.productName,
-        scanTime: scanEvents.scanTime,
-        allocatedToBox: scanEvents.allocatedToBox,
-        allocatedAt: scanEvents.allocatedAt
-      })
-      .from(scanEvents)
-      .where(and(
-        eq(scanEvents.jobId, jobId),
-        eq(scanEvents.eventType, 'put_aside'),
-        isNull(scanEvents.allocatedAt) // Only unallocated items
-      ))
-      .orderBy(desc(scanEvents.scanTime));
-
-    // Group by barcode and combine quantities
-    const groupedItems = putAsideEvents.reduce((acc: any[], item: any) => {
-      const existing = acc.find((group: any) => group.barCode === item.barCode);
-      if (existing) {
-        existing.qty += 1;
-      } else {
-        acc.push({
-          barCode: item.barCode,
-          productName: item.productName,
-          qty: 1
-        });
-      }
-      return acc;
-    }, []);
-
-    return groupedItems;
-  }
-
-  async markPutAsideAllocated(putAsideEventId: string, allocatedToBox: number): Promise<ScanEvent | undefined> {
-    // Mark Put Aside scan event as allocated
-    const [updatedEvent] = await this.db
-      .update(scanEvents)
-      .set({
-        allocatedToBox,
-        allocatedAt: new Date()
-      })
-      .where(eq(scanEvents.id, putAsideEventId))
-      .returning();
-
-    return updatedEvent;
-  }
-
-  async checkUnallocatedCustomerRequirements(jobId: string, barCode: string): Promise<boolean> {
-    // Check if any unallocated customers (boxNumber=NULL) require this barcode
-    const normalizedBarCode = normalizeBarcodeFormat(barCode);
-
-    const requirement = await this.db
-      .select()
-      .from(boxRequirements)
-      .where(and(
-        eq(boxRequirements.jobId, jobId),
-        sql`(${boxRequirements.barCode} = ${barCode} OR ${boxRequirements.barCode} = ${normalizedBarCode})`,
-        isNull(boxRequirements.boxNumber), // Unallocated customers
-        sql`${boxRequirements.scannedQty} < ${boxRequirements.requiredQty}` // Still need items
-      ))
-      .limit(1);
-
-    return requirement.length > 0;
-  }
-
-  async getPutAsideCount(jobId: string): Promise<number> {
-    // Count unallocated Put Aside items for a job
-    const result = await this.db
-      .select({ count: sql<number>`count(*)` })
-      .from(scanEvents)
-      .where(and(
-        eq(scanEvents.jobId, jobId),
-        eq(scanEvents.eventType, 'put_aside'),
-        isNull(scanEvents.allocatedAt) // Only unallocated items
-      ));
-
-    // FIX: Ensure the count is returned as a number, not a string
-    const count = result[0]?.count || 0;
-    return typeof count === 'string' ? parseInt(count, 10) : count;
-  }
-
   async getNonScannedItems(jobId: string): Promise<any> {
     try {
       // Get all non-scanned items (where scannedQty < requiredQty)
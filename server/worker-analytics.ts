@@ -0,0 +1,259 @@
+import type {
+  WorkerAnalytics,
+  WorkerAnalyticsBucket,
+  WorkerAnalyticsMetrics,
+  WorkerAnalyticsPoint,
+  WorkerAnalyticsQuery,
+  WorkerAnalyticsReport,
+} from "@shared/schema";
+
+/**
+ * Worker shift analytics: aggregates scan sessions, scan events and CheckCount
+ * results into per-worker metrics, per-job breakdowns and time-bucketed trends.
+ * Storage loads the raw rows; everything here is pure so the numbers only
+ * depend on what was recorded.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface AnalyticsWorker {
+  id: string;
+  name: string;
+  staffId: string;
+}
+
+export interface AnalyticsSession {
+  id: string;
+  userId: string;
+  jobId: string;
+  startTime: Date;
+  endTime: Date; // endTime, or last activity for sessions still open
+}
+
+export interface AnalyticsScanEvent {
+  sessionId: string;
+  userId: string;
+  jobId: string;
+  eventType: string;
+  scanTime: Date;
+}
+
+// One box line packed by this worker and then verified by CheckCount
+export interface AnalyticsCheckedLine {
+  userId: string;
+  jobId: string;
+  checkedAt: Date;
+  accurate: boolean;
+}
+
+export interface WorkerAnalyticsInput {
+  query: WorkerAnalyticsQuery;
+  workers: AnalyticsWorker[];
+  jobNames: Map<string, string>;
+  idleGapMsByJob: Map<string, number>;
+  sessions: AnalyticsSession[];
+  events: AnalyticsScanEvent[];
+  checkedLines: AnalyticsCheckedLine[];
+}
+
+interface MetricTotals {
+  totalScans: number;
+  errorCount: number;
+  undoCount: number;
+  extrasCaused: number;
+  activeMs: number;
+  sessionMs: number;
+  checkedLines: number;
+  accurateLines: number;
+}
+
+interface WorkerTotals {
+  totals: MetricTotals;
+  buckets: Map<number, MetricTotals>;
+  jobs: Map<string, MetricTotals>;
+}
+
+function emptyTotals(): MetricTotals {
+  return {
+    totalScans: 0,
+    errorCount: 0,
+    undoCount: 0,
+    extrasCaused: 0,
+    activeMs: 0,
+    sessionMs: 0,
+    checkedLines: 0,
+    accurateLines: 0,
+  };
+}
+
+function getOrCreateTotals<K>(map: Map<K, MetricTotals>, key: K): MetricTotals {
+  let totals = map.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    map.set(key, totals);
+  }
+  return totals;
+}
+
+function toMetrics(totals: MetricTotals): WorkerAnalyticsMetrics {
+  const attempts = totals.totalScans + totals.errorCount;
+  return {
+    totalScans: totals.totalScans,
+    errorCount: totals.errorCount,
+    undoCount: totals.undoCount,
+    extrasCaused: totals.extrasCaused,
+    activeTime: Math.round(totals.activeMs / 1000),
+    idleTime: Math.round(Math.max(0, totals.sessionMs - totals.activeMs) / 1000),
+    scansPerHour: totals.activeMs > 0 ? Math.round(totals.totalScans / (totals.activeMs / HOUR_MS)) : 0,
+    errorRate: attempts > 0 ? Math.round((totals.errorCount / attempts) * 1000) / 10 : 0,
+    undoRate: totals.totalScans > 0 ? Math.round((totals.undoCount / totals.totalScans) * 1000) / 10 : 0,
+    checkedLines: totals.checkedLines,
+    accurateLines: totals.accurateLines,
+    checkAccuracy: totals.checkedLines > 0 ? Math.round((totals.accurateLines / totals.checkedLines) * 1000) / 10 : null,
+  };
+}
+
+/**
+ * Start of the bucket containing `time`, in the viewer's local time
+ * (timezoneOffset is Date.getTimezoneOffset(), so local = UTC - offset). Weeks start on Monday.
+ */
+export function getBucketStart(time: Date, bucket: WorkerAnalyticsBucket, timezoneOffset: number): number {
+  const offsetMs = timezoneOffset * 60 * 1000;
+  const local = new Date(time.getTime() - offsetMs);
+
+  if (bucket === 'hour') {
+    local.setUTCMinutes(0, 0, 0);
+  } else {
+    local.setUTCHours(0, 0, 0, 0);
+    if (bucket === 'week') {
+      local.setUTCDate(local.getUTCDate() - ((local.getUTCDay() + 6) % 7));
+    }
+  }
+  return local.getTime() + offsetMs;
+}
+
+function getBucketEnd(bucketStart: number, bucket: WorkerAnalyticsBucket): number {
+  return bucketStart + (bucket === 'hour' ? HOUR_MS : bucket === 'day' ? DAY_MS : 7 * DAY_MS);
+}
+
+export function getBucketStarts(query: WorkerAnalyticsQuery): number[] {
+  const starts: number[] = [];
+  for (
+    let start = getBucketStart(query.from, query.bucket, query.timezoneOffset);
+    start < query.to.getTime();
+    start = getBucketEnd(start, query.bucket)
+  ) {
+    starts.push(start);
+  }
+  return starts;
+}
+
+export function buildWorkerAnalyticsReport(input: WorkerAnalyticsInput): WorkerAnalyticsReport {
+  const { query } = input;
+  const from = query.from.getTime();
+  const to = query.to.getTime();
+  const bucketStarts = getBucketStarts(query);
+
+  const overall: WorkerTotals = { totals: emptyTotals(), buckets: new Map(), jobs: new Map() };
+  const byWorker = new Map<string, WorkerTotals>();
+
+  // Adds to the worker's totals, their job and time bucket, and the same for the whole report
+  const record = (userId: string, jobId: string, time: number, apply: (totals: MetricTotals) => void) => {
+    let worker = byWorker.get(userId);
+    if (!worker) {
+      worker = { totals: emptyTotals(), buckets: new Map(), jobs: new Map() };
+      byWorker.set(userId, worker);
+    }
+    const bucketStart = getBucketStart(new Date(time), query.bucket, query.timezoneOffset);
+
+    for (const target of [worker, overall]) {
+      apply(target.totals);
+      apply(getOrCreateTotals(target.buckets, bucketStart));
+      apply(getOrCreateTotals(target.jobs, jobId));
+    }
+  };
+
+  // Session time, split across the buckets it overlaps
+  for (const session of input.sessions) {
+    let start = Math.max(session.startTime.getTime(), from);
+    const end = Math.min(session.endTime.getTime(), to);
+
+    while (start < end) {
+      const segmentEnd = Math.min(end, getBucketEnd(getBucketStart(new Date(start), query.bucket, query.timezoneOffset), query.bucket));
+      const duration = segmentEnd - start;
+      record(session.userId, session.jobId, start, (totals) => { totals.sessionMs += duration; });
+      start = segmentEnd;
+    }
+  }
+
+  // Event counts, plus active time: gaps between a session's events up to the job type's idle gap
+  const eventsBySession = new Map<string, AnalyticsScanEvent[]>();
+  for (const event of input.events) {
+    const time = event.scanTime.getTime();
+    if (event.eventType === 'scan') record(event.userId, event.jobId, time, (totals) => { totals.totalScans++; });
+    else if (event.eventType === 'error') record(event.userId, event.jobId, time, (totals) => { totals.errorCount++; });
+    else if (event.eventType === 'undo') record(event.userId, event.jobId, time, (totals) => { totals.undoCount++; });
+    else if (event.eventType === 'extra_item') record(event.userId, event.jobId, time, (totals) => { totals.extrasCaused++; });
+
+    const sessionEvents = eventsBySession.get(event.sessionId) || [];
+    sessionEvents.push(event);
+    eventsBySession.set(event.sessionId, sessionEvents);
+  }
+
+  for (const sessionEvents of Array.from(eventsBySession.values())) {
+    sessionEvents.sort((a, b) => a.scanTime.getTime() - b.scanTime.getTime());
+    for (let i = 1; i < sessionEvents.length; i++) {
+      const event = sessionEvents[i];
+      const gap = event.scanTime.getTime() - sessionEvents[i - 1].scanTime.getTime();
+      const idleGapMs = input.idleGapMsByJob.get(event.jobId);
+      if (idleGapMs !== undefined && gap <= idleGapMs) {
+        record(event.userId, event.jobId, event.scanTime.getTime(), (totals) => { totals.activeMs += gap; });
+      }
+    }
+  }
+
+  // CheckCount results count against whoever packed the line, when the check completed
+  for (const line of input.checkedLines) {
+    record(line.userId, line.jobId, line.checkedAt.getTime(), (totals) => {
+      totals.checkedLines++;
+      if (line.accurate) totals.accurateLines++;
+    });
+  }
+
+  const toTrend = (buckets: Map<number, MetricTotals>): WorkerAnalyticsPoint[] =>
+    bucketStarts.map((bucketStart) => ({
+      bucketStart: new Date(bucketStart).toISOString(),
+      ...toMetrics(buckets.get(bucketStart) || emptyTotals()),
+    }));
+
+  const workers: WorkerAnalytics[] = input.workers
+    .filter((worker) => byWorker.has(worker.id))
+    .map((worker) => {
+      const totals = byWorker.get(worker.id)!;
+      return {
+        userId: worker.id,
+        name: worker.name,
+        staffId: worker.staffId,
+        metrics: toMetrics(totals.totals),
+        trend: toTrend(totals.buckets),
+        jobs: Array.from(totals.jobs.entries())
+          .map(([jobId, jobTotals]) => ({
+            jobId,
+            jobName: input.jobNames.get(jobId) || 'Unknown job',
+            metrics: toMetrics(jobTotals),
+          }))
+          .sort((a, b) => b.metrics.totalScans - a.metrics.totalScans),
+      };
+    })
+    .sort((a, b) => b.metrics.totalScans - a.metrics.totalScans);
+
+  return {
+    from: query.from.toISOString(),
+    to: query.to.toISOString(),
+    bucket: query.bucket,
+    totals: toMetrics(overall.totals),
+    trend: toTrend(overall.buckets),
+    workers,
+  };
+}
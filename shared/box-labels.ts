@@ -0,0 +1,33 @@
+/**
+ * Box identifiers printed on box labels and packing slips as Code128 / QR barcodes,
+ * e.g. "BOX-1A2B3C4D-12": job code (first 8 hex characters of the job id) and box
+ * number. The job code keeps a label from another job from matching a box here.
+ */
+
+export const BOX_LABEL_PREFIX = 'BOX';
+
+const BOX_LABEL_PATTERN = /^BOX-([0-9A-F]{8})-(\d+)$/;
+
+export interface BoxLabelCode {
+  jobCode: string;
+  boxNumber: number;
+}
+
+export function getJobLabelCode(jobId: string): string {
+  return jobId.replace(/-/g, '').slice(0, 8).toUpperCase();
+}
+
+export function formatBoxLabelCode(jobId: string, boxNumber: number): string {
+  return `${BOX_LABEL_PREFIX}-${getJobLabelCode(jobId)}-${boxNumber}`;
+}
+
+// Returns null for anything that isn't a box label (e.g. a product barcode)
+export function parseBoxLabelCode(code: string): BoxLabelCode | null {
+  const match = BOX_LABEL_PATTERN.exec(code.trim().toUpperCase());
+  if (!match) return null;
+  return { jobCode: match[1], boxNumber: parseInt(match[2], 10) };
+}
+
+export function isBoxLabelForJob(label: BoxLabelCode, jobId: string): boolean {
+  return label.jobCode === getJobLabelCode(jobId);
+}
@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+/**
+ * QA sampling rules: which packed boxes a job's CheckCount queue asks a checker
+ * to verify. Shared so the settings form shows the same defaults the server uses.
+ *
+ * A box is queued when any rule picks it: a random sample of packed boxes (at a
+ * higher rate for workers with recent discrepancies or many undos), every Nth box
+ * each worker packs, and every box changed by a box-level correction.
+ */
+
+export interface QaSamplingConfig {
+  samplePercent: number; // Share of packed boxes sampled at random, 0-100
+  everyNthBoxPerWorker: number; // Each worker's Nth, 2Nth... packed box - 0 turns the rule off
+  riskSamplePercent: number; // Sample rate used instead of samplePercent for at-risk workers
+  riskLookbackDays: number; // How far back discrepancies and undos count towards risk
+  riskDiscrepancyThreshold: number; // Checked lines with a discrepancy that make a worker at-risk - 0 ignores discrepancies
+  riskUndoRatePercent: number; // Undos per 100 scans above which a worker is at-risk - 0 ignores undos
+  checkCorrectedBoxes: boolean; // Boxes emptied, transferred or given put-aside stock by hand must be checked
+}
+
+export const DEFAULT_QA_SAMPLING_CONFIG: QaSamplingConfig = {
+  samplePercent: 10,
+  everyNthBoxPerWorker: 20,
+  riskSamplePercent: 50,
+  riskLookbackDays: 14,
+  riskDiscrepancyThreshold: 1,
+  riskUndoRatePercent: 5,
+  checkCorrectedBoxes: true,
+};
+
+// Per-job-type overrides, stored on jobTypes.qaSamplingConfig
+export const qaSamplingConfigOverridesSchema = z.object({
+  samplePercent: z.number().min(0).max(100).optional(),
+  everyNthBoxPerWorker: z.number().int().min(0).optional(),
+  riskSamplePercent: z.number().min(0).max(100).optional(),
+  riskLookbackDays: z.number().int().min(1).max(366).optional(),
+  riskDiscrepancyThreshold: z.number().int().min(0).optional(),
+  riskUndoRatePercent: z.number().min(0).max(100).optional(),
+  checkCorrectedBoxes: z.boolean().optional(),
+});
+
+export type QaSamplingConfigOverrides = z.infer<typeof qaSamplingConfigOverridesSchema>;
+
+export function resolveQaSamplingConfig(overrides?: QaSamplingConfigOverrides | null): QaSamplingConfig {
+  return {
+    ...DEFAULT_QA_SAMPLING_CONFIG,
+    ...overrides,
+  };
+}
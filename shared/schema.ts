@@ -1,7 +1,9 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, decimal, uuid, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, decimal, uuid, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { ScoringConfigOverrides } from "./scoring";
+import type { QaSamplingConfig, QaSamplingConfigOverrides } from "./qa-sampling";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -13,6 +15,21 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").default(sql`now()`),
 });
 
+// Auth sessions: one row per login, backing the signed access token and the rotating refresh token
+export const authSessions = pgTable("auth_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(), // SHA-256 of the refresh token, never the token itself
+  userAgent: text("user_agent"),
+  expiresAt: timestamp("expires_at").notNull(), // Absolute session lifetime - refresh does not extend it
+  lastRefreshedAt: timestamp("last_refreshed_at"),
+  revokedAt: timestamp("revoked_at"),
+  revokedReason: text("revoked_reason"), // RevocationReason: 'logout', 'deactivated', 'pin_changed'
+  createdAt: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  userIdx: index("auth_sessions_user_idx").on(table.userId),
+}));
+
 export const jobs = pgTable("jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -26,9 +43,13 @@ export const jobs = pgTable("jobs", {
   csvData: jsonb("csv_data").notNull(),
   jobTypeId: varchar("job_type_id").references(() => jobTypes.id), // NEW
   boxLimit: integer("box_limit"), // BOX LIMIT FOUNDATION: Optional limit on number of boxes
+  reallocationPolicy: text("reallocation_policy").default('csv_order'), // CustomerQueuePolicy: which waiting customer gets the next freed box
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").default(sql`now()`),
   completedAt: timestamp("completed_at"),
+  deletedAt: timestamp("deleted_at"), // Soft delete: set while the job sits in Recently Deleted
+  deletedBy: varchar("deleted_by").references(() => users.id),
+  purgeAfter: timestamp("purge_after"), // End of retention - the purge sweep removes the job and its history for good
 });
 
 // Box Requirements: Each box contains specific items for specific customers
@@ -47,6 +68,12 @@ export const boxRequirements = pgTable("box_requirements", {
   groupName: text("group_name"), // NEW: Group information for filtering
   boxStatus: varchar("box_status", { length: 20 }).default('active'), // BOX STATUS: 'active', 'emptied', 'transferred_to_group'
 
+  // Reallocation queue: per-customer values, repeated on each of the customer's rows like groupName
+  customerSequence: integer("customer_sequence"), // Customer's first appearance in the imported CSV (1-based)
+  queuePosition: integer("queue_position"), // Supervisor's manual queue order - overrides the job's policy
+  isQueuePinned: boolean("is_queue_pinned").default(false), // Pinned to the front of the queue
+  isQueuePriority: boolean("is_queue_priority").default(false), // Priority flag used by the 'priority' policy
+
   // Worker tracking fields for color highlighting
   lastWorkerUserId: varchar("last_worker_user_id").references(() => users.id),
   lastWorkerColor: text("last_worker_color"),
@@ -82,7 +109,7 @@ export const scanEvents = pgTable("scan_events", {
   customerName: text("customer_name"),
   boxNumber: integer("box_number"),
   calculatedTargetBox: integer("calculated_target_box"), // NEW: Calculated target box based on worker allocation
-  eventType: text("event_type").notNull(), // 'scan', 'undo', 'error', 'extra_item'
+  eventType: text("event_type").notNull(), // 'scan', 'undo', 'error', 'extra_item', 'put_aside', 'pending_drop', 'cancelled_drop'
   scanTime: timestamp("scan_time").default(sql`now()`),
   timeSincePrevious: integer("time_since_previous"), // milliseconds
 
@@ -96,11 +123,26 @@ export const scanEvents = pgTable("scan_events", {
   // Put Aside functionality (NEW) - PHASE 2 CLEANUP: These fields overlap with putAsideItems table functionality
   allocatedToBox: integer("allocated_to_box"), // Box number when Put Aside item is allocated
   allocatedAt: timestamp("allocated_at"), // Timestamp when Put Aside item is allocated
+  allocatedBy: varchar("allocated_by").references(() => users.id), // User who allocated or pulled it - null when a scan consumed it
+  allocationSource: text("allocation_source"), // 'scan', 'manual', 'pull'
+  reservedForBox: integer("reserved_for_box"), // Box whose newly assigned customer needs it - on that box's pull list
+
+  // Exact undo support (NEW): what a scan changed, so undo can reverse precisely that
+  boxRequirementId: varchar("box_requirement_id").references(() => boxRequirements.id, { onDelete: 'set null' }), // Requirement row this scan incremented
+  consumedPutAsideEventId: varchar("consumed_put_aside_event_id"), // Put Aside event this scan marked as allocated
+  previousLastWorkerUserId: varchar("previous_last_worker_user_id"), // Requirement's lastWorkerUserId before this scan
+  previousLastWorkerColor: text("previous_last_worker_color"),
+  undoneAt: timestamp("undone_at"), // Set on the original event once it has been undone
+  undoOfEventId: varchar("undo_of_event_id"), // Set on 'undo' events - the event they reversed
+
+  // Offline scan queue (NEW): client-generated idempotency key, so a replayed scan is only applied once
+  clientScanId: varchar("client_scan_id"),
 }, (table) => ({
   // Performance indexes for critical queries
   sessionIdIdx: index("scan_events_session_id_idx").on(table.sessionId),
   scanTimeIdx: index("scan_events_scan_time_idx").on(table.scanTime),
   eventTypeIdx: index("scan_events_event_type_idx").on(table.eventType),
+  clientScanIdIdx: uniqueIndex("scan_events_client_scan_id_idx").on(table.clientScanId),
 }));
 
 export const jobTypes = pgTable("job_types", {
@@ -108,18 +150,41 @@ export const jobTypes = pgTable("job_types", {
   name: varchar("name").notNull().unique(),
   benchmarkItemsPerHour: integer("benchmark_items_per_hour").default(71),
   requireGroupField: boolean("require_group_field").default(false),
+  allocationStrategy: text("allocation_strategy").default('worker_patterns'), // NEW: How scans pick boxes for this job type - see lib/worker-allocation.ts
+  scoringConfig: jsonb("scoring_config").$type<ScoringConfigOverrides>(), // NEW: Overrides for shared/scoring.ts (speed bands, penalties, idle gap)
+  requireBoxConfirmation: boolean("require_box_confirmation").default(false), // NEW: Workers scan the box label before an item scan is committed
+  qaSamplingConfig: jsonb("qa_sampling_config").$type<QaSamplingConfigOverrides>(), // NEW: Overrides for shared/qa-sampling.ts (which boxes CheckCount should verify)
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").default(sql`now()`),
 });
 
+// NEW: Saved column mappings so a customer's file layout only has to be mapped once
+export const importProfiles = pgTable("import_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull().unique(),
+  customerLabel: text("customer_label"), // Who sends files in this layout (free text)
+  jobTypeId: varchar("job_type_id").references(() => jobTypes.id, { onDelete: 'set null' }),
+  columnMapping: jsonb("column_mapping").notNull(), // ImportColumnMapping: job field -> source column header
+  delimiter: text("delimiter"), // CSV/TSV only; null = detect
+  encoding: text("encoding"), // null = detect
+  sheetName: text("sheet_name"), // XLSX only; null = first sheet
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
 export const workerBoxAssignments = pgTable("worker_box_assignments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   jobId: varchar("job_id").notNull().references(() => jobs.id, { onDelete: 'cascade' }),
   workerId: varchar("worker_id").notNull().references(() => users.id),
-  boxNumber: integer("box_number"),
+  boxNumber: integer("box_number"), // Worker's current position - the box they last scanned into
   assignmentType: text("assignment_type").notNull(), // 'ascending', 'descending', 'middle_up', 'middle_down'
   createdAt: timestamp("created_at").default(sql`now()`),
-});
+  updatedAt: timestamp("updated_at").default(sql`now()`), // NEW: When the position last moved
+}, (table) => ({
+  // One position row per worker per job
+  jobWorkerIdx: uniqueIndex("worker_box_assignments_job_worker_idx").on(table.jobId, table.workerId),
+}));
 
 // PHASE 4: Removed sessionSnapshots table (unused dead code)
 
@@ -159,6 +224,9 @@ export const archiveWorkerStats = pgTable("archive_worker_stats", {
   // Scanning statistics
   totalScans: integer("total_scans").default(0),
   totalSessionTime: integer("total_session_time").default(0), // in minutes
+  activeScanningTime: integer("active_scanning_time").default(0), // in seconds, excluding idle gaps
+  scansPerHour: integer("scans_per_hour").default(0),
+  score: decimal("score", { precision: 3, scale: 1 }).default("0.0"), // Same 1-10 score as the live view (shared/scoring.ts)
 
   // CheckCount statistics per worker
   itemsChecked: integer("items_checked").default(0),
@@ -224,7 +292,7 @@ export const jobAssignments = pgTable("job_assignments", {
   isActive: boolean("is_active").default(true),
   assignedColor: text("assigned_color"), // Color for the worker in dashboards/reports
   allocationPattern: text("allocation_pattern").default('ascending'), // Box allocation pattern (ascending, descending, middle_up, middle_down)
-  workerIndex: integer("worker_index").default(0), // Position in worker assignment order (0-3)
+  workerIndex: integer("worker_index").default(0), // Position in worker assignment order (0-based, no upper limit)
 });
 
 // CheckCount Tables (NEW)
@@ -242,6 +310,12 @@ export const checkSessions = pgTable("check_sessions", {
   correctionsApplied: boolean("corrections_applied").default(false), // NEW: Track if corrections were applied
   isComplete: boolean("is_complete").default(false),
   createdAt: timestamp("created_at").default(sql`now()`),
+
+  // One checker owns an active session - resumable from its events on any of their devices
+  lastActivityTime: timestamp("last_activity_time").default(sql`now()`), // Last scan or heartbeat from the checker's device
+  cancelReason: text("cancel_reason"), // CheckSessionCancelReason when status is 'cancelled'
+  handedOverFrom: varchar("handed_over_from").references(() => users.id), // Previous owner after the last handover
+  handedOverAt: timestamp("handed_over_at"),
 });
 
 export const checkEvents = pgTable("check_events", {
@@ -251,9 +325,20 @@ export const checkEvents = pgTable("check_events", {
   productName: text("product_name"),
   scannedQty: integer("scanned_qty").notNull(),
   expectedQty: integer("expected_qty").notNull(),
-  discrepancyType: text("discrepancy_type").notNull(), // 'match', 'shortage', 'excess'
-  eventType: text("event_type").notNull().default('scan'), // 'manual_adjustment'
+  discrepancyType: text("discrepancy_type").notNull(), // 'match', 'shortage', 'excess', 'wrong_item'
+  eventType: text("event_type").notNull().default('scan'), // 'manual_adjustment', 'wrong_item'
   scanTime: timestamp("scan_time").default(sql`now()`),
+  scannedBy: varchar("scanned_by").references(() => users.id), // Checker who scanned it - sessions can change hands
+
+  // wrong_item findings: a barcode that doesn't belong in the checked box
+  expectedBoxNumber: integer("expected_box_number"), // Box the item belongs in, null if no box needs it
+  expectedCustomerName: text("expected_customer_name"), // Customer the item belongs to, null if not in the job
+  attributedUserId: varchar("attributed_user_id").references(() => users.id), // Worker who last scanned into the checked box
+  resolution: text("resolution"), // CheckWrongItemResolution once the checker has dealt with the item
+  resolvedBoxNumber: integer("resolved_box_number"), // Box the item was moved to for 'move_to_box'
+  matchedScanEventId: varchar("matched_scan_event_id"), // 'move_to_box' of a mis-drop - the worker scan that already credited the box
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
 });
 
 export const checkResults = pgTable("check_results", {
@@ -283,6 +368,19 @@ export const boxHistory = pgTable("box_history", {
   boxSnapshot: jsonb("box_snapshot"), // Complete box requirements snapshot
 });
 
+// Audit log for destructive job actions. No job foreign key, so entries outlive purged jobs
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  action: text("action").notNull(), // AuditAction
+  performedBy: varchar("performed_by").references(() => users.id), // Null for the background purge
+  jobId: varchar("job_id"),
+  jobName: text("job_name"),
+  details: jsonb("details"),
+  createdAt: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  createdAtIdx: index("audit_log_created_at_idx").on(table.createdAt),
+}));
+
 // Put Aside items are now handled through scanEvents table with eventType='put_aside'
 // The putAsideItems table has been removed as it was unused in favor of the scanEvents approach
 
@@ -295,10 +393,19 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   preferences: one(userPreferences),
   createdRoleDefaults: many(roleDefaults),
   createdJobTypes: many(jobTypes),
+  createdImportProfiles: many(importProfiles),
   workerBoxAssignments: many(workerBoxAssignments),
   archivedJobs: many(jobArchives),
   checkSessions: many(checkSessions), // NEW
   boxHistoryPerformed: many(boxHistory), // NEW
+  authSessions: many(authSessions),
+}));
+
+export const authSessionsRelations = relations(authSessions, ({ one }) => ({
+  user: one(users, {
+    fields: [authSessions.userId],
+    references: [users.id],
+  }),
 }));
 
 export const jobTypesRelations = relations(jobTypes, ({ one, many }) => ({
@@ -307,6 +414,18 @@ export const jobTypesRelations = relations(jobTypes, ({ one, many }) => ({
     references: [users.id],
   }),
   jobs: many(jobs),
+  importProfiles: many(importProfiles),
+}));
+
+export const importProfilesRelations = relations(importProfiles, ({ one }) => ({
+  jobType: one(jobTypes, {
+    fields: [importProfiles.jobTypeId],
+    references: [jobTypes.id],
+  }),
+  creator: one(users, {
+    fields: [importProfiles.createdBy],
+    references: [users.id],
+  }),
 }));
 
 export const workerBoxAssignmentsRelations = relations(workerBoxAssignments, ({ one }) => ({
@@ -486,10 +605,18 @@ export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
 });
 
+export const insertAuthSessionSchema = createInsertSchema(authSessions).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertJobSchema = createInsertSchema(jobs).omit({
   id: true,
   createdAt: true,
   completedAt: true,
+  deletedAt: true,
+  deletedBy: true,
+  purgeAfter: true,
 });
 
 // Product schema removed - table eliminated
@@ -535,6 +662,12 @@ export const insertJobTypeSchema = createInsertSchema(jobTypes).omit({
   createdAt: true,
 });
 
+export const insertImportProfileSchema = createInsertSchema(importProfiles).omit({
+  id: true,
+  createdAt: true,
+  lastUsedAt: true,
+});
+
 export const insertWorkerBoxAssignmentSchema = createInsertSchema(workerBoxAssignments).omit({
   id: true,
   createdAt: true,
@@ -568,6 +701,11 @@ export const insertBoxHistorySchema = createInsertSchema(boxHistory).omit({
   timestamp: true,
 });
 
+export const insertAuditLogSchema = createInsertSchema(auditLog).omit({
+  id: true,
+  createdAt: true,
+});
+
 export type InsertJobArchive = z.infer<typeof insertJobArchiveSchema>;
 export type JobArchive = typeof jobArchives.$inferSelect;
 export type InsertArchiveWorkerStats = z.infer<typeof insertArchiveWorkerStatsSchema>;
@@ -577,6 +715,28 @@ export type ArchiveWorkerStats = typeof archiveWorkerStats.$inferSelect;
 export type InsertBoxHistory = z.infer<typeof insertBoxHistorySchema>;
 export type BoxHistory = typeof boxHistory.$inferSelect;
 
+// Audit Log Types
+export type AuditAction = 'job_deleted' | 'job_restored' | 'job_purged' | 'all_job_data_deleted';
+
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogSchema> & { action: AuditAction };
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+
+// Deleted jobs stay restorable for the retention period (JOB_RETENTION_DAYS overrides the default)
+export const DEFAULT_JOB_RETENTION_DAYS = 30;
+
+export type DeletedJob = Job & {
+  deletedByName: string | null;
+};
+
+// The emergency wipe is refused unless the manager typed this phrase
+export const DELETE_ALL_JOB_DATA_CONFIRMATION = 'DELETE ALL DATA';
+
+export const deleteAllJobDataSchema = z.object({
+  confirmation: z.literal(DELETE_ALL_JOB_DATA_CONFIRMATION, {
+    errorMap: () => ({ message: `Type ${DELETE_ALL_JOB_DATA_CONFIRMATION} to confirm` }),
+  }),
+});
+
 // User Preferences Schema
 export const insertUserPreferencesSchema = createInsertSchema(userPreferences).omit({
   id: true,
@@ -646,6 +806,35 @@ export const csvRowSchema = z.object({
   }),
 });
 
+// Job amendment rows give a line's new quantity (0 removes it); Product Name may be blank for barcodes already in the job
+export const amendmentRowSchema = csvRowSchema.extend({
+  "Product Name": z.string().optional(),
+  Qty: z.coerce.number().int().min(0, "Qty must be 0 (remove the line) or a positive integer"),
+});
+
+// Job fields an import file's columns can be mapped onto (CsvRow: BarCode, Product Name, Qty, CustomName, Group)
+export const IMPORT_FIELDS = ['barCode', 'productName', 'qty', 'customerName', 'groupName'] as const;
+export type ImportField = typeof IMPORT_FIELDS[number];
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['barCode', 'productName', 'qty', 'customerName'];
+export const REQUIRED_AMENDMENT_FIELDS: ImportField[] = ['barCode', 'qty', 'customerName'];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  barCode: 'BarCode',
+  productName: 'Product Name',
+  qty: 'Qty',
+  customerName: 'CustomName',
+  groupName: 'Group',
+};
+
+export const importColumnMappingSchema = z.object({
+  barCode: z.string().optional(),
+  productName: z.string().optional(),
+  qty: z.string().optional(),
+  customerName: z.string().optional(),
+  groupName: z.string().optional(),
+});
+export type ImportColumnMapping = z.infer<typeof importColumnMappingSchema>;
+
 // Theme schema
 export const themeSchema = z.object({
   name: z.string(),
@@ -669,6 +858,8 @@ export const performanceReportSchema = z.object({
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type AuthSession = typeof authSessions.$inferSelect;
+export type InsertAuthSession = z.infer<typeof insertAuthSessionSchema>;
 export type Job = typeof jobs.$inferSelect;
 export type InsertJob = z.infer<typeof insertJobSchema>;
 // Product types removed - table eliminated
@@ -683,6 +874,8 @@ export type InsertRoleDefaults = z.infer<typeof insertRoleDefaultsSchema>;
 // New table types
 export type JobType = typeof jobTypes.$inferSelect;
 export type InsertJobType = z.infer<typeof insertJobTypeSchema>;
+export type ImportProfile = typeof importProfiles.$inferSelect;
+export type InsertImportProfile = z.infer<typeof insertImportProfileSchema>;
 export type WorkerBoxAssignment = typeof workerBoxAssignments.$inferSelect;
 export type InsertWorkerBoxAssignment = z.infer<typeof insertWorkerBoxAssignmentSchema>;
 // PHASE 4: Removed SessionSnapshot types (table removed)
@@ -703,9 +896,532 @@ export type InsertBoxRequirement = z.infer<typeof insertBoxRequirementSchema>;
 
 export type Login = z.infer<typeof loginSchema>;
 export type CsvRow = z.infer<typeof csvRowSchema>;
+export type AmendmentRow = z.infer<typeof amendmentRowSchema>;
 export type Theme = z.infer<typeof themeSchema>;
 export type PerformanceReport = z.infer<typeof performanceReportSchema>;
 
+// Why an undo request was refused for a particular scan event
+export type UndoRejectionCode =
+  | 'EVENT_NOT_FOUND'
+  | 'NOT_UNDOABLE'
+  | 'ALREADY_UNDONE'
+  | 'UNDO_WINDOW_EXPIRED'
+  | 'BOX_EMPTIED'
+  | 'BOX_TRANSFERRED'
+  | 'BOX_CHECKED';
+
+export interface UndoRejection {
+  scanEventId: string;
+  code: UndoRejectionCode;
+  message: string;
+}
+
+// Why the server refused a scan, undo, check or box write on a job
+export type JobWriteRejectionCode =
+  | 'JOB_NOT_FOUND'
+  | 'JOB_ARCHIVED'
+  | 'JOB_LOCKED'
+  | 'JOB_PAUSED'
+  | 'NOT_ASSIGNED'
+  | 'SESSION_NOT_FOUND'
+  | 'SESSION_CLOSED';
+
+export const JOB_WRITE_REJECTION_MESSAGES: Record<JobWriteRejectionCode, string> = {
+  JOB_NOT_FOUND: 'Job not found',
+  JOB_ARCHIVED: 'This job has been archived and can no longer be changed',
+  JOB_LOCKED: 'This job has been locked by a manager',
+  JOB_PAUSED: 'Scanning is paused by manager. Please wait for scanning to be resumed.',
+  NOT_ASSIGNED: 'You are not assigned to this job',
+  SESSION_NOT_FOUND: 'Scan session not found',
+  SESSION_CLOSED: 'Your scan session has been closed - start a new one to keep scanning',
+};
+
+// Definitive result of allocating a scan, returned to the scanning client
+export interface ScanAllocation {
+  outcome: 'allocated' | 'put_aside' | 'extra_item' | 'pending_drop' | 'error'; // pending_drop: waiting for the box label scan
+  lostSlotRace: boolean; // A box picked for this scan was filled by another worker first
+  consumedPutAside: boolean;
+  duplicate: boolean; // The scan's clientScanId was already applied - this is the original event's outcome
+}
+
+// Result of scanning a box label to confirm a pending drop ('pending_drop' scan event).
+// 'retargeted': the slot was filled by someone else first - drop into expectedBoxNumber instead.
+// 'cancelled': no box needs the item any more - the pending drop was cancelled, scan the item again.
+export interface BoxDropConfirmation {
+  outcome: 'confirmed' | 'wrong_box' | 'retargeted' | 'cancelled';
+  scanEvent: ScanEvent; // The pending event - a committed 'scan' once confirmed
+  errorEvent: ScanEvent | null; // The 'error' event recorded for a wrong box
+  expectedBoxNumber: number | null;
+  consumedPutAside: boolean;
+}
+
+// Put Aside items are 'put_aside' scan events, one per unit. 'reallocated' once allocatedAt is set.
+export type PutAsideStatus = 'pending' | 'reallocated';
+export const PUT_ASIDE_STATUSES: PutAsideStatus[] = ['pending', 'reallocated'];
+
+// scan: a worker scanned the same barcode into a box; manual: allocated from the Put Aside Manager;
+// pull: reserved for a reassigned box and confirmed by a worker scanning it off the shelf
+export type PutAsideAllocationSource = 'scan' | 'manual' | 'pull' | 'check'; // 'check': a wrong item moved to its box during CheckCount
+
+export interface PutAsideItemDetail {
+  id: string;
+  jobId: string;
+  jobName: string | null;
+  barCode: string;
+  productName: string | null;
+  status: PutAsideStatus;
+  putAsideBy: string | null;
+  putAsideWorkerName: string | null;
+  putAsideAt: Date | null;
+  customerName: string | null; // Customer the item was credited to
+  reservedForBox: number | null;
+  reallocatedToBoxNumber: number | null;
+  reallocatedAt: Date | null;
+  reallocatedBy: string | null;
+  reallocatedByName: string | null;
+  allocationSource: PutAsideAllocationSource | null;
+}
+
+// Pending Put Aside items with the same barcode
+export interface PutAsideGroup {
+  barCode: string;
+  productName: string | null;
+  qty: number;
+  itemIds: string[];
+}
+
+// A box whose current customer still needs a Put Aside item's barcode
+export interface PutAsideSuggestion {
+  boxNumber: number;
+  customerName: string;
+  groupName: string | null;
+  remainingQty: number;
+}
+
+export interface PutAsideAllocation {
+  item: ScanEvent; // The allocated 'put_aside' event
+  boxNumber: number;
+  customerName: string;
+}
+
+// Reserved Put Aside items to pull from the shelf into a box, one line per barcode
+export interface PutAsidePickLine {
+  boxNumber: number;
+  customerName: string | null;
+  barCode: string;
+  productName: string | null;
+  qty: number;
+  itemIds: string[];
+}
+
+// Result of a worker scanning an item off the pull list.
+// 'not_needed': the box was filled meanwhile - the reservation is released and the item stays put aside.
+export interface PutAsidePullResult {
+  outcome: 'pulled' | 'not_on_pick_list' | 'not_needed';
+  allocation: PutAsideAllocation | null;
+}
+
+// CheckCount reconciliation: the server's comparison of a check session's recorded scans with the box.
+// 'recovered': more found than packed, within the required quantity; 'excess': found beyond the required quantity.
+export type CheckLineOutcome = 'match' | 'recovered' | 'excess' | 'shortage';
+
+export interface CheckReconciliationLine {
+  boxRequirementId: string;
+  barCode: string;
+  productName: string;
+  requiredQty: number;
+  originalQty: number; // Packed quantity on the box now
+  checkQty: number; // Units scanned during the check
+  outcome: CheckLineOutcome;
+  correctedQty: number; // Packed quantity once corrections are accepted - capped at requiredQty
+  extraQty: number; // Units beyond requiredQty, recorded as extra items once accepted
+}
+
+export interface CheckReconciliation {
+  sessionId: string;
+  jobId: string;
+  boxNumber: number;
+  version: string; // Changes whenever the box or the check's scans change - sent back with the decision
+  lines: CheckReconciliationLine[];
+  discrepancies: number;
+  totalCheckScans: number;
+  extraItems: Array<{ barCode: string; productName: string; qty: number }>;
+  wrongItems: CheckWrongItemFinding[]; // Resolved on their own - accepting or rejecting the proposal leaves them as they are
+}
+
+// A barcode found in a checked box it doesn't belong in, and where it should go
+export type CheckWrongItemResolution = 'move_to_box' | 'extra_item' | 'put_aside';
+export const CHECK_WRONG_ITEM_RESOLUTIONS: CheckWrongItemResolution[] = ['move_to_box', 'extra_item', 'put_aside'];
+
+export interface CheckWrongItemFinding {
+  checkEventId: string;
+  barCode: string;
+  productName: string | null;
+  expectedBoxNumber: number | null;
+  expectedCustomerName: string | null;
+  attributedUserId: string | null;
+  attributedWorkerName: string | null;
+  resolution: CheckWrongItemResolution | null;
+  resolvedBoxNumber: number | null;
+  scanTime: string | null;
+}
+
+export const checkWrongItemResolutionSchema = z.object({
+  resolution: z.enum(CHECK_WRONG_ITEM_RESOLUTIONS as [CheckWrongItemResolution, ...CheckWrongItemResolution[]]),
+  targetBoxNumber: z.number().int().positive().optional(), // 'move_to_box' - defaults to the box the item belongs in
+});
+
+export type CheckWrongItemResolutionResult =
+  | { outcome: 'resolved'; finding: CheckWrongItemFinding; allocation: PutAsideAllocation | null }
+  | { outcome: 'already_resolved'; finding: CheckWrongItemFinding }
+  | { outcome: 'no_target_box' }
+  | { outcome: 'box_does_not_need_item' };
+
+export const checkResolutionSchema = z.object({
+  decision: z.enum(['accept', 'reject']),
+  version: z.string().min(1),
+});
+
+export type CheckResolutionDecision = z.infer<typeof checkResolutionSchema>['decision'];
+
+// Check session ownership: one active session per box. Its checker's device heartbeats while the
+// check is open; another checker can take the box over (supervisors any time, workers once the
+// owner has gone quiet), and sessions with no activity for the abandon timeout are cancelled.
+export const CHECK_SESSION_HEARTBEAT_MS = 60 * 1000;
+export const CHECK_SESSION_HANDOVER_IDLE_MS = 2 * 60 * 1000;
+export const CHECK_SESSION_ABANDON_MS = 15 * 60 * 1000;
+
+export type CheckSessionCancelReason = 'abandoned' | 'cancelled_by_checker';
+
+export const checkSessionStartSchema = z.object({
+  jobId: z.string().min(1),
+  boxNumber: z.coerce.number().int().positive(),
+  takeOver: z.boolean().optional(), // Take the box over from the checker who owns it
+});
+
+export interface ActiveCheckSession {
+  sessionId: string;
+  jobId: string;
+  boxNumber: number;
+  customerName: string | null;
+  userId: string;
+  checkerName: string;
+  startTime: string;
+  lastActivityTime: string;
+  totalItemsExpected: number;
+  totalItemsScanned: number;
+  handedOverFromName: string | null;
+}
+
+// 'locked': another checker owns the box - canTakeOver says whether this user may take it over
+export type CheckSessionStart =
+  | { outcome: 'started' | 'resumed' | 'handed_over'; session: CheckSession; reconciliation: CheckReconciliation }
+  | { outcome: 'locked'; activeCheck: ActiveCheckSession; canTakeOver: boolean }
+  | { outcome: 'empty_box' };
+
+// 'stale': the box or the check's scans changed since the proposal was shown - review the new one
+export type CheckResolution =
+  | { outcome: 'resolved'; session: CheckSession; reconciliation: CheckReconciliation }
+  | { outcome: 'session_closed'; session: CheckSession }
+  | { outcome: 'stale'; reconciliation: CheckReconciliation };
+
+// QA check queue: packed boxes the job's sampling rules want verified by CheckCount.
+// A box stays queued once picked; it counts as checked when a CheckCount completed
+// after it was last packed or corrected.
+export type QaSampleReason = 'correction' | 'worker_risk' | 'every_nth' | 'random_sample';
+export const QA_SAMPLE_REASON_LABELS: Record<QaSampleReason, string> = {
+  correction: 'Box corrected',
+  worker_risk: 'At-risk packer',
+  every_nth: 'Every Nth box',
+  random_sample: 'Random sample',
+};
+
+export type QaCheckStatus = 'pending' | 'in_progress' | 'checked';
+
+export interface QaCheckQueueItem {
+  boxNumber: number;
+  customerName: string;
+  packedBy: string | null; // Worker with the most scans into the box
+  packedByName: string | null;
+  packedAt: string | null; // ISO timestamp of the box's last scan
+  reasons: QaSampleReason[]; // Most urgent first
+  status: QaCheckStatus;
+  lastCheckedAt: string | null;
+  discrepanciesFound: number | null; // From the check that cleared the box
+}
+
+export interface QaWorkerRisk {
+  userId: string;
+  name: string;
+  discrepancies: number; // Checked lines with a discrepancy in the lookback window
+  undoRate: number; // Percent of scans
+  isAtRisk: boolean;
+}
+
+export interface QaCheckQueue {
+  jobId: string;
+  config: QaSamplingConfig;
+  packedBoxes: number;
+  totalQueued: number;
+  checkedCount: number;
+  pendingCount: number;
+  progress: number; // Percent of queued boxes checked
+  items: QaCheckQueueItem[]; // Pending boxes first, in the order they should be checked
+  workers: QaWorkerRisk[];
+}
+
+// A scan captured on the worker's device, replayed to the server in capture order
+export const queuedScanSchema = z.object({
+  clientScanId: z.string().min(1).max(64),
+  barCode: z.string().trim().min(1),
+  capturedAt: z.string().datetime(),
+});
+
+export type QueuedScan = z.infer<typeof queuedScanSchema>;
+
+export const scanReplayRequestSchema = z.object({
+  jobId: z.string().min(1),
+  scans: z.array(queuedScanSchema).min(1).max(100),
+});
+
+export interface ScanReplayResult {
+  clientScanId: string;
+  barCode: string;
+  outcome: ScanAllocation['outcome'];
+  duplicate: boolean;
+  boxNumber: number | null;
+  customerName: string | null;
+  productName: string | null;
+}
+
+export interface ScanReplayResponse {
+  results: ScanReplayResult[]; // In capture order, one per scan that was applied (or already had been)
+  failed: { clientScanId: string; message: string } | null; // Replay stops at the first failure so order is kept
+}
+
+// Where a worker sits in the job's allocation plan, for the supervisor view
+export interface WorkerPosition {
+  userId: string;
+  name: string;
+  staffId: string;
+  assignedColor: string | null;
+  workerSlot: number; // Rank among the job's active workers (0-based)
+  allocationPattern: string | null;
+  allocationLabel: string;
+  zoneStartBox: number | null; // First box of the worker's route/zone (null when the strategy has no fixed route)
+  zoneEndBox: number | null;
+  zoneBoxCount: number;
+  openBoxesInZone: number; // Boxes on the worker's route that still need items
+  currentBoxNumber: number | null;
+  sequencePosition: number | null; // 1-based position of currentBoxNumber along the route
+  lastMovedAt: Date | null;
+}
+
+// Problems found while validating an import file
+export type ImportIssueCode =
+  | 'INVALID_ROW'
+  | 'NO_ROWS'
+  | 'GROUP_REQUIRED'
+  | 'BARCODE_PRODUCT_MISMATCH'
+  | 'CUSTOMER_GROUP_MISMATCH'
+  | 'DUPLICATE_ROWS'
+  | 'BARCODE_NORMALIZED'
+  | 'UNALLOCATED_CUSTOMERS'
+  | 'BOX_LIMIT_LOW'
+  | 'PRODUCT_NAME_REQUIRED'
+  | 'LINE_LOCKED'
+  | 'QTY_ALREADY_EXCEEDED'
+  | 'UNKNOWN_LINE'
+  | 'NO_CHANGES';
+
+export interface ImportIssue {
+  severity: 'error' | 'warning'; // Errors block job creation, warnings do not
+  code: ImportIssueCode;
+  row: number | null; // 1-based data row (header excluded); null for file-level issues
+  field: ImportField | null;
+  message: string;
+}
+
+// Rows for the same barcode and customer, which become a single box requirement
+export interface ImportDuplicate {
+  barCode: string;
+  customerName: string;
+  rows: number[];
+  totalQty: number;
+}
+
+// Dry-run result of an import: everything job creation would do, without creating anything
+export interface ImportPreview {
+  valid: boolean; // No errors - the job can be created
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+  duplicates: ImportDuplicate[];
+  totals: {
+    rows: number;
+    validRows: number;
+    totalQty: number;
+    customers: number;
+    barcodes: number;
+    groups: number;
+    boxRequirements: number; // After duplicate rows are merged
+  };
+  boxes: {
+    boxLimit: number | null;
+    projectedBoxCount: number;
+    unallocatedCustomers: string[]; // Beyond the box limit - assigned a box when one frees up
+  };
+}
+
+// One barcode/customer line a job amendment adds, re-quantifies or removes
+export interface JobAmendmentChange {
+  type: 'add_line' | 'change_qty' | 'remove_line';
+  rows: number[]; // Source rows in the amendment file
+  barCode: string;
+  productName: string;
+  customerName: string;
+  groupName: string | null;
+  boxNumber: number | null;
+  isNewCustomer: boolean;
+  oldQty: number; // 0 for added lines
+  newQty: number; // 0 for removed lines
+  scannedQty: number;
+  excessQty: number; // Already scanned beyond newQty - these units come out of the box
+  boxRequirementIds: string[]; // Existing rows for the line (several on jobs imported before duplicate rows were merged)
+}
+
+// Where units scanned beyond an amended quantity are recorded once taken out of the box
+export type AmendmentExcessAction = 'put_aside' | 'extra_item';
+export const AMENDMENT_EXCESS_ACTIONS: AmendmentExcessAction[] = ['put_aside', 'extra_item'];
+
+// Dry-run result of amending a live job from a delta file
+export interface JobAmendmentPreview {
+  valid: boolean;
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+  changes: JobAmendmentChange[];
+  totals: {
+    rows: number;
+    validRows: number;
+    addedLines: number;
+    changedLines: number;
+    removedLines: number;
+    unchangedLines: number;
+    addedCustomers: number;
+    excessQty: number;
+    totalProductsBefore: number;
+    totalProductsAfter: number;
+    customersBefore: number;
+    customersAfter: number;
+  };
+}
+
+// Worker analytics: per-worker shift metrics across jobs and date ranges
+export type WorkerAnalyticsBucket = 'hour' | 'day' | 'week';
+export const WORKER_ANALYTICS_BUCKETS: WorkerAnalyticsBucket[] = ['hour', 'day', 'week'];
+// Keeps a trend chart to a few hundred points
+export const WORKER_ANALYTICS_MAX_RANGE_DAYS: Record<WorkerAnalyticsBucket, number> = { hour: 14, day: 366, week: 731 };
+
+export const workerAnalyticsQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  bucket: z.enum(WORKER_ANALYTICS_BUCKETS as [WorkerAnalyticsBucket, ...WorkerAnalyticsBucket[]]).default('day'),
+  jobId: z.string().optional(),
+  timezoneOffset: z.coerce.number().int().min(-840).max(840).default(0), // Date.getTimezoneOffset() of the viewer - buckets follow their local days
+})
+  .refine((query) => query.from < query.to, { message: '"from" must be before "to"' })
+  .refine((query) => query.to.getTime() - query.from.getTime() <= WORKER_ANALYTICS_MAX_RANGE_DAYS[query.bucket] * 24 * 60 * 60 * 1000, {
+    message: 'Date range is too long for this bucket size',
+  });
+
+export type WorkerAnalyticsQuery = z.infer<typeof workerAnalyticsQuerySchema>;
+
+export interface WorkerAnalyticsMetrics {
+  totalScans: number;
+  errorCount: number;
+  undoCount: number;
+  extrasCaused: number; // Extra items the worker scanned while packing
+  activeTime: number; // Seconds - gaps between scans up to the job type's idle-gap threshold
+  idleTime: number; // Seconds - the rest of the worker's session time
+  scansPerHour: number; // Per active hour
+  errorRate: number; // Percent of scan attempts
+  undoRate: number; // Percent of scans
+  checkedLines: number; // Box lines this worker packed that CheckCount has verified
+  accurateLines: number; // ... of which CheckCount found no discrepancy
+  checkAccuracy: number | null; // Percent, null until any of their boxes has been checked
+}
+
+export interface WorkerAnalyticsPoint extends WorkerAnalyticsMetrics {
+  bucketStart: string; // ISO timestamp
+}
+
+export interface WorkerAnalyticsJob {
+  jobId: string;
+  jobName: string;
+  metrics: WorkerAnalyticsMetrics;
+}
+
+export interface WorkerAnalytics {
+  userId: string;
+  name: string;
+  staffId: string;
+  metrics: WorkerAnalyticsMetrics;
+  trend: WorkerAnalyticsPoint[];
+  jobs: WorkerAnalyticsJob[];
+}
+
+export interface WorkerAnalyticsReport {
+  from: string;
+  to: string;
+  bucket: WorkerAnalyticsBucket;
+  totals: WorkerAnalyticsMetrics;
+  trend: WorkerAnalyticsPoint[];
+  workers: WorkerAnalytics[];
+}
+
+// Reallocation queue: order in which customers without a box are given the next freed box.
+// Pinned customers come first, then the supervisor's manual order, then the job's policy,
+// with the original CSV order breaking any remaining ties.
+export type CustomerQueuePolicy = 'csv_order' | 'priority' | 'group_first' | 'largest_first' | 'smallest_first';
+export const CUSTOMER_QUEUE_POLICIES: CustomerQueuePolicy[] = ['csv_order', 'priority', 'group_first', 'largest_first', 'smallest_first'];
+export const CUSTOMER_QUEUE_POLICY_LABELS: Record<CustomerQueuePolicy, string> = {
+  csv_order: 'CSV order',
+  priority: 'Priority customers first',
+  group_first: 'Group by group',
+  largest_first: 'Largest order first',
+  smallest_first: 'Smallest order first',
+};
+
+export interface QueuedCustomer {
+  customerName: string;
+  groupName: string | null;
+  totalItems: number;
+  productCount: number;
+  customerSequence: number | null; // null for jobs imported before the CSV order was stored
+  queuePosition: number | null;
+  isPinned: boolean;
+  isPriority: boolean;
+  position: number; // 1-based place in the queue
+}
+
+export interface CustomerQueue {
+  policy: CustomerQueuePolicy;
+  hasManualOrder: boolean;
+  customers: QueuedCustomer[];
+}
+
+export const customerQueueUpdateSchema = z.object({
+  policy: z.enum(CUSTOMER_QUEUE_POLICIES as [CustomerQueuePolicy, ...CustomerQueuePolicy[]]).optional(),
+  order: z.array(z.string().min(1)).nullable().optional(), // Customer names front to back; null clears the manual order
+});
+
+export const customerQueueFlagsSchema = z.object({
+  isPinned: z.boolean().optional(),
+  isPriority: z.boolean().optional(),
+});
+
+export type CustomerQueueUpdate = z.infer<typeof customerQueueUpdateSchema>;
+export type CustomerQueueFlags = z.infer<typeof customerQueueFlagsSchema>;
+
 // WebSocket Message Types - Phase 1 Task 1.2
 export interface WSMessage {
   type: string;
@@ -717,8 +1433,17 @@ export interface WSMessage {
 export interface WSAuthenticateMessage {
   type: 'authenticate';
   data: {
-    userId: string;
+    token: string; // Signed access token - the server derives the user from it
     jobId?: string;
+    jobIds?: string[]; // Subscribe to several jobs as part of the handshake
+  };
+}
+
+// Explicit job subscriptions - each is checked against role and job assignments
+export interface WSSubscriptionMessage {
+  type: 'subscribe' | 'unsubscribe';
+  data: {
+    jobId: string;
   };
 }
 
@@ -769,8 +1494,8 @@ export interface WSCheckCountMessage {
     sessionId: string;
     boxNumber: number;
     applyCorrections: boolean;
-    corrections: any[];
-    extraItems: any[];
+    corrections: CheckReconciliationLine[]; // Discrepant lines as resolved
+    extraItems: CheckReconciliation['extraItems'];
     extraItemsCount: number;
     progress: any;
     timestamp: string;
@@ -779,11 +1504,63 @@ export interface WSCheckCountMessage {
   };
 }
 
+export interface WSCheckSessionMessage {
+  type: 'check_session_update';
+  data: {
+    action: 'started' | 'resumed' | 'handed_over' | 'completed' | 'cancelled';
+    sessionId: string;
+    boxNumber: number;
+    userId: string; // Owner after the action
+    userName: string;
+    cancelReason?: CheckSessionCancelReason;
+    timestamp: string;
+  };
+}
+
+export interface WSScansReplayedMessage {
+  type: 'scans_replayed';
+  data: {
+    jobId: string;
+    userId: string;
+    applied: number;
+    putAside: number;
+    extraItems: number;
+    timestamp: string;
+  };
+}
+
+export interface WSJobAmendedMessage {
+  type: 'job_amended';
+  data: {
+    jobId: string;
+    addedLines: number;
+    changedLines: number;
+    removedLines: number;
+    excessQty: number;
+    excessAction: AmendmentExcessAction;
+    performedBy: string;
+    timestamp: string;
+  };
+}
+
 export interface WSPutAsideMessage {
   type: 'put_aside_allocated';
   data: {
     allocatedEvent: any;
     boxNumber: number;
+    customerName: string;
+    performedBy: string;
+    timestamp: string;
+  };
+}
+
+export interface WSPutAsidePickListMessage {
+  type: 'put_aside_pick_list';
+  data: {
+    jobId: string;
+    boxNumber: number;
+    customerName: string | null;
+    lines: PutAsidePickLine[];
     performedBy: string;
     timestamp: string;
   };
@@ -0,0 +1,203 @@
+import { z } from "zod";
+
+/**
+ * Worker performance scoring, shared by the server (live scan_update broadcasts,
+ * supervisor view, archive stats) and the client so every screen shows the same
+ * 1-10 score for the same scans.
+ *
+ * Speed is scored against the job type's benchmark items/hour: speed bands are
+ * multiples of the benchmark, interpolated linearly, so meeting the benchmark
+ * scores 6. Accuracy scales the speed score, then error and undo penalties apply.
+ * Only time between scans up to the idle-gap threshold counts as active time.
+ */
+
+export const DEFAULT_BENCHMARK_ITEMS_PER_HOUR = 71;
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 10;
+
+export interface SpeedBand {
+  ratio: number; // Scans per hour as a multiple of the benchmark
+  score: number; // Score at exactly that speed
+}
+
+export interface ScoringConfig {
+  benchmarkItemsPerHour: number;
+  speedBands: SpeedBand[]; // Ascending by ratio - below the first band scores MIN_SCORE
+  accuracyWeight: number; // 0 ignores accuracy, 1 multiplies the speed score by accuracy
+  errorPenalty: number; // Subtracted per error scan
+  undoPenalty: number; // Subtracted per undo
+  idleGapMs: number; // Longer gaps between scans are breaks, not scanning time
+}
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  benchmarkItemsPerHour: DEFAULT_BENCHMARK_ITEMS_PER_HOUR,
+  speedBands: [
+    { ratio: 0.25, score: 2 },
+    { ratio: 0.5, score: 4 },
+    { ratio: 1, score: 6 },
+    { ratio: 2.5, score: 8 },
+    { ratio: 5, score: 10 },
+  ],
+  accuracyWeight: 1,
+  errorPenalty: 0, // Errors already lower accuracy
+  undoPenalty: 0.05,
+  idleGapMs: 30 * 1000,
+};
+
+// Per-job-type overrides, stored on jobTypes.scoringConfig (the benchmark has its own column)
+export const scoringConfigOverridesSchema = z.object({
+  speedBands: z.array(z.object({
+    ratio: z.number().positive(),
+    score: z.number().min(MIN_SCORE).max(MAX_SCORE),
+  })).min(1).optional(),
+  accuracyWeight: z.number().min(0).max(1).optional(),
+  errorPenalty: z.number().min(0).max(MAX_SCORE).optional(),
+  undoPenalty: z.number().min(0).max(MAX_SCORE).optional(),
+  idleGapMs: z.number().int().min(1000).optional(),
+});
+
+export type ScoringConfigOverrides = z.infer<typeof scoringConfigOverridesSchema>;
+
+export function resolveScoringConfig(
+  benchmarkItemsPerHour?: number | null,
+  overrides?: ScoringConfigOverrides | null,
+): ScoringConfig {
+  return {
+    ...DEFAULT_SCORING_CONFIG,
+    ...overrides,
+    speedBands: [...(overrides?.speedBands || DEFAULT_SCORING_CONFIG.speedBands)].sort((a, b) => a.ratio - b.ratio),
+    benchmarkItemsPerHour: benchmarkItemsPerHour && benchmarkItemsPerHour > 0
+      ? benchmarkItemsPerHour
+      : DEFAULT_BENCHMARK_ITEMS_PER_HOUR,
+  };
+}
+
+export interface ScoredEvent {
+  eventType: string;
+  scanTime: Date | string | null;
+}
+
+export interface PerformanceResult {
+  totalScans: number;
+  scansPerHour: number;
+  accuracy: number; // Percent of scan attempts that weren't errors
+  score: number;
+  activeScanningTime: number; // Seconds
+  errorCount: number;
+  undoCount: number;
+}
+
+/**
+ * Active scanning time: the sum of gaps between consecutive events, skipping gaps
+ * longer than idleGapMs (breaks)
+ */
+export function calculateActiveTimeMs(scanTimes: Array<Date | string | null>, idleGapMs: number): number {
+  const times = scanTimes
+    .filter((time): time is Date | string => !!time)
+    .map((time) => new Date(time).getTime())
+    .sort((a, b) => a - b);
+
+  let activeMs = 0;
+  for (let i = 1; i < times.length; i++) {
+    const gap = times[i] - times[i - 1];
+    if (gap <= idleGapMs) {
+      activeMs += gap;
+    }
+  }
+  return activeMs;
+}
+
+export function calculateAccuracy(successfulScans: number, errorCount: number = 0): number {
+  const attempts = successfulScans + errorCount;
+  return attempts > 0 ? Math.round((successfulScans / attempts) * 100) : 100;
+}
+
+export function calculateSpeedScore(scansPerHour: number, config: ScoringConfig): number {
+  const ratio = scansPerHour / config.benchmarkItemsPerHour;
+  const bands = config.speedBands;
+  if (bands.length === 0 || ratio < bands[0].ratio) return MIN_SCORE;
+
+  for (let i = 1; i < bands.length; i++) {
+    if (ratio < bands[i].ratio) {
+      const lower = bands[i - 1];
+      const upper = bands[i];
+      return lower.score + (ratio - lower.ratio) / (upper.ratio - lower.ratio) * (upper.score - lower.score);
+    }
+  }
+  return bands[bands.length - 1].score;
+}
+
+export function calculateScore(
+  scansPerHour: number,
+  accuracy: number,
+  errorCount: number,
+  undoCount: number,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+): number {
+  if (scansPerHour <= 0) return 0;
+
+  const accuracyFactor = 1 - config.accuracyWeight + config.accuracyWeight * (accuracy / 100);
+  const score = calculateSpeedScore(scansPerHour, config) * accuracyFactor
+    - errorCount * config.errorPenalty
+    - undoCount * config.undoPenalty;
+
+  return Math.min(MAX_SCORE, Math.round(Math.max(MIN_SCORE, score) * 10) / 10);
+}
+
+/**
+ * Score a worker's scan events (one session, or all their sessions on a job)
+ */
+export function calculatePerformance(events: ScoredEvent[], config: ScoringConfig = DEFAULT_SCORING_CONFIG): PerformanceResult {
+  const totalScans = events.filter((event) => event.eventType === 'scan').length;
+  const errorCount = events.filter((event) => event.eventType === 'error').length;
+  const undoCount = events.filter((event) => event.eventType === 'undo').length;
+
+  const activeMs = calculateActiveTimeMs(events.map((event) => event.scanTime), config.idleGapMs);
+  const activeHours = activeMs / (1000 * 60 * 60);
+  const scansPerHour = activeHours > 0 ? Math.round(totalScans / activeHours) : 0;
+  const accuracy = calculateAccuracy(totalScans, errorCount);
+
+  return {
+    totalScans,
+    scansPerHour,
+    accuracy,
+    score: calculateScore(scansPerHour, accuracy, errorCount, undoCount, config),
+    activeScanningTime: Math.round(activeMs / 1000),
+    errorCount,
+    undoCount,
+  };
+}
+
+export function getScoreCategory(score: number): {
+  label: string;
+  color: string;
+  description: string;
+} {
+  if (score >= 9) {
+    return { label: "Excellent", color: "success", description: "Outstanding performance" };
+  } else if (score >= 7) {
+    return { label: "Good", color: "success", description: "Above average performance" };
+  } else if (score >= 5) {
+    return { label: "Average", color: "warning", description: "Meeting basic expectations" };
+  } else if (score >= 3) {
+    return { label: "Below Average", color: "warning", description: "Needs improvement" };
+  }
+  return { label: "Poor", color: "error", description: "Significant improvement needed" };
+}
+
+export function getBenchmarkComparison(scansPerHour: number, benchmarkItemsPerHour: number = DEFAULT_BENCHMARK_ITEMS_PER_HOUR): {
+  benchmark: string;
+  comparison: string;
+} {
+  const ratio = scansPerHour / benchmarkItemsPerHour;
+  if (ratio >= 1.4) {
+    return { benchmark: "Top 10%", comparison: "Significantly above benchmark" };
+  } else if (ratio >= 1.2) {
+    return { benchmark: "Top 25%", comparison: "Well above benchmark" };
+  } else if (ratio >= 1) {
+    return { benchmark: "On Benchmark", comparison: "Meeting the job type benchmark" };
+  } else if (ratio >= 0.7) {
+    return { benchmark: "Below Benchmark", comparison: "Below the job type benchmark" };
+  }
+  return { benchmark: "Bottom 25%", comparison: "Significantly below benchmark" };
+}
@@ -0,0 +1,170 @@
+/**
+ * Concurrency harness for scan allocation
+ *
+ * Fires parallel scans from several workers at the same barcodes of a job and
+ * verifies the allocation invariants:
+ *   - no box requirement ever ends with scannedQty > requiredQty
+ *   - every scan reported as 'allocated' is reflected in exactly one scannedQty increment
+ *   - scans that lose the last slot get a definite outcome (put_aside / extra_item)
+ *
+ * Usage (server running on localhost:5000, workers already assigned to the job):
+ *   JOB_ID=<job id> WORKERS="W001:1234,W002:1234,W003:1234" node test_concurrent_scans.js
+ *
+ * Optional: API_BASE, BARCODES="123,456" (defaults to the barcodes with open slots),
+ * OVERSCAN=5 (extra scans per barcode beyond what the job still needs).
+ * Note: this records real scans against the job - run it on a test job.
+ */
+
+const API_BASE = process.env.API_BASE || 'http://localhost:5000';
+const JOB_ID = process.env.JOB_ID;
+const WORKERS = (process.env.WORKERS || '').split(',').filter(Boolean);
+const OVERSCAN = parseInt(process.env.OVERSCAN || '5', 10);
+const MAX_BARCODES = 5;
+
+async function apiRequest(method, endpoint, token, body) {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`${method} ${endpoint} failed (${response.status}): ${data.message || data.error || 'unknown error'}`);
+  }
+  return data;
+}
+
+async function loginWorker(credentials) {
+  const [staffId, pin] = credentials.split(':');
+  const { token } = await apiRequest('POST', '/api/auth/login', null, { staffId, pin });
+  const { session } = await apiRequest('POST', '/api/scan-sessions/auto', token, { jobId: JOB_ID });
+  return { staffId, token, sessionId: session.id };
+}
+
+async function getRequirements(token) {
+  const { boxRequirements } = await apiRequest('GET', `/api/jobs/${JOB_ID}/box-requirements`, token);
+  return boxRequirements;
+}
+
+function totalScannedFor(requirements, barCode) {
+  return requirements
+    .filter(req => req.barCode === barCode && req.boxNumber !== null)
+    .reduce((sum, req) => sum + (req.scannedQty || 0), 0);
+}
+
+async function runConcurrencyTest() {
+  if (!JOB_ID || WORKERS.length < 2) {
+    console.error('❌ Set JOB_ID and at least two WORKERS ("staffId:pin,...") to run this harness');
+    return false;
+  }
+
+  console.log(`🔍 Running concurrent scan allocation test on job ${JOB_ID} with ${WORKERS.length} workers...\n`);
+
+  try {
+    const workers = await Promise.all(WORKERS.map(loginWorker));
+    console.log(`✅ Logged in ${workers.map(w => w.staffId).join(', ')}`);
+
+    const before = await getRequirements(workers[0].token);
+
+    // Pick barcodes that still have open slots in allocated boxes
+    const openByBarcode = new Map();
+    before
+      .filter(req => req.boxNumber !== null && (req.scannedQty || 0) < req.requiredQty)
+      .forEach(req => {
+        openByBarcode.set(req.barCode, (openByBarcode.get(req.barCode) || 0) + req.requiredQty - (req.scannedQty || 0));
+      });
+
+    const barcodes = process.env.BARCODES
+      ? process.env.BARCODES.split(',')
+      : Array.from(openByBarcode.keys()).slice(0, MAX_BARCODES);
+
+    if (barcodes.length === 0) {
+      console.error('❌ No barcodes with open slots found on this job');
+      return false;
+    }
+
+    // Build a burst that deliberately exceeds the open slots so the last ones are contended
+    const scans = [];
+    barcodes.forEach(barCode => {
+      const scanCount = (openByBarcode.get(barCode) || 0) + OVERSCAN;
+      for (let i = 0; i < scanCount; i++) {
+        scans.push({ barCode, worker: workers[i % workers.length] });
+      }
+    });
+
+    console.log(`Firing ${scans.length} parallel scans across ${barcodes.length} barcode(s)...`);
+
+    const results = await Promise.allSettled(scans.map(({ barCode, worker }) =>
+      apiRequest('POST', '/api/scan-events', worker.token, {
+        sessionId: worker.sessionId,
+        barCode,
+        eventType: 'scan',
+        jobId: JOB_ID
+      }).then(data => ({ barCode, ...data }))
+    ));
+
+    const after = await getRequirements(workers[0].token);
+
+    // Test 1: No requirement is over-filled
+    console.log('\nTest 1: Verifying no box requirement exceeds requiredQty...');
+    const overfilled = after.filter(req => (req.scannedQty || 0) > req.requiredQty);
+    overfilled.forEach(req => {
+      console.log(`❌ Box ${req.boxNumber} barcode ${req.barCode}: ${req.scannedQty}/${req.requiredQty}`);
+    });
+    const test1Passed = overfilled.length === 0;
+    console.log(`Test 1 Result: ${test1Passed ? 'PASSED' : 'FAILED'}\n`);
+
+    // Test 2: Every request returned a definite outcome
+    console.log('Test 2: Verifying every scan received a definite allocation outcome...');
+    const failures = results.filter(result => result.status === 'rejected');
+    const fulfilled = results.filter(result => result.status === 'fulfilled').map(result => result.value);
+    const missingOutcome = fulfilled.filter(result => !result.allocation || !result.allocation.outcome);
+    failures.forEach(result => console.log(`❌ Request failed: ${result.reason.message}`));
+    missingOutcome.forEach(result => console.log(`❌ Scan ${result.scanEvent && result.scanEvent.id} returned no allocation outcome`));
+    const test2Passed = failures.length === 0 && missingOutcome.length === 0;
+    console.log(`Test 2 Result: ${test2Passed ? 'PASSED' : 'FAILED'}\n`);
+
+    // Test 3: Allocated outcomes match the scannedQty increments exactly
+    console.log('Test 3: Verifying allocated scans match scannedQty increments...');
+    let test3Passed = true;
+    barcodes.forEach(barCode => {
+      const allocated = fulfilled.filter(result => result.barCode === barCode && result.allocation && result.allocation.outcome === 'allocated').length;
+      const increment = totalScannedFor(after, barCode) - totalScannedFor(before, barCode);
+      const outcomes = fulfilled
+        .filter(result => result.barCode === barCode)
+        .reduce((counts, result) => {
+          const outcome = result.allocation ? result.allocation.outcome : 'missing';
+          counts[outcome] = (counts[outcome] || 0) + 1;
+          return counts;
+        }, {});
+      const lostRaces = fulfilled.filter(result => result.barCode === barCode && result.allocation && result.allocation.lostSlotRace).length;
+
+      if (allocated === increment) {
+        console.log(`✅ Barcode ${barCode}: ${allocated} allocated = +${increment} scanned ${JSON.stringify(outcomes)}, ${lostRaces} lost slot race(s)`);
+      } else {
+        console.log(`❌ Barcode ${barCode}: ${allocated} allocated but scannedQty increased by ${increment}`);
+        test3Passed = false;
+      }
+    });
+    console.log(`Test 3 Result: ${test3Passed ? 'PASSED' : 'FAILED'}\n`);
+
+    const allTestsPassed = test1Passed && test2Passed && test3Passed;
+    console.log('='.repeat(60));
+    console.log(`CONCURRENCY SUMMARY: ${allTestsPassed ? '🎉 ALL TESTS PASSED' : '❌ SOME TESTS FAILED'}`);
+    console.log('='.repeat(60));
+
+    return allTestsPassed;
+
+  } catch (error) {
+    console.error('❌ Test execution failed:', error.message);
+    return false;
+  }
+}
+
+// Run the tests
+runConcurrencyTest().then(success => {
+  process.exit(success ? 0 : 1);
+});